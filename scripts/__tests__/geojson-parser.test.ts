@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest'
-import { deduplicateStations, extractStations, parseGeoJSON } from '../lib/geojson-parser.ts'
+import {
+  deduplicateStations,
+  extractSections,
+  extractStations,
+  parseGeoJSON,
+} from '../lib/geojson-parser.ts'
 
 describe('parseGeoJSON', () => {
   it('parses a valid FeatureCollection', () => {
@@ -267,6 +272,81 @@ describe('extractStations', () => {
   })
 })
 
+describe('extractSections', () => {
+  const feature = (
+    geometryType: string,
+    coordinates: number[] | number[][],
+    properties: Record<string, string | undefined>
+  ) => ({
+    type: 'Feature' as const,
+    geometry: { type: geometryType, coordinates },
+    properties,
+  })
+
+  it('extracts unnamed LineStrings as railroad sections', () => {
+    const geojson = {
+      type: 'FeatureCollection' as const,
+      features: [
+        feature(
+          'LineString',
+          [
+            [139.76, 35.68],
+            [139.77, 35.69],
+          ],
+          { N02_003: ' 山手線 ', N02_004: '東日本旅客鉄道' }
+        ),
+      ],
+    }
+    expect(extractSections(geojson)).toEqual([
+      {
+        line_name: '山手線',
+        operator: '東日本旅客鉄道',
+        coordinates: [
+          [139.76, 35.68],
+          [139.77, 35.69],
+        ],
+      },
+    ])
+  })
+
+  it('skips station features and non-LineString geometries', () => {
+    const geojson = {
+      type: 'FeatureCollection' as const,
+      features: [
+        feature(
+          'LineString',
+          [
+            [139.70221, 35.65723],
+            [139.70129, 35.65907],
+          ],
+          { N02_003: '山手線', N02_005: '渋谷' }
+        ),
+        feature('Point', [139.76, 35.68], { N02_003: '山手線' }),
+      ],
+    }
+    expect(extractSections(geojson)).toEqual([])
+  })
+
+  it('drops malformed pairs and sections shorter than two points', () => {
+    const geojson = {
+      type: 'FeatureCollection' as const,
+      features: [
+        feature('LineString', [[139.76, 35.68], [139.77]], { N02_003: '山手線' }),
+        feature('LineString', [[139.76, 35.68], [139.77], [139.78, 35.7]], {
+          N02_003: '山手線',
+        }),
+      ],
+    }
+    const result = extractSections(geojson)
+    expect(result).toHaveLength(1)
+    expect(result[0].coordinates).toEqual([
+      [139.76, 35.68],
+      [139.78, 35.7],
+    ])
+    expect(result[0].operator).toBeNull()
+  })
+})
+
 describe('deduplicateStations', () => {
   it('removes duplicate stations with same name and line_name', () => {
     const stations = [
@@ -0,0 +1,241 @@
+import { crc32, deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import type { StationWithCoords } from '../../src/types/index.ts'
+import {
+  buildTimetable,
+  type GtfsFeed,
+  matchStops,
+  normalizeStationName,
+  parseCsv,
+  parseGtfsTime,
+  readGtfsFeed,
+} from '../lib/gtfs.ts'
+import { readZipEntries } from '../lib/zip.ts'
+
+const station = (
+  id: number,
+  name: string,
+  lng: number,
+  lat: number,
+  line: string,
+  operator: string
+): StationWithCoords => ({ id, name, line_name: line, operator, lat, lng })
+
+const STATIONS: StationWithCoords[] = [
+  station(1, '東京', 139.7671, 35.6812, '東海道線', 'JR東日本'),
+  station(2, '品川', 139.7387, 35.6285, '東海道線', 'JR東日本'),
+  station(3, '横浜', 139.6225, 35.466, '東海道線', 'JR東日本'),
+  station(4, '品川', 139.7395, 35.628, '本線', '京急電鉄'),
+  station(5, '羽田空港', 139.785, 35.5494, '空港線', '京急電鉄'),
+]
+
+// A two-operator fixture feed: Tokyo has a parent station and a platform, the 京急 trip
+// passes a stop missing from the station dataset, and one JR trip runs on holidays only
+const FIXTURE: Record<string, string> = {
+  'stops.txt': [
+    'stop_id,stop_name,stop_lat,stop_lon,location_type,parent_station',
+    'TOKYO,東京駅,35.6812,139.7671,1,',
+    'TOKYO_1,"東京駅 1番線",35.6813,139.767,0,TOKYO',
+    'JR_SHINAGAWA,品川,35.6285,139.7387,0,',
+    'JR_YOKOHAMA,横浜,35.4660,139.6225,0,',
+    'KQ_SHINAGAWA,品川,35.6280,139.7395,0,',
+    'KQ_KITA,北品川,35.6222,139.7392,0,',
+    'KQ_HANEDA,羽田空港,35.5494,139.7850,0,',
+  ].join('\n'),
+  'trips.txt': [
+    'route_id,service_id,trip_id',
+    'JR,weekday,JR_0800',
+    'JR,holiday,JR_0900',
+    'KQ,weekday,KQ_0815',
+  ].join('\n'),
+  'stop_times.txt': [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    'JR_0800,08:00:00,08:00:00,TOKYO_1,1',
+    'JR_0800,08:30:00,08:30:00,JR_YOKOHAMA,3',
+    'JR_0800,08:08:00,08:09:00,JR_SHINAGAWA,2',
+    'JR_0900,09:00:00,09:00:00,TOKYO_1,1',
+    'JR_0900,09:08:00,09:09:00,JR_SHINAGAWA,2',
+    'KQ_0815,08:15:00,08:15:00,KQ_SHINAGAWA,1',
+    'KQ_0815,08:18:00,08:18:00,KQ_KITA,2',
+    'KQ_0815,08:35:00,08:35:00,KQ_HANEDA,3',
+  ].join('\n'),
+  'transfers.txt': [
+    'from_stop_id,to_stop_id,transfer_type,min_transfer_time',
+    'JR_SHINAGAWA,KQ_SHINAGAWA,2,300',
+  ].join('\n'),
+}
+
+const FEED: GtfsFeed = readGtfsFeed(new Map(Object.entries(FIXTURE)))
+
+const time = (h: number, m: number) => h * 3600 + m * 60
+
+/** Build a ZIP archive in memory (stored or deflated entries) */
+function zipOf(files: Record<string, string>, deflate: boolean): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content)
+    const data = deflate ? deflateRawSync(raw) : raw
+    const nameBytes = Buffer.from(name)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(deflate ? 8 : 0, 8)
+    local.writeUInt32LE(crc32(raw), 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(deflate ? 8 : 0, 10)
+    central.writeUInt32LE(crc32(raw), 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    locals.push(local, nameBytes, data)
+    centrals.push(central, nameBytes)
+    offset += local.length + nameBytes.length + data.length
+  }
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+describe('parseCsv', () => {
+  it('parses quoted fields, doubled quotes and CRLF line endings', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n1,2\r\n')).toEqual([
+      { a: 'x, y', b: 'say "hi"' },
+      { a: '1', b: '2' },
+    ])
+  })
+
+  it('drops a byte order mark and skips blank lines', () => {
+    expect(parseCsv('\uFEFFstop_id,stop_name\n\nS1,東京\n')).toEqual([
+      { stop_id: 'S1', stop_name: '東京' },
+    ])
+  })
+
+  it('fills missing trailing fields with empty strings', () => {
+    expect(parseCsv('a,b,c\n1')).toEqual([{ a: '1', b: '', c: '' }])
+  })
+})
+
+describe('parseGtfsTime', () => {
+  it('parses times past midnight and single-digit hours', () => {
+    expect(parseGtfsTime('25:10:00')).toBe(time(25, 10))
+    expect(parseGtfsTime('8:05:30')).toBe(time(8, 5) + 30)
+  })
+
+  it('returns null for blank or malformed times', () => {
+    expect(parseGtfsTime('')).toBeNull()
+    expect(parseGtfsTime('08:61:00')).toBeNull()
+  })
+})
+
+describe('normalizeStationName', () => {
+  it('drops spaces and a trailing 駅', () => {
+    expect(normalizeStationName('東京駅')).toBe('東京')
+    expect(normalizeStationName(' 新 宿　')).toBe('新宿')
+    expect(normalizeStationName('駅前')).toBe('駅前')
+  })
+})
+
+describe('readZipEntries', () => {
+  it.each([
+    ['stored', false],
+    ['deflated', true],
+  ])('reads %s entries', (_label, deflate) => {
+    const entries = readZipEntries(
+      zipOf({ 'feed/stops.txt': 'stop_id\nS1\n', 'feed/': '' }, deflate)
+    )
+    expect([...entries.keys()]).toEqual(['feed/stops.txt'])
+    expect(entries.get('feed/stops.txt')?.toString()).toBe('stop_id\nS1\n')
+  })
+
+  it('throws on data that is not a ZIP archive', () => {
+    expect(() => readZipEntries(Buffer.from('not a zip file at all, just some text'))).toThrow(
+      'end of central directory not found'
+    )
+  })
+})
+
+describe('readGtfsFeed', () => {
+  it('reads a zipped feed, including one zipped inside a folder', () => {
+    const files = Object.fromEntries(
+      Object.entries(FIXTURE).map(([name, content]) => [`gtfs/${name}`, content])
+    )
+    const feed = readGtfsFeed(readZipEntries(zipOf(files, true)))
+    expect(feed).toEqual(FEED)
+    expect(feed.stops).toHaveLength(7)
+  })
+
+  it('treats transfers.txt as optional', () => {
+    const { 'transfers.txt': _transfers, ...rest } = FIXTURE
+    expect(readGtfsFeed(new Map(Object.entries(rest))).transfers).toEqual([])
+  })
+
+  it('throws when a required file is missing', () => {
+    const { 'stop_times.txt': _stopTimes, ...rest } = FIXTURE
+    expect(() => readGtfsFeed(new Map(Object.entries(rest)))).toThrow(
+      'Invalid GTFS feed: missing stop_times.txt'
+    )
+  })
+})
+
+describe('matchStops', () => {
+  it('matches stops to the nearest same-name station, platforms by their parent name', () => {
+    const matched = matchStops(FEED.stops, STATIONS)
+    expect(matched.get('TOKYO_1')).toBe(1)
+    expect(matched.get('JR_SHINAGAWA')).toBe(2)
+    expect(matched.get('KQ_SHINAGAWA')).toBe(4)
+    expect(matched.get('KQ_HANEDA')).toBe(5)
+    expect(matched.has('KQ_KITA')).toBe(false)
+  })
+
+  it('leaves stops far from every same-name station unmatched', () => {
+    const far = [{ stop_id: 'X', stop_name: '東京', stop_lat: '34.69', stop_lon: '135.5' }]
+    expect(matchStops(far, STATIONS).size).toBe(0)
+  })
+})
+
+describe('buildTimetable', () => {
+  it('connects consecutive stops of each trip in stop_sequence order, sorted by departure', () => {
+    const { timetable, tripCount } = buildTimetable(FEED, STATIONS)
+    expect(tripCount).toBe(3)
+    expect(timetable.connections).toEqual([
+      [1, 2, time(8, 0), time(8, 8), 0],
+      [2, 3, time(8, 9), time(8, 30), 0],
+      // 北品川 is not in the dataset, so the trip runs straight through it
+      [4, 5, time(8, 15), time(8, 35), 2],
+      [1, 2, time(9, 0), time(9, 8), 1],
+    ])
+  })
+
+  it('reports stops served by a trip that match no station', () => {
+    expect(buildTimetable(FEED, STATIONS).unmatchedStops).toEqual(['KQ_KITA'])
+  })
+
+  it('keeps listed transfer times and adds walking transfers between same-name stations', () => {
+    const { timetable } = buildTimetable(FEED, STATIONS)
+    // The listed 品川 JR→京急 transfer is kept; the ~90 m walk back gets the minimum time
+    expect(timetable.transfers).toEqual([
+      [2, 4, 300],
+      [4, 2, 120],
+    ])
+  })
+
+  it('only includes trips of the given services', () => {
+    const { timetable, tripCount } = buildTimetable(FEED, STATIONS, { services: ['weekday'] })
+    expect(tripCount).toBe(2)
+    expect(timetable.connections.map((c) => c[4])).toEqual([0, 0, 1])
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import type { StationWithCoords } from '../../src/types/index.ts'
+import type { RawSection } from '../lib/geojson-parser.ts'
+import { buildRailNetwork } from '../lib/rail-network.ts'
+
+const station = (
+  id: number,
+  name: string,
+  lng: number,
+  lat: number,
+  line = '本線',
+  operator = 'テスト鉄道'
+): StationWithCoords => ({ id, name, line_name: line, operator, lat, lng })
+
+const section = (
+  coordinates: [number, number][],
+  line = '本線',
+  operator = 'テスト鉄道'
+): RawSection => ({ line_name: line, operator, coordinates })
+
+// 本線 runs east along lat 35 and branches north at 139.02
+const SECTIONS: RawSection[] = [
+  section([
+    [139.0, 35.0],
+    [139.01, 35.0],
+    [139.02, 35.0],
+  ]),
+  section([
+    [139.02, 35.0],
+    [139.03, 35.0],
+  ]),
+  section([
+    [139.02, 35.0],
+    [139.02, 35.01],
+  ]),
+]
+
+const MAIN_LINE: StationWithCoords[] = [
+  station(1, '西端', 139.0, 35.0),
+  station(2, '分岐', 139.02, 35.0),
+  station(3, '東端', 139.03, 35.0),
+  station(4, '北端', 139.02, 35.01),
+]
+
+describe('buildRailNetwork', () => {
+  it('connects adjacent stations along the track, including branches', () => {
+    const { network, unsnapped } = buildRailNetwork(MAIN_LINE, SECTIONS)
+    expect(network.tracks.map(([a, b]) => [a, b])).toEqual([
+      [1, 2],
+      [2, 3],
+      [2, 4],
+    ])
+    expect(unsnapped).toEqual([])
+  })
+
+  it('measures edges along the track in whole meters', () => {
+    const { network } = buildRailNetwork(MAIN_LINE, SECTIONS)
+    const [westToJunction] = network.tracks
+    // 0.02° of longitude at 35°N is about 1.82 km
+    expect(westToJunction[2]).toBeGreaterThan(1800)
+    expect(westToJunction[2]).toBeLessThan(1840)
+    expect(Number.isInteger(westToJunction[2])).toBe(true)
+  })
+
+  it('snaps stations that sit slightly off the track', () => {
+    const offset = [station(1, '西端', 139.0, 35.001), station(2, '分岐', 139.02, 34.999)]
+    const { network } = buildRailNetwork(offset, SECTIONS)
+    expect(network.tracks.map(([a, b]) => [a, b])).toEqual([[1, 2]])
+  })
+
+  it('links nearby same-name stations on other lines as transfers', () => {
+    const stations = [
+      ...MAIN_LINE,
+      station(5, '分岐', 139.021, 35.0, '支線', '別の鉄道'),
+      // Same name but in another town: not an interchange
+      station(6, '西端', 140.5, 36.0, '支線', '別の鉄道'),
+    ]
+    const { network } = buildRailNetwork(stations, SECTIONS)
+    expect(network.transfers).toHaveLength(1)
+    const [from, to, walk] = network.transfers[0]
+    expect([from, to]).toEqual([2, 5])
+    expect(walk).toBeGreaterThan(80)
+    expect(walk).toBeLessThan(100)
+  })
+
+  it('reports stations that cannot be placed on a track', () => {
+    const stations = [
+      ...MAIN_LINE,
+      // Far from every vertex of its line
+      station(5, '離れ', 139.2, 35.2),
+      // Line without any sections
+      station(6, '孤立', 139.0, 35.0, '未知線'),
+    ]
+    const { network, unsnapped } = buildRailNetwork(stations, SECTIONS)
+    expect(unsnapped).toEqual([5, 6])
+    expect(network.tracks.some(([a, b]) => a === 5 || b === 5)).toBe(false)
+  })
+
+  it('keeps lines with the same name but different operators apart', () => {
+    const stations = [
+      station(1, 'A', 139.0, 35.0),
+      station(2, 'B', 139.03, 35.0, '本線', '別の鉄道'),
+    ]
+    const { network, unsnapped } = buildRailNetwork(stations, SECTIONS)
+    expect(network.tracks).toEqual([])
+    expect(unsnapped).toEqual([2])
+  })
+})
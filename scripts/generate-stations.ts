@@ -1,11 +1,20 @@
 import { readFileSync, writeFileSync } from 'node:fs'
 import { resolve } from 'node:path'
 import type { StationWithCoords } from '../src/types/index.ts'
-import { deduplicateStations, extractStations, parseGeoJSON } from './lib/geojson-parser.ts'
+import {
+  deduplicateStations,
+  extractSections,
+  extractStations,
+  parseGeoJSON,
+} from './lib/geojson-parser.ts'
+import { buildRailNetwork } from './lib/rail-network.ts'
 
 /** Output path for the generated static station dataset (served at /stations.json) */
 const OUTPUT_PATH = resolve('public/stations.json')
 
+/** Output path for the generated rail network (served at /rail-network.json) */
+const NETWORK_OUTPUT_PATH = resolve('public/rail-network.json')
+
 /** Round coordinates to 6 decimals (~0.1 m precision) to keep the asset small */
 function round6(value: number): number {
   return Math.round(value * 1e6) / 1e6
@@ -22,11 +31,14 @@ function parsePointWkt(wkt: string): [number, number] | null {
 }
 
 function printUsage() {
-  console.log('Usage: npx tsx scripts/generate-stations.ts <geojson-file> [--dry-run]')
+  console.log('Usage: npx tsx scripts/generate-stations.ts <geojson-file>... [--dry-run]')
   console.log('')
   console.log(
     'Generate a static station dataset (public/stations.json) from National Land Numerical Information GeoJSON.'
   )
+  console.log(
+    'When railroad sections are included (e.g. N02-25_RailroadSection.geojson), also generate public/rail-network.json.'
+  )
   console.log('')
   console.log('Options:')
   console.log('  --dry-run  Parse and report counts without writing the output file')
@@ -35,34 +47,38 @@ function printUsage() {
 function main() {
   const args = process.argv.slice(2)
   const dryRun = args.includes('--dry-run')
-  const filePath = args.find((arg) => !arg.startsWith('--'))
+  const filePaths = args.filter((arg) => !arg.startsWith('--'))
 
-  if (!filePath) {
+  if (filePaths.length === 0) {
     printUsage()
     process.exit(1)
   }
 
-  const resolvedPath = resolve(filePath)
-  console.log(`Reading GeoJSON file: ${resolvedPath}`)
+  // Station and railroad-section features may come from separate files; merge them
+  const geojson = parseGeoJSON({ type: 'FeatureCollection', features: [] })
+  for (const filePath of filePaths) {
+    const resolvedPath = resolve(filePath)
+    console.log(`Reading GeoJSON file: ${resolvedPath}`)
+
+    let rawContent: string
+    try {
+      rawContent = readFileSync(resolvedPath, 'utf-8')
+    } catch {
+      console.error(`Error: Cannot read file "${resolvedPath}"`)
+      process.exit(1)
+    }
 
-  let rawContent: string
-  try {
-    rawContent = readFileSync(resolvedPath, 'utf-8')
-  } catch {
-    console.error(`Error: Cannot read file "${resolvedPath}"`)
-    process.exit(1)
-  }
+    let rawJson: unknown
+    try {
+      rawJson = JSON.parse(rawContent)
+    } catch {
+      console.error(`Error: File "${resolvedPath}" is not valid JSON`)
+      process.exit(1)
+    }
 
-  let rawJson: unknown
-  try {
-    rawJson = JSON.parse(rawContent)
-  } catch {
-    console.error('Error: File is not valid JSON')
-    process.exit(1)
+    geojson.features.push(...parseGeoJSON(rawJson).features)
   }
-
-  const geojson = parseGeoJSON(rawJson)
-  console.log(`Total features in file: ${geojson.features.length}`)
+  console.log(`Total features in input: ${geojson.features.length}`)
 
   const rawStations = extractStations(geojson)
   console.log(`Station features extracted: ${rawStations.length}`)
@@ -102,6 +118,18 @@ function main() {
     return
   }
 
+  const sections = extractSections(geojson)
+  console.log(`Railroad section features extracted: ${sections.length}`)
+  const build = sections.length > 0 ? buildRailNetwork(stations, sections) : null
+  if (build) {
+    console.log(
+      `Rail network: ${build.network.tracks.length} track edges, ${build.network.transfers.length} transfer edges`
+    )
+    if (build.unsnapped.length > 0) {
+      console.log(`Stations not placed on their line's track: ${build.unsnapped.length}`)
+    }
+  }
+
   if (dryRun) {
     console.log('')
     console.log('[DRY RUN] No file will be written.')
@@ -116,10 +144,18 @@ function main() {
   }
 
   writeFileSync(OUTPUT_PATH, JSON.stringify(stations))
+  if (build) {
+    writeFileSync(NETWORK_OUTPUT_PATH, JSON.stringify(build.network))
+  }
   console.log('')
   console.log('=== Generation Summary ===')
   console.log(`Stations written: ${stations.length}`)
   console.log(`Output:           ${OUTPUT_PATH}`)
+  if (build) {
+    console.log(`Rail network:     ${NETWORK_OUTPUT_PATH}`)
+  } else {
+    console.log('Rail network:     skipped (no railroad sections in input)')
+  }
 }
 
 try {
@@ -0,0 +1,134 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import type { StationWithCoords } from '../src/types/index.ts'
+import { buildTimetable, type GtfsFeed, readGtfsFeed } from './lib/gtfs.ts'
+import { readZipEntries } from './lib/zip.ts'
+
+/** Station dataset the feed's stops are matched against */
+const STATIONS_PATH = resolve('public/stations.json')
+
+/** Output path for the generated timetable (served at /timetable.json) */
+const OUTPUT_PATH = resolve('public/timetable.json')
+
+function printUsage() {
+  console.log(
+    'Usage: npx tsx scripts/generate-timetable.ts <gtfs-zip>... [--service=<service_id>]... [--dry-run]'
+  )
+  console.log('')
+  console.log(
+    'Generate a connection table (public/timetable.json) from GTFS / GTFS-JP feeds, with stops matched to public/stations.json.'
+  )
+  console.log('')
+  console.log('Options:')
+  console.log('  --service=<id>  Only include trips of this service_id (repeatable, e.g. weekdays)')
+  console.log('  --dry-run       Parse and report counts without writing the output file')
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const services = args
+    .filter((arg) => arg.startsWith('--service='))
+    .map((arg) => arg.slice('--service='.length))
+  const filePaths = args.filter((arg) => !arg.startsWith('--'))
+
+  if (filePaths.length === 0) {
+    printUsage()
+    process.exit(1)
+  }
+
+  let stations: StationWithCoords[]
+  try {
+    stations = JSON.parse(readFileSync(STATIONS_PATH, 'utf-8')) as StationWithCoords[]
+  } catch {
+    console.error(`Error: Cannot read station dataset "${STATIONS_PATH}"`)
+    process.exit(1)
+  }
+  console.log(`Stations in dataset: ${stations.length}`)
+
+  // Several operators' feeds are merged into one timetable
+  const feed: GtfsFeed = { stops: [], stopTimes: [], trips: [], transfers: [] }
+  for (const [position, filePath] of filePaths.entries()) {
+    const resolvedPath = resolve(filePath)
+    console.log(`Reading GTFS feed: ${resolvedPath}`)
+
+    let zip: Buffer
+    try {
+      zip = readFileSync(resolvedPath)
+    } catch {
+      console.error(`Error: Cannot read file "${resolvedPath}"`)
+      process.exit(1)
+    }
+
+    const part = readGtfsFeed(readZipEntries(zip))
+    // Ids are only unique within a feed, so prefix them with the feed's position
+    const prefix = `${position}:`
+    const scoped = (id: string | undefined) => (id ? `${prefix}${id}` : '')
+    feed.stops.push(
+      ...part.stops.map((s) => ({
+        ...s,
+        stop_id: scoped(s.stop_id),
+        parent_station: scoped(s.parent_station),
+      }))
+    )
+    feed.stopTimes.push(
+      ...part.stopTimes.map((t) => ({
+        ...t,
+        trip_id: scoped(t.trip_id),
+        stop_id: scoped(t.stop_id),
+      }))
+    )
+    feed.trips.push(...part.trips.map((t) => ({ ...t, trip_id: scoped(t.trip_id) })))
+    feed.transfers.push(
+      ...part.transfers.map((t) => ({
+        ...t,
+        from_stop_id: scoped(t.from_stop_id),
+        to_stop_id: scoped(t.to_stop_id),
+      }))
+    )
+    console.log(
+      `  stops: ${part.stops.length}, trips: ${part.trips.length}, stop times: ${part.stopTimes.length}, transfers: ${part.transfers.length}`
+    )
+  }
+
+  const build = buildTimetable(feed, stations, {
+    services: services.length > 0 ? services : undefined,
+  })
+  const { connections, transfers } = build.timetable
+  console.log(
+    `Timetable: ${connections.length} connections over ${build.tripCount} trips, ${transfers.length} transfers`
+  )
+  if (build.unmatchedStops.length > 0) {
+    console.log(`Stops not matched to a station: ${build.unmatchedStops.length}`)
+  }
+
+  if (dryRun) {
+    console.log('')
+    console.log('[DRY RUN] No file will be written.')
+    console.log('')
+    console.log('Unmatched stops (first 10):')
+    for (const stopId of build.unmatchedStops.slice(0, 10)) {
+      const stop = feed.stops.find((s) => s.stop_id === stopId)
+      console.log(`  - ${stopId} ${stop?.stop_name ?? 'N/A'}`)
+    }
+    return
+  }
+
+  if (connections.length === 0) {
+    console.log('No connections to write.')
+    return
+  }
+
+  writeFileSync(OUTPUT_PATH, JSON.stringify(build.timetable))
+  console.log('')
+  console.log('=== Generation Summary ===')
+  console.log(`Connections written: ${connections.length}`)
+  console.log(`Output:              ${OUTPUT_PATH}`)
+}
+
+try {
+  main()
+} catch (error: unknown) {
+  console.error('Fatal error:', error instanceof Error ? error.message : error)
+  process.exit(1)
+}
@@ -127,6 +127,47 @@ export function extractStations(geojson: RailwayFeatureCollection): RawStation[]
   return stations
 }
 
+/** Railroad section (track between stations) with its line and [lng, lat] polyline */
+export interface RawSection {
+  line_name: string | null
+  operator: string | null
+  coordinates: [number, number][]
+}
+
+/**
+ * Extract railroad sections from a parsed GeoJSON FeatureCollection.
+ * These are the LineString features without a station name (N02_005);
+ * malformed coordinate pairs are dropped and sections left with fewer than two points are skipped.
+ */
+export function extractSections(geojson: RailwayFeatureCollection): RawSection[] {
+  const sections: RawSection[] = []
+
+  for (const feature of geojson.features) {
+    const name = feature.properties?.N02_005
+    if ((name && name.trim() !== '') || feature.geometry.type !== 'LineString') {
+      continue
+    }
+
+    const coordinates: [number, number][] = []
+    for (const pair of feature.geometry.coordinates as number[][]) {
+      if (pair.length >= 2 && typeof pair[0] === 'number' && typeof pair[1] === 'number') {
+        coordinates.push([pair[0], pair[1]])
+      }
+    }
+    if (coordinates.length < 2) {
+      continue
+    }
+
+    sections.push({
+      line_name: feature.properties?.N02_003?.trim() ?? null,
+      operator: feature.properties?.N02_004?.trim() ?? null,
+      coordinates,
+    })
+  }
+
+  return sections
+}
+
 /**
  * Remove duplicate stations based on name + line_name composite key.
  * Stations with the same name on different lines are preserved.
@@ -0,0 +1,273 @@
+import { haversineDistance } from '../../src/lib/haversine.ts'
+import type {
+  StationWithCoords,
+  Timetable,
+  TimetableConnection,
+  TimetableTransfer,
+} from '../../src/types/index.ts'
+import { TRANSFER_MAX_METERS } from './rail-network.ts'
+
+/** Stops farther than this from every same-name station are left unmatched */
+export const STOP_MATCH_METERS = 500
+
+/** Walking speed for transfers the feed does not list (~4.3 km/h, allowing for stairs) */
+export const WALK_METERS_PER_SECOND = 1.2
+
+/** Shortest time allowed for changing between nearby same-name stations */
+export const MIN_TRANSFER_SECONDS = 120
+
+/** A CSV row keyed by the header of its file */
+export type GtfsRecord = Record<string, string>
+
+/** The files of a feed the import reads; the rest (routes, calendars, fares…) are ignored */
+export interface GtfsFeed {
+  stops: GtfsRecord[]
+  stopTimes: GtfsRecord[]
+  trips: GtfsRecord[]
+  /** Empty when the feed has no transfers.txt (it is optional in GTFS) */
+  transfers: GtfsRecord[]
+}
+
+/** Result of building the timetable, with diagnostics for the generator summary */
+export interface TimetableBuild {
+  timetable: Timetable
+  /** Number of trips with at least one connection */
+  tripCount: number
+  /** Ids of stops served by a trip that could not be matched to a station */
+  unmatchedStops: string[]
+}
+
+interface BuildOptions {
+  /** Only include trips of these `service_id`s (default: every trip) */
+  services?: string[]
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF) into records keyed by the
+ * header row. A leading byte order mark is dropped and blank lines are skipped.
+ */
+export function parseCsv(text: string): GtfsRecord[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char !== '"') {
+        field += char
+      } else if (source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else {
+        quoted = false
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const nonEmpty = rows.filter((r) => r.length > 1 || r[0] !== '')
+  if (nonEmpty.length === 0) return []
+  const header = nonEmpty[0].map((name) => name.trim())
+  return nonEmpty
+    .slice(1)
+    .map((values) => Object.fromEntries(header.map((name, i) => [name, values[i] ?? ''])))
+}
+
+/**
+ * Read the feed's files from archive entries. Files are looked up by name, so feeds zipped
+ * inside a folder work too.
+ * @throws Error if stops.txt, stop_times.txt or trips.txt is missing
+ */
+export function readGtfsFeed(files: Map<string, Buffer | string>): GtfsFeed {
+  const byName = new Map<string, Buffer | string>()
+  for (const [path, content] of files) {
+    byName.set(path.slice(path.lastIndexOf('/') + 1), content)
+  }
+
+  function read(name: string, required: boolean): GtfsRecord[] {
+    const content = byName.get(name)
+    if (content === undefined) {
+      if (required) throw new Error(`Invalid GTFS feed: missing ${name}`)
+      return []
+    }
+    return parseCsv(content.toString())
+  }
+
+  return {
+    stops: read('stops.txt', true),
+    stopTimes: read('stop_times.txt', true),
+    trips: read('trips.txt', true),
+    transfers: read('transfers.txt', false),
+  }
+}
+
+/**
+ * Parse a GTFS time ("H:MM:SS" or "HH:MM:SS") into seconds after midnight of the service day.
+ * Times past midnight stay above 24:00 (e.g. "25:10:00"). Returns null for blanks (stops
+ * without a scheduled time) and malformed values.
+ */
+export function parseGtfsTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,3}):([0-5]\d):([0-5]\d)$/)
+  if (!match) return null
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])
+}
+
+/** Station names as compared between the feed and the dataset: no spaces, no trailing 駅 */
+export function normalizeStationName(name: string): string {
+  return name.replace(/\s+/g, '').replace(/駅$/, '')
+}
+
+/**
+ * Map each stop to the nearest station with the same name within `STOP_MATCH_METERS`.
+ * Platforms are matched by their parent station's name, at their own position when they have
+ * one, so each platform lands on the station row of its line when the dataset has several.
+ */
+export function matchStops(
+  stops: GtfsRecord[],
+  stations: StationWithCoords[]
+): Map<string, number> {
+  const stationsByName = new Map<string, StationWithCoords[]>()
+  for (const station of stations) {
+    const name = normalizeStationName(station.name)
+    stationsByName.set(name, [...(stationsByName.get(name) ?? []), station])
+  }
+  const stopsById = new Map(stops.map((stop) => [stop.stop_id, stop]))
+
+  const matched = new Map<string, number>()
+  for (const stop of stops) {
+    const parent = stopsById.get(stop.parent_station ?? '')
+    const name = normalizeStationName(parent?.stop_name || stop.stop_name || '')
+    let lat = Number.parseFloat(stop.stop_lat)
+    let lng = Number.parseFloat(stop.stop_lon)
+    if ((Number.isNaN(lat) || Number.isNaN(lng)) && parent) {
+      lat = Number.parseFloat(parent.stop_lat)
+      lng = Number.parseFloat(parent.stop_lon)
+    }
+    if (name === '' || Number.isNaN(lat) || Number.isNaN(lng)) continue
+
+    let best: StationWithCoords | null = null
+    let bestMeters = STOP_MATCH_METERS
+    for (const station of stationsByName.get(name) ?? []) {
+      const meters = haversineDistance({ lat, lng }, station) * 1000
+      if (meters <= bestMeters) {
+        best = station
+        bestMeters = meters
+      }
+    }
+    if (best) matched.set(stop.stop_id, best.id)
+  }
+  return matched
+}
+
+/**
+ * Build the timetable from a feed: one connection per pair of consecutive matched stops of
+ * each trip, and transfers from transfers.txt (`min_transfer_time`) plus walking transfers
+ * between nearby same-name stations the feed does not list.
+ * Stops that are not stations (or not in the dataset) are ridden through: the connection
+ * runs from the last matched stop to the next one, so trips stay continuous.
+ */
+export function buildTimetable(
+  feed: GtfsFeed,
+  stations: StationWithCoords[],
+  options?: BuildOptions
+): TimetableBuild {
+  const stopStation = matchStops(feed.stops, stations)
+  const services = options?.services ? new Set(options.services) : null
+
+  const tripIds = feed.trips
+    .filter((trip) => services === null || services.has(trip.service_id))
+    .map((trip) => trip.trip_id)
+  const stopTimesByTrip = new Map<string, GtfsRecord[]>(tripIds.map((id) => [id, []]))
+  for (const stopTime of feed.stopTimes) {
+    stopTimesByTrip.get(stopTime.trip_id)?.push(stopTime)
+  }
+
+  const connections: TimetableConnection[] = []
+  const unmatched = new Set<string>()
+  let tripCount = 0
+  for (const stopTimes of stopTimesByTrip.values()) {
+    stopTimes.sort((a, b) => Number(a.stop_sequence) - Number(b.stop_sequence))
+    const before = connections.length
+    let previous: { station: number; departure: number } | null = null
+    for (const stopTime of stopTimes) {
+      const station = stopStation.get(stopTime.stop_id)
+      if (station === undefined) {
+        unmatched.add(stopTime.stop_id)
+        continue
+      }
+      const arrival = parseGtfsTime(stopTime.arrival_time ?? '')
+      const departure = parseGtfsTime(stopTime.departure_time ?? '')
+      if (arrival === null && departure === null) continue
+      if (previous && previous.station !== station) {
+        connections.push([
+          previous.station,
+          station,
+          previous.departure,
+          arrival ?? (departure as number),
+          tripCount,
+        ])
+      }
+      previous = { station, departure: departure ?? (arrival as number) }
+    }
+    if (connections.length > before) tripCount++
+  }
+  connections.sort((a, b) => a[2] - b[2] || a[3] - b[3] || a[4] - b[4])
+
+  // Listed transfers win; when several stop pairs map to one station pair, keep the longest
+  const transferSeconds = new Map<string, TimetableTransfer>()
+  for (const transfer of feed.transfers) {
+    const from = stopStation.get(transfer.from_stop_id)
+    const to = stopStation.get(transfer.to_stop_id)
+    const seconds = Number.parseInt(transfer.min_transfer_time ?? '', 10)
+    if (from === undefined || to === undefined || Number.isNaN(seconds)) continue
+    if (transfer.transfer_type === '3') continue
+    const key = `${from}-${to}`
+    const existing = transferSeconds.get(key)
+    if (!existing || seconds > existing[2]) transferSeconds.set(key, [from, to, seconds])
+  }
+
+  const served = new Set(connections.flatMap((c) => [c[0], c[1]]))
+  const servedByName = new Map<string, StationWithCoords[]>()
+  for (const station of stations) {
+    if (!served.has(station.id)) continue
+    servedByName.set(station.name, [...(servedByName.get(station.name) ?? []), station])
+  }
+  for (const group of servedByName.values()) {
+    for (const a of group) {
+      for (const b of group) {
+        const key = `${a.id}-${b.id}`
+        if (a.id === b.id || transferSeconds.has(key)) continue
+        const meters = haversineDistance(a, b) * 1000
+        if (meters > TRANSFER_MAX_METERS) continue
+        const seconds = Math.max(MIN_TRANSFER_SECONDS, Math.round(meters / WALK_METERS_PER_SECOND))
+        transferSeconds.set(key, [a.id, b.id, seconds])
+      }
+    }
+  }
+  const transfers = [...transferSeconds.values()].sort((x, y) => x[0] - y[0] || x[1] - y[1])
+
+  return {
+    timetable: { connections, transfers },
+    tripCount,
+    unmatchedStops: [...unmatched].sort(),
+  }
+}
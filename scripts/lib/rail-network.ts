@@ -0,0 +1,191 @@
+import { haversineDistance } from '../../src/lib/haversine.ts'
+import { createMinHeap } from '../../src/lib/priorityQueue.ts'
+import type { RailNetwork, RailNetworkEdge, StationWithCoords } from '../../src/types/index.ts'
+import type { RawSection } from './geojson-parser.ts'
+
+/** Stations farther than this from every track vertex of their line are left unconnected */
+export const SNAP_TOLERANCE_METERS = 500
+
+/**
+ * Same-name stations closer than this are treated as one interchange.
+ * Keeps unrelated namesakes (e.g. 府中 in Tokyo and in Hiroshima) apart.
+ */
+export const TRANSFER_MAX_METERS = 1000
+
+/** Result of building the network, with diagnostics for the generator summary */
+export interface RailNetworkBuild {
+  network: RailNetwork
+  /** Ids of stations that could not be placed on their line's track */
+  unsnapped: number[]
+}
+
+function meters(a: [number, number], b: [number, number]): number {
+  return haversineDistance({ lat: a[1], lng: a[0] }, { lat: b[1], lng: b[0] }) * 1000
+}
+
+/** Lines are matched by operator and line name, as both appear on stations and sections */
+function lineKey(operator: string | null, lineName: string | null): string {
+  return `${operator ?? ''}::${lineName ?? ''}`
+}
+
+/** Undirected edge list that keeps the shortest length seen for each station pair */
+function createEdgeSet() {
+  const edges = new Map<string, RailNetworkEdge>()
+  return {
+    add(a: number, b: number, length: number) {
+      if (a === b) return
+      const [from, to] = a < b ? [a, b] : [b, a]
+      const key = `${from}-${to}`
+      const rounded = Math.round(length)
+      const existing = edges.get(key)
+      if (!existing || rounded < existing[2]) edges.set(key, [from, to, rounded])
+    },
+    list(): RailNetworkEdge[] {
+      return [...edges.values()].sort((x, y) => x[0] - y[0] || x[1] - y[1])
+    },
+  }
+}
+
+/** Track geometry of one line as a graph over polyline vertices */
+interface TrackGraph {
+  coords: [number, number][]
+  adjacency: { to: number; length: number }[][]
+}
+
+function buildTrackGraph(sections: RawSection[]): TrackGraph {
+  const coords: [number, number][] = []
+  const adjacency: { to: number; length: number }[][] = []
+  // Sections meet at shared endpoints, so identical coordinates are one vertex
+  const vertexIds = new Map<string, number>()
+
+  function vertex(point: [number, number]): number {
+    const key = `${point[0]},${point[1]}`
+    let id = vertexIds.get(key)
+    if (id === undefined) {
+      id = coords.length
+      vertexIds.set(key, id)
+      coords.push(point)
+      adjacency.push([])
+    }
+    return id
+  }
+
+  for (const section of sections) {
+    for (let i = 1; i < section.coordinates.length; i++) {
+      const a = vertex(section.coordinates[i - 1])
+      const b = vertex(section.coordinates[i])
+      if (a === b) continue
+      const length = meters(coords[a], coords[b])
+      adjacency[a].push({ to: b, length })
+      adjacency[b].push({ to: a, length })
+    }
+  }
+  return { coords, adjacency }
+}
+
+/**
+ * Connect the stations of one line: each station is snapped to its nearest track vertex,
+ * then a Dijkstra search from every station stops at the first stations it reaches in each
+ * direction, which yields the adjacent-station edges (branches included).
+ */
+function addLineTracks(
+  stations: StationWithCoords[],
+  graph: TrackGraph,
+  edges: ReturnType<typeof createEdgeSet>,
+  unsnapped: number[]
+) {
+  const stationsAt = new Map<number, number[]>()
+  const snapped: { id: number; vertex: number }[] = []
+
+  for (const station of stations) {
+    let best = -1
+    let bestDistance = Number.POSITIVE_INFINITY
+    graph.coords.forEach((coord, v) => {
+      const d = meters([station.lng, station.lat], coord)
+      if (d < bestDistance) {
+        best = v
+        bestDistance = d
+      }
+    })
+    if (best < 0 || bestDistance > SNAP_TOLERANCE_METERS) {
+      unsnapped.push(station.id)
+      continue
+    }
+    snapped.push({ id: station.id, vertex: best })
+    stationsAt.set(best, [...(stationsAt.get(best) ?? []), station.id])
+  }
+
+  for (const { id, vertex: start } of snapped) {
+    const distances = new Map<number, number>([[start, 0]])
+    const heap = createMinHeap<number>()
+    heap.push(start, 0)
+    for (let entry = heap.pop(); entry; entry = heap.pop()) {
+      const { item: v, priority: d } = entry
+      if (d > (distances.get(v) ?? Number.POSITIVE_INFINITY)) continue
+      const here = stationsAt.get(v)
+      if (here) {
+        for (const other of here) edges.add(id, other, d)
+        // Trains stop here: stations beyond are adjacent to this one, not to `id`
+        if (v !== start) continue
+      }
+      for (const { to, length } of graph.adjacency[v]) {
+        const next = d + length
+        if (next < (distances.get(to) ?? Number.POSITIVE_INFINITY)) {
+          distances.set(to, next)
+          heap.push(to, next)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Build the rail network from generated stations and N02 railroad sections:
+ * track edges between adjacent stations of each line (length along the track) and
+ * transfer edges between nearby same-name stations (straight-line walking distance).
+ */
+export function buildRailNetwork(
+  stations: StationWithCoords[],
+  sections: RawSection[]
+): RailNetworkBuild {
+  const sectionsByLine = new Map<string, RawSection[]>()
+  for (const section of sections) {
+    const key = lineKey(section.operator, section.line_name)
+    sectionsByLine.set(key, [...(sectionsByLine.get(key) ?? []), section])
+  }
+  const stationsByLine = new Map<string, StationWithCoords[]>()
+  for (const station of stations) {
+    const key = lineKey(station.operator, station.line_name)
+    stationsByLine.set(key, [...(stationsByLine.get(key) ?? []), station])
+  }
+
+  const tracks = createEdgeSet()
+  const unsnapped: number[] = []
+  for (const [key, lineStations] of stationsByLine) {
+    const lineSections = sectionsByLine.get(key)
+    if (!lineSections) {
+      unsnapped.push(...lineStations.map((s) => s.id))
+      continue
+    }
+    addLineTracks(lineStations, buildTrackGraph(lineSections), tracks, unsnapped)
+  }
+
+  const transfers = createEdgeSet()
+  const stationsByName = new Map<string, StationWithCoords[]>()
+  for (const station of stations) {
+    stationsByName.set(station.name, [...(stationsByName.get(station.name) ?? []), station])
+  }
+  for (const group of stationsByName.values()) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const walk = meters([group[i].lng, group[i].lat], [group[j].lng, group[j].lat])
+        if (walk <= TRANSFER_MAX_METERS) transfers.add(group[i].id, group[j].id, walk)
+      }
+    }
+  }
+
+  return {
+    network: { tracks: tracks.list(), transfers: transfers.list() },
+    unsnapped: unsnapped.sort((a, b) => a - b),
+  }
+}
@@ -0,0 +1,74 @@
+import { inflateRawSync } from 'node:zlib'
+
+/** End of central directory record signature ("PK\x05\x06") */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+/** Central directory file header signature ("PK\x01\x02") */
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+/** Local file header signature ("PK\x03\x04") */
+const LOCAL_FILE_HEADER = 0x04034b50
+
+/** Fixed size of the end of central directory record, before its trailing comment */
+const END_RECORD_SIZE = 22
+/** The comment after the end record is at most this long, which bounds the backward scan */
+const MAX_COMMENT_LENGTH = 0xffff
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  const last = zip.length - END_RECORD_SIZE
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH)
+  for (let offset = last; offset >= first; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Invalid ZIP: end of central directory not found')
+}
+
+/**
+ * Read every file of a ZIP archive into memory, keyed by its path inside the archive.
+ * Only what GTFS feeds use is supported: stored or deflated entries, no ZIP64, no encryption.
+ * Directory entries are skipped.
+ */
+export function readZipEntries(zip: Buffer): Map<string, Buffer> {
+  const end = findEndOfCentralDirectory(zip)
+  const entryCount = zip.readUInt16LE(end + 10)
+  let offset = zip.readUInt32LE(end + 16)
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('Unsupported ZIP: ZIP64 archives are not supported')
+  }
+
+  const entries = new Map<string, Buffer>()
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP: corrupt central directory')
+    }
+    const flags = zip.readUInt16LE(offset + 8)
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (flags & 0x1) throw new Error(`Unsupported ZIP: "${name}" is encrypted`)
+    if (zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP: missing local header for "${name}"`)
+    }
+    // The local header repeats the name and may carry a different extra field
+    const dataStart =
+      localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+    const data = zip.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORED) {
+      entries.set(name, data)
+    } else if (method === METHOD_DEFLATED) {
+      entries.set(name, inflateRawSync(data))
+    } else {
+      throw new Error(`Unsupported ZIP: "${name}" uses compression method ${method}`)
+    }
+  }
+  return entries
+}
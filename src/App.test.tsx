@@ -1,5 +1,13 @@
 import { fireEvent, render, screen, within } from '@testing-library/react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type {
+  Destination,
+  DistanceMetric,
+  GeometryMode,
+  Location,
+  MeetingPointResult,
+  StationWithCoords,
+} from '@/types'
 import App from './App'
 
 // Mock react-leaflet components (same pattern as Map.test.tsx)
@@ -19,6 +27,8 @@ vi.mock('react-leaflet', () => ({
   }) => <div data-testid="marker">{children}</div>,
   Popup: ({ children }: { children: React.ReactNode }) => <div data-testid="popup">{children}</div>,
   Polygon: () => <div data-testid="polygon" />,
+  Circle: () => <div data-testid="circle" />,
+  Polyline: () => <div data-testid="polyline" />,
   useMap: () => ({
     fitBounds: vi.fn(),
     invalidateSize: vi.fn(),
@@ -39,12 +49,129 @@ vi.mock('@/hooks/useStationSearch', () => ({
   useStationSearch: (...args: unknown[]) => mockUseStationSearch(...args),
 }))
 
+// Solve the meeting points synchronously, as the station worker would
+vi.mock('@/hooks/useMeetingPoints', async () => {
+  const { useMemo } = await import('react')
+  const { DEFAULT_DESTINATION_WEIGHT, locationWeights, solveMeetingPoints } = await import(
+    '@/lib/geo'
+  )
+  return {
+    useMeetingPoints: (
+      locations: Location[],
+      options: { mode?: GeometryMode; metric?: DistanceMetric; destination?: Destination | null }
+    ) => {
+      const { mode, metric, destination } = options
+      const result = useMemo(
+        () =>
+          locations.length < 2
+            ? null
+            : {
+                ...solveMeetingPoints(
+                  locations.map((l) => l.latlng),
+                  {
+                    weights: locationWeights(locations),
+                    mode,
+                    metric,
+                    ...(destination && {
+                      destination: {
+                        point: destination.latlng,
+                        weight: DEFAULT_DESTINATION_WEIGHT,
+                      },
+                    }),
+                  }
+                ),
+                locations,
+                ...(destination && { destination }),
+              },
+        [locations, mode, metric, destination]
+      )
+      return { result, isLoading: false, error: null }
+    },
+  }
+})
+
+// Pick the fairest station synchronously, as the station worker would
+vi.mock('@/hooks/useFairestStation', async () => {
+  const { selectMinimaxStation } = await import('@/lib/geo')
+  return {
+    useFairestStation: (
+      result: MeetingPointResult | null,
+      candidates: StationWithCoords[],
+      metric?: DistanceMetric
+    ) => ({
+      station: result
+        ? selectMinimaxStation(
+            result.locations.map((l) => l.latlng),
+            candidates,
+            { metric }
+          )
+        : null,
+      isLoading: false,
+      error: null,
+    }),
+  }
+})
+
+// Mock useAssetAvailability hook (every generated asset deployed unless a test says otherwise)
+const mockUseAssetAvailability = vi.fn()
+vi.mock('@/hooks/useAssetAvailability', () => ({
+  useAssetAvailability: (...args: unknown[]) => mockUseAssetAvailability(...args),
+}))
+
 // Mock useNearbyStations hook
 const mockUseNearbyStations = vi.fn()
 vi.mock('@/hooks/useNearbyStations', () => ({
   useNearbyStations: (...args: unknown[]) => mockUseNearbyStations(...args),
 }))
 
+// Mock useStationClusters hook (idle unless a test sets a clustering)
+const mockUseStationClusters = vi.fn()
+vi.mock('@/hooks/useStationClusters', () => ({
+  useStationClusters: (...args: unknown[]) => mockUseStationClusters(...args),
+}))
+
+// Mock useNetworkStation hook (no rail result unless a test sets one)
+const mockUseNetworkStation = vi.fn()
+vi.mock('@/hooks/useNetworkStation', () => ({
+  useNetworkStation: (...args: unknown[]) => mockUseNetworkStation(...args),
+}))
+
+// Mock useTransferStation hook (no transfer result unless a test sets one)
+const mockUseTransferStation = vi.fn()
+vi.mock('@/hooks/useTransferStation', () => ({
+  useTransferStation: (...args: unknown[]) => mockUseTransferStation(...args),
+}))
+
+// Mock useSensitivity hook (no influence analysis unless a test sets one)
+const mockUseSensitivity = vi.fn()
+vi.mock('@/hooks/useSensitivity', () => ({
+  useSensitivity: (...args: unknown[]) => mockUseSensitivity(...args),
+}))
+
+// Mock useNearOptimalStations hook (no shortlist unless a test sets one)
+const mockUseNearOptimalStations = vi.fn()
+vi.mock('@/hooks/useNearOptimalStations', () => ({
+  useNearOptimalStations: (...args: unknown[]) => mockUseNearOptimalStations(...args),
+}))
+
+// Mock useBalancedStation hook (no station unless a test sets one)
+const mockUseBalancedStation = vi.fn()
+vi.mock('@/hooks/useBalancedStation', () => ({
+  useBalancedStation: (...args: unknown[]) => mockUseBalancedStation(...args),
+}))
+
+// Mock useTimetableStations hook (no ranking unless a test sets one)
+const mockUseTimetableStations = vi.fn()
+vi.mock('@/hooks/useTimetableStations', () => ({
+  useTimetableStations: (...args: unknown[]) => mockUseTimetableStations(...args),
+}))
+
+// Mock useSuggestedStation hook (no suggestion unless a test sets one)
+const mockUseSuggestedStation = vi.fn()
+vi.mock('@/hooks/useSuggestedStation', () => ({
+  useSuggestedStation: (...args: unknown[]) => mockUseSuggestedStation(...args),
+}))
+
 function setMockStationSearch(overrides: Record<string, unknown> = {}) {
   mockUseStationSearch.mockReturnValue({
     stations: [],
@@ -79,6 +206,15 @@ describe('App', () => {
     window.history.replaceState(null, '', window.location.pathname)
     setMockStationSearch()
     setMockNearbyStations()
+    mockUseStationClusters.mockReturnValue({ clustering: null, isLoading: false, error: null })
+    mockUseSuggestedStation.mockReturnValue({ station: null, isLoading: false, error: null })
+    mockUseNetworkStation.mockReturnValue({ station: null, isLoading: false, error: null })
+    mockUseTransferStation.mockReturnValue({ station: null, isLoading: false, error: null })
+    mockUseSensitivity.mockReturnValue({ analysis: null, isLoading: false, error: null })
+    mockUseNearOptimalStations.mockReturnValue({ shortlist: null, isLoading: false, error: null })
+    mockUseBalancedStation.mockReturnValue({ station: null, isLoading: false, error: null })
+    mockUseAssetAvailability.mockReturnValue(true)
+    mockUseTimetableStations.mockReturnValue({ candidates: [], isLoading: false, error: null })
     // Reset window.confirm mock
     vi.restoreAllMocks()
   })
@@ -174,6 +310,7 @@ describe('App', () => {
       // Both appear in map popup and ResultCard
       expect(screen.getAllByText('中間地点').length).toBeGreaterThanOrEqual(1)
       expect(screen.getAllByText('最適地点').length).toBeGreaterThanOrEqual(1)
+      expect(screen.getAllByText('公平地点').length).toBeGreaterThanOrEqual(1)
     })
 
     it('should render correct number of markers for two locations', () => {
@@ -181,9 +318,509 @@ describe('App', () => {
       addLocationViaForm('東京駅', '35.6812', '139.7671')
       addLocationViaForm('新宿駅', '35.6896', '139.7006')
 
-      // 2 location markers + 1 centroid + 1 geometric median = 4
+      // 2 location markers + 1 centroid + 1 geometric median + 1 minimax = 5
       const markers = screen.getAllByTestId('marker')
-      expect(markers).toHaveLength(4)
+      expect(markers).toHaveLength(5)
+    })
+  })
+
+  describe('calculation settings', () => {
+    it('should render the settings panel', () => {
+      render(<App />)
+      expect(screen.getByTestId('settings-panel')).toBeInTheDocument()
+    })
+
+    it('should recompute the centroid when switching to spherical mode', () => {
+      render(<App />)
+      addLocationViaForm('稚内', '45.4156', '141.673')
+      addLocationViaForm('那覇', '26.2124', '127.6809')
+
+      const resultCard = screen.getByTestId('result-card')
+      // Planar average of the two coordinates (C and M coincide for two points)
+      expect(within(resultCard).getAllByText('35.814000, 134.676950')).toHaveLength(2)
+
+      fireEvent.change(screen.getByLabelText('計算方式'), { target: { value: 'spherical' } })
+
+      expect(within(resultCard).queryByText('35.814000, 134.676950')).not.toBeInTheDocument()
+    })
+
+    it('should quote ellipsoidal distances when switching the metric', () => {
+      render(<App />)
+      addLocationViaForm('稚内', '45.4156', '141.673')
+      addLocationViaForm('那覇', '26.2124', '127.6809')
+
+      const resultCard = screen.getByTestId('result-card')
+      const before = within(resultCard).getAllByText(/→ C:/)[0].textContent
+
+      fireEvent.change(screen.getByLabelText('距離の測り方'), { target: { value: 'vincenty' } })
+
+      expect(within(resultCard).getAllByText(/→ C:/)[0].textContent).not.toBe(before)
+    })
+  })
+
+  describe('clustering mode', () => {
+    it('should pass the selected meeting station count to the clustering hook', () => {
+      render(<App />)
+      expect(mockUseStationClusters).toHaveBeenLastCalledWith([], 1, expect.anything())
+
+      fireEvent.change(screen.getByLabelText('集合場所の数'), { target: { value: 'auto' } })
+
+      expect(mockUseStationClusters).toHaveBeenLastCalledWith([], 'auto', expect.anything())
+    })
+
+    it('should show one block per cluster', () => {
+      mockUseStationClusters.mockReturnValue({
+        clustering: {
+          clusters: [
+            {
+              station: {
+                id: 1,
+                name: '東京',
+                line_name: null,
+                operator: null,
+                lat: 35.68,
+                lng: 139.77,
+              },
+              memberIndices: [0],
+              totalDistance: 1,
+            },
+            {
+              station: {
+                id: 2,
+                name: '大阪',
+                line_name: null,
+                operator: null,
+                lat: 34.7,
+                lng: 135.5,
+              },
+              memberIndices: [1],
+              totalDistance: 2,
+            },
+          ],
+          totalDistance: 3,
+        },
+        isLoading: false,
+        error: null,
+      })
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+
+      expect(screen.getAllByTestId('cluster-block')).toHaveLength(2)
+    })
+  })
+
+  describe('rail distance basis', () => {
+    it('should keep the rail search idle by default', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(mockUseNetworkStation).toHaveBeenLastCalledWith(null, expect.anything())
+    })
+
+    it('should search by rail distance once selected', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      fireEvent.change(screen.getByLabelText('おすすめ駅の距離'), { target: { value: 'rail' } })
+      expect(mockUseNetworkStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        { objective: 'sum', metric: 'haversine' }
+      )
+    })
+
+    it('should show the fallback note when the rail network is unavailable', () => {
+      mockUseNetworkStation.mockReturnValue({
+        station: null,
+        isLoading: false,
+        error: 'Failed to load rail network: 404',
+      })
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(screen.queryByTestId('network-error')).not.toBeInTheDocument()
+      fireEvent.change(screen.getByLabelText('おすすめ駅の距離'), { target: { value: 'rail' } })
+      expect(screen.getByTestId('network-error')).toBeInTheDocument()
+    })
+
+    it('should disable the rail basis when the rail network is not deployed', () => {
+      mockUseAssetAvailability.mockImplementation((url: string) => url !== '/rail-network.json')
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      const option = screen.getByRole('option', {
+        name: '線路に沿った距離（徒歩＋乗車）（データ未配置）',
+      })
+      expect(option).toBeDisabled()
+      fireEvent.change(screen.getByLabelText('おすすめ駅の距離'), { target: { value: 'rail' } })
+      expect(mockUseNetworkStation).toHaveBeenLastCalledWith(null, expect.anything())
+    })
+
+    it('should search by transfers once selected, leaving the rail search idle', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(mockUseTransferStation).toHaveBeenLastCalledWith(null, expect.anything())
+      fireEvent.change(screen.getByLabelText('おすすめ駅の距離'), {
+        target: { value: 'transfers' },
+      })
+      expect(mockUseTransferStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        { objective: 'sum', metric: 'haversine' }
+      )
+      expect(mockUseNetworkStation).toHaveBeenLastCalledWith(null, expect.anything())
+    })
+  })
+
+  describe('objective persistence', () => {
+    it('should restore the objective from the URL', () => {
+      window.history.replaceState(null, '', '/?objective=max')
+      render(<App />)
+      expect(screen.getByLabelText('おすすめ駅の基準')).toHaveValue('max')
+    })
+
+    it('should write the selected objective to the URL', () => {
+      render(<App />)
+      fireEvent.change(screen.getByLabelText('おすすめ駅の基準'), {
+        target: { value: 'sumOfSquares' },
+      })
+      expect(window.location.search).toContain('objective=sumOfSquares')
+    })
+
+    it('should search the whole dataset with the selected objective', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      fireEvent.change(screen.getByLabelText('おすすめ駅の基準'), { target: { value: 'max' } })
+      expect(mockUseSuggestedStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        {
+          objective: 'max',
+          metric: 'haversine',
+          originLines: null,
+          scales: null,
+          destination: null,
+        }
+      )
+    })
+  })
+
+  describe('travel-time objectives', () => {
+    it('should pass minutes per km of each participant for a time objective', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      fireEvent.change(screen.getByLabelText('おすすめ駅の基準'), {
+        target: { value: 'maxTime' },
+      })
+      expect(mockUseSuggestedStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        expect.objectContaining({
+          objective: 'maxTime',
+          scales: [expect.closeTo(1.8, 10), expect.closeTo(1.8, 10)],
+        })
+      )
+    })
+  })
+
+  describe('arrive-by planner', () => {
+    const SUGGESTION = {
+      station: {
+        id: 1,
+        name: '名古屋',
+        line_name: null,
+        operator: null,
+        lat: 35.1709,
+        lng: 136.8815,
+      },
+      totalDistance: 400,
+      score: 400,
+      objective: 'sum',
+      candidatesEvaluated: 10,
+    }
+
+    beforeEach(() => {
+      mockUseSuggestedStation.mockReturnValue({
+        station: SUGGESTION,
+        isLoading: false,
+        error: null,
+      })
+    })
+
+    it('should restore the meeting time from the URL', () => {
+      window.history.replaceState(null, '', '/?meet=18:30')
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(screen.getByLabelText('集合時刻')).toHaveValue('18:30')
+      expect(screen.getAllByTestId('departure-item')).toHaveLength(2)
+    })
+
+    it('should write the meeting time to the URL', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      fireEvent.change(screen.getByLabelText('集合時刻'), { target: { value: '12:00' } })
+      expect(window.location.search).toContain('meet=12:00')
+    })
+
+    it('should copy the departure times together with the share URL', () => {
+      const writeText = vi.fn((_text: string) => Promise.resolve())
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      fireEvent.change(screen.getByLabelText('集合時刻'), { target: { value: '12:00' } })
+      fireEvent.click(screen.getByText('出発時刻とURLをコピー'))
+
+      expect(writeText).toHaveBeenCalledTimes(1)
+      const [text] = writeText.mock.calls[0]
+      expect(text.startsWith('【集合】12:00 名古屋駅\n・')).toBe(true)
+      expect(text).toContain('・神田: ')
+      expect(text).toContain('・梅田: ')
+      expect(text).toContain('meet=12:00')
+    })
+  })
+
+  describe('shared destination', () => {
+    it('should restore the destination from the URL and include the onward trip', () => {
+      window.history.replaceState(null, '', `/?dest=${encodeURIComponent('箱根')},35.2324,139.1069`)
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+
+      expect(screen.getByTestId('destination-current')).toHaveTextContent('箱根')
+      expect(screen.getByTestId('median-destination')).toHaveTextContent('目的地（箱根）')
+      expect(mockUseSuggestedStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          destination: { label: '箱根', latlng: { lat: 35.2324, lng: 139.1069 } },
+        }),
+        expect.objectContaining({
+          destination: { point: { lat: 35.2324, lng: 139.1069 }, weight: 1 },
+        })
+      )
+    })
+
+    it('should write a destination set by coordinates to the URL and clear it', () => {
+      render(<App />)
+      fireEvent.change(screen.getByLabelText('目的地の名前（任意）'), { target: { value: '会場' } })
+      fireEvent.change(screen.getByLabelText('目的地の緯度'), { target: { value: '35.6' } })
+      fireEvent.change(screen.getByLabelText('目的地の経度'), { target: { value: '139.7' } })
+      fireEvent.click(screen.getByText('目的地に設定'))
+      expect(window.location.search).toContain(
+        `dest=${encodeURIComponent('会場')},35.6000,139.7000`
+      )
+
+      fireEvent.click(screen.getByLabelText('目的地を解除'))
+      expect(window.location.search).not.toContain('dest=')
+    })
+  })
+
+  describe('alternative origins', () => {
+    it('should attach another origin to a participant, share it and remove it', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+
+      const umeda = screen.getByRole('option', { name: '梅田の別の出発地（自宅・職場など）' })
+      fireEvent.change(screen.getByLabelText('追加先'), {
+        target: { value: (umeda as HTMLOptionElement).value },
+      })
+      fireEvent.change(screen.getByLabelText('ラベル（任意）'), { target: { value: '京都支社' } })
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.0116' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '135.7681' } })
+      fireEvent.click(screen.getByText('別の出発地として追加'))
+
+      expect(screen.getByTestId('alternative-origins')).toHaveTextContent('京都支社')
+      expect(window.location.search).toContain(`alts=1:${encodeURIComponent('京都支社')}`)
+      expect(mockUseSuggestedStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          locations: [
+            expect.not.objectContaining({ alternatives: expect.anything() }),
+            expect.objectContaining({
+              alternatives: [{ label: '京都支社', latlng: { lat: 35.0116, lng: 135.7681 } }],
+            }),
+          ],
+        }),
+        expect.anything()
+      )
+
+      fireEvent.click(screen.getByLabelText('梅田の別の出発地「京都支社」を削除'))
+      expect(screen.queryByTestId('alternative-origins')).not.toBeInTheDocument()
+      expect(window.location.search).not.toContain('alts=')
+    })
+  })
+
+  describe('participant influence', () => {
+    it('should show each participant influence and draw the displaced medians on demand', () => {
+      const station = {
+        id: 1,
+        name: '名古屋',
+        line_name: null,
+        operator: null,
+        lat: 35.17,
+        lng: 136.88,
+      }
+      const influence = {
+        medianWithout: { lat: 35.0, lng: 136.0 },
+        medianDoubled: { lat: 35.2, lng: 137.0 },
+        centroidShiftWithout: 120,
+        centroidShiftDoubled: 60,
+        medianShiftWithout: 150,
+        medianShiftDoubled: 0,
+        stationWithout: station,
+        stationDoubled: station,
+        stationChangesWithout: false,
+        stationChangesDoubled: false,
+      }
+      mockUseSensitivity.mockReturnValue({
+        analysis: {
+          centroid: { lat: 35.2, lng: 137.6 },
+          median: { lat: 35.2, lng: 137.6 },
+          station,
+          influences: [influence, influence],
+        },
+        isLoading: false,
+        error: null,
+      })
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+
+      expect(screen.getAllByTestId('influence-figures')).toHaveLength(2)
+      expect(mockUseSensitivity).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        expect.objectContaining({ objective: 'sum', mode: 'planar' })
+      )
+
+      const markersBefore = screen.getAllByTestId('marker').length
+      fireEvent.click(screen.getByLabelText('欠席時の M の位置を地図に表示'))
+      expect(screen.getAllByTestId('marker')).toHaveLength(markersBefore + 2)
+      expect(screen.getByText('神田が来ない場合の最適地点')).toBeInTheDocument()
+    })
+  })
+
+  describe('near-optimal shortlist', () => {
+    it('should list the shortlist, outline its region and change the tolerance', () => {
+      mockUseNearOptimalStations.mockReturnValue({
+        shortlist: {
+          tolerance: 0.1,
+          bestTotal: 400,
+          stations: [
+            {
+              name: '名古屋',
+              lat: 35.17,
+              lng: 136.88,
+              lines: ['東海道本線'],
+              totalDistance: 400,
+              maxDistance: 250,
+              spread: 100,
+              excess: 0,
+            },
+          ],
+          region: [
+            { lat: 35.5, lng: 137.0 },
+            { lat: 35.0, lng: 137.5 },
+            { lat: 34.5, lng: 137.0 },
+          ],
+        },
+        isLoading: false,
+        error: null,
+      })
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+
+      expect(screen.getAllByTestId('near-optimal-row')).toHaveLength(1)
+      // The convex hull needs 3 locations, so the only polygon is the region
+      expect(screen.getAllByTestId('polygon')).toHaveLength(1)
+
+      fireEvent.change(screen.getByLabelText('許容範囲'), { target: { value: '0.2' } })
+      expect(mockUseNearOptimalStations).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        { tolerance: 0.2, metric: 'haversine' }
+      )
+    })
+  })
+
+  describe('balanced station', () => {
+    it('should search only once switched on in the settings', () => {
+      mockUseBalancedStation.mockImplementation((result: unknown) => ({
+        station: result
+          ? {
+              station: {
+                id: 1,
+                name: '米原',
+                line_name: null,
+                operator: null,
+                lat: 35.31,
+                lng: 136.29,
+              },
+              distances: [290, 120],
+              spread: 170,
+              totalDistance: 410,
+              excess: 0.02,
+              cap: 0.2,
+              corridor: true,
+            }
+          : null,
+        isLoading: false,
+        error: null,
+      }))
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(mockUseBalancedStation).toHaveBeenLastCalledWith(null, {
+        cap: undefined,
+        metric: 'haversine',
+      })
+      expect(screen.queryByTestId('balanced-station')).not.toBeInTheDocument()
+
+      fireEvent.change(screen.getByLabelText('距離の差が最小の駅'), { target: { value: '0.2' } })
+      expect(mockUseBalancedStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        { cap: 0.2, metric: 'haversine' }
+      )
+      expect(screen.getByTestId('balanced-station')).toBeInTheDocument()
+    })
+  })
+
+  describe('timetable ranking', () => {
+    it('should search from the entered departure time', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(mockUseTimetableStations).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        { departure: null, objective: 'sum', metric: 'haversine' }
+      )
+      fireEvent.change(screen.getByLabelText('出発時刻'), { target: { value: '09:30' } })
+      expect(mockUseTimetableStations).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        { departure: 570, objective: 'sum', metric: 'haversine' }
+      )
+    })
+
+    it('should hide the ranking when the timetable is not deployed', () => {
+      mockUseAssetAvailability.mockImplementation((url: string) => url !== '/timetable.json')
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      expect(screen.queryByTestId('timetable-ranking')).not.toBeInTheDocument()
+      expect(mockUseTimetableStations).toHaveBeenLastCalledWith(null, expect.anything())
+    })
+  })
+
+  describe('direct-line preference', () => {
+    it('should pass each participant origin lines once enabled', () => {
+      render(<App />)
+      addLocationViaForm('神田', '35.6918', '139.7709')
+      addLocationViaForm('梅田', '34.705', '135.498')
+      fireEvent.click(screen.getByLabelText('直通で行ける人が多い駅を優先'))
+      expect(mockUseSuggestedStation).toHaveBeenLastCalledWith(
+        expect.objectContaining({ locations: expect.any(Array) }),
+        expect.objectContaining({ originLines: [[], []] })
+      )
     })
   })
 
@@ -264,7 +901,7 @@ describe('App', () => {
       render(<App />)
 
       // The hook should have been called with null for both centroid and median
-      expect(mockUseNearbyStations).toHaveBeenCalledWith(null, expect.any(Number))
+      expect(mockUseNearbyStations).toHaveBeenCalledWith(null, expect.any(Number), 'haversine')
     })
 
     it('should call useNearbyStations with coordinates when result exists', () => {
@@ -1,13 +1,59 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
+import DestinationForm from '@/components/DestinationForm'
 import Footer from '@/components/Footer'
 import LocationForm from '@/components/LocationForm'
 import MapView from '@/components/Map'
 import ResultCard from '@/components/ResultCard'
+import SettingsPanel from '@/components/SettingsPanel'
+import { useAssetAvailability } from '@/hooks/useAssetAvailability'
+import { useBalancedStation } from '@/hooks/useBalancedStation'
+import { useFairestStation } from '@/hooks/useFairestStation'
+import { useLocationOrigins } from '@/hooks/useLocationOrigins'
 import { useLocationUrlSync } from '@/hooks/useLocationUrlSync'
+import { useMeetingPoints } from '@/hooks/useMeetingPoints'
 import { useNearbyStations } from '@/hooks/useNearbyStations'
-import { centroid, geometricMedian, selectKMedoidStation } from '@/lib/geo'
-import { buildShareUrl, getInitialLocationsFromUrl } from '@/lib/urlState'
-import type { LatLng, Location, MapFocusRequest, MeetingPointResult } from '@/types'
+import { useNearOptimalStations } from '@/hooks/useNearOptimalStations'
+import { useNetworkStation } from '@/hooks/useNetworkStation'
+import { useSensitivity } from '@/hooks/useSensitivity'
+import { useStationClusters } from '@/hooks/useStationClusters'
+import { useSuggestedStation } from '@/hooks/useSuggestedStation'
+import { useTimetableStations } from '@/hooks/useTimetableStations'
+import { useTransferStation } from '@/hooks/useTransferStation'
+import { sortByDirectReach } from '@/lib/directLines'
+import { DEFAULT_DISTANCE_METRIC } from '@/lib/distance'
+import { assumedLocations, DEFAULT_DESTINATION_WEIGHT } from '@/lib/geo'
+import { buildShareText, planDepartures } from '@/lib/meetingPlan'
+import { DEFAULT_NEAR_OPTIMAL_TOLERANCE } from '@/lib/nearOptimal'
+import { RAIL_NETWORK_URL } from '@/lib/railNetwork'
+import { TIMETABLE_URL } from '@/lib/timetable'
+import {
+  DEFAULT_TRAVEL_PROFILES,
+  isTimeObjective,
+  locationTimeScales,
+  minutesPerKm,
+  travelTimes,
+} from '@/lib/travelTime'
+import {
+  buildShareUrl,
+  getInitialDestinationFromUrl,
+  getInitialLocationsFromUrl,
+  getInitialMeetingTimeFromUrl,
+  getInitialObjectiveFromUrl,
+} from '@/lib/urlState'
+import type {
+  AlternativeOrigin,
+  ClusterCount,
+  Destination,
+  DestinationLeg,
+  DistanceBasis,
+  DistanceMetric,
+  GeometryMode,
+  LatLng,
+  Location,
+  MapFocusRequest,
+  ObjectiveKind,
+  TravelProfiles,
+} from '@/types'
 
 /** Maximum number of locations allowed */
 const MAX_LOCATIONS = 10
@@ -25,12 +71,27 @@ function App() {
   const [isDark, setIsDark] = useState(false)
   const [isCopied, setIsCopied] = useState(false)
   const [focusRequest, setFocusRequest] = useState<MapFocusRequest | null>(null)
+  const [geometryMode, setGeometryMode] = useState<GeometryMode>('planar')
+  const [objective, setObjective] = useState<ObjectiveKind>(getInitialObjectiveFromUrl)
+  const [distanceBasis, setDistanceBasis] = useState<DistanceBasis>('straight')
+  const [preferDirect, setPreferDirect] = useState(false)
+  const [distanceMetric, setDistanceMetric] = useState<DistanceMetric>(DEFAULT_DISTANCE_METRIC)
+  const [clusterCount, setClusterCount] = useState<ClusterCount>(1)
+  const [travelProfiles, setTravelProfiles] = useState<TravelProfiles>(DEFAULT_TRAVEL_PROFILES)
+  const [meetingTime, setMeetingTime] = useState<number | null>(getInitialMeetingTimeFromUrl)
+  const [destination, setDestination] = useState<Destination | null>(getInitialDestinationFromUrl)
+  const [showDisplacedMedians, setShowDisplacedMedians] = useState(false)
+  const [nearOptimalTolerance, setNearOptimalTolerance] = useState(DEFAULT_NEAR_OPTIMAL_TOLERANCE)
+  const [balancedCap, setBalancedCap] = useState<number | null>(null)
+  const [timetableDeparture, setTimetableDeparture] = useState<number | null>(null)
 
   const handleFocusMap = useCallback((latlng: LatLng) => {
     setFocusRequest((prev) => ({ latlng, seq: (prev?.seq ?? 0) + 1 }))
   }, [])
 
-  useLocationUrlSync(locations)
+  useLocationUrlSync(locations, { objective, meetingTime, destination })
+  // Origins restored from a share URL carry only station ids; names and lines are for display
+  const { locations: resolvedLocations } = useLocationOrigins(locations)
 
   /** Reset all locations and navigate to root */
   const handleLogoClick = useCallback(() => {
@@ -50,24 +111,133 @@ function App() {
     document.documentElement.setAttribute('data-theme', isDark ? 'dark' : 'cmyk')
   }, [isDark])
 
-  const result: MeetingPointResult | null = useMemo(() => {
-    if (locations.length < 2) return null
-    const points = locations.map((l) => l.latlng)
-    return {
-      centroid: centroid(points),
-      geometricMedian: geometricMedian(points),
-      locations,
-    }
-  }, [locations])
+  // Centroid, median and enclosing circle are solved in the station worker
+  const { result } = useMeetingPoints(locations, {
+    mode: geometryMode,
+    metric: distanceMetric,
+    destination,
+  })
+
+  const centroidNearby = useNearbyStations(
+    result?.centroid ?? null,
+    NEARBY_STATION_LIMIT,
+    distanceMetric
+  )
+  const medianNearby = useNearbyStations(
+    result?.geometricMedian ?? null,
+    NEARBY_STATION_LIMIT,
+    distanceMetric
+  )
+
+  const minimaxNearby = useNearbyStations(
+    result?.minimaxCircle?.center ?? null,
+    NEARBY_STATION_LIMIT,
+    distanceMetric
+  )
+
+  // Stations most participants reach on a single line first, when preferred
+  const [centroidRows, medianRows, minimaxRows] = useMemo(() => {
+    const lists = [centroidNearby.stations, medianNearby.stations, minimaxNearby.stations]
+    return preferDirect ? lists.map((rows) => sortByDirectReach(rows, resolvedLocations)) : lists
+  }, [
+    centroidNearby.stations,
+    medianNearby.stations,
+    minimaxNearby.stations,
+    preferDirect,
+    resolvedLocations,
+  ])
+
+  // Each participant's origin line keys, when direct rides are preferred for the suggestion too
+  const originLines = useMemo(
+    () => (preferDirect ? resolvedLocations.map((l) => l.origin?.lineKeys ?? []) : null),
+    [preferDirect, resolvedLocations]
+  )
+
+  const { station: fairestStation } = useFairestStation(
+    result,
+    minimaxNearby.stations,
+    distanceMetric
+  )
+
+  // Minutes per km of each participant, when the objective is measured in time
+  const timeScales = useMemo(
+    () => (isTimeObjective(objective) ? locationTimeScales(locations, travelProfiles) : null),
+    [objective, locations, travelProfiles]
+  )
+
+  // The onward leg in the objective's units: the group rides on by train together
+  const destinationLeg: DestinationLeg | null = useMemo(
+    () =>
+      destination && {
+        point: destination.latlng,
+        weight:
+          DEFAULT_DESTINATION_WEIGHT *
+          (isTimeObjective(objective) ? minutesPerKm(travelProfiles.train) : 1),
+      },
+    [destination, objective, travelProfiles]
+  )
+
+  const { station: straightSuggestion } = useSuggestedStation(result, {
+    objective,
+    metric: distanceMetric,
+    originLines,
+    scales: timeScales,
+    destination: destinationLeg,
+  })
+
+  // The rail network is a generated asset; without it the rail basis is disabled
+  const isRailAvailable = useAssetAvailability(RAIL_NETWORK_URL) === true
+  const isRailBasis = distanceBasis === 'rail' && isRailAvailable
+  const railSearch = useNetworkStation(isRailBasis ? result : null, {
+    objective,
+    metric: distanceMetric,
+  })
+  const networkStation = isRailBasis ? railSearch.station : null
+
+  const isTransferBasis = distanceBasis === 'transfers'
+  const transferSearch = useTransferStation(isTransferBasis ? result : null, {
+    objective,
+    metric: distanceMetric,
+  })
+  const transferStation = isTransferBasis ? transferSearch.station : null
+
+  // Scheduled journey times, offered only when the generated timetable is deployed
+  const isTimetableAvailable = useAssetAvailability(TIMETABLE_URL) === true
+  const timetableSearch = useTimetableStations(isTimetableAvailable ? result : null, {
+    departure: timetableDeparture,
+    objective,
+    metric: distanceMetric,
+  })
+
+  // Fall back to the straight-line suggestion while another search runs or when it fails
+  const suggestedStation = networkStation ?? transferStation ?? straightSuggestion
+
+  // How much each participant moves C, M and the straight-line ★ (leave-one-out and doubled
+  // weight); ResultCard leaves out the ★ verdict while another basis picks the ★
+  const { analysis: sensitivity } = useSensitivity(result, {
+    objective,
+    metric: distanceMetric,
+    mode: geometryMode,
+    scales: timeScales,
+    destination: destinationLeg,
+    originLines,
+  })
 
-  const centroidNearby = useNearbyStations(result?.centroid ?? null, NEARBY_STATION_LIMIT)
-  const medianNearby = useNearbyStations(result?.geometricMedian ?? null, NEARBY_STATION_LIMIT)
+  const { shortlist: nearOptimal } = useNearOptimalStations(result, {
+    tolerance: nearOptimalTolerance,
+    metric: distanceMetric,
+  })
 
-  const suggestedStation = useMemo(() => {
-    if (!result || medianNearby.stations.length === 0) return null
-    const participants = result.locations.map((l) => l.latlng)
-    return selectKMedoidStation(participants, medianNearby.stations)
-  }, [result, medianNearby.stations])
+  // Searched only while switched on in the settings
+  const { station: balancedStation } = useBalancedStation(balancedCap !== null ? result : null, {
+    cap: balancedCap ?? undefined,
+    metric: distanceMetric,
+  })
+
+  const { clustering } = useStationClusters(locations, clusterCount, {
+    mode: geometryMode,
+    metric: distanceMetric,
+  })
 
   const isMaxReached = locations.length >= MAX_LOCATIONS
 
@@ -79,15 +249,64 @@ function App() {
     setLocations((prev) => prev.filter((_, i) => i !== index))
   }
 
+  function handleAddAlternative(index: number, origin: AlternativeOrigin) {
+    setLocations((prev) =>
+      prev.map((l, i) =>
+        i === index ? { ...l, alternatives: [...(l.alternatives ?? []), origin] } : l
+      )
+    )
+  }
+
+  function handleRemoveAlternative(index: number, alternativeIndex: number) {
+    setLocations((prev) =>
+      prev.map((l, i) => {
+        if (i !== index) return l
+        const { alternatives = [], ...rest } = l
+        const remaining = alternatives.filter((_, k) => k !== alternativeIndex)
+        return remaining.length > 0 ? { ...rest, alternatives: remaining } : rest
+      })
+    )
+  }
+
   const handleCopyUrl = useCallback(async () => {
+    const url = buildShareUrl(locations, { objective, meetingTime, destination })
+    // With a meeting time, the group chat also gets when everyone has to leave
+    const text =
+      meetingTime != null && suggestedStation
+        ? buildShareText(url, {
+            stationName: suggestedStation.station.name,
+            meetingTime,
+            locations: resolvedLocations,
+            departures: planDepartures(
+              meetingTime,
+              travelTimes(
+                suggestedStation.station,
+                assumedLocations(resolvedLocations, suggestedStation.assumedOrigins),
+                {
+                  profiles: travelProfiles,
+                  metric: distanceMetric,
+                }
+              )
+            ),
+          })
+        : url
     try {
-      await navigator.clipboard.writeText(buildShareUrl(locations))
+      await navigator.clipboard.writeText(text)
       setIsCopied(true)
       setTimeout(() => setIsCopied(false), 2000)
     } catch {
       // Clipboard API not available — fail silently
     }
-  }, [locations])
+  }, [
+    locations,
+    objective,
+    meetingTime,
+    destination,
+    suggestedStation,
+    resolvedLocations,
+    travelProfiles,
+    distanceMetric,
+  ])
 
   return (
     <div className="min-h-full lg:h-full bg-base-200 flex flex-col lg:overflow-hidden">
@@ -131,18 +350,68 @@ function App() {
         {/* Left column: input form + result card (scrollable on desktop) + desktop-only footer pinned to bottom */}
         <aside className="w-full lg:w-md shrink-0 flex flex-col lg:overflow-hidden">
           <div className="flex flex-col gap-4 lg:flex-1 lg:overflow-y-auto overflow-x-hidden">
-            <LocationForm onAdd={handleAddLocation} disabled={isMaxReached} />
+            <LocationForm
+              onAdd={handleAddLocation}
+              disabled={isMaxReached}
+              participants={locations}
+              onAddAlternative={handleAddAlternative}
+            />
+            <DestinationForm destination={destination} onChange={setDestination} />
+            <SettingsPanel
+              geometryMode={geometryMode}
+              onGeometryModeChange={setGeometryMode}
+              objective={objective}
+              onObjectiveChange={setObjective}
+              distanceBasis={distanceBasis}
+              onDistanceBasisChange={setDistanceBasis}
+              unavailableBases={isRailAvailable ? [] : ['rail']}
+              preferDirect={preferDirect}
+              onPreferDirectChange={setPreferDirect}
+              distanceMetric={distanceMetric}
+              onDistanceMetricChange={setDistanceMetric}
+              clusterCount={clusterCount}
+              onClusterCountChange={setClusterCount}
+              balancedCap={balancedCap}
+              onBalancedCapChange={setBalancedCap}
+              travelProfiles={travelProfiles}
+              onTravelProfilesChange={setTravelProfiles}
+            />
             <ResultCard
-              locations={locations}
+              locations={resolvedLocations}
               result={result}
               onRemove={handleRemoveLocation}
-              centroidNearbyStations={centroidNearby.stations}
-              medianNearbyStations={medianNearby.stations}
+              onRemoveAlternative={handleRemoveAlternative}
+              distanceMetric={distanceMetric}
+              travelProfiles={travelProfiles}
+              centroidNearbyStations={centroidRows}
+              medianNearbyStations={medianRows}
               suggestedStation={suggestedStation}
-              isLoadingNearbyStations={centroidNearby.isLoading || medianNearby.isLoading}
+              networkStation={networkStation}
+              networkError={isRailBasis ? railSearch.error : null}
+              transferStation={transferStation}
+              minimaxNearbyStations={minimaxRows}
+              fairestStation={fairestStation}
+              clustering={clustering}
+              isLoadingNearbyStations={
+                centroidNearby.isLoading || medianNearby.isLoading || minimaxNearby.isLoading
+              }
+              meetingTime={meetingTime}
+              onMeetingTimeChange={setMeetingTime}
               onCopyUrl={handleCopyUrl}
               isCopied={isCopied}
               onFocusMap={handleFocusMap}
+              sensitivity={sensitivity}
+              showDisplacedMedians={showDisplacedMedians}
+              onShowDisplacedMediansChange={setShowDisplacedMedians}
+              nearOptimal={nearOptimal}
+              nearOptimalTolerance={nearOptimalTolerance}
+              onNearOptimalToleranceChange={setNearOptimalTolerance}
+              balancedStation={balancedStation}
+              timetableCandidates={timetableSearch.candidates}
+              isLoadingTimetable={timetableSearch.isLoading}
+              timetableError={timetableSearch.error}
+              timetableDeparture={timetableDeparture}
+              onTimetableDepartureChange={isTimetableAvailable ? setTimetableDeparture : undefined}
             />
           </div>
           <Footer className="hidden lg:flex mt-4" />
@@ -151,13 +420,21 @@ function App() {
         {/* Right column: map (fills remaining space) */}
         <div className="flex-1 min-w-0 min-h-64 lg:min-h-0">
           <MapView
-            locations={locations}
+            locations={resolvedLocations}
             centroid={result?.centroid}
             geometricMedian={result?.geometricMedian}
+            minimaxCircle={result?.minimaxCircle}
             suggestedStation={suggestedStation}
-            centroidNearbyStations={centroidNearby.stations}
-            medianNearbyStations={medianNearby.stations}
+            centroidNearbyStations={centroidRows}
+            medianNearbyStations={medianRows}
+            minimaxNearbyStations={minimaxRows}
+            clustering={clustering}
             focusRequest={focusRequest}
+            destination={destination}
+            nearOptimalRegion={nearOptimal?.region}
+            displacedMedians={
+              showDisplacedMedians ? sensitivity?.influences.map((i) => i.medianWithout) : null
+            }
           />
         </div>
       </main>
@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import { useStationSearch } from '@/hooks/useStationSearch'
+import type { Destination, StationWithCoords } from '@/types'
+
+interface DestinationFormProps {
+  /** Current shared destination (null: none) */
+  destination: Destination | null
+  /** Callback when the destination is set or cleared */
+  onChange: (destination: Destination | null) => void
+}
+
+/**
+ * Optional shared destination the group travels to together after meeting.
+ * Set by station search or coordinates; the meeting point is then optimized including
+ * the group's onward trip.
+ */
+function DestinationForm({ destination, onChange }: DestinationFormProps) {
+  const [label, setLabel] = useState('')
+  const [stationQuery, setStationQuery] = useState('')
+  const [lat, setLat] = useState('')
+  const [lng, setLng] = useState('')
+
+  const { stations, isLoading, error } = useStationSearch(stationQuery)
+
+  function handleStationSelect(station: StationWithCoords) {
+    onChange({ label: station.name, latlng: { lat: station.lat, lng: station.lng } })
+    setStationQuery('')
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+
+    const parsedLat = Number.parseFloat(lat)
+    const parsedLng = Number.parseFloat(lng)
+
+    if (Number.isNaN(parsedLat) || parsedLat < -90 || parsedLat > 90) return
+    if (Number.isNaN(parsedLng) || parsedLng < -180 || parsedLng > 180) return
+
+    onChange({
+      label: label.trim() || `${parsedLat.toFixed(4)}, ${parsedLng.toFixed(4)}`,
+      latlng: { lat: parsedLat, lng: parsedLng },
+    })
+
+    setLabel('')
+    setLat('')
+    setLng('')
+  }
+
+  return (
+    <div data-testid="destination-form" className="card bg-base-100 shadow-md">
+      <div className="card-body">
+        <h2 className="card-title text-lg">目的地（任意）</h2>
+        <p className="text-sm text-base-content/60">
+          集合後に全員で向かう場所（会場・空港など）を設定すると、そこまでの移動も含めて集合場所を選びます
+        </p>
+
+        {destination ? (
+          <div
+            className="flex items-center justify-between bg-base-200 rounded-lg px-3 py-2"
+            data-testid="destination-current"
+          >
+            <span className="font-medium">{destination.label}</span>
+            <button
+              type="button"
+              className="btn btn-ghost btn-xs"
+              onClick={() => onChange(null)}
+              aria-label="目的地を解除"
+            >
+              解除
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            {/* Station search */}
+            <div className="form-control">
+              <label htmlFor="destination-station" className="label">
+                <span className="label-text">駅名で検索</span>
+              </label>
+              <input
+                id="destination-station"
+                type="text"
+                placeholder="駅名を入力…"
+                className="input input-bordered w-full"
+                value={stationQuery}
+                onChange={(e) => setStationQuery(e.target.value)}
+                aria-label="目的地の駅名検索"
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-error" role="alert">
+                検索エラー: {error}
+              </div>
+            )}
+
+            {/* Station search results */}
+            {stationQuery.trim() && !error && (
+              <div className="max-h-48 overflow-y-auto">
+                {isLoading ? (
+                  <output className="flex justify-center py-3" aria-label="検索中">
+                    <span className="loading loading-spinner loading-sm" />
+                  </output>
+                ) : stations.length > 0 ? (
+                  <ul
+                    className="menu menu-compact bg-base-200 rounded-box"
+                    data-testid="destination-station-results"
+                  >
+                    {stations.map((station) => (
+                      <li key={station.id}>
+                        <button type="button" onClick={() => handleStationSelect(station)}>
+                          <span className="font-medium">{station.name}</span>
+                          {station.line_name && (
+                            <span className="text-xs opacity-60">{station.line_name}</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-base-content/50 py-2">検索結果がありません</p>
+                )}
+              </div>
+            )}
+
+            {/* Or a place that is not a station, by coordinates */}
+            <div className="form-control">
+              <label htmlFor="destination-label" className="label">
+                <span className="label-text">目的地の名前（任意）</span>
+              </label>
+              <input
+                id="destination-label"
+                type="text"
+                placeholder="例: 会場、温泉"
+                className="input input-bordered w-full"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <div className="form-control flex-1">
+                <label htmlFor="destination-lat" className="label">
+                  <span className="label-text">目的地の緯度</span>
+                </label>
+                <input
+                  id="destination-lat"
+                  type="number"
+                  step="any"
+                  placeholder="35.2324"
+                  className="input input-bordered w-full"
+                  value={lat}
+                  onChange={(e) => setLat(e.target.value)}
+                />
+              </div>
+              <div className="form-control flex-1">
+                <label htmlFor="destination-lng" className="label">
+                  <span className="label-text">目的地の経度</span>
+                </label>
+                <input
+                  id="destination-lng"
+                  type="number"
+                  step="any"
+                  placeholder="139.1069"
+                  className="input input-bordered w-full"
+                  value={lng}
+                  onChange={(e) => setLng(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <button type="submit" className="btn btn-outline">
+              目的地に設定
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DestinationForm
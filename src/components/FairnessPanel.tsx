@@ -0,0 +1,134 @@
+import { fairnessMetrics } from '@/lib/fairness'
+import { locationWeights } from '@/lib/geo'
+import type { FairnessMetrics, Location } from '@/types'
+
+/** One meeting point compared in the panel */
+export interface FairnessColumn {
+  /** Short label matching the map marker (e.g. 'C', 'M', '★') */
+  label: string
+  /** DaisyUI badge color modifier class (e.g. 'badge-warning') */
+  badgeClass: string
+  /** Bar color for the per-participant chart (CSS color) */
+  barColor: string
+  /** Each participant's distance to the point (km), aligned with `locations` */
+  distances: number[]
+}
+
+interface FairnessPanelProps {
+  /** Participants, whose weights count in the indicators */
+  locations: Location[]
+  /** Meeting points to compare */
+  columns: FairnessColumn[]
+}
+
+/** Rows of the indicator table: label, value of the metrics and hover explanation */
+const METRIC_ROWS: {
+  label: string
+  format: (metrics: FairnessMetrics) => string
+  title: string
+}[] = [
+  {
+    label: '最長',
+    format: (m) => formatKm(m.max),
+    title: '最も遠い人の距離',
+  },
+  {
+    label: '差',
+    format: (m) => formatKm(m.spread),
+    title: '最も遠い人と最も近い人の距離の差',
+  },
+  {
+    label: '標準偏差',
+    format: (m) => formatKm(m.stdDev),
+    title: '距離のばらつき（重み付き）',
+  },
+  {
+    label: 'ジニ係数',
+    format: (m) => m.gini.toFixed(2),
+    title: '0 なら全員同じ距離、1 に近いほど一部の人に移動が偏る',
+  },
+]
+
+/** Format distance in km for display */
+function formatKm(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`
+}
+
+/**
+ * Fairness indicators (longest trip, spread, standard deviation, Gini coefficient) of each
+ * meeting point, with a per-participant bar chart of the distances
+ */
+function FairnessPanel({ locations, columns }: FairnessPanelProps) {
+  if (columns.length === 0 || locations.length === 0) return null
+
+  const weights = locationWeights(locations)
+  const metrics = columns.map((column) => fairnessMetrics(column.distances, weights))
+  const longest = Math.max(...columns.flatMap((column) => column.distances))
+
+  return (
+    <div data-testid="fairness-panel" className="mt-4">
+      <h3 className="font-semibold mb-2">公平性</h3>
+      <div className="overflow-x-auto">
+        <table className="table table-xs" data-testid="fairness-table">
+          <thead>
+            <tr>
+              <th />
+              {columns.map((column) => (
+                <th key={column.label}>
+                  <span
+                    className={`badge badge-sm ${column.badgeClass}`}
+                  >{`→ ${column.label}`}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRIC_ROWS.map((row) => (
+              <tr key={row.label}>
+                <th scope="row" title={row.title}>
+                  {row.label}
+                </th>
+                {metrics.map((m, i) => (
+                  <td key={columns[i].label} className="tabular-nums">
+                    {row.format(m)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Per-participant distances, one bar per meeting point, on a shared scale; participants
+          are numbered as on the map */}
+      <ul data-testid="fairness-chart" className="flex flex-col gap-1.5 mt-2">
+        {locations.map((location, p) => (
+          <li key={location.id} className="flex items-start gap-2 text-xs">
+            <span className="w-20 shrink-0 truncate" title={location.label}>
+              {`${p + 1}. ${location.label}`}
+            </span>
+            <div className="flex-1 flex flex-col gap-0.5">
+              {columns.map((column) => {
+                const d = column.distances[p]
+                return (
+                  <div
+                    key={column.label}
+                    data-testid="fairness-bar"
+                    className="h-1.5 rounded-full"
+                    style={{
+                      width: `${longest > 0 ? (100 * d) / longest : 0}%`,
+                      backgroundColor: column.barColor,
+                    }}
+                    title={`${location.label} → ${column.label}: ${formatKm(d)}`}
+                  />
+                )
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default FairnessPanel
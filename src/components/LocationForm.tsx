@@ -1,29 +1,68 @@
 import { useState } from 'react'
 import { useStationSearch } from '@/hooks/useStationSearch'
-import type { Location, StationWithCoords } from '@/types'
+import { stationOriginFor } from '@/lib/stations'
+import { DEFAULT_TRAVEL_MODE, TRAVEL_MODE_LABELS } from '@/lib/travelTime'
+import type {
+  AlternativeOrigin,
+  Location,
+  StationOrigin,
+  StationWithCoords,
+  TravelMode,
+} from '@/types'
 
 interface LocationFormProps {
   /** Callback when a location is added */
   onAdd: (location: Location) => void
   /** Whether adding is disabled (e.g., max locations reached) */
   disabled?: boolean
+  /** Current participants, offered as targets for an alternative origin */
+  participants?: Location[]
+  /** Callback when an alternative origin is added to the participant at `index` */
+  onAddAlternative?: (index: number, origin: AlternativeOrigin) => void
 }
 
+/** Value of the target select for adding a new participant */
+const NEW_PARTICIPANT = 'new'
+
+/** Initial value of the weight field (one person per pin) */
+const DEFAULT_WEIGHT_INPUT = '1'
+
 /**
  * Unified location input form.
  * Supports station search (auto-fills coordinates) and direct coordinate entry.
+ * With `onAddAlternative`, the place can instead be added as another origin of an existing
+ * participant (e.g. the office besides home); that still works once the maximum is reached.
  */
-function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
+function LocationForm({
+  onAdd,
+  disabled = false,
+  participants = [],
+  onAddAlternative,
+}: LocationFormProps) {
   const [label, setLabel] = useState('')
   const [stationQuery, setStationQuery] = useState('')
   const [lat, setLat] = useState('')
   const [lng, setLng] = useState('')
+  const [weight, setWeight] = useState(DEFAULT_WEIGHT_INPUT)
+  const [mode, setMode] = useState<TravelMode>(DEFAULT_TRAVEL_MODE)
   const [selectedStation, setSelectedStation] = useState<StationWithCoords | null>(null)
+  // Rows of the picked station on every line, gathered while the search results are at hand
+  const [selectedOrigin, setSelectedOrigin] = useState<StationOrigin | null>(null)
+  // Id of the participant to add an alternative origin to, so removals do not retarget it
+  const [target, setTarget] = useState(NEW_PARTICIPANT)
+  // Set when the submitted place is already one of the target participant's origins
+  const [isDuplicateAlternative, setIsDuplicateAlternative] = useState(false)
+
+  // A target removed in the meantime falls back to adding a new participant
+  const targetIndex = participants.findIndex((participant) => participant.id === target)
+  const alternativeTarget = targetIndex >= 0 ? targetIndex : null
+  const isBlocked = disabled && alternativeTarget === null
 
   const { stations, isLoading, error } = useStationSearch(stationQuery)
 
   function handleStationSelect(station: StationWithCoords) {
     setSelectedStation(station)
+    setSelectedOrigin(stationOriginFor(station, stations))
     setStationQuery('')
     setLat(String(station.lat))
     setLng(String(station.lng))
@@ -31,7 +70,7 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
 
   function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
-    if (disabled) return
+    if (isBlocked) return
 
     const parsedLat = Number.parseFloat(lat)
     const parsedLng = Number.parseFloat(lng)
@@ -39,6 +78,10 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
     if (Number.isNaN(parsedLat) || parsedLat < -90 || parsedLat > 90) return
     if (Number.isNaN(parsedLng) || parsedLng < -180 || parsedLng > 180) return
 
+    const parsedWeight = Number.parseFloat(weight)
+    // The weight belongs to the participant, so an alternative origin does not need one
+    if (alternativeTarget === null && (!Number.isFinite(parsedWeight) || parsedWeight <= 0)) return
+
     // Build display label from user input and/or station name
     let displayLabel = ''
     const trimmedLabel = label.trim()
@@ -50,17 +93,41 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
       displayLabel = trimmedLabel || `${parsedLat.toFixed(4)}, ${parsedLng.toFixed(4)}`
     }
 
-    onAdd({
-      id: crypto.randomUUID(),
-      label: displayLabel,
-      latlng: { lat: parsedLat, lng: parsedLng },
-    })
+    if (alternativeTarget !== null) {
+      const alternative = { label: displayLabel, latlng: { lat: parsedLat, lng: parsedLng } }
+      // The same coordinates add nothing under another label, and neither does the main point
+      const { latlng, alternatives = [] } = participants[alternativeTarget]
+      if (
+        [latlng, ...alternatives.map((a) => a.latlng)].some(
+          (point) => point.lat === parsedLat && point.lng === parsedLng
+        )
+      ) {
+        setIsDuplicateAlternative(true)
+        return
+      }
+      onAddAlternative?.(alternativeTarget, alternative)
+    } else {
+      onAdd({
+        id: crypto.randomUUID(),
+        label: displayLabel,
+        latlng: { lat: parsedLat, lng: parsedLng },
+        // Omit the default weight so plain one-person pins stay minimal (and out of the URL)
+        ...(parsedWeight !== 1 && { weight: parsedWeight }),
+        ...(selectedStation && selectedOrigin && { origin: selectedOrigin }),
+        ...(mode !== DEFAULT_TRAVEL_MODE && { mode }),
+      })
+    }
 
     setLabel('')
     setStationQuery('')
     setLat('')
     setLng('')
+    setWeight(DEFAULT_WEIGHT_INPUT)
+    setMode(DEFAULT_TRAVEL_MODE)
     setSelectedStation(null)
+    setSelectedOrigin(null)
+    setTarget(NEW_PARTICIPANT)
+    setIsDuplicateAlternative(false)
   }
 
   return (
@@ -69,6 +136,31 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
         <h2 className="card-title text-lg">出発地（駅）を追加</h2>
 
         <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          {/* Target: a new participant, or another origin of an existing one */}
+          {onAddAlternative && participants.length > 0 && (
+            <div className="form-control">
+              <label htmlFor="form-target" className="label">
+                <span className="label-text">追加先</span>
+              </label>
+              <select
+                id="form-target"
+                className="select select-bordered w-full"
+                value={alternativeTarget === null ? NEW_PARTICIPANT : target}
+                onChange={(e) => {
+                  setTarget(e.target.value)
+                  setIsDuplicateAlternative(false)
+                }}
+              >
+                <option value={NEW_PARTICIPANT}>新しい出発地</option>
+                {participants.map((participant) => (
+                  <option key={participant.id} value={participant.id}>
+                    {participant.label}の別の出発地（自宅・職場など）
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Label (optional) */}
           <div className="form-control">
             <label htmlFor="form-label" className="label">
@@ -81,7 +173,7 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
               className="input input-bordered w-full"
               value={label}
               onChange={(e) => setLabel(e.target.value)}
-              disabled={disabled}
+              disabled={isBlocked}
             />
           </div>
 
@@ -100,7 +192,7 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
                 setStationQuery(e.target.value)
                 setSelectedStation(null)
               }}
-              disabled={disabled}
+              disabled={isBlocked}
               aria-label="駅名検索"
             />
           </div>
@@ -128,7 +220,7 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
                       <button
                         type="button"
                         onClick={() => handleStationSelect(station)}
-                        disabled={disabled}
+                        disabled={isBlocked}
                       >
                         <span className="font-medium">{station.name}</span>
                         {station.line_name && (
@@ -177,7 +269,7 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
                   setLat(e.target.value)
                   setSelectedStation(null)
                 }}
-                disabled={disabled}
+                disabled={isBlocked}
               />
             </div>
             <div className="form-control flex-1">
@@ -195,13 +287,65 @@ function LocationForm({ onAdd, disabled = false }: LocationFormProps) {
                   setLng(e.target.value)
                   setSelectedStation(null)
                 }}
-                disabled={disabled}
+                disabled={isBlocked}
               />
             </div>
           </div>
 
-          <button type="submit" className="btn btn-primary" disabled={disabled}>
-            {disabled ? '上限に達しました' : '追加'}
+          {/* Weight (number of people / priority represented by this pin) */}
+          {alternativeTarget === null && (
+            <div className="form-control">
+              <label htmlFor="form-weight" className="label">
+                <span className="label-text">重み（人数）</span>
+              </label>
+              <input
+                id="form-weight"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="1"
+                className="input input-bordered w-full"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                disabled={isBlocked}
+              />
+            </div>
+          )}
+
+          {/* Travel mode (for the travel-time estimates) */}
+          {alternativeTarget === null && (
+            <div className="form-control">
+              <label htmlFor="form-mode" className="label">
+                <span className="label-text">移動手段</span>
+              </label>
+              <select
+                id="form-mode"
+                className="select select-bordered w-full"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as TravelMode)}
+                disabled={isBlocked}
+              >
+                {(Object.keys(TRAVEL_MODE_LABELS) as TravelMode[]).map((value) => (
+                  <option key={value} value={value}>
+                    {TRAVEL_MODE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {isDuplicateAlternative && alternativeTarget !== null && (
+            <div className="text-sm text-error" role="alert">
+              この出発地はすでに追加されています
+            </div>
+          )}
+
+          <button type="submit" className="btn btn-primary" disabled={isBlocked}>
+            {isBlocked
+              ? '上限に達しました'
+              : alternativeTarget === null
+                ? '追加'
+                : '別の出発地として追加'}
           </button>
         </form>
       </div>
@@ -1,10 +1,45 @@
 import { divIcon, type LatLngExpression, type Map as LeafletMap, latLngBounds } from 'leaflet'
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { CLUSTER_COLORS } from '@/lib/clustering'
+import { findDirectConnection } from '@/lib/directLines'
+import {
+  CONTOUR_LEVELS,
+  cellBounds,
+  contourSegments,
+  fieldBounds,
+  intersectBounds,
+  sampleDistanceField,
+} from '@/lib/distanceField'
+import { locationWeights, solveGeometricMedian } from '@/lib/geo'
 import { haversineDistance } from '@/lib/haversine'
 import { groupStationsByName } from '@/lib/stations'
-import type { KMedoidResult, LatLng, Location, MapFocusRequest, NearbyStation } from '@/types'
+import { lineKey } from '@/lib/transfers'
+import { isTimeObjective } from '@/lib/travelTime'
+import type {
+  Destination,
+  DistanceGrid,
+  EnclosingCircle,
+  GeoBounds,
+  KMedoidResult,
+  LatLng,
+  Location,
+  MapFocusRequest,
+  NearbyStation,
+  StationClustering,
+} from '@/types'
 import 'leaflet/dist/leaflet.css'
-import { MapContainer, Marker, Polygon, Popup, TileLayer, useMap } from 'react-leaflet'
+import {
+  Circle,
+  ImageOverlay,
+  MapContainer,
+  Marker,
+  Polygon,
+  Polyline,
+  Popup,
+  TileLayer,
+  useMap,
+  useMapEvents,
+} from 'react-leaflet'
 
 /** Default center (Japan) and zoom level */
 const DEFAULT_CENTER: LatLngExpression = [36.5, 138.0]
@@ -75,11 +110,133 @@ function MapBounds({ positions }: { positions: LatLng[] }) {
   return null
 }
 
+/** Nodes per side of the total-distance grid, resampled over the visible area on pan/zoom */
+const HEATMAP_GRID_SIZE = 48
+
+/** Excess over the optimum (fraction) at which the heatmap reaches its hottest colour */
+const HEATMAP_MAX_EXCESS = 0.3
+
+/** Opacity of the heatmap image */
+const HEATMAP_OPACITY = 0.45
+
+/** Contour line colours, aligned with `CONTOUR_LEVELS` (+5%, +10%, +20%) */
+const CONTOUR_COLORS = ['#16a34a', '#ca8a04', '#dc2626'] as const
+
+/** Visible area of the map */
+function viewBounds(map: LeafletMap): GeoBounds {
+  const bounds = map.getBounds()
+  return {
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast(),
+  }
+}
+
+/**
+ * Paint the grid as a data URL image, one pixel per node (north row first) to stretch over
+ * `cellBounds(grid)`, green at the optimum through red at `HEATMAP_MAX_EXCESS` above it.
+ * Null where canvas is unavailable.
+ */
+function renderHeatmapImage(grid: DistanceGrid, optimum: number): string | null {
+  const canvas = document.createElement('canvas')
+  canvas.width = grid.cols
+  canvas.height = grid.rows
+  const context = canvas.getContext('2d')
+  if (!context) return null
+
+  const image = context.createImageData(grid.cols, grid.rows)
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.cols; c++) {
+      const excess = grid.values[r * grid.cols + c] / optimum - 1
+      const t = Math.min(Math.max(excess / HEATMAP_MAX_EXCESS, 0), 1)
+      const offset = ((grid.rows - 1 - r) * grid.cols + c) * 4
+      image.data[offset] = Math.round(255 * Math.min(2 * t, 1))
+      image.data[offset + 1] = Math.round(255 * Math.min(2 * (1 - t), 1))
+      image.data[offset + 2] = 0
+      image.data[offset + 3] = 255
+    }
+  }
+  context.putImageData(image, 0, 0)
+  return canvas.toDataURL()
+}
+
+/**
+ * Total distance from every participant as a heatmap with contour lines at +5/10/20% of the
+ * optimum. Sampled around the participants' hull, clipped to the visible area and resampled
+ * whenever the map is panned or zoomed.
+ */
+function DistanceHeatmap({ points, weights }: { points: LatLng[]; weights: number[] }) {
+  const map = useMap()
+  const [view, setView] = useState(() => viewBounds(map))
+  useMapEvents({ moveend: () => setView(viewBounds(map)) })
+
+  // The optimum is the total at the geometric median, wherever the viewport is
+  const optimum = useMemo(
+    () => solveGeometricMedian(points, { weights }).report.objective,
+    [points, weights]
+  )
+
+  const grid = useMemo(() => {
+    const bounds = intersectBounds(fieldBounds(points), view)
+    if (!bounds) return null
+    return sampleDistanceField(points, bounds, {
+      rows: HEATMAP_GRID_SIZE,
+      cols: HEATMAP_GRID_SIZE,
+      weights,
+    })
+  }, [points, weights, view])
+
+  const imageUrl = useMemo(
+    () => (grid && optimum > 0 ? renderHeatmapImage(grid, optimum) : null),
+    [grid, optimum]
+  )
+
+  const contours = useMemo(
+    () =>
+      grid
+        ? CONTOUR_LEVELS.map((level) =>
+            contourSegments(grid, optimum * (1 + level)).map(([a, b]): LatLngExpression[] => [
+              [a.lat, a.lng],
+              [b.lat, b.lng],
+            ])
+          )
+        : [],
+    [grid, optimum]
+  )
+
+  if (!grid) return null
+  // Each pixel is the cell centred on its node, so the image extends half a cell past them
+  const { south, west, north, east } = cellBounds(grid)
+  return (
+    <>
+      {imageUrl && (
+        <ImageOverlay
+          url={imageUrl}
+          bounds={[
+            [south, west],
+            [north, east],
+          ]}
+          opacity={HEATMAP_OPACITY}
+        />
+      )}
+      {contours.map((segments, i) => (
+        <Polyline
+          key={CONTOUR_LEVELS[i]}
+          positions={segments}
+          pathOptions={{ color: CONTOUR_COLORS[i], weight: 2, opacity: 0.9 }}
+        />
+      ))}
+    </>
+  )
+}
+
 /** Create a colored circle marker icon using DaisyUI CSS variables */
 function createCircleIcon(
   cssColor: string,
   label?: string,
-  size: number = 24
+  size: number = 24,
+  opacity: number = 1
 ): ReturnType<typeof divIcon> {
   // Scale border and font with size to keep proportions readable for small variants
   const border = size >= 24 ? 2 : 1.5
@@ -99,6 +256,7 @@ function createCircleIcon(
       color: white;
       font-size: ${fontSize}px;
       font-weight: bold;
+      opacity: ${opacity};
     ">${label ?? ''}</div>`,
     iconSize: [size, size],
     iconAnchor: [size / 2, size / 2],
@@ -148,6 +306,9 @@ const NEARBY_MARKER_LIMIT = 3
 /** Size in pixels for the small nearby-station marker variant */
 const NEARBY_MARKER_SIZE = 18
 
+/** Opacity of a participant's alternative origin markers, lighter than their own marker */
+const ALTERNATIVE_MARKER_OPACITY = 0.55
+
 /** Format meters as a short km string for marker popups */
 function formatMetersAsKm(meters: number): string {
   return `${(meters / 1000).toFixed(2)} km`
@@ -160,24 +321,45 @@ interface MapProps {
   centroid?: LatLng
   /** Geometric median result (optional) */
   geometricMedian?: LatLng
+  /** Smallest enclosing circle; its center is the minimax (fairest) point (optional) */
+  minimaxCircle?: EnclosingCircle
   /** K-medoid suggested station (optional) */
   suggestedStation?: KMedoidResult | null
   /** Nearby stations for the centroid (raw rows; grouped/sliced internally) */
   centroidNearbyStations?: NearbyStation[]
   /** Nearby stations for the geometric median (raw rows; grouped/sliced internally) */
   medianNearbyStations?: NearbyStation[]
+  /** Nearby stations for the minimax point (raw rows; grouped/sliced internally) */
+  minimaxNearbyStations?: NearbyStation[]
+  /** Participants split into several meeting stations (optional) */
+  clustering?: StationClustering | null
   /** Externally-driven request to fly the map to a specific point */
   focusRequest?: MapFocusRequest | null
+  /** Shared destination the group travels to after meeting (optional) */
+  destination?: Destination | null
+  /**
+   * Where the geometric median moves without each participant, aligned with `locations`
+   * (optional; drawn as lighter M markers tied to M by a dashed line)
+   */
+  displacedMedians?: LatLng[] | null
+  /** Outline of the region within the shortlist tolerance of the best total distance */
+  nearOptimalRegion?: LatLng[] | null
 }
 
 function MapView({
   locations,
   centroid,
   geometricMedian,
+  minimaxCircle,
   suggestedStation,
   centroidNearbyStations,
   medianNearbyStations,
+  minimaxNearbyStations,
+  clustering,
   focusRequest,
+  destination,
+  displacedMedians,
+  nearOptimalRegion,
 }: MapProps) {
   const centroidTop = useMemo(
     () => groupStationsByName(centroidNearbyStations ?? []).slice(0, NEARBY_MARKER_LIMIT),
@@ -193,10 +375,26 @@ function MapView({
     () => medianGroupedAll.slice(0, NEARBY_MARKER_LIMIT),
     [medianGroupedAll]
   )
+  const minimaxTop = useMemo(
+    () => groupStationsByName(minimaxNearbyStations ?? []).slice(0, NEARBY_MARKER_LIMIT),
+    [minimaxNearbyStations]
+  )
   const suggestedStationLines = useMemo(() => {
-    if (!suggestedStation) return undefined
-    return medianGroupedAll.find((g) => g.name === suggestedStation.station.name)?.lines
+    if (!suggestedStation) return []
+    const lines = medianGroupedAll.find((g) => g.name === suggestedStation.station.name)?.lines
+    if (lines && lines.length > 0) return lines
+    return suggestedStation.station.line_name ? [suggestedStation.station.line_name] : []
+  }, [suggestedStation, medianGroupedAll])
+  const suggestedStationLineKeys = useMemo(() => {
+    if (!suggestedStation) return []
+    const keys = medianGroupedAll.find((g) => g.name === suggestedStation.station.name)?.lineKeys
+    if (keys && keys.length > 0) return keys
+    return suggestedStation.station.line_name ? [lineKey(suggestedStation.station)] : []
   }, [suggestedStation, medianGroupedAll])
+  const suggestedDirect = useMemo(
+    () => findDirectConnection(suggestedStationLineKeys, locations),
+    [suggestedStationLineKeys, locations]
+  )
   // Suppress the suggestion marker when it visually coincides with the Median marker
   const showSuggestionMarker =
     suggestedStation != null &&
@@ -206,19 +404,40 @@ function MapView({
         geometricMedian
       ) > SUGGESTION_OVERLAP_THRESHOLD_KM)
 
+  // Cluster index of each location (by position in `locations`), for marker colors
+  const clusterIndexByLocation = useMemo(() => {
+    const indices = new Map<number, number>()
+    clustering?.clusters.forEach((cluster, ci) => {
+      for (const i of cluster.memberIndices) indices.set(i, ci)
+    })
+    return indices
+  }, [clustering])
+
   // Memoized so that re-renders triggered by unrelated state (e.g. focusRequest) do not
   // produce a new array reference, which would cause MapBounds to re-run fitBounds and
   // override the active flyTo animation.
   const allPositions: LatLng[] = useMemo(
     () => [
-      ...locations.map((l) => l.latlng),
+      ...locations.flatMap((l) => [l.latlng, ...(l.alternatives ?? []).map((a) => a.latlng)]),
       ...(centroid ? [centroid] : []),
       ...(geometricMedian ? [geometricMedian] : []),
+      ...(minimaxCircle ? [minimaxCircle.center] : []),
       ...(showSuggestionMarker && suggestedStation
         ? [{ lat: suggestedStation.station.lat, lng: suggestedStation.station.lng }]
         : []),
+      ...(clustering?.clusters.map((c) => ({ lat: c.station.lat, lng: c.station.lng })) ?? []),
+      ...(destination ? [destination.latlng] : []),
     ],
-    [locations, centroid, geometricMedian, showSuggestionMarker, suggestedStation]
+    [
+      locations,
+      centroid,
+      geometricMedian,
+      minimaxCircle,
+      showSuggestionMarker,
+      suggestedStation,
+      clustering,
+      destination,
+    ]
   )
 
   const hullPositions: LatLngExpression[] = useMemo(() => {
@@ -227,6 +446,12 @@ function MapView({
     return convexHull(points).map((p) => [p.lat, p.lng] as LatLngExpression)
   }, [locations])
 
+  // Stable references so the heatmap only resamples when the participants change
+  const participantPoints = useMemo(() => locations.map((l) => l.latlng), [locations])
+  const participantWeights = useMemo(() => locationWeights(locations), [locations])
+  const [showHeatmap, setShowHeatmap] = useState(false)
+  const canShowHeatmap = locations.length >= 2
+
   const [resetTrigger, setResetTrigger] = useState(0)
   const handleResetView = useCallback(() => {
     setResetTrigger((n) => n + 1)
@@ -252,6 +477,10 @@ function MapView({
         <MapReset trigger={resetTrigger} positions={allPositions} />
         <MapFocus request={focusRequest} />
 
+        {showHeatmap && canShowHeatmap && (
+          <DistanceHeatmap points={participantPoints} weights={participantWeights} />
+        )}
+
         {/* Convex hull polygon (3+ locations) */}
         {hullPositions.length >= 3 && (
           <Polygon
@@ -267,13 +496,113 @@ function MapView({
           />
         )}
 
-        {locations.map((location, index) => (
+        {/* Near-optimal region: total distance within the shortlist tolerance of the best */}
+        {nearOptimalRegion && nearOptimalRegion.length >= 3 && (
+          <Polygon
+            positions={nearOptimalRegion.map((p): LatLngExpression => [p.lat, p.lng])}
+            pathOptions={{
+              color: 'var(--color-accent)',
+              fillColor: 'var(--color-accent)',
+              fillOpacity: 0.1,
+              weight: 2,
+              opacity: 0.8,
+            }}
+          />
+        )}
+
+        {/* Smallest enclosing circle around all participants (minimax radius) */}
+        {minimaxCircle && minimaxCircle.radius > 0 && (
+          <Circle
+            center={[minimaxCircle.center.lat, minimaxCircle.center.lng]}
+            radius={minimaxCircle.radius * 1000}
+            pathOptions={{
+              color: 'var(--color-info)',
+              fillColor: 'var(--color-info)',
+              fillOpacity: 0.04,
+              weight: 2,
+              dashArray: '4 6',
+              opacity: 0.7,
+            }}
+          />
+        )}
+
+        {locations.map((location, index) => {
+          const clusterIndex = clusterIndexByLocation.get(index)
+          const color =
+            clusterIndex === undefined
+              ? 'var(--color-primary)'
+              : CLUSTER_COLORS[clusterIndex % CLUSTER_COLORS.length]
+          return (
+            <Marker
+              key={location.id}
+              position={[location.latlng.lat, location.latlng.lng]}
+              icon={createCircleIcon(color, String(index + 1))}
+            >
+              <Popup>
+                {location.label}
+                {clusterIndex !== undefined && (
+                  <>
+                    <br />
+                    グループ{clusterIndex + 1}
+                  </>
+                )}
+              </Popup>
+            </Marker>
+          )
+        })}
+
+        {/* Alternative origins: lighter markers tied to their participant by a dashed line */}
+        {locations.flatMap((location, index) =>
+          (location.alternatives ?? []).map((alternative) => (
+            <Fragment
+              key={`${location.id}-alt-${alternative.label}-${alternative.latlng.lat}-${alternative.latlng.lng}`}
+            >
+              <Polyline
+                positions={[
+                  [location.latlng.lat, location.latlng.lng],
+                  [alternative.latlng.lat, alternative.latlng.lng],
+                ]}
+                pathOptions={{
+                  color: 'var(--color-primary)',
+                  weight: 2,
+                  dashArray: '2 6',
+                  opacity: 0.5,
+                }}
+              />
+              <Marker
+                position={[alternative.latlng.lat, alternative.latlng.lng]}
+                icon={createCircleIcon(
+                  'var(--color-primary)',
+                  String(index + 1),
+                  NEARBY_MARKER_SIZE,
+                  ALTERNATIVE_MARKER_OPACITY
+                )}
+              >
+                <Popup>
+                  {alternative.label}
+                  <br />
+                  {location.label}の別の出発地
+                </Popup>
+              </Marker>
+            </Fragment>
+          ))
+        )}
+
+        {clustering?.clusters.map((cluster, ci) => (
           <Marker
-            key={location.id}
-            position={[location.latlng.lat, location.latlng.lng]}
-            icon={createCircleIcon('var(--color-primary)', String(index + 1))}
+            key={`cluster-${cluster.station.id}`}
+            position={[cluster.station.lat, cluster.station.lng]}
+            icon={createCircleIcon(CLUSTER_COLORS[ci % CLUSTER_COLORS.length], `G${ci + 1}`)}
           >
-            <Popup>{location.label}</Popup>
+            <Popup>
+              <strong>
+                {cluster.station.name} (G{ci + 1})
+              </strong>
+              <br />
+              グループ{ci + 1}の集合場所（{cluster.memberIndices.length}地点）
+              <br />
+              合計距離: {cluster.totalDistance.toFixed(1)} km
+            </Popup>
           </Marker>
         ))}
 
@@ -335,6 +664,79 @@ function MapView({
           </Marker>
         )}
 
+        {/* Leave-one-out medians: where M would be if each participant did not come */}
+        {geometricMedian &&
+          displacedMedians?.map((point, index) => {
+            const location = locations[index]
+            if (!location) return null
+            return (
+              <Fragment key={`${location.id}-displaced-median`}>
+                <Polyline
+                  positions={[
+                    [geometricMedian.lat, geometricMedian.lng],
+                    [point.lat, point.lng],
+                  ]}
+                  pathOptions={{
+                    color: 'var(--color-error)',
+                    weight: 2,
+                    dashArray: '2 6',
+                    opacity: 0.5,
+                  }}
+                />
+                <Marker
+                  position={[point.lat, point.lng]}
+                  icon={createCircleIcon(
+                    'var(--color-error)',
+                    'M',
+                    NEARBY_MARKER_SIZE,
+                    ALTERNATIVE_MARKER_OPACITY
+                  )}
+                >
+                  <Popup>
+                    <strong>{location.label}が来ない場合の最適地点</strong>
+                    <br />M から {haversineDistance(geometricMedian, point).toFixed(2)} km 移動
+                  </Popup>
+                </Marker>
+              </Fragment>
+            )
+          })}
+
+        {destination && (
+          <Marker
+            position={[destination.latlng.lat, destination.latlng.lng]}
+            icon={createCircleIcon('var(--color-neutral)', 'D')}
+          >
+            <Popup>
+              <strong>目的地: {destination.label}</strong>
+              <br />
+              集合後に全員で向かう場所。最適地点（M）はここまでの移動も含めて計算される。
+            </Popup>
+          </Marker>
+        )}
+
+        {minimaxCircle && (
+          <Marker
+            position={[minimaxCircle.center.lat, minimaxCircle.center.lng]}
+            icon={createCircleIcon('var(--color-info)', 'F')}
+          >
+            <Popup>
+              <strong>公平地点</strong>
+              <br />
+              最も遠い人の直線距離が最小となる地点（
+              <a
+                href="https://en.wikipedia.org/wiki/Smallest-circle_problem"
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                最小包含円
+              </a>
+              の中心）。
+              <br />
+              最も遠い人の距離: {minimaxCircle.radius.toFixed(1)} km
+            </Popup>
+          </Marker>
+        )}
+
         {centroidTop.map((group, i) => (
           <Marker
             key={`centroid-near-${group.name}`}
@@ -379,6 +781,28 @@ function MapView({
           </Marker>
         ))}
 
+        {minimaxTop.map((group, i) => (
+          <Marker
+            key={`minimax-near-${group.name}`}
+            position={[group.lat, group.lng]}
+            icon={createCircleIcon('var(--color-info)', `F${i + 1}`, NEARBY_MARKER_SIZE)}
+          >
+            <Popup>
+              <strong>
+                {group.name} (F{i + 1})
+              </strong>
+              {group.lines.length > 0 && (
+                <>
+                  <br />
+                  {group.lines.join(' / ')}
+                </>
+              )}
+              <br />
+              公平地点から: {formatMetersAsKm(group.distance_meters)}
+            </Popup>
+          </Marker>
+        ))}
+
         {showSuggestionMarker && suggestedStation && (
           <Marker
             position={[suggestedStation.station.lat, suggestedStation.station.lng]}
@@ -387,22 +811,29 @@ function MapView({
             <Popup>
               <strong>おすすめ駅: {suggestedStation.station.name}</strong>
               <br />
-              {(() => {
-                const displayLines =
-                  suggestedStationLines && suggestedStationLines.length > 0
-                    ? suggestedStationLines
-                    : suggestedStation.station.line_name
-                      ? [suggestedStation.station.line_name]
-                      : []
-                if (displayLines.length === 0) return null
-                return (
-                  <>
-                    {displayLines.join(' / ')}
-                    <br />
-                  </>
-                )
-              })()}
+              {suggestedStationLines.length > 0 && (
+                <>
+                  {suggestedStationLines.join(' / ')}
+                  <br />
+                </>
+              )}
+              {suggestedDirect.participants.length > 0 && (
+                <>
+                  直通: {suggestedDirect.participants.map((i) => locations[i].label).join('、')}（
+                  {suggestedDirect.lines.join(' / ')}）
+                  <br />
+                </>
+              )}
               全員からの合計距離: {suggestedStation.totalDistance.toFixed(1)} km
+              {suggestedStation.objective !== 'sum' && (
+                <>
+                  <br />
+                  評価値:{' '}
+                  {isTimeObjective(suggestedStation.objective)
+                    ? `約${Math.round(suggestedStation.score)}分`
+                    : `${suggestedStation.score.toFixed(1)} ${suggestedStation.objective === 'sumOfSquares' ? 'km²' : 'km'}`}
+                </>
+              )}
             </Popup>
           </Marker>
         )}
@@ -422,6 +853,41 @@ function MapView({
         </div>
       )}
 
+      {/* Total-distance heatmap toggle and its contour legend */}
+      {canShowHeatmap && (
+        <div
+          className="tooltip tooltip-left absolute top-12 right-2 z-[1000]"
+          data-tip="合計距離のヒートマップ"
+        >
+          <button
+            type="button"
+            onClick={() => setShowHeatmap((show) => !show)}
+            aria-label="合計距離のヒートマップを表示"
+            aria-pressed={showHeatmap}
+            className={`btn btn-sm btn-circle shadow-md ${showHeatmap ? 'btn-primary' : 'bg-base-100 hover:bg-base-200'}`}
+          >
+            <span aria-hidden="true">▦</span>
+          </button>
+        </div>
+      )}
+      {showHeatmap && canShowHeatmap && (
+        <div
+          data-testid="heatmap-legend"
+          className="absolute bottom-6 left-2 z-[1000] text-xs bg-base-100/90 px-2 py-1 rounded shadow"
+        >
+          <p className="font-semibold">合計距離（最適比）</p>
+          {CONTOUR_LEVELS.map((level, i) => (
+            <p key={level} className="flex items-center gap-1">
+              <span
+                className="inline-block w-4 h-0.5"
+                style={{ backgroundColor: CONTOUR_COLORS[i] }}
+              />
+              +{Math.round(level * 100)}%
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Data source attribution */}
       <div className="absolute bottom-6 right-2 z-[1000] text-xs text-base-content/70 bg-base-100/80 px-2 py-0.5 rounded">
         駅データ:{' '}
@@ -1,7 +1,41 @@
-import { useMemo } from 'react'
-import { haversineDistance } from '@/lib/haversine'
+import { useMemo, useState } from 'react'
+import FairnessPanel, { type FairnessColumn } from '@/components/FairnessPanel'
+import { CLUSTER_COLORS } from '@/lib/clustering'
+import { type DirectConnection, findDirectConnection } from '@/lib/directLines'
+import { type DistanceFunction, getDistanceFunction } from '@/lib/distance'
+import { assumedLocations, locationWeights, totalDistance } from '@/lib/geo'
+import { formatClockTime, parseClockTime, planDepartures } from '@/lib/meetingPlan'
+import { DEFAULT_NEAR_OPTIMAL_TOLERANCE } from '@/lib/nearOptimal'
 import { groupStationsByName } from '@/lib/stations'
-import type { KMedoidResult, LatLng, Location, MeetingPointResult, NearbyStation } from '@/types'
+import type { TimetableCandidate } from '@/lib/timetable'
+import {
+  DEFAULT_TRAVEL_MODE,
+  DEFAULT_TRAVEL_PROFILES,
+  isTimeObjective,
+  TRAVEL_MODE_LABELS,
+  travelTimes,
+} from '@/lib/travelTime'
+import type {
+  BalancedStationResult,
+  DistanceMetric,
+  KMedoidResult,
+  LatLng,
+  Location,
+  MeetingPointResult,
+  MinimaxStationResult,
+  NearbyStation,
+  NearOptimalShortlist,
+  NearOptimalStation,
+  NetworkStationResult,
+  ObjectiveKind,
+  ParticipantInfluence,
+  RailJourney,
+  SensitivityAnalysis,
+  StationClustering,
+  StationWithCoords,
+  TransferStationResult,
+  TravelProfiles,
+} from '@/types'
 
 /** Maximum number of distinct nearby stations (by name) shown in each list */
 const NEARBY_DISPLAY_LIMIT = 3
@@ -13,20 +47,66 @@ interface ResultCardProps {
   result: MeetingPointResult | null
   /** Callback when a location is removed */
   onRemove?: (index: number) => void
+  /** Callback when an alternative origin of the location at `index` is removed */
+  onRemoveAlternative?: (index: number, alternativeIndex: number) => void
+  /** Earth model for the distances shown (default: haversine) */
+  distanceMetric?: DistanceMetric
+  /** Speed models for the travel-time estimates (default: `DEFAULT_TRAVEL_PROFILES`) */
+  travelProfiles?: TravelProfiles
   /** Nearby stations for the centroid */
   centroidNearbyStations?: NearbyStation[]
   /** Nearby stations for the geometric median */
   medianNearbyStations?: NearbyStation[]
   /** K-medoid suggested station (minimizes total distance from all participants) */
   suggestedStation?: KMedoidResult | null
+  /** Suggested station picked by rail network distance (null when using straight lines) */
+  networkStation?: NetworkStationResult | null
+  /** Why the rail network search failed (the suggestion falls back to straight lines) */
+  networkError?: string | null
+  /** Suggested station picked by fewest changes of trains (null unless that mode is on) */
+  transferStation?: TransferStationResult | null
+  /** Nearby stations for the minimax (fairest) point */
+  minimaxNearbyStations?: NearbyStation[]
+  /** Station minimizing the maximum distance to any participant */
+  fairestStation?: MinimaxStationResult | null
+  /** Participants split into several meeting stations (null when not clustering) */
+  clustering?: StationClustering | null
   /** Whether nearby station data is loading */
   isLoadingNearbyStations?: boolean
-  /** Callback to copy share URL to clipboard */
+  /** Meeting time at the suggested station in minutes after midnight (null when not set) */
+  meetingTime?: number | null
+  /** Callback when the meeting time is entered or cleared */
+  onMeetingTimeChange?: (meetingTime: number | null) => void
+  /** Callback to copy the share URL (with the departure times, when planned) to clipboard */
   onCopyUrl?: () => void
   /** Whether the URL was just copied */
   isCopied?: boolean
   /** Request the map to fly to a specific point (e.g., on badge click) */
   onFocusMap?: (latlng: LatLng) => void
+  /** How much each participant moves C, M and ★ (null while not analyzed) */
+  sensitivity?: SensitivityAnalysis | null
+  /** Whether the map shows where M moves without each participant */
+  showDisplacedMedians?: boolean
+  /** Callback when the displaced-M toggle changes */
+  onShowDisplacedMediansChange?: (show: boolean) => void
+  /** Stations within a tolerance of the best total distance (null while not computed) */
+  nearOptimal?: NearOptimalShortlist | null
+  /** Tolerance of the shortlist as a fraction above the best total (e.g. 0.1 for +10%) */
+  nearOptimalTolerance?: number
+  /** Callback when the shortlist tolerance changes */
+  onNearOptimalToleranceChange?: (tolerance: number) => void
+  /** Stations ranked by scheduled journey time from the departure time */
+  timetableCandidates?: TimetableCandidate[]
+  /** Whether the timetable search is in progress */
+  isLoadingTimetable?: boolean
+  /** Error from the timetable search (e.g. the timetable could not be loaded) */
+  timetableError?: string | null
+  /** Departure time of the timetable search in minutes after midnight (null until entered) */
+  timetableDeparture?: number | null
+  /** Callback when the departure time changes; the section is hidden without it */
+  onTimetableDepartureChange?: (departure: number | null) => void
+  /** Station with the most equal distances under the total-distance cap (null while off) */
+  balancedStation?: BalancedStationResult | null
 }
 
 /** Format distance in km for display */
@@ -37,6 +117,75 @@ function formatDistance(km: number): string {
   return `${km.toFixed(1)} km`
 }
 
+/** Heading of the suggestion box for each objective */
+const OBJECTIVE_HEADINGS: Record<ObjectiveKind, string> = {
+  sum: '全員からの合計距離が最小の駅',
+  sumOfSquares: '距離の二乗和が最小の駅（遠い人を重視）',
+  max: '最も遠い人の距離が最小の駅',
+  sumPlusMax: '合計距離＋最も遠い人の距離が最小の駅',
+  stdDev: '全員の距離のばらつきが最小の駅',
+  totalTime: '全員の合計所要時間が最小の駅',
+  maxTime: '最も時間のかかる人の所要時間が最小の駅',
+}
+
+/** Format an estimated travel time in minutes for display */
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes)
+  if (rounded < 60) {
+    return `約${rounded}分`
+  }
+  return `約${Math.floor(rounded / 60)}時間${rounded % 60}分`
+}
+
+/**
+ * Format an objective score; sums of squares are in km², time objectives in minutes,
+ * everything else in km
+ */
+function formatScore(score: number, objective: ObjectiveKind): string {
+  if (isTimeObjective(objective)) return formatMinutes(score)
+  return objective === 'sumOfSquares' ? `${score.toFixed(1)} km²` : formatDistance(score)
+}
+
+/** Weighted total and longest of the estimated travel times to one point */
+function TravelTimeSummary({
+  times,
+  weights,
+  testId,
+}: {
+  times: number[]
+  weights: number[]
+  testId: string
+}) {
+  const total = times.reduce((acc, t, i) => acc + weights[i] * t, 0)
+  return (
+    <p data-testid={testId} className="text-sm mt-1">
+      所要時間の目安: 合計 <strong>{formatMinutes(total)}</strong> / 最長{' '}
+      <strong>{formatMinutes(Math.max(...times))}</strong>
+    </p>
+  )
+}
+
+/** Number of participants who ride to a station without changing trains, with who and on which lines */
+function DirectBadge({
+  connection,
+  locations,
+}: {
+  connection: DirectConnection
+  locations: Location[]
+}) {
+  if (connection.participants.length === 0) return null
+  const names = connection.participants.map((i) => locations[i].label).join('、')
+  return (
+    <span
+      data-testid="direct-badge"
+      className="badge badge-success badge-xs shrink-0"
+      title={`${names}は${connection.lines.join(' / ')}で乗り換えなし`}
+    >
+      直通{connection.participants.length}人
+    </span>
+  )
+}
+
 /** Nearby station list displayed within C/M cards */
 function NearbyStationList({
   stations,
@@ -44,15 +193,18 @@ function NearbyStationList({
   testId,
   labelPrefix,
   badgeColorClass,
+  locations,
   onFocus,
 }: {
   stations: NearbyStation[]
   isLoading: boolean
   testId: string
-  /** Prefix used for the rank badge (e.g., 'C' or 'M') to match map markers */
-  labelPrefix: 'C' | 'M'
+  /** Prefix used for the rank badge (e.g., 'C', 'M' or 'F') to match map markers */
+  labelPrefix: 'C' | 'M' | 'F'
   /** DaisyUI badge color modifier class (e.g., 'badge-warning', 'badge-error') */
   badgeColorClass: string
+  /** Participants, whose origin stations decide who rides to each station directly */
+  locations: Location[]
   /** Click handler that focuses the map on the grouped station's coords */
   onFocus?: (latlng: LatLng) => void
 }) {
@@ -80,6 +232,10 @@ function NearbyStationList({
                   <span className="flex items-center gap-1.5 text-xs">
                     <span className={`badge ${badgeColorClass} badge-xs shrink-0`}>{label}</span>
                     <span className="font-medium">{group.name}</span>
+                    <DirectBadge
+                      connection={findDirectConnection(group.lineKeys, locations)}
+                      locations={locations}
+                    />
                     <span className="ml-auto shrink-0 tabular-nums">
                       {formatDistance(group.distance_meters / 1000)}
                     </span>
@@ -103,23 +259,37 @@ function NearbyStationList({
 function SuggestedStationBox({
   suggestion,
   lines,
+  searchNote = '全国の駅から',
+  times,
+  weights,
 }: {
   suggestion: KMedoidResult
   /** Aggregated line names from all rows of the winning station (multi-line stations like 新宿) */
   lines?: string[]
+  /** How the station was searched, shown before the evaluated count */
+  searchNote?: string
+  /** Estimated travel minutes of each participant to the station */
+  times: number[]
+  /** Participant weights for the total time */
+  weights: number[]
 }) {
-  const { station, totalDistance } = suggestion
+  const { station, totalDistance, score, objective, candidatesEvaluated } = suggestion
   const displayLines =
     lines && lines.length > 0 ? lines : station.line_name ? [station.line_name] : []
   return (
     <div data-testid="suggested-station-box" className="mt-2 border-t border-base-300 pt-2">
       <p className="text-xs font-semibold mb-1">
         <span className="badge badge-accent badge-xs mr-1">おすすめ</span>
-        全員からの合計距離が最小の駅
+        {OBJECTIVE_HEADINGS[objective]}
       </p>
       <div className="flex items-center gap-1.5 text-xs">
         <span className="font-medium">{station.name}</span>
         <span className="ml-auto shrink-0 tabular-nums">
+          {objective !== 'sum' && (
+            <>
+              評価値 <strong>{formatScore(score, objective)}</strong> /{' '}
+            </>
+          )}
           合計 <strong>{formatDistance(totalDistance)}</strong>
         </span>
       </div>
@@ -128,6 +298,541 @@ function SuggestedStationBox({
           {displayLines.join(' / ')}
         </p>
       )}
+      <TravelTimeSummary times={times} weights={weights} testId="suggested-time" />
+      <p data-testid="candidates-evaluated" className="text-[11px] text-base-content/40 ml-0.5">
+        {searchNote}探索（
+        {candidatesEvaluated.toLocaleString()}駅を評価）
+      </p>
+    </div>
+  )
+}
+
+/** One participant's walk + ride distance to the rail-based suggestion */
+function RailDistance({ journey }: { journey: RailJourney }) {
+  const breakdown = `${journey.accessStation.name}駅まで徒歩 ${formatDistance(journey.walkDistance)} ＋ 乗車 ${formatDistance(journey.railDistance)}`
+  return (
+    <span data-testid="rail-distance" title={breakdown}>
+      → ★ 線路: {formatDistance(journey.totalDistance)}
+    </span>
+  )
+}
+
+/** Whether a participant reaches the transfer-based suggestion without changing trains */
+function TransferIndicator({
+  transfers,
+  origin,
+}: {
+  transfers: number
+  origin: StationWithCoords
+}) {
+  const from = `最寄りの${origin.name}駅${origin.line_name ? `（${origin.line_name}）` : ''}から`
+  return transfers === 0 ? (
+    <span data-testid="transfer-indicator" className="badge badge-success badge-xs" title={from}>
+      直通
+    </span>
+  ) : (
+    <span data-testid="transfer-indicator" className="badge badge-warning badge-xs" title={from}>
+      乗換{transfers}回
+    </span>
+  )
+}
+
+/**
+ * How far C and M move, and whether ★ changes, if a participant drops out or counts double.
+ * The analysis searches ★ by straight-line distance, so the ★ verdict is left out
+ * (`showStation` false) while the rail network or transfers pick the ★.
+ */
+function InfluenceFigures({
+  influence,
+  showStation,
+}: {
+  influence: ParticipantInfluence
+  showStation: boolean
+}) {
+  const stationChange = (changes: boolean, station: StationWithCoords | null) =>
+    showStation && (
+      <>
+        （
+        <span className={changes ? 'text-warning font-semibold' : ''}>
+          {changes ? `★→${station?.name ?? 'なし'}` : '★そのまま'}
+        </span>
+        ）
+      </>
+    )
+  return (
+    <div
+      data-testid="influence-figures"
+      className="flex flex-wrap gap-x-4 mt-1 ml-7 text-xs text-base-content/60"
+      title={
+        showStation
+          ? 'この人が来ない場合・重みが2倍の場合に、C・M・★がどれだけ動くか'
+          : 'この人が来ない場合・重みが2倍の場合に、C・Mがどれだけ動くか（★は直線距離での最適駅ではないため省略）'
+      }
+    >
+      <span>
+        欠席時: M {formatDistance(influence.medianShiftWithout)}・C{' '}
+        {formatDistance(influence.centroidShiftWithout)}移動
+        {stationChange(influence.stationChangesWithout, influence.stationWithout)}
+      </span>
+      <span>
+        重み2倍: M {formatDistance(influence.medianShiftDoubled)}・C{' '}
+        {formatDistance(influence.centroidShiftDoubled)}移動
+        {stationChange(influence.stationChangesDoubled, influence.stationDoubled)}
+      </span>
+    </div>
+  )
+}
+
+/** Discrete minimax answer shown inside the F card */
+function FairestStationBox({
+  fairest,
+  lines,
+}: {
+  fairest: MinimaxStationResult
+  /** Aggregated line names from all rows of the winning station */
+  lines?: string[]
+}) {
+  const { station, maxDistance } = fairest
+  const displayLines =
+    lines && lines.length > 0 ? lines : station.line_name ? [station.line_name] : []
+  return (
+    <div data-testid="fairest-station-box" className="mt-2 border-t border-base-300 pt-2">
+      <p className="text-xs font-semibold mb-1">最も遠い人の距離が最小の駅</p>
+      <div className="flex items-center gap-1.5 text-xs">
+        <span className="font-medium">{station.name}</span>
+        <span className="ml-auto shrink-0 tabular-nums">
+          最大 <strong>{formatDistance(maxDistance)}</strong>
+        </span>
+      </div>
+      {displayLines.length > 0 && (
+        <p className="text-[11px] text-base-content/50 ml-0.5 mt-0.5 leading-relaxed">
+          {displayLines.join(' / ')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Station where the participants' distances are most equal, with each participant's distance
+ * to it next to their distance to ★
+ */
+function BalancedStationBox({
+  balanced,
+  locations,
+  suggestedDistances,
+  onFocus,
+}: {
+  balanced: BalancedStationResult
+  locations: Location[]
+  /** Each participant's distance to ★, aligned with `locations` (omitted without ★) */
+  suggestedDistances?: number[]
+  onFocus?: (latlng: LatLng) => void
+}) {
+  const { station, distances, spread, totalDistance, excess, cap, corridor } = balanced
+  return (
+    <div data-testid="balanced-station" className="mt-4">
+      <h3 className="font-semibold mb-2">
+        距離の差が最小の駅
+        <span className="ml-1 text-xs font-normal text-base-content/60">
+          （合計 +{Math.round(cap * 100)}% まで）
+        </span>
+      </h3>
+      <div className="flex items-center gap-1.5 text-sm">
+        <span className="badge badge-info badge-sm">⚖</span>
+        <button
+          type="button"
+          onClick={() => onFocus?.(station)}
+          aria-label={`${station.name}を地図で表示`}
+          className="font-medium cursor-pointer hover:underline"
+        >
+          {station.name}
+        </button>
+        <span className="ml-auto shrink-0 text-xs tabular-nums">
+          差 <strong>{formatDistance(spread)}</strong>
+        </span>
+      </div>
+      <p className="text-xs text-base-content/60 mt-0.5 tabular-nums">
+        合計 {formatDistance(totalDistance)}（最小より +{(excess * 100).toFixed(1)}%）
+        {corridor && '・2人を結ぶ大円の周辺から選択'}
+      </p>
+      <table className="table table-xs mt-1" data-testid="balanced-distances">
+        <thead>
+          <tr>
+            <th />
+            {suggestedDistances && <th>★まで</th>}
+            <th>⚖まで</th>
+          </tr>
+        </thead>
+        <tbody>
+          {locations.map((location, p) => (
+            <tr key={location.id}>
+              <th scope="row" className="font-normal truncate max-w-24" title={location.label}>
+                {`${p + 1}. ${location.label}`}
+              </th>
+              {suggestedDistances && (
+                <td className="tabular-nums">{formatDistance(suggestedDistances[p])}</td>
+              )}
+              <td className="tabular-nums">{formatDistance(distances[p])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/** Tolerances offered for the near-optimal shortlist (fractions above the best total) */
+const NEAR_OPTIMAL_TOLERANCES = [0.05, 0.1, 0.2, 0.3] as const
+
+/** Column the near-optimal table is sorted by */
+type NearOptimalSortKey = 'totalDistance' | 'maxDistance' | 'spread' | 'lines'
+
+/** Header label of each sortable column */
+const NEAR_OPTIMAL_COLUMNS: { key: NearOptimalSortKey; label: string }[] = [
+  { key: 'totalDistance', label: '合計' },
+  { key: 'maxDistance', label: '最長' },
+  { key: 'spread', label: '差' },
+  { key: 'lines', label: '路線' },
+]
+
+/** Sort value of a shortlisted station; more lines rank first, everything else ascending */
+function nearOptimalSortValue(station: NearOptimalStation, key: NearOptimalSortKey): number {
+  return key === 'lines' ? -station.lines.length : station[key]
+}
+
+/**
+ * Ranked "good enough" stations: every station within the tolerance of the best total,
+ * sortable by total, longest trip, spread between participants and number of lines
+ */
+function NearOptimalTable({
+  shortlist,
+  tolerance,
+  onToleranceChange,
+  onFocus,
+}: {
+  shortlist: NearOptimalShortlist
+  tolerance: number
+  onToleranceChange?: (tolerance: number) => void
+  onFocus?: (latlng: LatLng) => void
+}) {
+  const [sortKey, setSortKey] = useState<NearOptimalSortKey>('totalDistance')
+  // Rank by total distance stays attached to each station whichever column is sorted
+  const rows = shortlist.stations
+    .map((station, i) => ({ station, rank: i + 1 }))
+    .sort(
+      (a, b) =>
+        nearOptimalSortValue(a.station, sortKey) - nearOptimalSortValue(b.station, sortKey) ||
+        a.rank - b.rank
+    )
+
+  return (
+    <div data-testid="near-optimal" className="mt-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h3 className="font-semibold">ほぼ最適な駅</h3>
+        <label className="flex items-center gap-1 text-xs">
+          <span>合計距離が最小の</span>
+          <select
+            aria-label="許容範囲"
+            className="select select-bordered select-xs"
+            value={tolerance}
+            onChange={(e) => onToleranceChange?.(Number(e.target.value))}
+          >
+            {NEAR_OPTIMAL_TOLERANCES.map((t) => (
+              <option key={t} value={t}>
+                +{Math.round(t * 100)}%
+              </option>
+            ))}
+          </select>
+          <span>以内</span>
+        </label>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-base-content/50">駅が見つかりませんでした</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-xs">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>駅</th>
+                {NEAR_OPTIMAL_COLUMNS.map(({ key, label }) => (
+                  <th key={key} aria-sort={sortKey === key ? 'ascending' : 'none'}>
+                    <button
+                      type="button"
+                      className={`cursor-pointer ${sortKey === key ? 'font-bold text-base-content' : ''}`}
+                      onClick={() => setSortKey(key)}
+                    >
+                      {label}
+                      {sortKey === key && ' ▲'}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ station, rank }) => (
+                <tr key={station.name} data-testid="near-optimal-row">
+                  <td className="tabular-nums">{rank}</td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => onFocus?.({ lat: station.lat, lng: station.lng })}
+                      aria-label={`${station.name}を地図で表示`}
+                      className="font-medium cursor-pointer hover:underline text-left"
+                    >
+                      {station.name}
+                    </button>
+                  </td>
+                  <td className="tabular-nums">
+                    {formatDistance(station.totalDistance)}
+                    {station.excess > 0 && (
+                      <span className="text-base-content/50">
+                        {' '}
+                        +{(station.excess * 100).toFixed(1)}%
+                      </span>
+                    )}
+                  </td>
+                  <td className="tabular-nums">{formatDistance(station.maxDistance)}</td>
+                  <td className="tabular-nums">{formatDistance(station.spread)}</td>
+                  <td className="tabular-nums" title={station.lines.join(' / ')}>
+                    {station.lines.length}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Departure time input and, once set, the stations ranked by scheduled journey time */
+function TimetableRanking({
+  candidates,
+  locations,
+  departure,
+  onDepartureChange,
+  isLoading,
+  error,
+  onFocus,
+}: {
+  candidates: TimetableCandidate[]
+  locations: Location[]
+  /** Departure in minutes after midnight (null until entered) */
+  departure: number | null
+  onDepartureChange: (departure: number | null) => void
+  isLoading: boolean
+  error: string | null
+  onFocus?: (latlng: LatLng) => void
+}) {
+  const weights = locationWeights(locations)
+  return (
+    <div data-testid="timetable-ranking" className="mt-4">
+      <h3 className="font-semibold mb-2">時刻表での所要時間</h3>
+      <label className="flex items-center gap-2 text-sm">
+        <span>全員が</span>
+        <input
+          type="time"
+          aria-label="出発時刻"
+          className="input input-sm w-28"
+          value={departure == null ? '' : formatClockTime(departure)}
+          onChange={(e) => onDepartureChange(parseClockTime(e.target.value))}
+        />
+        <span>に出発</span>
+      </label>
+      {departure == null ? (
+        <p className="text-xs text-base-content/50 mt-1">
+          出発時刻を入れると、時刻表の列車を乗り継いだ所要時間で駅を順位付けします
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 mt-2">
+          <span className="loading loading-spinner loading-xs" />
+          <span className="text-xs text-base-content/50">時刻表を検索中...</span>
+        </div>
+      ) : error ? (
+        <p data-testid="timetable-error" className="text-xs text-error mt-1">
+          時刻表を読み込めませんでした
+        </p>
+      ) : candidates.length === 0 ? (
+        <p className="text-xs text-base-content/50 mt-1">
+          この時刻から全員が行ける駅が見つかりませんでした
+        </p>
+      ) : (
+        <div className="overflow-x-auto mt-2">
+          <table className="table table-xs">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>駅</th>
+                <th>合計</th>
+                <th>最長</th>
+                <th>各自</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map(({ station, minutes }, i) => (
+                <tr key={station.id} data-testid="timetable-row">
+                  <td className="tabular-nums">{i + 1}</td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() => onFocus?.(station)}
+                      aria-label={`${station.name}を地図で表示`}
+                      className="font-medium cursor-pointer hover:underline text-left"
+                    >
+                      {station.name}
+                    </button>
+                  </td>
+                  <td className="tabular-nums">
+                    {formatMinutes(minutes.reduce((sum, m, p) => sum + weights[p] * m, 0))}
+                  </td>
+                  <td className="tabular-nums">{formatMinutes(Math.max(...minutes))}</td>
+                  <td className="text-base-content/60">
+                    {minutes.map((m, p) => `${locations[p].label} ${Math.round(m)}分`).join('・')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Meeting time input and, once set, when each participant has to leave for the ★ station */
+function DeparturePlanner({
+  station,
+  locations,
+  times,
+  meetingTime,
+  onMeetingTimeChange,
+}: {
+  station: StationWithCoords
+  locations: Location[]
+  /** Estimated travel minutes of each participant to the station */
+  times: number[]
+  meetingTime: number | null
+  onMeetingTimeChange?: (meetingTime: number | null) => void
+}) {
+  return (
+    <div data-testid="departure-planner" className="mt-4">
+      <h3 className="font-semibold mb-2">出発時刻の目安</h3>
+      <label className="flex items-center gap-2 text-sm">
+        <span>★ {station.name}に</span>
+        <input
+          type="time"
+          aria-label="集合時刻"
+          className="input input-sm w-28"
+          value={meetingTime == null ? '' : formatClockTime(meetingTime)}
+          onChange={(e) => onMeetingTimeChange?.(parseClockTime(e.target.value))}
+        />
+        <span>集合</span>
+      </label>
+      {meetingTime == null ? (
+        <p className="text-xs text-base-content/50 mt-1">
+          集合時刻を入れると、各出発地の出発時刻を移動時間の目安から逆算します
+        </p>
+      ) : (
+        <ol
+          data-testid="departure-timeline"
+          className="mt-2 ml-2 border-l-2 border-base-300 pl-3 flex flex-col gap-1.5 text-sm"
+        >
+          {planDepartures(meetingTime, times).map(({ index, travelMinutes, departure }) => {
+            const location = locations[index]
+            const mode = TRAVEL_MODE_LABELS[location.mode ?? DEFAULT_TRAVEL_MODE]
+            return (
+              <li key={location.id} data-testid="departure-item" className="flex gap-2">
+                <span className="tabular-nums font-semibold shrink-0">
+                  {formatClockTime(departure)}
+                </span>
+                <span className="truncate">
+                  {location.label} 発
+                  <span className="text-xs text-base-content/60">
+                    （{mode}で約{travelMinutes}分）
+                  </span>
+                </span>
+              </li>
+            )
+          })}
+          <li className="flex gap-2">
+            <span className="tabular-nums font-semibold shrink-0">
+              {formatClockTime(meetingTime)}
+            </span>
+            <span>★ {station.name}に集合</span>
+          </li>
+        </ol>
+      )}
+    </div>
+  )
+}
+
+/** One block per cluster: its meeting station, members and their distances */
+function ClusterBlocks({
+  clustering,
+  locations,
+  distance,
+  onFocus,
+}: {
+  clustering: StationClustering
+  locations: Location[]
+  distance: DistanceFunction
+  onFocus?: (latlng: LatLng) => void
+}) {
+  return (
+    <div data-testid="cluster-blocks" className="mt-4">
+      <h3 className="font-semibold mb-2">
+        グループ別の集合場所（{clustering.clusters.length}か所）
+      </h3>
+      <div className="flex flex-col gap-2">
+        {clustering.clusters.map((cluster, ci) => {
+          const color = CLUSTER_COLORS[ci % CLUSTER_COLORS.length]
+          const { station } = cluster
+          return (
+            <div
+              key={station.id}
+              data-testid="cluster-block"
+              className="bg-base-200 border-l-4 rounded-lg p-3"
+              style={{ borderColor: color }}
+            >
+              <button
+                type="button"
+                onClick={() => onFocus?.({ lat: station.lat, lng: station.lng })}
+                aria-label={`地図を${station.name}に移動`}
+                className="flex items-center gap-2 cursor-pointer hover:opacity-80 transition-opacity"
+              >
+                <span className="badge border-0 text-white" style={{ backgroundColor: color }}>
+                  G{ci + 1}
+                </span>
+                <span className="font-semibold">{station.name}</span>
+              </button>
+              {station.line_name && (
+                <p className="text-[11px] text-base-content/50 mt-0.5">{station.line_name}</p>
+              )}
+              <ul className="mt-1 text-xs flex flex-col gap-0.5">
+                {cluster.memberIndices.map((i) => (
+                  <li key={locations[i].id} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      {i + 1}. {locations[i].label}
+                    </span>
+                    <span className="tabular-nums shrink-0">
+                      {formatDistance(distance(locations[i].latlng, station))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs mt-1 text-right">
+                合計 <strong>{formatDistance(cluster.totalDistance)}</strong>
+              </p>
+            </div>
+          )
+        })}
+      </div>
+      <p className="text-sm mt-2">
+        全グループの合計距離: <strong>{formatDistance(clustering.totalDistance)}</strong>
+      </p>
     </div>
   )
 }
@@ -136,13 +841,36 @@ function ResultCard({
   locations,
   result,
   onRemove,
+  onRemoveAlternative,
+  distanceMetric,
+  travelProfiles = DEFAULT_TRAVEL_PROFILES,
   centroidNearbyStations,
   medianNearbyStations,
   suggestedStation,
+  networkStation,
+  networkError,
+  transferStation,
+  minimaxNearbyStations,
+  fairestStation,
+  clustering,
   isLoadingNearbyStations,
+  meetingTime = null,
+  onMeetingTimeChange,
   onCopyUrl,
   isCopied,
   onFocusMap,
+  sensitivity,
+  showDisplacedMedians = false,
+  onShowDisplacedMediansChange,
+  nearOptimal,
+  nearOptimalTolerance = DEFAULT_NEAR_OPTIMAL_TOLERANCE,
+  onNearOptimalToleranceChange,
+  balancedStation,
+  timetableCandidates = [],
+  isLoadingTimetable = false,
+  timetableError = null,
+  timetableDeparture = null,
+  onTimetableDepartureChange,
 }: ResultCardProps) {
   const suggestedName = suggestedStation?.station.name ?? null
 
@@ -170,19 +898,84 @@ function ResultCard({
     [suggestedName, groupedMedianAll]
   )
 
-  const { centroid, geometricMedian } = result ?? {}
+  const fairestName = fairestStation?.station.name ?? null
+  const fairestStationLines = useMemo(
+    () =>
+      fairestName == null
+        ? undefined
+        : groupStationsByName(minimaxNearbyStations ?? []).find((g) => g.name === fairestName)
+            ?.lines,
+    [fairestName, minimaxNearbyStations]
+  )
 
-  const centroidTotalDist =
-    centroid && result
-      ? result.locations.reduce((sum, loc) => sum + haversineDistance(centroid, loc.latlng), 0)
-      : null
-  const medianTotalDist =
-    geometricMedian && result
-      ? result.locations.reduce(
-          (sum, loc) => sum + haversineDistance(geometricMedian, loc.latlng),
-          0
-        )
+  const { centroid, geometricMedian, medianReport, minimaxCircle, destination } = result ?? {}
+
+  // Weighted totals: a location standing for 3 people counts its distance 3 times
+  const participantPoints = result?.locations.map((loc) => loc.latlng) ?? []
+  const participantWeights = result ? locationWeights(result.locations) : []
+  const distance = getDistanceFunction(distanceMetric)
+  const centroidTotalDist = centroid
+    ? totalDistance(centroid, participantPoints, participantWeights, distanceMetric)
+    : null
+  const medianTotalDist = geometricMedian
+    ? totalDistance(geometricMedian, participantPoints, participantWeights, distanceMetric)
+    : null
+
+  // Estimated travel minutes of every participant to C, M and ★ (by each one's travel mode)
+  const timeOptions = { profiles: travelProfiles, metric: distanceMetric }
+  const centroidTimes = centroid ? travelTimes(centroid, locations, timeOptions) : null
+  const medianTimes = geometricMedian ? travelTimes(geometricMedian, locations, timeOptions) : null
+  // Participants with alternative origins travel to ★ from the one it assumed
+  const assumedOrigins = suggestedStation?.assumedOrigins
+  const suggestedTimes = suggestedStation
+    ? travelTimes(
+        suggestedStation.station,
+        assumedLocations(locations, assumedOrigins),
+        timeOptions
+      )
+    : null
+
+  // Each participant's distance to C, M and ★ for the fairness indicators
+  const fairnessColumns: FairnessColumn[] = []
+  if (centroid && geometricMedian) {
+    fairnessColumns.push(
+      {
+        label: 'C',
+        badgeClass: 'badge-warning',
+        barColor: 'var(--color-warning)',
+        distances: locations.map((l) => distance(centroid, l.latlng)),
+      },
+      {
+        label: 'M',
+        badgeClass: 'badge-error',
+        barColor: 'var(--color-error)',
+        distances: locations.map((l) => distance(geometricMedian, l.latlng)),
+      }
+    )
+  }
+  if (suggestedStation) {
+    fairnessColumns.push({
+      label: '★',
+      badgeClass: 'badge-accent',
+      barColor: 'var(--color-accent)',
+      distances: assumedLocations(locations, assumedOrigins).map((l) =>
+        distance(suggestedStation.station, l.latlng)
+      ),
+    })
+  }
+  // Ignore a balanced station computed for a previous set of participants
+  const balanced =
+    balancedStation && balancedStation.distances.length === locations.length
+      ? balancedStation
       : null
+  if (balanced) {
+    fairnessColumns.push({
+      label: '⚖',
+      badgeClass: 'badge-info',
+      barColor: 'var(--color-info)',
+      distances: balanced.distances,
+    })
+  }
 
   return (
     <div data-testid="result-card" className="card bg-base-100 shadow-md">
@@ -243,8 +1036,16 @@ function ResultCard({
                 <p className="text-sm mt-1">
                   全員の合計距離: <strong>{formatDistance(centroidTotalDist)}</strong>
                 </p>
+                {centroidTimes && (
+                  <TravelTimeSummary
+                    times={centroidTimes}
+                    weights={participantWeights}
+                    testId="centroid-time"
+                  />
+                )}
                 {centroidNearbyStations && (
                   <NearbyStationList
+                    locations={locations}
                     stations={centroidNearbyStations}
                     isLoading={isLoadingNearbyStations ?? false}
                     testId="nearby-stations-centroid"
@@ -295,8 +1096,28 @@ function ResultCard({
                 <p className="text-sm mt-1">
                   全員の合計距離: <strong>{formatDistance(medianTotalDist)}</strong>
                 </p>
+                {destination && (
+                  <p data-testid="median-destination" className="text-sm mt-1">
+                    目的地（{destination.label}）まで全員で:{' '}
+                    <strong>{formatDistance(distance(geometricMedian, destination.latlng))}</strong>
+                  </p>
+                )}
+                {medianTimes && (
+                  <TravelTimeSummary
+                    times={medianTimes}
+                    weights={participantWeights}
+                    testId="median-time"
+                  />
+                )}
+                {medianReport && !medianReport.converged && (
+                  <p data-testid="median-approximate" className="text-xs text-warning mt-1">
+                    近似解: {medianReport.iterations}回の反復で打ち切り（最後の移動量{' '}
+                    {(medianReport.stepSize * 1000).toPrecision(2)} m）
+                  </p>
+                )}
                 {medianNearbyStations && (
                   <NearbyStationList
+                    locations={locations}
                     stations={medianNearbyStations}
                     isLoading={isLoadingNearbyStations ?? false}
                     testId="nearby-stations-median"
@@ -308,17 +1129,135 @@ function ResultCard({
                 {suggestedStation && !isSuggestionInList && (
                   <SuggestedStationBox
                     suggestion={suggestedStation}
-                    lines={suggestedStationLines}
+                    times={suggestedTimes ?? []}
+                    weights={participantWeights}
+                    lines={transferStation?.lines ?? suggestedStationLines}
+                    searchNote={
+                      networkStation
+                        ? '線路に沿った距離（徒歩＋乗車）で'
+                        : transferStation
+                          ? '乗り換えの少なさで'
+                          : undefined
+                    }
                   />
                 )}
+                {networkError && (
+                  <p data-testid="network-error" className="text-xs text-warning mt-1">
+                    線路データを利用できないため、直線距離でおすすめ駅を選んでいます
+                  </p>
+                )}
               </div>
+
+              {/* Minimax (fairest) point */}
+              {minimaxCircle && (
+                <div className="bg-base-200 border-l-4 border-info rounded-lg p-4">
+                  <div className="flex items-center gap-2 mb-1">
+                    <button
+                      type="button"
+                      onClick={() => onFocusMap?.(minimaxCircle.center)}
+                      aria-label="地図を公平地点に移動"
+                      className="flex items-center gap-2 cursor-pointer hover:opacity-80 transition-opacity"
+                    >
+                      <span className="badge badge-info">F</span>
+                      <span className="font-semibold">公平地点</span>
+                    </button>
+                  </div>
+                  <p className="text-[11px] text-base-content/50 leading-relaxed mb-2">
+                    最も遠い人の直線距離が最小となる地点。全員を囲む
+                    <a
+                      href="https://en.wikipedia.org/wiki/Smallest-circle_problem"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-primary"
+                    >
+                      最小包含円（Smallest enclosing circle）
+                    </a>
+                    の中心。
+                  </p>
+                  <p className="text-sm font-mono">
+                    {minimaxCircle.center.lat.toFixed(6)}, {minimaxCircle.center.lng.toFixed(6)}
+                  </p>
+                  <p className="text-sm mt-1">
+                    最も遠い人の距離: <strong>{formatDistance(minimaxCircle.radius)}</strong>
+                  </p>
+                  {minimaxNearbyStations && (
+                    <NearbyStationList
+                      locations={locations}
+                      stations={minimaxNearbyStations}
+                      isLoading={isLoadingNearbyStations ?? false}
+                      testId="nearby-stations-minimax"
+                      labelPrefix="F"
+                      badgeColorClass="badge-info"
+                      onFocus={onFocusMap}
+                    />
+                  )}
+                  {fairestStation && (
+                    <FairestStationBox fairest={fairestStation} lines={fairestStationLines} />
+                  )}
+                </div>
+              )}
             </div>
           )}
 
+        {/* Per-cluster meeting stations (clustering mode) */}
+        {result && clustering && clustering.clusters.length > 0 && (
+          <ClusterBlocks
+            clustering={clustering}
+            locations={result.locations}
+            distance={distance}
+            onFocus={onFocusMap}
+          />
+        )}
+
+        {/* Shortlist of stations nearly as good as the best by total distance */}
+        {result && nearOptimal && (
+          <NearOptimalTable
+            shortlist={nearOptimal}
+            tolerance={nearOptimalTolerance}
+            onToleranceChange={onNearOptimalToleranceChange}
+            onFocus={onFocusMap}
+          />
+        )}
+
+        {/* Stations ranked by scheduled journey time (only when the timetable is deployed) */}
+        {result && onTimetableDepartureChange && (
+          <TimetableRanking
+            // A ranking computed for a previous set of participants is left out
+            candidates={timetableCandidates.filter((c) => c.minutes.length === locations.length)}
+            locations={locations}
+            departure={timetableDeparture}
+            onDepartureChange={onTimetableDepartureChange}
+            isLoading={isLoadingTimetable}
+            error={timetableError}
+            onFocus={onFocusMap}
+          />
+        )}
+
+        {/* Station with the most equal distances (balanced mode) */}
+        {result && balanced && (
+          <BalancedStationBox
+            balanced={balanced}
+            locations={locations}
+            suggestedDistances={fairnessColumns.find((column) => column.label === '★')?.distances}
+            onFocus={onFocusMap}
+          />
+        )}
+
         {/* Per-location list */}
         {locations.length > 0 && (
           <div className={result ? 'mt-4' : ''}>
             {result && <h3 className="font-semibold mb-2">各出発地からの距離</h3>}
+            {result && sensitivity && onShowDisplacedMediansChange && (
+              <label className="label cursor-pointer justify-start gap-2 mb-1">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={showDisplacedMedians}
+                  onChange={(e) => onShowDisplacedMediansChange(e.target.checked)}
+                />
+                <span className="label-text text-xs">欠席時の M の位置を地図に表示</span>
+              </label>
+            )}
             <ul className="flex flex-col gap-2">
               {locations.map((location, index) => (
                 <li key={location.id} className="bg-base-200 rounded-lg px-3 py-2">
@@ -331,6 +1270,19 @@ function ResultCard({
                     >
                       <span className="badge badge-primary badge-sm shrink-0">{index + 1}</span>
                       <span className="text-sm font-medium truncate">{location.label}</span>
+                      {location.weight != null && location.weight !== 1 && (
+                        <span
+                          className="badge badge-ghost badge-sm shrink-0 tabular-nums"
+                          title="重み（人数）"
+                        >
+                          ×{location.weight}
+                        </span>
+                      )}
+                      {location.mode && (
+                        <span className="badge badge-ghost badge-sm shrink-0" title="移動手段">
+                          {TRAVEL_MODE_LABELS[location.mode]}
+                        </span>
+                      )}
                     </button>
                     {onRemove && (
                       <button
@@ -343,26 +1295,111 @@ function ResultCard({
                       </button>
                     )}
                   </div>
+                  {location.alternatives && location.alternatives.length > 0 && (
+                    <div
+                      data-testid="alternative-origins"
+                      className="flex flex-wrap items-center gap-1 mt-1 ml-7 text-xs text-base-content/60"
+                    >
+                      <span>別の出発地:</span>
+                      {location.alternatives.map((alternative, k) => (
+                        <span
+                          key={`${alternative.label}-${alternative.latlng.lat}-${alternative.latlng.lng}`}
+                          className="badge badge-ghost badge-sm gap-1"
+                        >
+                          {alternative.label}
+                          {onRemoveAlternative && (
+                            <button
+                              type="button"
+                              onClick={() => onRemoveAlternative(index, k)}
+                              aria-label={`${location.label}の別の出発地「${alternative.label}」を削除`}
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      {assumedOrigins && (
+                        <span data-testid="assumed-origin" className="ml-1">
+                          ★へは
+                          {assumedOrigins[index] > 0
+                            ? location.alternatives[assumedOrigins[index] - 1]?.label
+                            : location.label}
+                          から
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {location.origin && location.origin.lines.length > 0 && (
+                    <p
+                      data-testid="home-lines"
+                      className="mt-1 ml-7 text-xs text-base-content/60 truncate"
+                      title={`${location.origin.name}駅の路線`}
+                    >
+                      利用路線: {location.origin.lines.join(' / ')}
+                    </p>
+                  )}
                   {result && centroid && geometricMedian && (
                     <div className="flex gap-4 mt-1 ml-7 text-xs text-base-content/70">
                       <span>
-                        → C: {formatDistance(haversineDistance(centroid, location.latlng))}
+                        → C: {formatDistance(distance(centroid, location.latlng))}
+                        {centroidTimes && `（${formatMinutes(centroidTimes[index])}）`}
                       </span>
                       <span>
-                        → M: {formatDistance(haversineDistance(geometricMedian, location.latlng))}
+                        → M: {formatDistance(distance(geometricMedian, location.latlng))}
+                        {medianTimes && `（${formatMinutes(medianTimes[index])}）`}
                       </span>
+                      {suggestedTimes && (
+                        <span data-testid="suggested-minutes">
+                          → ★: {formatMinutes(suggestedTimes[index])}
+                        </span>
+                      )}
+                      {networkStation?.journeys[index] && (
+                        <RailDistance journey={networkStation.journeys[index]} />
+                      )}
+                      {transferStation?.transfers[index] != null && (
+                        <TransferIndicator
+                          transfers={transferStation.transfers[index]}
+                          origin={transferStation.origins[index]}
+                        />
+                      )}
                     </div>
                   )}
+                  {result && sensitivity?.influences[index] && (
+                    <InfluenceFigures
+                      influence={sensitivity.influences[index]}
+                      showStation={!networkStation && !transferStation}
+                    />
+                  )}
                 </li>
               ))}
             </ul>
           </div>
         )}
 
-        {/* Copy URL button */}
+        {/* Fairness indicators of C, M and ★ */}
+        {result && fairnessColumns.length > 0 && (
+          <FairnessPanel locations={locations} columns={fairnessColumns} />
+        )}
+
+        {/* Arrive-by planner for the suggested station */}
+        {result && suggestedStation && suggestedTimes && (
+          <DeparturePlanner
+            station={suggestedStation.station}
+            locations={locations}
+            times={suggestedTimes}
+            meetingTime={meetingTime}
+            onMeetingTimeChange={onMeetingTimeChange}
+          />
+        )}
+
+        {/* Copy URL button (with the departure times once a meeting time is set) */}
         {locations.length > 0 && onCopyUrl && (
           <button type="button" className="btn btn-outline btn-sm mt-4 w-full" onClick={onCopyUrl}>
-            {isCopied ? 'コピーしました!' : 'URLをコピー'}
+            {isCopied
+              ? 'コピーしました!'
+              : result && suggestedStation && meetingTime != null
+                ? '出発時刻とURLをコピー'
+                : 'URLをコピー'}
           </button>
         )}
       </div>
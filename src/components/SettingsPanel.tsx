@@ -0,0 +1,342 @@
+import { MAX_CLUSTER_COUNT } from '@/lib/clustering'
+import { TRAVEL_MODE_LABELS } from '@/lib/travelTime'
+import type {
+  ClusterCount,
+  DistanceBasis,
+  DistanceMetric,
+  GeometryMode,
+  ObjectiveKind,
+  TravelMode,
+  TravelProfile,
+  TravelProfiles,
+} from '@/types'
+
+interface SettingsPanelProps {
+  /** Geometry used for the C/M calculation */
+  geometryMode: GeometryMode
+  /** Callback when the geometry mode is changed */
+  onGeometryModeChange: (mode: GeometryMode) => void
+  /** Objective used to pick the suggested (★) station */
+  objective: ObjectiveKind
+  /** Callback when the objective is changed */
+  onObjectiveChange: (objective: ObjectiveKind) => void
+  /** Whether the suggested station is picked by straight-line or rail distance */
+  distanceBasis: DistanceBasis
+  /** Callback when the distance basis is changed */
+  onDistanceBasisChange: (basis: DistanceBasis) => void
+  /** Bases whose data is not deployed, offered but disabled (default: none) */
+  unavailableBases?: DistanceBasis[]
+  /** Whether stations most participants reach on a single line are ranked first */
+  preferDirect: boolean
+  /** Callback when the direct-line preference is toggled */
+  onPreferDirectChange: (preferDirect: boolean) => void
+  /** Earth model used for every distance */
+  distanceMetric: DistanceMetric
+  /** Callback when the distance metric is changed */
+  onDistanceMetricChange: (metric: DistanceMetric) => void
+  /** Number of meeting stations to split participants into */
+  clusterCount: ClusterCount
+  /** Callback when the number of meeting stations is changed */
+  onClusterCountChange: (count: ClusterCount) => void
+  /** Cap on the total distance of the balanced station, above the best (null: not searched) */
+  balancedCap: number | null
+  /** Callback when the balanced station is switched on, off or given another cap */
+  onBalancedCapChange: (cap: number | null) => void
+  /** Speed model of each travel mode, for the travel-time estimates */
+  travelProfiles: TravelProfiles
+  /** Callback when a speed or circuity is edited */
+  onTravelProfilesChange: (profiles: TravelProfiles) => void
+}
+
+/** Selectable geometry modes with their display labels */
+const GEOMETRY_MODE_OPTIONS: { value: GeometryMode; label: string }[] = [
+  { value: 'planar', label: '平面（緯度・経度の平均）' },
+  { value: 'spherical', label: '球面（地球の丸みを考慮）' },
+]
+
+/** Selectable objectives for the suggested station with their display labels */
+const OBJECTIVE_OPTIONS: { value: ObjectiveKind; label: string }[] = [
+  { value: 'sum', label: '合計距離が最小' },
+  { value: 'sumOfSquares', label: '二乗和が最小（遠い人を重視）' },
+  { value: 'max', label: '最大距離が最小（最も遠い人を優先）' },
+  { value: 'sumPlusMax', label: '合計距離＋最大距離が最小' },
+  { value: 'stdDev', label: '距離のばらつき（標準偏差）が最小' },
+  { value: 'totalTime', label: '合計所要時間が最小' },
+  { value: 'maxTime', label: '最長所要時間が最小（最も時間のかかる人を優先）' },
+]
+
+/** Selectable distance bases for the suggested station with their display labels */
+const DISTANCE_BASIS_OPTIONS: { value: DistanceBasis; label: string }[] = [
+  { value: 'straight', label: '直線距離' },
+  { value: 'rail', label: '線路に沿った距離（徒歩＋乗車）' },
+  { value: 'transfers', label: '乗り換えの少なさ（同じなら距離）' },
+]
+
+/** Selectable distance metrics with their display labels */
+const DISTANCE_METRIC_OPTIONS: { value: DistanceMetric; label: string }[] = [
+  { value: 'haversine', label: '球面（Haversine）' },
+  { value: 'vincenty', label: '楕円体（WGS84 / Vincenty）' },
+]
+
+/** Selectable meeting station counts with their display labels */
+const CLUSTER_COUNT_OPTIONS: { value: string; label: string }[] = [
+  { value: '1', label: '1か所（全員で集まる）' },
+  ...Array.from({ length: MAX_CLUSTER_COUNT - 1 }, (_, i) => ({
+    value: String(i + 2),
+    label: `${i + 2}か所に分ける`,
+  })),
+  { value: 'auto', label: '自動で決める' },
+]
+
+/** Selectable caps of the balanced station ('' turns it off) with their display labels */
+const BALANCED_CAP_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: '探さない' },
+  { value: '0.1', label: '合計距離 +10% まで' },
+  { value: '0.2', label: '合計距離 +20% まで' },
+  { value: '0.5', label: '合計距離 +50% まで' },
+]
+
+/** Smallest accepted value of each travel profile field (speeds must be positive) */
+const TRAVEL_PROFILE_MINIMUMS: Record<keyof TravelProfile, number> = {
+  speedKmh: Number.MIN_VALUE,
+  circuity: 1,
+}
+
+/**
+ * Calculation settings that apply to every result.
+ * Purely controlled: all state lives in App so it can feed the calculation directly.
+ */
+function SettingsPanel({
+  geometryMode,
+  onGeometryModeChange,
+  objective,
+  onObjectiveChange,
+  distanceBasis,
+  onDistanceBasisChange,
+  unavailableBases = [],
+  preferDirect,
+  onPreferDirectChange,
+  distanceMetric,
+  onDistanceMetricChange,
+  clusterCount,
+  onClusterCountChange,
+  balancedCap,
+  onBalancedCapChange,
+  travelProfiles,
+  onTravelProfilesChange,
+}: SettingsPanelProps) {
+  // Out-of-range edits (e.g. an emptied field) are ignored and the last valid value stays
+  function handleProfileChange(mode: TravelMode, field: keyof TravelProfile, raw: string) {
+    const value = Number(raw)
+    if (raw === '' || !Number.isFinite(value) || value < TRAVEL_PROFILE_MINIMUMS[field]) return
+    onTravelProfilesChange({
+      ...travelProfiles,
+      [mode]: { ...travelProfiles[mode], [field]: value },
+    })
+  }
+
+  return (
+    <div data-testid="settings-panel" className="card bg-base-100 shadow-md">
+      <div className="card-body">
+        <h2 className="card-title text-lg">計算設定</h2>
+
+        <div className="form-control">
+          <label htmlFor="settings-geometry" className="label">
+            <span className="label-text">計算方式</span>
+          </label>
+          <select
+            id="settings-geometry"
+            className="select select-bordered w-full"
+            value={geometryMode}
+            onChange={(e) => onGeometryModeChange(e.target.value as GeometryMode)}
+          >
+            {GEOMETRY_MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            北海道〜沖縄のように離れた出発地や、日付変更線をまたぐ場合は球面がより正確です。
+          </p>
+        </div>
+
+        <div className="form-control">
+          <label htmlFor="settings-objective" className="label">
+            <span className="label-text">おすすめ駅の基準</span>
+          </label>
+          <select
+            id="settings-objective"
+            className="select select-bordered w-full"
+            value={objective}
+            onChange={(e) => onObjectiveChange(e.target.value as ObjectiveKind)}
+          >
+            {OBJECTIVE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-control">
+          <label htmlFor="settings-basis" className="label">
+            <span className="label-text">おすすめ駅の距離</span>
+          </label>
+          <select
+            id="settings-basis"
+            className="select select-bordered w-full"
+            value={distanceBasis}
+            onChange={(e) => onDistanceBasisChange(e.target.value as DistanceBasis)}
+          >
+            {DISTANCE_BASIS_OPTIONS.map((option) => {
+              const unavailable = unavailableBases.includes(option.value)
+              return (
+                <option key={option.value} value={option.value} disabled={unavailable}>
+                  {unavailable ? `${option.label}（データ未配置）` : option.label}
+                </option>
+              )
+            })}
+          </select>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            湾や山を挟む場合など、直線距離では近くても電車では遠い駅を避けられます。
+            乗り換えの少なさでは、各自の最寄り駅から乗り換えなしで行ける駅を優先します。
+          </p>
+        </div>
+
+        <div className="form-control">
+          <label
+            htmlFor="settings-prefer-direct"
+            className="label cursor-pointer justify-start gap-2"
+          >
+            <input
+              id="settings-prefer-direct"
+              type="checkbox"
+              className="checkbox checkbox-sm"
+              checked={preferDirect}
+              onChange={(e) => onPreferDirectChange(e.target.checked)}
+            />
+            <span className="label-text">直通で行ける人が多い駅を優先</span>
+          </label>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            駅名で追加した出発地と同じ路線の駅を、乗り換えなしで行ける人が多い順に並べます。
+          </p>
+        </div>
+
+        <div className="form-control">
+          <label htmlFor="settings-balanced" className="label">
+            <span className="label-text">距離の差が最小の駅</span>
+          </label>
+          <select
+            id="settings-balanced"
+            className="select select-bordered w-full"
+            value={balancedCap === null ? '' : String(balancedCap)}
+            onChange={(e) =>
+              onBalancedCapChange(e.target.value === '' ? null : Number(e.target.value))
+            }
+          >
+            {BALANCED_CAP_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            合計距離の増加を抑えつつ、全員の移動距離ができるだけ等しくなる駅を探します。2人の場合は2人を結ぶ大円に沿って探します。
+          </p>
+        </div>
+
+        <div className="form-control">
+          <label htmlFor="settings-metric" className="label">
+            <span className="label-text">距離の測り方</span>
+          </label>
+          <select
+            id="settings-metric"
+            className="select select-bordered w-full"
+            value={distanceMetric}
+            onChange={(e) => onDistanceMetricChange(e.target.value as DistanceMetric)}
+          >
+            {DISTANCE_METRIC_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            楕円体は地球の扁平を考慮するため、南北に長い移動ほど正確になります。
+          </p>
+        </div>
+
+        <div className="form-control">
+          <label htmlFor="settings-clusters" className="label">
+            <span className="label-text">集合場所の数</span>
+          </label>
+          <select
+            id="settings-clusters"
+            className="select select-bordered w-full"
+            value={String(clusterCount)}
+            onChange={(e) =>
+              onClusterCountChange(e.target.value === 'auto' ? 'auto' : Number(e.target.value))
+            }
+          >
+            {CLUSTER_COUNT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            全国から集まる場合などに、近い人同士でグループに分けて別々の駅に集まります。
+          </p>
+        </div>
+
+        <details data-testid="travel-profiles">
+          <summary className="label-text cursor-pointer">移動速度の設定（所要時間の目安）</summary>
+          <table className="table table-xs mt-2">
+            <thead>
+              <tr>
+                <th>手段</th>
+                <th>速度（km/h）</th>
+                <th>迂回率</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(TRAVEL_MODE_LABELS) as TravelMode[]).map((mode) => (
+                <tr key={mode}>
+                  <td>{TRAVEL_MODE_LABELS[mode]}</td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className="input input-bordered input-xs w-20"
+                      aria-label={`${TRAVEL_MODE_LABELS[mode]}の速度`}
+                      value={travelProfiles[mode].speedKmh}
+                      onChange={(e) => handleProfileChange(mode, 'speedKmh', e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.05"
+                      className="input input-bordered input-xs w-20"
+                      aria-label={`${TRAVEL_MODE_LABELS[mode]}の迂回率`}
+                      value={travelProfiles[mode].circuity}
+                      onChange={(e) => handleProfileChange(mode, 'circuity', e.target.value)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[11px] text-base-content/50 leading-relaxed mt-1">
+            所要時間は直線距離×迂回率÷速度で見積もります。速度は乗り換えや信号待ちを含む平均です。
+          </p>
+        </details>
+      </div>
+    </div>
+  )
+}
+
+export default SettingsPanel
@@ -0,0 +1,80 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { StationWithCoords } from '@/types'
+import DestinationForm from '../DestinationForm'
+
+const mockUseStationSearch = vi.fn()
+vi.mock('@/hooks/useStationSearch', () => ({
+  useStationSearch: (...args: unknown[]) => mockUseStationSearch(...args),
+}))
+
+const HAKONE_YUMOTO: StationWithCoords = {
+  id: 1,
+  name: '箱根湯本',
+  line_name: '箱根登山線',
+  operator: '箱根登山鉄道',
+  lat: 35.2324,
+  lng: 139.1069,
+}
+
+describe('DestinationForm', () => {
+  const onChange = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUseStationSearch.mockReturnValue({ stations: [], isLoading: false, error: null })
+  })
+
+  it('should set a station picked from the search results', () => {
+    mockUseStationSearch.mockReturnValue({
+      stations: [HAKONE_YUMOTO],
+      isLoading: false,
+      error: null,
+    })
+    render(<DestinationForm destination={null} onChange={onChange} />)
+
+    fireEvent.change(screen.getByLabelText('目的地の駅名検索'), { target: { value: '箱根' } })
+    fireEvent.click(screen.getByText('箱根湯本'))
+
+    expect(onChange).toHaveBeenCalledWith({
+      label: '箱根湯本',
+      latlng: { lat: 35.2324, lng: 139.1069 },
+    })
+  })
+
+  it('should set coordinates with an optional name', () => {
+    render(<DestinationForm destination={null} onChange={onChange} />)
+
+    fireEvent.change(screen.getByLabelText('目的地の名前（任意）'), { target: { value: '会場' } })
+    fireEvent.change(screen.getByLabelText('目的地の緯度'), { target: { value: '35.6' } })
+    fireEvent.change(screen.getByLabelText('目的地の経度'), { target: { value: '139.7' } })
+    fireEvent.click(screen.getByText('目的地に設定'))
+
+    expect(onChange).toHaveBeenCalledWith({ label: '会場', latlng: { lat: 35.6, lng: 139.7 } })
+  })
+
+  it('should not set out-of-range coordinates', () => {
+    render(<DestinationForm destination={null} onChange={onChange} />)
+
+    fireEvent.change(screen.getByLabelText('目的地の緯度'), { target: { value: '91' } })
+    fireEvent.change(screen.getByLabelText('目的地の経度'), { target: { value: '139.7' } })
+    fireEvent.click(screen.getByText('目的地に設定'))
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('should show the current destination and clear it', () => {
+    render(
+      <DestinationForm
+        destination={{ label: '箱根湯本', latlng: { lat: 35.2324, lng: 139.1069 } }}
+        onChange={onChange}
+      />
+    )
+
+    expect(screen.getByTestId('destination-current')).toHaveTextContent('箱根湯本')
+    expect(screen.queryByLabelText('目的地の駅名検索')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText('目的地を解除'))
+    expect(onChange).toHaveBeenCalledWith(null)
+  })
+})
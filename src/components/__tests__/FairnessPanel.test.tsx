@@ -0,0 +1,49 @@
+import { render, screen, within } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import type { Location } from '@/types'
+import FairnessPanel, { type FairnessColumn } from '../FairnessPanel'
+
+const LOCATIONS: Location[] = [
+  { id: 'a', label: '田中', latlng: { lat: 35.0, lng: 139.0 } },
+  { id: 'b', label: '佐藤', latlng: { lat: 35.0, lng: 139.2 } },
+]
+
+const COLUMNS: FairnessColumn[] = [
+  { label: 'M', badgeClass: 'badge-error', barColor: 'red', distances: [9, 9] },
+  { label: '★', badgeClass: 'badge-accent', barColor: 'teal', distances: [2, 18] },
+]
+
+describe('FairnessPanel', () => {
+  it('should show every indicator for each meeting point', () => {
+    render(<FairnessPanel locations={LOCATIONS} columns={COLUMNS} />)
+    const rows = within(screen.getByTestId('fairness-table')).getAllByRole('row')
+    expect(rows[1]).toHaveTextContent('最長9.0 km18.0 km')
+    expect(rows[2]).toHaveTextContent('差0 m16.0 km')
+    expect(rows[3]).toHaveTextContent('標準偏差0 m8.0 km')
+    expect(rows[4]).toHaveTextContent('ジニ係数0.000.40')
+  })
+
+  it('should draw one bar per participant and point on a shared scale', () => {
+    render(<FairnessPanel locations={LOCATIONS} columns={COLUMNS} />)
+    const bars = screen.getAllByTestId('fairness-bar')
+    expect(bars).toHaveLength(4)
+    expect(bars.map((bar) => bar.style.width)).toEqual(['50%', '11.11111111111111%', '50%', '100%'])
+    expect(bars[3]).toHaveAttribute('title', '佐藤 → ★: 18.0 km')
+  })
+
+  it('should weight participants in the indicators', () => {
+    render(
+      <FairnessPanel
+        locations={[{ ...LOCATIONS[0], weight: 3 }, LOCATIONS[1]]}
+        columns={[COLUMNS[1]]}
+      />
+    )
+    // Distances 2, 2, 2, 18: mean 6, Σ|d_i − d_j| = 2·3·16 = 96 → 96 / (2·16·6) = 0.5
+    expect(screen.getByText('0.50')).toBeInTheDocument()
+  })
+
+  it('should render nothing without meeting points', () => {
+    const { container } = render(<FairnessPanel locations={LOCATIONS} columns={[]} />)
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -104,6 +104,42 @@ describe('LocationForm', () => {
     })
   })
 
+  describe('weight', () => {
+    it('should default the weight field to 1 and omit it from the added location', () => {
+      render(<LocationForm onAdd={onAdd} />)
+      expect(screen.getByLabelText('重み（人数）')).toHaveValue(1)
+
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.6812' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.7671' } })
+      fireEvent.click(screen.getByText('追加'))
+
+      expect(onAdd.mock.calls[0][0]).not.toHaveProperty('weight')
+    })
+
+    it('should pass a non-default weight to onAdd and reset the field', () => {
+      render(<LocationForm onAdd={onAdd} />)
+
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.6812' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.7671' } })
+      fireEvent.change(screen.getByLabelText('重み（人数）'), { target: { value: '3' } })
+      fireEvent.click(screen.getByText('追加'))
+
+      expect(onAdd).toHaveBeenCalledWith(expect.objectContaining({ weight: 3 }))
+      expect(screen.getByLabelText('重み（人数）')).toHaveValue(1)
+    })
+
+    it('should not submit with a non-positive weight', () => {
+      render(<LocationForm onAdd={onAdd} />)
+
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.6812' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.7671' } })
+      fireEvent.change(screen.getByLabelText('重み（人数）'), { target: { value: '0' } })
+      fireEvent.click(screen.getByText('追加'))
+
+      expect(onAdd).not.toHaveBeenCalled()
+    })
+  })
+
   describe('station search', () => {
     it('should show station search results', () => {
       setMockStationSearch({
@@ -193,6 +229,12 @@ describe('LocationForm', () => {
         id: expect.any(String),
         label: '東京',
         latlng: { lat: 35.6812, lng: 139.7671 },
+        origin: {
+          stationIds: [1],
+          name: '東京',
+          lines: ['JR山手線'],
+          lineKeys: ['JR東日本::JR山手線'],
+        },
       })
     })
 
@@ -220,9 +262,100 @@ describe('LocationForm', () => {
         id: expect.any(String),
         label: '鈴木（東京）',
         latlng: { lat: 35.6812, lng: 139.7671 },
+        origin: {
+          stationIds: [1],
+          name: '東京',
+          lines: ['JR山手線'],
+          lineKeys: ['JR東日本::JR山手線'],
+        },
       })
     })
 
+    it('should keep every line of the picked station as its origin', () => {
+      setMockStationSearch({
+        stations: [
+          {
+            id: 1,
+            name: '東京',
+            line_name: 'JR山手線',
+            operator: 'JR東日本',
+            lat: 35.6812,
+            lng: 139.7671,
+          },
+          {
+            id: 2,
+            name: '東京',
+            line_name: '丸ノ内線',
+            operator: '東京メトロ',
+            lat: 35.6813,
+            lng: 139.766,
+          },
+          {
+            id: 3,
+            name: '東京テレポート',
+            line_name: 'りんかい線',
+            operator: 'TWR',
+            lat: 35.627,
+            lng: 139.778,
+          },
+        ],
+      })
+      render(<LocationForm onAdd={onAdd} />)
+
+      fireEvent.change(screen.getByLabelText('駅名検索'), { target: { value: '東京' } })
+      fireEvent.click(screen.getByText('丸ノ内線'))
+      fireEvent.click(screen.getByText('追加'))
+
+      expect(onAdd).toHaveBeenCalledWith(
+        expect.objectContaining({
+          origin: {
+            stationIds: [2, 1],
+            name: '東京',
+            lines: ['丸ノ内線', 'JR山手線'],
+            lineKeys: ['東京メトロ::丸ノ内線', 'JR東日本::JR山手線'],
+          },
+        })
+      )
+    })
+
+    it('should drop the origin when coordinates are edited by hand', () => {
+      setMockStationSearch({
+        stations: [
+          {
+            id: 1,
+            name: '東京',
+            line_name: 'JR山手線',
+            operator: 'JR東日本',
+            lat: 35.6812,
+            lng: 139.7671,
+          },
+        ],
+      })
+      render(<LocationForm onAdd={onAdd} />)
+
+      fireEvent.change(screen.getByLabelText('駅名検索'), { target: { value: '東京' } })
+      fireEvent.click(screen.getByText('東京'))
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.7' } })
+      fireEvent.click(screen.getByText('追加'))
+
+      expect(onAdd.mock.calls[0][0]).not.toHaveProperty('origin')
+    })
+
+    it('should add the chosen travel mode, omitting the default train', () => {
+      render(<LocationForm onAdd={onAdd} />)
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.68' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.76' } })
+      fireEvent.change(screen.getByLabelText('移動手段'), { target: { value: 'bicycle' } })
+      fireEvent.click(screen.getByText('追加'))
+      expect(onAdd).toHaveBeenCalledWith(expect.objectContaining({ mode: 'bicycle' }))
+      expect(screen.getByLabelText('移動手段')).toHaveValue('train')
+
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.68' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.76' } })
+      fireEvent.click(screen.getByText('追加'))
+      expect(onAdd.mock.calls[1][0]).not.toHaveProperty('mode')
+    })
+
     it('should show loading spinner during search', () => {
       setMockStationSearch({ isLoading: true })
       render(<LocationForm onAdd={onAdd} />)
@@ -297,6 +430,119 @@ describe('LocationForm', () => {
     })
   })
 
+  describe('alternative origins', () => {
+    const PARTICIPANTS = [
+      { id: 'a', label: '田中', latlng: { lat: 35.6762, lng: 139.6503 } },
+      { id: 'b', label: '佐藤', latlng: { lat: 35.6896, lng: 139.7006 } },
+    ]
+
+    it('should not offer a target without participants', () => {
+      render(<LocationForm onAdd={onAdd} onAddAlternative={vi.fn()} />)
+      expect(screen.queryByLabelText('追加先')).not.toBeInTheDocument()
+    })
+
+    it('should add the place as another origin of the chosen participant', () => {
+      const onAddAlternative = vi.fn()
+      render(
+        <LocationForm
+          onAdd={onAdd}
+          participants={PARTICIPANTS}
+          onAddAlternative={onAddAlternative}
+        />
+      )
+
+      fireEvent.change(screen.getByLabelText('追加先'), { target: { value: 'b' } })
+      expect(screen.queryByLabelText('重み（人数）')).not.toBeInTheDocument()
+      fireEvent.change(screen.getByLabelText('ラベル（任意）'), { target: { value: '職場' } })
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.6812' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.7671' } })
+      fireEvent.click(screen.getByText('別の出発地として追加'))
+
+      expect(onAddAlternative).toHaveBeenCalledWith(1, {
+        label: '職場',
+        latlng: { lat: 35.6812, lng: 139.7671 },
+      })
+      expect(onAdd).not.toHaveBeenCalled()
+      expect(screen.getByLabelText('追加先')).toHaveValue('new')
+    })
+
+    it.each([
+      ['an alternative under another label', 'オフィス', '35.6812', '139.7671'],
+      ['the main point', '自宅', '35.6896', '139.7006'],
+    ])('should reject the coordinates of %s', (_, label, lat, lng) => {
+      const onAddAlternative = vi.fn()
+      const office = { label: '職場', latlng: { lat: 35.6812, lng: 139.7671 } }
+      render(
+        <LocationForm
+          onAdd={onAdd}
+          participants={[PARTICIPANTS[0], { ...PARTICIPANTS[1], alternatives: [office] }]}
+          onAddAlternative={onAddAlternative}
+        />
+      )
+
+      fireEvent.change(screen.getByLabelText('追加先'), { target: { value: 'b' } })
+      fireEvent.change(screen.getByLabelText('ラベル（任意）'), { target: { value: label } })
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: lat } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: lng } })
+      fireEvent.click(screen.getByText('別の出発地として追加'))
+
+      expect(onAddAlternative).not.toHaveBeenCalled()
+      expect(screen.getByRole('alert')).toHaveTextContent('この出発地はすでに追加されています')
+      expect(screen.getByLabelText('追加先')).toHaveValue('b')
+    })
+
+    it('should keep the chosen participant when someone before them is removed', () => {
+      const onAddAlternative = vi.fn()
+      const { rerender } = render(
+        <LocationForm
+          onAdd={onAdd}
+          participants={PARTICIPANTS}
+          onAddAlternative={onAddAlternative}
+        />
+      )
+      fireEvent.change(screen.getByLabelText('追加先'), { target: { value: 'b' } })
+      rerender(
+        <LocationForm
+          onAdd={onAdd}
+          participants={[PARTICIPANTS[1]]}
+          onAddAlternative={onAddAlternative}
+        />
+      )
+
+      fireEvent.change(screen.getByLabelText('緯度'), { target: { value: '35.6812' } })
+      fireEvent.change(screen.getByLabelText('経度'), { target: { value: '139.7671' } })
+      fireEvent.click(screen.getByText('別の出発地として追加'))
+      expect(onAddAlternative).toHaveBeenCalledWith(0, expect.anything())
+    })
+
+    it('should fall back to a new participant when the chosen one is removed', () => {
+      const { rerender } = render(
+        <LocationForm onAdd={onAdd} participants={PARTICIPANTS} onAddAlternative={vi.fn()} />
+      )
+      fireEvent.change(screen.getByLabelText('追加先'), { target: { value: 'a' } })
+      rerender(
+        <LocationForm onAdd={onAdd} participants={[PARTICIPANTS[1]]} onAddAlternative={vi.fn()} />
+      )
+      expect(screen.getByLabelText('追加先')).toHaveValue('new')
+    })
+
+    it('should still add alternatives once the maximum is reached', () => {
+      render(
+        <LocationForm
+          onAdd={onAdd}
+          disabled={true}
+          participants={PARTICIPANTS}
+          onAddAlternative={vi.fn()}
+        />
+      )
+      expect(screen.getByLabelText('緯度')).toBeDisabled()
+
+      fireEvent.change(screen.getByLabelText('追加先'), { target: { value: 'a' } })
+      expect(screen.getByLabelText('緯度')).not.toBeDisabled()
+      expect(screen.getByText('別の出発地として追加')).not.toBeDisabled()
+    })
+  })
+
   describe('disabled state', () => {
     it('should show disabled message on submit button', () => {
       render(<LocationForm onAdd={onAdd} disabled={true} />)
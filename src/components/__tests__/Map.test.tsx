@@ -1,5 +1,8 @@
 import { fireEvent, render, screen } from '@testing-library/react'
+import { divIcon } from 'leaflet'
 import { describe, expect, it, vi } from 'vitest'
+import { CLUSTER_COLORS } from '@/lib/clustering'
+import type { Location, StationClustering } from '@/types'
 import MapView from '../Map'
 
 // Single shared mock map instance so tests can assert on flyTo/setView calls
@@ -9,6 +12,12 @@ const mockMap = {
   getContainer: () => ({ clientWidth: 400, clientHeight: 300 }),
   flyTo: vi.fn(),
   getZoom: vi.fn(() => 6),
+  getBounds: () => ({
+    getSouth: () => 35.0,
+    getWest: () => 139.0,
+    getNorth: () => 36.0,
+    getEast: () => 140.5,
+  }),
 }
 
 // Mock react-leaflet components since they require a real DOM with canvas/SVG
@@ -30,7 +39,15 @@ vi.mock('react-leaflet', () => ({
   Polygon: ({ pathOptions }: { positions: unknown[]; pathOptions: Record<string, unknown> }) => (
     <div data-testid="polygon" data-color={pathOptions.color} />
   ),
+  Circle: ({ radius }: { center: [number, number]; radius: number }) => (
+    <div data-testid="circle" data-radius={radius} />
+  ),
+  Polyline: ({ positions }: { positions: [number, number][] }) => (
+    <div data-testid="polyline" data-positions={JSON.stringify(positions)} />
+  ),
+  ImageOverlay: () => <div data-testid="image-overlay" />,
   useMap: () => mockMap,
+  useMapEvents: () => mockMap,
 }))
 
 vi.mock('leaflet', () => ({
@@ -62,6 +79,106 @@ describe('Map', () => {
     expect(screen.getByText('大阪')).toBeInTheDocument()
   })
 
+  it('should render alternative origins linked to their participant', () => {
+    const locations = [
+      {
+        id: 'a',
+        label: '田中',
+        latlng: { lat: 35.6762, lng: 139.6503 },
+        alternatives: [{ label: '職場', latlng: { lat: 35.6812, lng: 139.7671 } }],
+      },
+    ]
+    render(<MapView locations={locations} />)
+
+    expect(screen.getAllByTestId('marker')).toHaveLength(2)
+    expect(screen.getByText(/田中の別の出発地/)).toBeInTheDocument()
+    expect(JSON.parse(screen.getByTestId('polyline').dataset.positions ?? '')).toEqual([
+      [35.6762, 139.6503],
+      [35.6812, 139.7671],
+    ])
+  })
+
+  it('should render the displaced medians tied to M', () => {
+    const locations = [
+      { id: 'a', label: '田中', latlng: { lat: 35.6762, lng: 139.6503 } },
+      { id: 'b', label: '佐藤', latlng: { lat: 35.4437, lng: 139.638 } },
+    ]
+    render(
+      <MapView
+        locations={locations}
+        geometricMedian={{ lat: 35.56, lng: 139.64 }}
+        displacedMedians={[
+          { lat: 35.4437, lng: 139.638 },
+          { lat: 35.6762, lng: 139.6503 },
+        ]}
+      />
+    )
+
+    // Two participants, M and one displaced M per participant
+    expect(screen.getAllByTestId('marker')).toHaveLength(5)
+    expect(screen.getByText('田中が来ない場合の最適地点')).toBeInTheDocument()
+    expect(JSON.parse(screen.getAllByTestId('polyline')[0].dataset.positions ?? '')).toEqual([
+      [35.56, 139.64],
+      [35.4437, 139.638],
+    ])
+  })
+
+  it('should toggle the total-distance heatmap with its contours', () => {
+    const locations = [
+      { id: 'a', label: '田中', latlng: { lat: 35.6762, lng: 139.6503 } },
+      { id: 'b', label: '佐藤', latlng: { lat: 35.4437, lng: 139.638 } },
+    ]
+    render(<MapView locations={locations} />)
+    expect(screen.queryAllByTestId('polyline')).toHaveLength(0)
+
+    const toggle = screen.getByLabelText('合計距離のヒートマップを表示')
+    fireEvent.click(toggle)
+    expect(toggle).toHaveAttribute('aria-pressed', 'true')
+    // One contour polyline per level (+5%, +10%, +20%), each a ring of segments
+    const contours = screen.getAllByTestId('polyline')
+    expect(contours).toHaveLength(3)
+    for (const contour of contours) {
+      expect(JSON.parse(contour.dataset.positions ?? '').length).toBeGreaterThan(0)
+    }
+    expect(screen.getByTestId('heatmap-legend')).toHaveTextContent('+5%+10%+20%')
+
+    fireEvent.click(toggle)
+    expect(screen.queryAllByTestId('polyline')).toHaveLength(0)
+  })
+
+  it('should not offer the heatmap for a single participant', () => {
+    render(
+      <MapView locations={[{ id: 'a', label: '田中', latlng: { lat: 35.6762, lng: 139.6503 } }]} />
+    )
+    expect(screen.queryByLabelText('合計距離のヒートマップを表示')).not.toBeInTheDocument()
+  })
+
+  it('should outline the near-optimal region', () => {
+    render(
+      <MapView
+        locations={[]}
+        nearOptimalRegion={[
+          { lat: 35.0, lng: 139.0 },
+          { lat: 35.1, lng: 139.1 },
+          { lat: 35.0, lng: 139.2 },
+        ]}
+      />
+    )
+    expect(screen.getByTestId('polygon')).toHaveAttribute('data-color', 'var(--color-accent)')
+  })
+
+  it('should render a destination marker with its label', () => {
+    render(
+      <MapView
+        locations={[]}
+        destination={{ label: '成田空港', latlng: { lat: 35.772, lng: 140.3929 } }}
+      />
+    )
+    expect(screen.getAllByTestId('marker')).toHaveLength(1)
+    expect(screen.getByText('目的地: 成田空港')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '地図全体を表示' })).toBeInTheDocument()
+  })
+
   it('should render centroid marker with explanation popup including Wikipedia links', () => {
     render(<MapView locations={[]} centroid={{ lat: 35.0, lng: 137.0 }} />)
     expect(screen.getByText('中間地点')).toBeInTheDocument()
@@ -123,6 +240,113 @@ describe('Map', () => {
     expect(screen.getByTestId('polygon')).toBeInTheDocument()
   })
 
+  describe('minimax (fairest) point', () => {
+    const CIRCLE = { center: { lat: 35.0, lng: 137.0 }, radius: 12.5 }
+
+    it('should render the F marker with its popup', () => {
+      render(<MapView locations={[]} minimaxCircle={CIRCLE} />)
+      expect(screen.getAllByTestId('marker')).toHaveLength(1)
+      expect(screen.getByText('公平地点')).toBeInTheDocument()
+      expect(screen.getByText(/最も遠い人の距離: 12.5 km/)).toBeInTheDocument()
+    })
+
+    it('should draw the enclosing circle in meters', () => {
+      render(<MapView locations={[]} minimaxCircle={CIRCLE} />)
+      expect(screen.getByTestId('circle')).toHaveAttribute('data-radius', '12500')
+    })
+
+    it('should not draw a zero-radius circle', () => {
+      render(<MapView locations={[]} minimaxCircle={{ ...CIRCLE, radius: 0 }} />)
+      expect(screen.queryByTestId('circle')).not.toBeInTheDocument()
+    })
+
+    it('should render F1-F3 markers for nearby stations', () => {
+      const stations = ['甲', '乙', '丙', '丁'].map((name, i) => ({
+        id: i + 1,
+        name,
+        line_name: null,
+        operator: null,
+        lat: 35 + i * 0.01,
+        lng: 137,
+        distance_meters: i * 100,
+      }))
+      render(<MapView locations={[]} minimaxCircle={CIRCLE} minimaxNearbyStations={stations} />)
+      // 1 F marker + 3 nearby (4th is beyond the marker limit)
+      expect(screen.getAllByTestId('marker')).toHaveLength(4)
+      expect(screen.getByText(/甲.*\(F1\)/)).toBeInTheDocument()
+      expect(screen.getByText(/丙.*\(F3\)/)).toBeInTheDocument()
+    })
+  })
+
+  describe('clustering', () => {
+    const LOCATIONS = [
+      { id: 'a', label: '神田', latlng: { lat: 35.6918, lng: 139.7709 } },
+      { id: 'b', label: '梅田', latlng: { lat: 34.705, lng: 135.498 } },
+      { id: 'c', label: '有楽町', latlng: { lat: 35.675, lng: 139.763 } },
+    ]
+    const CLUSTERING: StationClustering = {
+      clusters: [
+        {
+          station: {
+            id: 1,
+            name: '東京',
+            line_name: null,
+            operator: null,
+            lat: 35.6812,
+            lng: 139.7671,
+          },
+          memberIndices: [0, 2],
+          totalDistance: 2.3,
+        },
+        {
+          station: {
+            id: 2,
+            name: '大阪',
+            line_name: null,
+            operator: null,
+            lat: 34.7025,
+            lng: 135.4959,
+          },
+          memberIndices: [1],
+          totalDistance: 0.3,
+        },
+      ],
+      totalDistance: 2.6,
+    }
+
+    it('should render a marker per cluster station with its group', () => {
+      render(<MapView locations={LOCATIONS} clustering={CLUSTERING} />)
+      expect(screen.getAllByTestId('marker')).toHaveLength(5)
+      expect(screen.getByText('東京 (G1)')).toBeInTheDocument()
+      expect(screen.getByText('大阪 (G2)')).toBeInTheDocument()
+      expect(screen.getByText(/グループ1の集合場所（2地点）/)).toBeInTheDocument()
+    })
+
+    it('should color participant markers by cluster', () => {
+      vi.mocked(divIcon).mockClear()
+      render(<MapView locations={LOCATIONS} clustering={CLUSTERING} />)
+      const htmlFor = (label: string) =>
+        vi
+          .mocked(divIcon)
+          .mock.calls.map(([options]) => String(options?.html))
+          .find((html) => html.includes(`>${label}</div>`))
+      expect(htmlFor('1')).toContain(CLUSTER_COLORS[0])
+      expect(htmlFor('2')).toContain(CLUSTER_COLORS[1])
+      expect(htmlFor('3')).toContain(CLUSTER_COLORS[0])
+      expect(htmlFor('G2')).toContain(CLUSTER_COLORS[1])
+    })
+
+    it('should use the default color without clustering', () => {
+      vi.mocked(divIcon).mockClear()
+      render(<MapView locations={LOCATIONS} />)
+      const html = vi
+        .mocked(divIcon)
+        .mock.calls.map(([options]) => String(options?.html))
+        .find((h) => h.includes('>1</div>'))
+      expect(html).toContain('var(--color-primary)')
+    })
+  })
+
   describe('nearby station markers (C1-C3 / M1-M3)', () => {
     const SHIBUYA = {
       id: 1,
@@ -242,6 +466,9 @@ describe('Map', () => {
         lng: 139.7387,
       },
       totalDistance: 12.3,
+      score: 12.3,
+      objective: 'sum' as const,
+      candidatesEvaluated: 20,
     }
 
     it('should render a suggested station marker when separated from the geometric median', () => {
@@ -259,6 +486,32 @@ describe('Map', () => {
       expect(screen.getByText(/全員からの合計距離:/)).toBeInTheDocument()
     })
 
+    it('should name the participants riding to the ★ station directly', () => {
+      const locations: Location[] = [
+        {
+          id: 'a',
+          label: 'Aさん',
+          latlng: { lat: 35.68, lng: 139.76 },
+          origin: {
+            stationIds: [1],
+            name: '東京',
+            lines: ['JR山手線'],
+            lineKeys: ['JR東日本::JR山手線'],
+          },
+        },
+        { id: 'b', label: 'Bさん', latlng: { lat: 35.5, lng: 139.6 } },
+      ]
+      render(
+        <MapView
+          locations={locations}
+          geometricMedian={{ lat: 35.6, lng: 139.7 }}
+          suggestedStation={SHINAGAWA}
+        />
+      )
+      const popup = screen.getByText(/おすすめ駅: 品川/).closest('[data-testid="popup"]')
+      expect(popup?.textContent).toContain('直通: Aさん（JR山手線）')
+    })
+
     it('should suppress the suggested station marker when it nearly coincides with the median', () => {
       // Median essentially equals the suggested station coordinates
       render(
@@ -300,6 +553,9 @@ describe('Map', () => {
           lng: 139.7006,
         },
         totalDistance: 8.2,
+        score: 8.2,
+        objective: 'sum' as const,
+        candidatesEvaluated: 20,
       }
       const MULTI_LINE_ROWS = [
         {
@@ -1,11 +1,23 @@
 import { fireEvent, render, screen, within } from '@testing-library/react'
 import { describe, expect, it, vi } from 'vitest'
+import { totalDistance } from '@/lib/geo'
+import { vincentyDistance } from '@/lib/geodesic'
+import { haversineDistance } from '@/lib/haversine'
+import type { TimetableCandidate } from '@/lib/timetable'
+import { DEFAULT_TRAVEL_PROFILES } from '@/lib/travelTime'
 import type {
+  BalancedStationResult,
   KMedoidResult,
   Location,
   MeetingPointResult,
   NearbyStation,
+  NearOptimalShortlist,
+  NetworkStationResult,
+  ParticipantInfluence,
+  SensitivityAnalysis,
+  StationClustering,
   StationWithCoords,
+  TransferStationResult,
 } from '@/types'
 import ResultCard from '../ResultCard'
 
@@ -510,7 +522,13 @@ describe('ResultCard', () => {
     }
 
     it('should not render an inline おすすめ badge in the median list (★ map marker is the sole indicator)', () => {
-      const suggestion: KMedoidResult = { station: SHINAGAWA_STATION, totalDistance: 12.3 }
+      const suggestion: KMedoidResult = {
+        station: SHINAGAWA_STATION,
+        totalDistance: 12.3,
+        score: 12.3,
+        objective: 'sum',
+        candidatesEvaluated: 20,
+      }
       render(
         <ResultCard
           locations={LOCATIONS}
@@ -525,7 +543,13 @@ describe('ResultCard', () => {
     })
 
     it('should not render a standalone suggestion box when the suggested station is in the list', () => {
-      const suggestion: KMedoidResult = { station: SHINAGAWA_STATION, totalDistance: 12.3 }
+      const suggestion: KMedoidResult = {
+        station: SHINAGAWA_STATION,
+        totalDistance: 12.3,
+        score: 12.3,
+        objective: 'sum',
+        candidatesEvaluated: 20,
+      }
       render(
         <ResultCard
           locations={LOCATIONS}
@@ -539,7 +563,13 @@ describe('ResultCard', () => {
     })
 
     it('should render a standalone suggestion box when the suggested station is not in the displayed list', () => {
-      const suggestion: KMedoidResult = { station: OUTSIDE_STATION, totalDistance: 45.6 }
+      const suggestion: KMedoidResult = {
+        station: OUTSIDE_STATION,
+        totalDistance: 45.6,
+        score: 45.6,
+        objective: 'sum',
+        candidatesEvaluated: 20,
+      }
       render(
         <ResultCard
           locations={LOCATIONS}
@@ -553,6 +583,7 @@ describe('ResultCard', () => {
       expect(box).toBeInTheDocument()
       expect(within(box).getByText('横浜')).toBeInTheDocument()
       expect(within(box).getByText('JR東海道線')).toBeInTheDocument()
+      expect(within(box).getByTestId('candidates-evaluated')).toHaveTextContent('20駅を評価')
       // No suggested badge inside the regular nearby list
       const medianSection = screen.getByTestId('nearby-stations-median')
       expect(within(medianSection).queryByTestId('suggested-badge')).not.toBeInTheDocument()
@@ -624,7 +655,13 @@ describe('ResultCard', () => {
         lat: 35.67,
         lng: 139.66,
       }
-      const suggestion: KMedoidResult = { station: DAITABASHI_STATION, totalDistance: 10.5 }
+      const suggestion: KMedoidResult = {
+        station: DAITABASHI_STATION,
+        totalDistance: 10.5,
+        score: 10.5,
+        objective: 'sum',
+        candidatesEvaluated: 20,
+      }
       render(
         <ResultCard
           locations={LOCATIONS}
@@ -706,7 +743,13 @@ describe('ResultCard', () => {
         lat: 35.6896,
         lng: 139.7006,
       }
-      const suggestion: KMedoidResult = { station: SHINJUKU_WINNER, totalDistance: 8.2 }
+      const suggestion: KMedoidResult = {
+        station: SHINJUKU_WINNER,
+        totalDistance: 8.2,
+        score: 8.2,
+        objective: 'sum',
+        candidatesEvaluated: 20,
+      }
       render(
         <ResultCard
           locations={LOCATIONS}
@@ -723,6 +766,890 @@ describe('ResultCard', () => {
     })
   })
 
+  describe('suggested station objective', () => {
+    const STATION: StationWithCoords = {
+      id: 999,
+      name: '横浜',
+      line_name: 'JR東海道線',
+      operator: 'JR東日本',
+      lat: 35.4659,
+      lng: 139.6224,
+    }
+
+    it('should show the objective heading and score for non-sum objectives', () => {
+      const suggestion: KMedoidResult = {
+        station: STATION,
+        totalDistance: 45.6,
+        score: 20.1,
+        objective: 'max',
+        candidatesEvaluated: 20,
+      }
+      render(
+        <ResultCard locations={LOCATIONS} result={MOCK_RESULT} suggestedStation={suggestion} />
+      )
+      const box = screen.getByTestId('suggested-station-box')
+      expect(within(box).getByText(/最も遠い人の距離が最小の駅/)).toBeInTheDocument()
+      expect(within(box).getByText('20.1 km')).toBeInTheDocument()
+      expect(within(box).getByText('45.6 km')).toBeInTheDocument()
+    })
+
+    it('should format sum-of-squares scores in km²', () => {
+      const suggestion: KMedoidResult = {
+        station: STATION,
+        totalDistance: 45.6,
+        score: 812.34,
+        objective: 'sumOfSquares',
+        candidatesEvaluated: 20,
+      }
+      render(
+        <ResultCard locations={LOCATIONS} result={MOCK_RESULT} suggestedStation={suggestion} />
+      )
+      expect(screen.getByText('812.3 km²')).toBeInTheDocument()
+    })
+
+    it('should not show a separate score for the sum objective', () => {
+      const suggestion: KMedoidResult = {
+        station: STATION,
+        totalDistance: 45.6,
+        score: 45.6,
+        objective: 'sum',
+        candidatesEvaluated: 20,
+      }
+      render(
+        <ResultCard locations={LOCATIONS} result={MOCK_RESULT} suggestedStation={suggestion} />
+      )
+      const box = screen.getByTestId('suggested-station-box')
+      expect(within(box).queryByText(/評価値/)).not.toBeInTheDocument()
+    })
+  })
+
+  describe('minimax (fairest) point', () => {
+    const MINIMAX_RESULT: MeetingPointResult = {
+      ...MOCK_RESULT,
+      minimaxCircle: { center: { lat: 35.2, lng: 137.1 }, radius: 210.4 },
+    }
+    const FAIR_STATION: StationWithCoords = {
+      id: 50,
+      name: '岐阜',
+      line_name: 'JR東海道線',
+      operator: 'JR東海',
+      lat: 35.4096,
+      lng: 136.7562,
+    }
+
+    it('should not render the F card without a minimax circle', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      expect(screen.queryByText('公平地点')).not.toBeInTheDocument()
+    })
+
+    it('should render the F card with coordinates and the worst-case distance', () => {
+      render(<ResultCard locations={LOCATIONS} result={MINIMAX_RESULT} />)
+      expect(screen.getByText('公平地点')).toBeInTheDocument()
+      expect(screen.getByText('F')).toBeInTheDocument()
+      expect(screen.getByText('35.200000, 137.100000')).toBeInTheDocument()
+      expect(screen.getByText('210.4 km')).toBeInTheDocument()
+      expect(screen.getByRole('link', { name: /Smallest enclosing circle/ })).toHaveAttribute(
+        'href',
+        expect.stringContaining('Smallest-circle_problem')
+      )
+    })
+
+    it('should render nearby stations and the fairest station box', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MINIMAX_RESULT}
+          minimaxNearbyStations={[{ ...FAIR_STATION, distance_meters: 1200 }]}
+          fairestStation={{ station: FAIR_STATION, maxDistance: 215.2 }}
+        />
+      )
+      const section = screen.getByTestId('nearby-stations-minimax')
+      expect(within(section).getByText('F1')).toBeInTheDocument()
+      const box = screen.getByTestId('fairest-station-box')
+      expect(within(box).getByText('岐阜')).toBeInTheDocument()
+      expect(within(box).getByText('215.2 km')).toBeInTheDocument()
+      expect(within(box).getByText('JR東海道線')).toBeInTheDocument()
+    })
+
+    it('should focus the map on the minimax center', () => {
+      const handleFocus = vi.fn()
+      render(<ResultCard locations={LOCATIONS} result={MINIMAX_RESULT} onFocusMap={handleFocus} />)
+      fireEvent.click(screen.getByLabelText('地図を公平地点に移動'))
+      expect(handleFocus).toHaveBeenCalledWith(MINIMAX_RESULT.minimaxCircle?.center)
+    })
+  })
+
+  describe('distance metric', () => {
+    it('should quote totals and per-location distances with the chosen metric', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} distanceMetric="vincenty" />)
+      const points = LOCATIONS.map((l) => l.latlng)
+      const total = totalDistance(MOCK_RESULT.centroid, points, undefined, 'vincenty')
+      expect(screen.getAllByText(`${total.toFixed(1)} km`).length).toBeGreaterThan(0)
+      const toMedian = vincentyDistance(MOCK_RESULT.geometricMedian, LOCATIONS[0].latlng)
+      // The estimated minutes follow the distance in the same span
+      expect(
+        screen.getByText(`→ M: ${toMedian.toFixed(1)} km`, { exact: false })
+      ).toBeInTheDocument()
+    })
+  })
+
+  describe('clustering', () => {
+    const CLUSTERING: StationClustering = {
+      clusters: [
+        {
+          station: {
+            id: 1,
+            name: '名古屋',
+            line_name: 'JR東海道本線',
+            operator: null,
+            lat: 35.1709,
+            lng: 136.8815,
+          },
+          memberIndices: [0, 2],
+          totalDistance: 280,
+        },
+        {
+          station: {
+            id: 2,
+            name: '大阪',
+            line_name: null,
+            operator: null,
+            lat: 34.7025,
+            lng: 135.4959,
+          },
+          memberIndices: [1],
+          totalDistance: 1.5,
+        },
+      ],
+      totalDistance: 281.5,
+    }
+
+    it('should not render cluster blocks without clustering', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      expect(screen.queryByTestId('cluster-blocks')).not.toBeInTheDocument()
+    })
+
+    it('should render one block per cluster with its members', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} clustering={CLUSTERING} />)
+      expect(screen.getByText('グループ別の集合場所（2か所）')).toBeInTheDocument()
+      const blocks = screen.getAllByTestId('cluster-block')
+      expect(blocks).toHaveLength(2)
+      expect(within(blocks[0]).getByText('G1')).toBeInTheDocument()
+      expect(within(blocks[0]).getByText('名古屋')).toBeInTheDocument()
+      expect(within(blocks[0]).getByText('JR東海道本線')).toBeInTheDocument()
+      expect(within(blocks[0]).getByText('1. 東京')).toBeInTheDocument()
+      expect(within(blocks[0]).getByText('3. 名古屋')).toBeInTheDocument()
+      expect(within(blocks[0]).getByText('280.0 km')).toBeInTheDocument()
+      expect(within(blocks[1]).getByText('2. 大阪')).toBeInTheDocument()
+      expect(screen.getByText('281.5 km')).toBeInTheDocument()
+    })
+
+    it('should focus the map on a cluster station', () => {
+      const handleFocus = vi.fn()
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          clustering={CLUSTERING}
+          onFocusMap={handleFocus}
+        />
+      )
+      const [, osakaBlock] = screen.getAllByTestId('cluster-block')
+      fireEvent.click(within(osakaBlock).getByLabelText('地図を大阪に移動'))
+      expect(handleFocus).toHaveBeenCalledWith({ lat: 34.7025, lng: 135.4959 })
+    })
+  })
+
+  describe('rail network distance', () => {
+    const HUB: StationWithCoords = {
+      id: 7,
+      name: '名古屋',
+      line_name: '東海道本線',
+      operator: '東海旅客鉄道',
+      lat: 35.1709,
+      lng: 136.8815,
+    }
+    const NETWORK_STATION: NetworkStationResult = {
+      station: HUB,
+      totalDistance: 700,
+      score: 700,
+      objective: 'sum',
+      candidatesEvaluated: 9000,
+      journeys: [
+        { accessStation: HUB, walkDistance: 0.8, railDistance: 365, totalDistance: 365.8 },
+        { accessStation: HUB, walkDistance: 0.4, railDistance: 189, totalDistance: 189.4 },
+        { accessStation: HUB, walkDistance: 0.2, railDistance: 0, totalDistance: 0.2 },
+      ],
+    }
+
+    it('should show each participant network distance next to the straight-line figures', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          suggestedStation={NETWORK_STATION}
+          networkStation={NETWORK_STATION}
+        />
+      )
+      const rows = screen.getAllByTestId('rail-distance')
+      expect(rows.map((r) => r.textContent)).toEqual([
+        '→ ★ 線路: 365.8 km',
+        '→ ★ 線路: 189.4 km',
+        '→ ★ 線路: 200 m',
+      ])
+      expect(rows[0]).toHaveAttribute('title', '名古屋駅まで徒歩 800 m ＋ 乗車 365.0 km')
+    })
+
+    it('should label the suggestion as rail-based', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          suggestedStation={NETWORK_STATION}
+          networkStation={NETWORK_STATION}
+        />
+      )
+      expect(screen.getByTestId('candidates-evaluated')).toHaveTextContent(
+        '線路に沿った距離（徒歩＋乗車）で探索（9,000駅を評価）'
+      )
+    })
+
+    it('should not show network distances without a network result', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      expect(screen.queryByTestId('rail-distance')).not.toBeInTheDocument()
+    })
+
+    it('should explain the straight-line fallback when the network fails', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          networkError="Failed to load rail network: 404"
+        />
+      )
+      expect(screen.getByTestId('network-error')).toHaveTextContent(
+        '直線距離でおすすめ駅を選んでいます'
+      )
+    })
+  })
+
+  describe('direct-line badges', () => {
+    const NEARBY: NearbyStation[] = [
+      {
+        id: 1,
+        name: '新宿',
+        line_name: 'JR山手線',
+        operator: null,
+        lat: 35.69,
+        lng: 139.7,
+        distance_meters: 100,
+      },
+      {
+        id: 2,
+        name: '新宿',
+        line_name: '京王線',
+        operator: null,
+        lat: 35.69,
+        lng: 139.7,
+        distance_meters: 120,
+      },
+      {
+        id: 3,
+        name: '代々木',
+        line_name: 'JR中央線',
+        operator: null,
+        lat: 35.68,
+        lng: 139.7,
+        distance_meters: 500,
+      },
+    ]
+
+    it('should count the participants riding to each nearby station directly', () => {
+      const locations: Location[] = [
+        {
+          ...LOCATIONS[0],
+          origin: { stationIds: [9], name: '東京', lines: ['JR山手線'], lineKeys: ['::JR山手線'] },
+        },
+        {
+          ...LOCATIONS[1],
+          origin: { stationIds: [8], name: '調布', lines: ['京王線'], lineKeys: ['::京王線'] },
+        },
+        LOCATIONS[2],
+      ]
+      render(
+        <ResultCard locations={locations} result={MOCK_RESULT} medianNearbyStations={NEARBY} />
+      )
+      const list = screen.getByTestId('nearby-stations-median')
+      const badges = within(list).getAllByTestId('direct-badge')
+      expect(badges).toHaveLength(1)
+      expect(badges[0]).toHaveTextContent('直通2人')
+      expect(badges[0]).toHaveAttribute('title', '東京、大阪はJR山手線 / 京王線で乗り換えなし')
+    })
+
+    it('should not show badges when no origin is known', () => {
+      render(
+        <ResultCard locations={LOCATIONS} result={MOCK_RESULT} medianNearbyStations={NEARBY} />
+      )
+      expect(screen.queryByTestId('direct-badge')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('travel times', () => {
+    const TWO: Location[] = [
+      { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+      { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 }, mode: 'walk' },
+    ]
+    const TWO_RESULT: MeetingPointResult = {
+      centroid: { lat: 35.0, lng: 139.1 },
+      geometricMedian: { lat: 35.0, lng: 139.1 },
+      locations: TWO,
+    }
+    // 0.1° of longitude at 35°N is about 9.1 km
+    const PROFILES = {
+      ...DEFAULT_TRAVEL_PROFILES,
+      train: { speedKmh: 60, circuity: 1 },
+      walk: { speedKmh: 6, circuity: 1 },
+    }
+
+    it('should show total and longest minutes for C and M', () => {
+      render(<ResultCard locations={TWO} result={TWO_RESULT} travelProfiles={PROFILES} />)
+      expect(screen.getByTestId('centroid-time')).toHaveTextContent(
+        '所要時間の目安: 合計 約1時間40分 / 最長 約1時間31分'
+      )
+      expect(screen.getByTestId('median-time')).toHaveTextContent('最長 約1時間31分')
+    })
+
+    it('should show each participant minutes and travel mode', () => {
+      render(<ResultCard locations={TWO} result={TWO_RESULT} travelProfiles={PROFILES} />)
+      expect(screen.getByText('→ C: 9.1 km（約9分）')).toBeInTheDocument()
+      expect(screen.getByText('→ C: 9.1 km（約1時間31分）')).toBeInTheDocument()
+      expect(screen.getByTitle('移動手段')).toHaveTextContent('徒歩')
+    })
+
+    it('should quote minutes to the suggested station and a time score', () => {
+      const suggestion: KMedoidResult = {
+        station: { id: 1, name: '中間', line_name: null, operator: null, lat: 35.0, lng: 139.1 },
+        totalDistance: 18.2,
+        score: 100,
+        objective: 'totalTime',
+        candidatesEvaluated: 10,
+      }
+      render(
+        <ResultCard
+          locations={TWO}
+          result={TWO_RESULT}
+          travelProfiles={PROFILES}
+          suggestedStation={suggestion}
+        />
+      )
+      expect(screen.getAllByTestId('suggested-minutes').map((e) => e.textContent)).toEqual([
+        '→ ★: 約9分',
+        '→ ★: 約1時間31分',
+      ])
+      expect(screen.getByTestId('suggested-time')).toHaveTextContent('合計 約1時間40分')
+      expect(screen.getByText('全員の合計所要時間が最小の駅')).toBeInTheDocument()
+      expect(screen.getByTestId('suggested-station-box')).toHaveTextContent('評価値 約1時間40分')
+    })
+  })
+
+  describe('departure planner', () => {
+    const TWO: Location[] = [
+      { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+      { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 }, mode: 'walk' },
+    ]
+    const TWO_RESULT: MeetingPointResult = {
+      centroid: { lat: 35.0, lng: 139.1 },
+      geometricMedian: { lat: 35.0, lng: 139.1 },
+      locations: TWO,
+    }
+    const PROFILES = {
+      ...DEFAULT_TRAVEL_PROFILES,
+      train: { speedKmh: 60, circuity: 1 },
+      walk: { speedKmh: 6, circuity: 1 },
+    }
+    const SUGGESTION: KMedoidResult = {
+      station: { id: 1, name: '中間', line_name: null, operator: null, lat: 35.0, lng: 139.1 },
+      totalDistance: 18.2,
+      score: 18.2,
+      objective: 'sum',
+      candidatesEvaluated: 10,
+    }
+
+    it('should not show the planner without a suggested station', () => {
+      render(<ResultCard locations={TWO} result={TWO_RESULT} />)
+      expect(screen.queryByTestId('departure-planner')).not.toBeInTheDocument()
+    })
+
+    it('should ask for a meeting time before showing a timeline', () => {
+      render(<ResultCard locations={TWO} result={TWO_RESULT} suggestedStation={SUGGESTION} />)
+      expect(screen.getByLabelText('集合時刻')).toHaveValue('')
+      expect(screen.queryByTestId('departure-timeline')).not.toBeInTheDocument()
+    })
+
+    it('should list departures earliest first, ending with the meeting', () => {
+      render(
+        <ResultCard
+          locations={TWO}
+          result={TWO_RESULT}
+          travelProfiles={PROFILES}
+          suggestedStation={SUGGESTION}
+          meetingTime={18 * 60 + 30}
+        />
+      )
+      expect(screen.getByLabelText('集合時刻')).toHaveValue('18:30')
+      // 9.1 km: about 9.1 minutes by train and 91.1 minutes on foot, rounded up
+      expect(screen.getAllByTestId('departure-item').map((e) => e.textContent)).toEqual([
+        '16:58B 発（徒歩で約92分）',
+        '18:20A 発（電車で約10分）',
+      ])
+      expect(screen.getByTestId('departure-timeline')).toHaveTextContent('18:30★ 中間に集合')
+    })
+
+    it('should report entered and cleared meeting times', () => {
+      const handleChange = vi.fn()
+      render(
+        <ResultCard
+          locations={TWO}
+          result={TWO_RESULT}
+          suggestedStation={SUGGESTION}
+          meetingTime={600}
+          onMeetingTimeChange={handleChange}
+        />
+      )
+      fireEvent.change(screen.getByLabelText('集合時刻'), { target: { value: '09:15' } })
+      expect(handleChange).toHaveBeenLastCalledWith(555)
+      fireEvent.change(screen.getByLabelText('集合時刻'), { target: { value: '' } })
+      expect(handleChange).toHaveBeenLastCalledWith(null)
+    })
+
+    it('should offer to copy the departure times with the URL', () => {
+      render(
+        <ResultCard
+          locations={TWO}
+          result={TWO_RESULT}
+          suggestedStation={SUGGESTION}
+          meetingTime={600}
+          onCopyUrl={vi.fn()}
+        />
+      )
+      expect(screen.getByText('出発時刻とURLをコピー')).toBeInTheDocument()
+    })
+  })
+
+  describe('home lines', () => {
+    it('should show the lines of each participant picked from a station', () => {
+      const locations: Location[] = [
+        {
+          ...LOCATIONS[0],
+          origin: {
+            stationIds: [1, 2],
+            name: '東京',
+            lines: ['JR山手線', '丸ノ内線'],
+            lineKeys: ['JR東日本::JR山手線', '東京メトロ::丸ノ内線'],
+          },
+        },
+        LOCATIONS[1],
+      ]
+      render(<ResultCard locations={locations} result={null} />)
+      const rows = screen.getAllByTestId('home-lines')
+      expect(rows).toHaveLength(1)
+      expect(rows[0]).toHaveTextContent('利用路線: JR山手線 / 丸ノ内線')
+      expect(rows[0]).toHaveAttribute('title', '東京駅の路線')
+    })
+
+    it('should not show lines for an origin that is not resolved yet', () => {
+      const locations: Location[] = [
+        { ...LOCATIONS[0], origin: { stationIds: [1], name: '', lines: [], lineKeys: [] } },
+      ]
+      render(<ResultCard locations={locations} result={null} />)
+      expect(screen.queryByTestId('home-lines')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('transfer-minimizing suggestion', () => {
+    const ORIGIN = (name: string, line: string): StationWithCoords => ({
+      id: name.length,
+      name,
+      line_name: line,
+      operator: null,
+      lat: 35,
+      lng: 137,
+    })
+    const TRANSFER_STATION: TransferStationResult = {
+      station: {
+        id: 7,
+        name: '名古屋',
+        line_name: '東海道新幹線',
+        operator: '東海旅客鉄道',
+        lat: 35.1709,
+        lng: 136.8815,
+      },
+      totalDistance: 400,
+      score: 400,
+      objective: 'sum',
+      candidatesEvaluated: 8000,
+      lines: ['東海道新幹線', '東山線'],
+      transfers: [0, 1, 0],
+      origins: [ORIGIN('東京', '東海道新幹線'), ORIGIN('梅田', '御堂筋線'), ORIGIN('栄', '東山線')],
+    }
+
+    it('should show direct or transfer badges per participant', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          suggestedStation={TRANSFER_STATION}
+          transferStation={TRANSFER_STATION}
+        />
+      )
+      const badges = screen.getAllByTestId('transfer-indicator')
+      expect(badges.map((b) => b.textContent)).toEqual(['直通', '乗換1回', '直通'])
+      expect(badges[1]).toHaveAttribute('title', '最寄りの梅田駅（御堂筋線）から')
+    })
+
+    it('should label the suggestion as transfer-based with its lines', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          suggestedStation={TRANSFER_STATION}
+          transferStation={TRANSFER_STATION}
+        />
+      )
+      expect(screen.getByTestId('candidates-evaluated')).toHaveTextContent(
+        '乗り換えの少なさで探索（8,000駅を評価）'
+      )
+      expect(screen.getByText('東海道新幹線 / 東山線')).toBeInTheDocument()
+    })
+
+    it('should not show badges without a transfer result', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      expect(screen.queryByTestId('transfer-indicator')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('median solver report', () => {
+    it('should not flag a converged median', () => {
+      const result: MeetingPointResult = {
+        ...MOCK_RESULT,
+        medianReport: { iterations: 12, stepSize: 1e-8, converged: true, objective: 500 },
+      }
+      render(<ResultCard locations={LOCATIONS} result={result} />)
+      expect(screen.queryByTestId('median-approximate')).not.toBeInTheDocument()
+    })
+
+    it('should flag an approximate median with the iteration count and last step', () => {
+      const result: MeetingPointResult = {
+        ...MOCK_RESULT,
+        medianReport: { iterations: 1000, stepSize: 0.0012, converged: false, objective: 500 },
+      }
+      render(<ResultCard locations={LOCATIONS} result={result} />)
+      const note = screen.getByTestId('median-approximate')
+      expect(note).toHaveTextContent('近似解')
+      expect(note).toHaveTextContent('1000回')
+      expect(note).toHaveTextContent('1.2 m')
+    })
+  })
+
+  describe('shared destination', () => {
+    it('should show the group’s onward distance from the median', () => {
+      const result: MeetingPointResult = {
+        ...MOCK_RESULT,
+        destination: { label: '名古屋', latlng: { lat: 35.0, lng: 137.1 } },
+      }
+      render(<ResultCard locations={LOCATIONS} result={result} />)
+      const note = screen.getByTestId('median-destination')
+      expect(note).toHaveTextContent('目的地（名古屋）まで全員で')
+      expect(note).toHaveTextContent('9.1 km')
+    })
+
+    it('should not show it without a destination', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      expect(screen.queryByTestId('median-destination')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('alternative origins', () => {
+    const TWO: Location[] = [
+      {
+        id: 'a',
+        label: '田中',
+        latlng: { lat: 35.0, lng: 139.0 },
+        alternatives: [{ label: '職場', latlng: { lat: 35.0, lng: 139.05 } }],
+      },
+      { id: 'b', label: '佐藤', latlng: { lat: 35.0, lng: 139.2 } },
+    ]
+    const TWO_RESULT: MeetingPointResult = {
+      centroid: { lat: 35.0, lng: 139.1 },
+      geometricMedian: { lat: 35.0, lng: 139.1 },
+      locations: TWO,
+    }
+    const SUGGESTION: KMedoidResult = {
+      station: { id: 1, name: '中間', line_name: null, operator: null, lat: 35.0, lng: 139.1 },
+      totalDistance: 13.7,
+      score: 13.7,
+      objective: 'sum',
+      candidatesEvaluated: 10,
+      assumedOrigins: [1, 0],
+    }
+
+    it('should list alternatives and remove one', () => {
+      const onRemoveAlternative = vi.fn()
+      render(
+        <ResultCard locations={TWO} result={TWO_RESULT} onRemoveAlternative={onRemoveAlternative} />
+      )
+      expect(screen.getByTestId('alternative-origins')).toHaveTextContent('別の出発地:職場')
+      fireEvent.click(screen.getByLabelText('田中の別の出発地「職場」を削除'))
+      expect(onRemoveAlternative).toHaveBeenCalledWith(0, 0)
+    })
+
+    it('should say which origin the suggestion assumed and time the trip from it', () => {
+      const profiles = { ...DEFAULT_TRAVEL_PROFILES, train: { speedKmh: 60, circuity: 1 } }
+      render(
+        <ResultCard
+          locations={TWO}
+          result={TWO_RESULT}
+          suggestedStation={SUGGESTION}
+          travelProfiles={profiles}
+        />
+      )
+      expect(screen.getByTestId('assumed-origin')).toHaveTextContent('★へは職場から')
+      // 0.05° of longitude at 35°N is about 4.6 km
+      expect(screen.getAllByTestId('suggested-minutes')[0]).toHaveTextContent('→ ★: 約5分')
+    })
+  })
+
+  describe('participant influence', () => {
+    const STAY: StationWithCoords = {
+      id: 1,
+      name: '名古屋',
+      line_name: null,
+      operator: null,
+      lat: 35.17,
+      lng: 136.88,
+    }
+    const MOVE: StationWithCoords = { ...STAY, id: 2, name: '京都', lat: 35.0, lng: 135.76 }
+    const influence = (overrides: Partial<ParticipantInfluence>): ParticipantInfluence => ({
+      medianWithout: { lat: 35.0, lng: 137.0 },
+      medianDoubled: { lat: 35.0, lng: 137.0 },
+      centroidShiftWithout: 0,
+      centroidShiftDoubled: 0,
+      medianShiftWithout: 0,
+      medianShiftDoubled: 0,
+      stationWithout: STAY,
+      stationDoubled: STAY,
+      stationChangesWithout: false,
+      stationChangesDoubled: false,
+      ...overrides,
+    })
+    const SENSITIVITY: SensitivityAnalysis = {
+      centroid: { lat: 35.0, lng: 137.0 },
+      median: { lat: 35.0, lng: 137.0 },
+      station: STAY,
+      influences: [
+        influence({
+          medianShiftWithout: 125.4,
+          centroidShiftWithout: 80.2,
+          medianShiftDoubled: 0.3,
+        }),
+        influence({
+          medianShiftWithout: 98.7,
+          stationWithout: MOVE,
+          stationChangesWithout: true,
+        }),
+      ],
+    }
+
+    it('should show how far each participant moves the points and the station', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} sensitivity={SENSITIVITY} />)
+      const [first, second] = screen.getAllByTestId('influence-figures')
+      expect(first).toHaveTextContent('欠席時: M 125.4 km・C 80.2 km移動（★そのまま）')
+      expect(first).toHaveTextContent('重み2倍: M 300 m・C 0 m移動（★そのまま）')
+      expect(second).toHaveTextContent('欠席時: M 98.7 km・C 0 m移動（★→京都）')
+    })
+
+    it('should leave out the ★ verdict while another basis picks the ★', () => {
+      const origin = {
+        id: 9,
+        name: '東京',
+        line_name: null,
+        operator: null,
+        lat: 35.68,
+        lng: 139.77,
+      }
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          sensitivity={SENSITIVITY}
+          transferStation={{
+            station: { ...origin, id: 7, name: '名古屋', lat: 35.17, lng: 136.88 },
+            totalDistance: 400,
+            score: 400,
+            objective: 'sum',
+            candidatesEvaluated: 10,
+            lines: [],
+            transfers: [0, 0, 0],
+            origins: [origin, origin, origin],
+          }}
+        />
+      )
+      const [first, second] = screen.getAllByTestId('influence-figures')
+      expect(first).toHaveTextContent('欠席時: M 125.4 km・C 80.2 km移動')
+      expect(first).not.toHaveTextContent('★')
+      expect(second).not.toHaveTextContent('★→京都')
+      expect(first.title).toContain('★は直線距離での最適駅ではないため省略')
+    })
+
+    it('should toggle the displaced medians on the map', () => {
+      const onChange = vi.fn()
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          sensitivity={SENSITIVITY}
+          onShowDisplacedMediansChange={onChange}
+        />
+      )
+      fireEvent.click(screen.getByLabelText('欠席時の M の位置を地図に表示'))
+      expect(onChange).toHaveBeenCalledWith(true)
+    })
+
+    it('should show nothing before the analysis is ready', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} sensitivity={null} />)
+      expect(screen.queryByTestId('influence-figures')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('fairness panel', () => {
+    it('should compare C and M, and ★ once suggested', () => {
+      const { rerender } = render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      const header = () => within(screen.getByTestId('fairness-table')).getAllByRole('columnheader')
+      expect(header().map((th) => th.textContent)).toEqual(['', '→ C', '→ M'])
+
+      rerender(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          suggestedStation={{
+            station: {
+              id: 1,
+              name: '名古屋',
+              line_name: null,
+              operator: null,
+              lat: 35.17,
+              lng: 136.88,
+            },
+            totalDistance: 400,
+            score: 400,
+            objective: 'sum',
+            candidatesEvaluated: 10,
+          }}
+        />
+      )
+      expect(header().map((th) => th.textContent)).toEqual(['', '→ C', '→ M', '→ ★'])
+      expect(screen.getAllByTestId('fairness-bar')).toHaveLength(3 * LOCATIONS.length)
+    })
+
+    it('should not show before the calculation', () => {
+      render(<ResultCard locations={[LOCATIONS[0]]} result={null} />)
+      expect(screen.queryByTestId('fairness-panel')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('near-optimal shortlist', () => {
+    const SHORTLIST: NearOptimalShortlist = {
+      tolerance: 0.1,
+      bestTotal: 100,
+      stations: [
+        {
+          name: '静岡',
+          lat: 34.97,
+          lng: 138.39,
+          lines: ['東海道本線'],
+          totalDistance: 100,
+          maxDistance: 80,
+          spread: 60,
+          excess: 0,
+        },
+        {
+          name: '浜松',
+          lat: 34.7,
+          lng: 137.73,
+          lines: ['東海道本線', '遠州鉄道'],
+          totalDistance: 104,
+          maxDistance: 60,
+          spread: 20,
+          excess: 0.04,
+        },
+      ],
+      region: [],
+    }
+    const names = () =>
+      screen.getAllByTestId('near-optimal-row').map((row) => within(row).getAllByRole('button')[0])
+
+    it('should rank the shortlist by total distance with each figure', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} nearOptimal={SHORTLIST} />)
+      const rows = screen.getAllByTestId('near-optimal-row')
+      expect(rows[0]).toHaveTextContent('1静岡100.0 km80.0 km60.0 km1')
+      expect(rows[1]).toHaveTextContent('2浜松104.0 km +4.0%60.0 km20.0 km2')
+    })
+
+    it('should sort by another column and keep the rank by total', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} nearOptimal={SHORTLIST} />)
+      fireEvent.click(screen.getByRole('button', { name: '差' }))
+      expect(names().map((b) => b.textContent)).toEqual(['浜松', '静岡'])
+      expect(screen.getAllByTestId('near-optimal-row')[0]).toHaveTextContent(/^2浜松/)
+
+      fireEvent.click(screen.getByRole('button', { name: '路線' }))
+      expect(names().map((b) => b.textContent)).toEqual(['浜松', '静岡'])
+      fireEvent.click(screen.getByRole('button', { name: /合計/ }))
+      expect(names().map((b) => b.textContent)).toEqual(['静岡', '浜松'])
+    })
+
+    it('should focus the map on a station and change the tolerance', () => {
+      const onFocusMap = vi.fn()
+      const onToleranceChange = vi.fn()
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          nearOptimal={SHORTLIST}
+          onFocusMap={onFocusMap}
+          onNearOptimalToleranceChange={onToleranceChange}
+        />
+      )
+      fireEvent.click(screen.getByLabelText('浜松を地図で表示'))
+      expect(onFocusMap).toHaveBeenCalledWith({ lat: 34.7, lng: 137.73 })
+      fireEvent.change(screen.getByLabelText('許容範囲'), { target: { value: '0.2' } })
+      expect(onToleranceChange).toHaveBeenCalledWith(0.2)
+    })
+  })
+
+  describe('weighted locations', () => {
+    const WEIGHTED: Location[] = [{ ...LOCATIONS[0], weight: 3 }, LOCATIONS[1]]
+    const WEIGHTED_RESULT: MeetingPointResult = {
+      centroid: { lat: 35.0, lng: 137.0 },
+      geometricMedian: { lat: 35.0, lng: 137.0 },
+      locations: WEIGHTED,
+    }
+
+    it('should show a weight badge only for non-default weights', () => {
+      render(<ResultCard locations={WEIGHTED} result={WEIGHTED_RESULT} />)
+      expect(screen.getByText('×3')).toBeInTheDocument()
+      expect(screen.queryByText('×1')).not.toBeInTheDocument()
+    })
+
+    it('should show weighted totals for C and M', () => {
+      render(<ResultCard locations={WEIGHTED} result={WEIGHTED_RESULT} />)
+      const expected =
+        3 * haversineDistance(WEIGHTED_RESULT.centroid, WEIGHTED[0].latlng) +
+        haversineDistance(WEIGHTED_RESULT.centroid, WEIGHTED[1].latlng)
+      // C and M coincide in this fixture, so the same weighted total appears twice
+      expect(screen.getAllByText(`${expected.toFixed(1)} km`)).toHaveLength(2)
+    })
+  })
+
   describe('copy URL button', () => {
     it('should not show copy button when onCopyUrl is not provided', () => {
       render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
@@ -876,4 +1803,130 @@ describe('ResultCard', () => {
       expect(handleFocus).not.toHaveBeenCalled()
     })
   })
+  describe('balanced station', () => {
+    const BALANCED: BalancedStationResult = {
+      station: { id: 7, name: '米原', line_name: null, operator: null, lat: 35.31, lng: 136.29 },
+      distances: [310, 300, 60],
+      spread: 250,
+      totalDistance: 670,
+      excess: 0.08,
+      cap: 0.1,
+      corridor: false,
+    }
+
+    it('should show the station with each distance next to the distance to ★', () => {
+      const handleFocus = vi.fn()
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          balancedStation={BALANCED}
+          onFocusMap={handleFocus}
+          suggestedStation={{
+            station: {
+              id: 1,
+              name: '名古屋',
+              line_name: null,
+              operator: null,
+              lat: 35.17,
+              lng: 136.88,
+            },
+            totalDistance: 620,
+            score: 620,
+            objective: 'sum',
+            candidatesEvaluated: 10,
+          }}
+        />
+      )
+      const box = screen.getByTestId('balanced-station')
+      expect(within(box).getByText('（合計 +10% まで）')).toBeInTheDocument()
+      expect(within(box).getByText('250.0 km')).toBeInTheDocument()
+
+      const table = within(box).getByTestId('balanced-distances')
+      expect(
+        within(table)
+          .getAllByRole('columnheader')
+          .map((th) => th.textContent)
+      ).toEqual(['', '★まで', '⚖まで'])
+      const rows = within(table).getAllByRole('row').slice(1)
+      expect(rows).toHaveLength(LOCATIONS.length)
+      expect(within(rows[0]).getByText('1. 東京')).toBeInTheDocument()
+      expect(within(rows[0]).getByText('310.0 km')).toBeInTheDocument()
+
+      fireEvent.click(within(box).getByLabelText('米原を地図で表示'))
+      expect(handleFocus).toHaveBeenCalledWith(BALANCED.station)
+
+      const header = within(screen.getByTestId('fairness-table')).getAllByRole('columnheader')
+      expect(header.map((th) => th.textContent)).toContain('→ ⚖')
+    })
+
+    it('should ignore a station computed for other participants', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          balancedStation={{ ...BALANCED, distances: [310, 300] }}
+        />
+      )
+      expect(screen.queryByTestId('balanced-station')).not.toBeInTheDocument()
+    })
+  })
+  describe('timetable ranking', () => {
+    const CANDIDATES: TimetableCandidate[] = [
+      {
+        station: { id: 5, name: '米原', line_name: null, operator: null, lat: 35.31, lng: 136.29 },
+        minutes: [130, 75, 40],
+        score: 245,
+      },
+    ]
+
+    it('should ask for a departure time before ranking', () => {
+      const handleChange = vi.fn()
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          onTimetableDepartureChange={handleChange}
+        />
+      )
+      expect(screen.getByTestId('timetable-ranking')).toBeInTheDocument()
+      expect(screen.queryByTestId('timetable-row')).not.toBeInTheDocument()
+      fireEvent.change(screen.getByLabelText('出発時刻'), { target: { value: '08:15' } })
+      expect(handleChange).toHaveBeenCalledWith(495)
+    })
+
+    it('should list the ranked stations with everyone’s journey time', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          timetableCandidates={CANDIDATES}
+          timetableDeparture={495}
+          onTimetableDepartureChange={vi.fn()}
+        />
+      )
+      const [row] = screen.getAllByTestId('timetable-row')
+      expect(within(row).getByText('約4時間5分')).toBeInTheDocument()
+      expect(within(row).getByText('約2時間10分')).toBeInTheDocument()
+      expect(within(row).getByText('東京 130分・大阪 75分・名古屋 40分')).toBeInTheDocument()
+    })
+
+    it('should report a timetable that cannot be loaded', () => {
+      render(
+        <ResultCard
+          locations={LOCATIONS}
+          result={MOCK_RESULT}
+          timetableDeparture={495}
+          timetableError="Failed to load timetable: 404"
+          onTimetableDepartureChange={vi.fn()}
+        />
+      )
+      expect(screen.getByTestId('timetable-error')).toBeInTheDocument()
+    })
+
+    it('should not show without the departure callback', () => {
+      render(<ResultCard locations={LOCATIONS} result={MOCK_RESULT} />)
+      expect(screen.queryByTestId('timetable-ranking')).not.toBeInTheDocument()
+    })
+  })
 })
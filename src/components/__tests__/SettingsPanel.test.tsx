@@ -0,0 +1,154 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { DEFAULT_TRAVEL_PROFILES } from '@/lib/travelTime'
+import SettingsPanel from '../SettingsPanel'
+
+const DEFAULT_PROPS = {
+  geometryMode: 'planar',
+  onGeometryModeChange: vi.fn(),
+  objective: 'sum',
+  onObjectiveChange: vi.fn(),
+  distanceBasis: 'straight',
+  onDistanceBasisChange: vi.fn(),
+  preferDirect: false,
+  onPreferDirectChange: vi.fn(),
+  distanceMetric: 'haversine',
+  onDistanceMetricChange: vi.fn(),
+  clusterCount: 1,
+  onClusterCountChange: vi.fn(),
+  balancedCap: null,
+  onBalancedCapChange: vi.fn(),
+  travelProfiles: DEFAULT_TRAVEL_PROFILES,
+  onTravelProfilesChange: vi.fn(),
+} as const
+
+describe('SettingsPanel', () => {
+  it('should render the panel with the geometry select', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} />)
+    expect(screen.getByTestId('settings-panel')).toBeInTheDocument()
+    expect(screen.getByLabelText('計算方式')).toHaveValue('planar')
+  })
+
+  it('should reflect the controlled geometry mode', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} geometryMode="spherical" />)
+    expect(screen.getByLabelText('計算方式')).toHaveValue('spherical')
+  })
+
+  it('should call onGeometryModeChange with the selected mode', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onGeometryModeChange={handleChange} />)
+    fireEvent.change(screen.getByLabelText('計算方式'), { target: { value: 'spherical' } })
+    expect(handleChange).toHaveBeenCalledWith('spherical')
+  })
+  it('should reflect the controlled objective', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} objective="max" />)
+    expect(screen.getByLabelText('おすすめ駅の基準')).toHaveValue('max')
+  })
+
+  it('should call onObjectiveChange with the selected objective', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onObjectiveChange={handleChange} />)
+    fireEvent.change(screen.getByLabelText('おすすめ駅の基準'), { target: { value: 'stdDev' } })
+    expect(handleChange).toHaveBeenCalledWith('stdDev')
+  })
+
+  it('should offer all seven objectives', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} />)
+    const select = screen.getByLabelText('おすすめ駅の基準')
+    expect(select.querySelectorAll('option')).toHaveLength(7)
+  })
+
+  it('should update the speed of a travel mode', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onTravelProfilesChange={handleChange} />)
+    fireEvent.change(screen.getByLabelText('自転車の速度'), { target: { value: '12' } })
+    expect(handleChange).toHaveBeenCalledWith({
+      ...DEFAULT_TRAVEL_PROFILES,
+      bicycle: { speedKmh: 12, circuity: 1.3 },
+    })
+  })
+
+  it('should ignore a circuity below 1', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onTravelProfilesChange={handleChange} />)
+    fireEvent.change(screen.getByLabelText('車の迂回率'), { target: { value: '0.5' } })
+    expect(handleChange).not.toHaveBeenCalled()
+  })
+  it('should reflect the controlled distance basis', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} distanceBasis="rail" />)
+    expect(screen.getByLabelText('おすすめ駅の距離')).toHaveValue('rail')
+  })
+
+  it('should offer straight, rail and transfer bases', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} />)
+    const options = screen.getByLabelText('おすすめ駅の距離').querySelectorAll('option')
+    expect([...options].map((o) => o.value)).toEqual(['straight', 'rail', 'transfers'])
+  })
+
+  it('should disable the bases whose data is not deployed', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} unavailableBases={['rail']} />)
+    expect(
+      screen.getByRole('option', { name: '線路に沿った距離（徒歩＋乗車）（データ未配置）' })
+    ).toBeDisabled()
+    expect(screen.getByRole('option', { name: '直線距離' })).toBeEnabled()
+  })
+
+  it('should call onDistanceBasisChange with the selected basis', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onDistanceBasisChange={handleChange} />)
+    fireEvent.change(screen.getByLabelText('おすすめ駅の距離'), { target: { value: 'rail' } })
+    expect(handleChange).toHaveBeenCalledWith('rail')
+  })
+
+  it('should toggle the direct-line preference', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onPreferDirectChange={handleChange} />)
+    const checkbox = screen.getByLabelText('直通で行ける人が多い駅を優先')
+    expect(checkbox).not.toBeChecked()
+    fireEvent.click(checkbox)
+    expect(handleChange).toHaveBeenCalledWith(true)
+  })
+
+  it('should reflect the controlled distance metric', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} distanceMetric="vincenty" />)
+    expect(screen.getByLabelText('距離の測り方')).toHaveValue('vincenty')
+  })
+
+  it('should call onDistanceMetricChange with the selected metric', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onDistanceMetricChange={handleChange} />)
+    fireEvent.change(screen.getByLabelText('距離の測り方'), { target: { value: 'vincenty' } })
+    expect(handleChange).toHaveBeenCalledWith('vincenty')
+  })
+  it('should reflect the controlled cluster count', () => {
+    render(<SettingsPanel {...DEFAULT_PROPS} clusterCount="auto" />)
+    expect(screen.getByLabelText('集合場所の数')).toHaveValue('auto')
+  })
+
+  it('should call onClusterCountChange with a number or auto', () => {
+    const handleChange = vi.fn()
+    render(<SettingsPanel {...DEFAULT_PROPS} onClusterCountChange={handleChange} />)
+    const select = screen.getByLabelText('集合場所の数')
+    fireEvent.change(select, { target: { value: '3' } })
+    expect(handleChange).toHaveBeenLastCalledWith(3)
+    fireEvent.change(select, { target: { value: 'auto' } })
+    expect(handleChange).toHaveBeenLastCalledWith('auto')
+  })
+  it('should switch the balanced station on with a cap and off again', () => {
+    const handleChange = vi.fn()
+    const { rerender } = render(
+      <SettingsPanel {...DEFAULT_PROPS} onBalancedCapChange={handleChange} />
+    )
+    const select = screen.getByLabelText('距離の差が最小の駅')
+    expect(select).toHaveValue('')
+    fireEvent.change(select, { target: { value: '0.2' } })
+    expect(handleChange).toHaveBeenLastCalledWith(0.2)
+
+    rerender(
+      <SettingsPanel {...DEFAULT_PROPS} balancedCap={0.2} onBalancedCapChange={handleChange} />
+    )
+    expect(select).toHaveValue('0.2')
+    fireEvent.change(select, { target: { value: '' } })
+    expect(handleChange).toHaveBeenLastCalledWith(null)
+  })
+})
@@ -0,0 +1,30 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resetAssetProbes } from '@/lib/staticAssets'
+import { useAssetAvailability } from '../useAssetAvailability'
+
+describe('useAssetAvailability', () => {
+  beforeEach(() => resetAssetProbes())
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('should be null while checking, then report a deployed asset', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() =>
+        Promise.resolve(new Response(null, { headers: { 'content-type': 'application/json' } }))
+      )
+    )
+    const { result } = renderHook(() => useAssetAvailability('/rail-network.json'))
+    expect(result.current).toBeNull()
+    await waitFor(() => expect(result.current).toBe(true))
+  })
+
+  it('should report a missing asset', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response(null, { status: 404 })))
+    )
+    const { result } = renderHook(() => useAssetAvailability('/rail-network.json'))
+    await waitFor(() => expect(result.current).toBe(false))
+  })
+})
@@ -0,0 +1,53 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex } from '@/lib/stationData'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useBalancedStation } from '../useBalancedStation'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '西', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '中央', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.1 },
+  { id: 3, name: '東', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.2 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+// Every station on the segment has the same total, so only the middle one is balanced
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.0, lng: 139.1 },
+  geometricMedian: { lat: 35.0, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 } },
+  ],
+}
+
+describe('useBalancedStation', () => {
+  it('should stay idle without a result', () => {
+    const { result } = renderHook(() => useBalancedStation(null))
+    expect(result.current.station).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should find the station with equal distances for two participants', async () => {
+    const { result } = renderHook(() => useBalancedStation(RESULT, { cap: 0.1 }))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('中央')
+    expect(result.current.station?.corridor).toBe(true)
+    expect(result.current.station?.cap).toBe(0.1)
+  })
+
+  it('should surface an error when loading fails', async () => {
+    vi.mocked(loadStationIndex).mockRejectedValueOnce(new Error('Failed to load station data: 500'))
+    const { result } = renderHook(() => useBalancedStation(RESULT))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load station data: 500'))
+    expect(result.current.station).toBeNull()
+  })
+})
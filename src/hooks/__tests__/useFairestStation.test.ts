@@ -0,0 +1,33 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useFairestStation } from '../useFairestStation'
+
+const CANDIDATES: StationWithCoords[] = [
+  { id: 1, name: '西', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '中央', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.1 },
+]
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.0, lng: 139.1 },
+  geometricMedian: { lat: 35.0, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 } },
+  ],
+}
+
+describe('useFairestStation', () => {
+  it('should stay idle without a result or candidates', () => {
+    const { result } = renderHook(() => useFairestStation(null, CANDIDATES))
+    expect(result.current.station).toBeNull()
+    const empty = renderHook(() => useFairestStation(RESULT, []))
+    expect(empty.result.current.station).toBeNull()
+  })
+
+  it('should pick the candidate whose farthest participant is nearest', async () => {
+    const { result } = renderHook(() => useFairestStation(RESULT, CANDIDATES))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('中央')
+  })
+})
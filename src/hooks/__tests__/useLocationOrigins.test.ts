@@ -0,0 +1,76 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { loadStations } from '@/lib/stationData'
+import type { Location, StationWithCoords } from '@/types'
+import { useLocationOrigins } from '../useLocationOrigins'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 101, name: '東京', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.681, lng: 139.767 },
+  {
+    id: 102,
+    name: '東京',
+    line_name: '丸ノ内線',
+    operator: '東京メトロ',
+    lat: 35.681,
+    lng: 139.766,
+  },
+  {
+    id: 201,
+    name: '大阪',
+    line_name: '大阪環状線',
+    operator: 'JR西日本',
+    lat: 34.702,
+    lng: 135.496,
+  },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return { ...actual, loadStations: vi.fn(() => Promise.resolve(TEST_STATIONS)) }
+})
+
+const RESTORED: Location = {
+  id: 'a',
+  label: 'Aさん（東京）',
+  latlng: { lat: 35.681, lng: 139.767 },
+  origin: { stationIds: [101, 102], name: '', lines: [], lineKeys: [] },
+}
+const PICKED: Location = {
+  id: 'b',
+  label: '大阪',
+  latlng: { lat: 34.702, lng: 135.496 },
+  origin: {
+    stationIds: [201],
+    name: '大阪',
+    lines: ['大阪環状線'],
+    lineKeys: ['JR西日本::大阪環状線'],
+  },
+}
+
+describe('useLocationOrigins', () => {
+  it('should pass locations through when nothing needs resolving', () => {
+    const locations = [PICKED]
+    const { result } = renderHook(() => useLocationOrigins(locations))
+    expect(result.current.locations).toBe(locations)
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should fill in the name and lines of restored origins', async () => {
+    const { result } = renderHook(() => useLocationOrigins([RESTORED, PICKED]))
+    await waitFor(() => expect(result.current.locations[0].origin?.name).toBe('東京'))
+    expect(result.current.locations[0].origin).toEqual({
+      stationIds: [101, 102],
+      name: '東京',
+      lines: ['JR山手線', '丸ノ内線'],
+      lineKeys: ['JR東日本::JR山手線', '東京メトロ::丸ノ内線'],
+    })
+    expect(result.current.locations[1]).toBe(PICKED)
+  })
+
+  it('should keep the locations unresolved when the dataset fails to load', async () => {
+    vi.mocked(loadStations).mockRejectedValueOnce(new Error('Failed to load station data: 500'))
+    const { result } = renderHook(() => useLocationOrigins([RESTORED]))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load station data: 500'))
+    expect(result.current.locations[0].origin?.lines).toEqual([])
+  })
+})
@@ -46,6 +46,39 @@ describe('useLocationUrlSync', () => {
     expect(url).toContain(encodeURIComponent('大阪'))
   })
 
+  it('should include a non-default objective in the URL', () => {
+    renderHook(() => useLocationUrlSync([TOKYO], { objective: 'max' }))
+
+    const url = replaceStateSpy.mock.calls[0][2] as string
+    expect(url).toContain('objective=max')
+  })
+
+  it('should update URL when the objective changes', () => {
+    const { rerender } = renderHook(({ objective }) => useLocationUrlSync([TOKYO], { objective }), {
+      initialProps: { objective: 'sum' as const } as { objective: 'sum' | 'stdDev' },
+    })
+
+    rerender({ objective: 'stdDev' })
+
+    expect(replaceStateSpy).toHaveBeenCalledTimes(2)
+    expect(replaceStateSpy.mock.calls[1][2] as string).toContain('objective=stdDev')
+  })
+
+  it('should include the meeting time in the URL', () => {
+    renderHook(() => useLocationUrlSync([TOKYO], { meetingTime: 1110 }))
+
+    const url = replaceStateSpy.mock.calls[0][2] as string
+    expect(url).toContain('meet=18:30')
+  })
+
+  it('should include the destination in the URL', () => {
+    const destination = { label: '箱根', latlng: { lat: 35.2324, lng: 139.1069 } }
+    renderHook(() => useLocationUrlSync([TOKYO], { destination }))
+
+    const url = replaceStateSpy.mock.calls[0][2] as string
+    expect(url).toContain(`dest=${encodeURIComponent('箱根')},35.2324,139.1069`)
+  })
+
   it('should use replaceState not pushState', () => {
     const pushStateSpy = vi.spyOn(window.history, 'pushState')
     renderHook(() => useLocationUrlSync([TOKYO]))
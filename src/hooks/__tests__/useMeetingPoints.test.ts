@@ -0,0 +1,41 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import type { Location } from '@/types'
+import { useMeetingPoints } from '../useMeetingPoints'
+
+const LOCATIONS: Location[] = [
+  { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+  { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 } },
+  { id: 'c', label: 'C', latlng: { lat: 35.2, lng: 139.1 } },
+]
+
+describe('useMeetingPoints', () => {
+  it('should stay idle with fewer than two locations', () => {
+    const { result } = renderHook(() => useMeetingPoints(LOCATIONS.slice(0, 1)))
+    expect(result.current.result).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should solve the centroid, median and enclosing circle of the locations', async () => {
+    const { result } = renderHook(() => useMeetingPoints(LOCATIONS))
+    await waitFor(() => expect(result.current.result).not.toBeNull())
+    const solved = result.current.result
+    expect(solved?.locations).toBe(LOCATIONS)
+    expect(solved?.centroid.lat).toBeCloseTo(35.0667, 4)
+    expect(solved?.centroid.lng).toBeCloseTo(139.1, 6)
+    expect(solved?.medianReport?.converged).toBe(true)
+    expect(solved?.minimaxCircle?.radius).toBeGreaterThan(0)
+    expect(solved?.destination).toBeUndefined()
+  })
+
+  it('should pull the median toward a shared destination', async () => {
+    const destination = { label: '目的地', latlng: { lat: 36.0, lng: 139.1 } }
+    const { result } = renderHook(() => useMeetingPoints(LOCATIONS, { destination }))
+    await waitFor(() => expect(result.current.result?.destination).toBe(destination))
+    const plain = renderHook(() => useMeetingPoints(LOCATIONS))
+    await waitFor(() => expect(plain.result.current.result).not.toBeNull())
+    expect(result.current.result?.geometricMedian.lat).toBeGreaterThan(
+      plain.result.current.result?.geometricMedian.lat ?? Infinity
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex } from '@/lib/stationData'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useNearOptimalStations } from '../useNearOptimalStations'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '西', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '中央', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.1 },
+  { id: 3, name: '東', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.2 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.0, lng: 139.1 },
+  geometricMedian: { lat: 35.0, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.1 } },
+    { id: 'c', label: 'C', latlng: { lat: 35.0, lng: 139.2 } },
+  ],
+}
+
+describe('useNearOptimalStations', () => {
+  it('should stay idle without a result', () => {
+    const { result } = renderHook(() => useNearOptimalStations(null))
+    expect(result.current.shortlist).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should shortlist the stations within the tolerance', async () => {
+    const { result, rerender } = renderHook(
+      ({ tolerance }) => useNearOptimalStations(RESULT, { tolerance }),
+      { initialProps: { tolerance: 0.1 } }
+    )
+    await waitFor(() => expect(result.current.shortlist).not.toBeNull())
+    expect(result.current.shortlist?.stations.map((s) => s.name)).toEqual(['中央'])
+
+    // The end stations are 50% above the best here
+    rerender({ tolerance: 0.6 })
+    await waitFor(() => expect(result.current.shortlist?.tolerance).toBe(0.6))
+    expect(result.current.shortlist?.stations.map((s) => s.name)).toEqual(['中央', '西', '東'])
+  })
+
+  it('should surface an error when loading fails', async () => {
+    vi.mocked(loadStationIndex).mockRejectedValueOnce(new Error('Failed to load station data: 500'))
+    const { result } = renderHook(() => useNearOptimalStations(RESULT))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load station data: 500'))
+    expect(result.current.shortlist).toBeNull()
+  })
+})
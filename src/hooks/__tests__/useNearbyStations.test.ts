@@ -1,7 +1,8 @@
 import { renderHook, waitFor } from '@testing-library/react'
 import { describe, expect, it, vi } from 'vitest'
-import { loadStations } from '@/lib/stationData'
-import type { StationWithCoords } from '@/types'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex } from '@/lib/stationData'
+import type { DistanceMetric, StationWithCoords } from '@/types'
 import { useNearbyStations } from '../useNearbyStations'
 
 const TEST_STATIONS: StationWithCoords[] = [
@@ -12,12 +13,12 @@ const TEST_STATIONS: StationWithCoords[] = [
   { id: 5, name: '品川', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6284, lng: 139.7387 },
 ]
 
-// Mock the dataset loader; keep the real nearest-station implementation
+// Mock the dataset loader; keep the real spatial index implementation
 vi.mock('@/lib/stationData', async (importActual) => {
   const actual = await importActual<typeof import('@/lib/stationData')>()
   return {
     ...actual,
-    loadStations: vi.fn(() => Promise.resolve(TEST_STATIONS)),
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
   }
 })
 
@@ -70,6 +71,20 @@ describe('useNearbyStations', () => {
     }
   })
 
+  it('should recompute distances when the metric changes', async () => {
+    const point = { lat: 35.6812, lng: 139.7671 }
+    const { result, rerender } = renderHook(({ metric }) => useNearbyStations(point, 3, metric), {
+      initialProps: { metric: 'haversine' } as { metric: DistanceMetric },
+    })
+
+    await waitFor(() => expect(result.current.stations.length).toBeGreaterThan(1))
+    const spherical = result.current.stations[1].distance_meters
+
+    rerender({ metric: 'vincenty' })
+
+    await waitFor(() => expect(result.current.stations[1].distance_meters).not.toBe(spherical))
+  })
+
   it('should update results when coordinates change', async () => {
     const { result, rerender } = renderHook(({ point }) => useNearbyStations(point), {
       initialProps: {
@@ -87,7 +102,7 @@ describe('useNearbyStations', () => {
   })
 
   it('should surface an error when loading fails', async () => {
-    vi.mocked(loadStations).mockRejectedValueOnce(new Error('network down'))
+    vi.mocked(loadStationIndex).mockRejectedValueOnce(new Error('network down'))
 
     const { result } = renderHook(() => useNearbyStations({ lat: 35.6812, lng: 139.7671 }))
 
@@ -0,0 +1,80 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { loadRailGraph } from '@/lib/railNetwork'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useNetworkStation } from '../useNetworkStation'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '西岸', line_name: '本線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '湾奥', line_name: '本線', operator: 'テスト鉄道', lat: 35.1, lng: 139.1 },
+  { id: 3, name: '東岸', line_name: '本線', operator: 'テスト鉄道', lat: 35.0, lng: 139.2 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+vi.mock('@/lib/railNetwork', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/railNetwork')>()
+  return {
+    ...actual,
+    loadRailGraph: vi.fn(() =>
+      Promise.resolve(
+        actual.buildRailGraph({
+          tracks: [
+            [1, 2, 14000],
+            [2, 3, 14000],
+          ],
+          transfers: [],
+        })
+      )
+    ),
+  }
+})
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.033, lng: 139.1 },
+  geometricMedian: { lat: 35.05, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 } },
+    { id: 'c', label: 'C', latlng: { lat: 35.1, lng: 139.1 } },
+  ],
+}
+
+describe('useNetworkStation', () => {
+  it('should stay idle without a result', () => {
+    const { result } = renderHook(() => useNetworkStation(null))
+    expect(result.current.station).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should pick the station by rail distance with each journey', async () => {
+    const { result } = renderHook(() => useNetworkStation(RESULT))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('湾奥')
+    expect(result.current.station?.journeys).toHaveLength(3)
+    expect(result.current.station?.totalDistance).toBeCloseTo(28, 3)
+  })
+
+  it('should surface an error when the rail network is unavailable', async () => {
+    vi.mocked(loadRailGraph).mockRejectedValueOnce(new Error('Failed to load rail network: 404'))
+    const { result } = renderHook(() => useNetworkStation(RESULT))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load rail network: 404'))
+    expect(result.current.station).toBeNull()
+  })
+
+  it('should reset when disabled', async () => {
+    const { result, rerender } = renderHook(({ r }) => useNetworkStation(r), {
+      initialProps: { r: RESULT as MeetingPointResult | null },
+    })
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    rerender({ r: null })
+    expect(result.current.station).toBeNull()
+  })
+})
@@ -0,0 +1,67 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex } from '@/lib/stationData'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useSensitivity } from '../useSensitivity'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '西', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '中央', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.1 },
+  { id: 3, name: '東', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.2 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.0, lng: 139.1 },
+  geometricMedian: { lat: 35.0, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.1 } },
+    { id: 'c', label: 'C', latlng: { lat: 35.0, lng: 139.2 } },
+  ],
+}
+
+describe('useSensitivity', () => {
+  it('should stay idle without a result', () => {
+    const { result } = renderHook(() => useSensitivity(null))
+    expect(result.current.analysis).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should analyze each participant’s influence', async () => {
+    const { result } = renderHook(() => useSensitivity(RESULT))
+    await waitFor(() => expect(result.current.analysis).not.toBeNull())
+    const analysis = result.current.analysis
+    expect(analysis?.station?.name).toBe('中央')
+    expect(analysis?.influences).toHaveLength(3)
+    // Without the middle participant, the two ends tie and the median stays put
+    expect(analysis?.influences[1].medianShiftWithout).toBeCloseTo(0, 6)
+    expect(analysis?.influences[0].medianShiftWithout).toBeGreaterThan(1)
+  })
+
+  it('should prefer stations the participants reach directly, like the suggestion', async () => {
+    const stations = [...TEST_STATIONS, { ...TEST_STATIONS[0], id: 4, line_name: 'B線' }]
+    vi.mocked(loadStationIndex).mockResolvedValueOnce(buildStationIndex(stations))
+    const originLines = [['テスト鉄道::B線'], [], []]
+    const { result } = renderHook(() => useSensitivity(RESULT, { originLines }))
+    await waitFor(() => expect(result.current.analysis).not.toBeNull())
+    expect(result.current.analysis?.station?.name).toBe('西')
+    // Without the only participant riding B線, the plain optimum returns
+    expect(result.current.analysis?.influences[0].stationWithout?.name).toBe('中央')
+  })
+
+  it('should surface an error when loading fails', async () => {
+    vi.mocked(loadStationIndex).mockRejectedValueOnce(new Error('Failed to load station data: 500'))
+    const { result } = renderHook(() => useSensitivity(RESULT))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load station data: 500'))
+    expect(result.current.analysis).toBeNull()
+  })
+})
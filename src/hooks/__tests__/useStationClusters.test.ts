@@ -0,0 +1,76 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex } from '@/lib/stationData'
+import type { ClusterCount, Location, StationWithCoords } from '@/types'
+import { useStationClusters } from '../useStationClusters'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '東京', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6812, lng: 139.7671 },
+  {
+    id: 2,
+    name: '大阪',
+    line_name: 'JR大阪環状線',
+    operator: 'JR西日本',
+    lat: 34.7025,
+    lng: 135.4959,
+  },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+const LOCATIONS: Location[] = [
+  { id: 'a', label: '神田', latlng: { lat: 35.6918, lng: 139.7709 } },
+  { id: 'b', label: '有楽町', latlng: { lat: 35.675, lng: 139.763 } },
+  { id: 'c', label: '梅田', latlng: { lat: 34.705, lng: 135.498 } },
+  { id: 'd', label: '難波', latlng: { lat: 34.666, lng: 135.501 } },
+]
+
+describe('useStationClusters', () => {
+  it('should stay idle for a single meeting station', () => {
+    const { result } = renderHook(() => useStationClusters(LOCATIONS, 1))
+    expect(result.current.clustering).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should stay idle with fewer than two locations', () => {
+    const { result } = renderHook(() => useStationClusters(LOCATIONS.slice(0, 1), 2))
+    expect(result.current.clustering).toBeNull()
+  })
+
+  it('should cluster into the requested number of stations', async () => {
+    const { result } = renderHook(() => useStationClusters(LOCATIONS, 2))
+    await waitFor(() => expect(result.current.clustering?.clusters).toHaveLength(2))
+    const names = result.current.clustering?.clusters.map((c) => c.station.name)
+    expect(names).toEqual(['東京', '大阪'])
+  })
+
+  it('should choose the count automatically', async () => {
+    const { result } = renderHook(() => useStationClusters(LOCATIONS, 'auto'))
+    await waitFor(() => expect(result.current.clustering?.clusters).toHaveLength(2))
+  })
+
+  it('should reset when switching back to a single station', async () => {
+    const { result, rerender } = renderHook(({ count }) => useStationClusters(LOCATIONS, count), {
+      initialProps: { count: 2 as ClusterCount },
+    })
+    await waitFor(() => expect(result.current.clustering).not.toBeNull())
+
+    rerender({ count: 1 })
+
+    expect(result.current.clustering).toBeNull()
+  })
+
+  it('should surface an error when loading fails', async () => {
+    vi.mocked(loadStationIndex).mockRejectedValueOnce(new Error('Failed to load station data: 500'))
+    const { result } = renderHook(() => useStationClusters(LOCATIONS, 2))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load station data: 500'))
+    expect(result.current.clustering).toBeNull()
+  })
+})
@@ -0,0 +1,99 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex } from '@/lib/stationData'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useSuggestedStation } from '../useSuggestedStation'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '東京', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6812, lng: 139.7671 },
+  { id: 2, name: '神田', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6918, lng: 139.7709 },
+  {
+    id: 3,
+    name: '大阪',
+    line_name: 'JR大阪環状線',
+    operator: 'JR西日本',
+    lat: 34.7025,
+    lng: 135.4959,
+  },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.692, lng: 139.771 },
+  geometricMedian: { lat: 35.692, lng: 139.771 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.695, lng: 139.77 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.689, lng: 139.772 } },
+  ],
+}
+
+describe('useSuggestedStation', () => {
+  it('should stay idle without a result', () => {
+    const { result } = renderHook(() => useSuggestedStation(null))
+    expect(result.current.station).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should pick the best station from the whole dataset', async () => {
+    const { result } = renderHook(() => useSuggestedStation(RESULT))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('神田')
+    expect(result.current.station?.candidatesEvaluated).toBeGreaterThan(0)
+  })
+
+  it('should pass the objective through', async () => {
+    const { result } = renderHook(() => useSuggestedStation(RESULT, { objective: 'max' }))
+    await waitFor(() => expect(result.current.station?.objective).toBe('max'))
+  })
+
+  it('should prefer stations the participants reach directly', async () => {
+    const originLines = [['JR西日本::JR大阪環状線'], ['JR西日本::JR大阪環状線']]
+    const { result } = renderHook(() => useSuggestedStation(RESULT, { originLines }))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('大阪')
+  })
+
+  it('should fall back to the plain optimum without known origins', async () => {
+    const originLines: string[][] = [[], []]
+    const { result } = renderHook(() => useSuggestedStation(RESULT, { originLines }))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('神田')
+  })
+
+  it('should count the group’s onward trip to a destination', async () => {
+    const destination = { point: { lat: 35.6812, lng: 139.7671 }, weight: 2 }
+    const { result } = renderHook(() => useSuggestedStation(RESULT, { destination }))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('東京')
+  })
+
+  it('should assume the nearest of each participant’s alternative origins', async () => {
+    const withAlternatives: MeetingPointResult = {
+      ...RESULT,
+      geometricMedian: { lat: 34.7025, lng: 135.4959 },
+      locations: RESULT.locations.map((l) => ({
+        ...l,
+        alternatives: [{ label: '大阪支社', latlng: { lat: 34.703, lng: 135.496 } }],
+      })),
+    }
+    const { result } = renderHook(() => useSuggestedStation(withAlternatives))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('大阪')
+    expect(result.current.station?.assumedOrigins).toEqual([1, 1])
+  })
+
+  it('should surface an error when loading fails', async () => {
+    vi.mocked(loadStationIndex).mockRejectedValueOnce(new Error('Failed to load station data: 500'))
+    const { result } = renderHook(() => useSuggestedStation(RESULT))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load station data: 500'))
+    expect(result.current.station).toBeNull()
+  })
+})
@@ -0,0 +1,72 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadTimetableGraph } from '@/lib/timetable'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useTimetableStations } from '../useTimetableStations'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '西', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '中央', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.1 },
+  { id: 3, name: '東', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.2 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+// One train from each end to the middle, both leaving at 9:00 and arriving at 9:10
+vi.mock('@/lib/timetable', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/timetable')>()
+  return {
+    ...actual,
+    loadTimetableGraph: vi.fn(() =>
+      Promise.resolve(
+        actual.buildTimetableGraph({
+          connections: [
+            [1, 2, 32400, 33000, 0],
+            [3, 2, 32400, 33000, 1],
+          ],
+          transfers: [],
+        })
+      )
+    ),
+  }
+})
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.0, lng: 139.1 },
+  geometricMedian: { lat: 35.0, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 } },
+  ],
+}
+
+describe('useTimetableStations', () => {
+  it('should stay idle without a departure time', () => {
+    const { result } = renderHook(() => useTimetableStations(RESULT, { departure: null }))
+    expect(result.current.candidates).toEqual([])
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should rank the stations everyone reaches by scheduled journey time', async () => {
+    const { result } = renderHook(() => useTimetableStations(RESULT, { departure: 9 * 60 }))
+    await waitFor(() => expect(result.current.candidates).toHaveLength(1))
+    const [best] = result.current.candidates
+    expect(best.station.name).toBe('中央')
+    expect(best.minutes).toEqual([10, 10])
+    expect(best.score).toBe(20)
+  })
+
+  it('should surface an error when the timetable is missing', async () => {
+    vi.mocked(loadTimetableGraph).mockRejectedValueOnce(new Error('Failed to load timetable: 404'))
+    const { result } = renderHook(() => useTimetableStations(RESULT, { departure: 9 * 60 }))
+    await waitFor(() => expect(result.current.error).toBe('Failed to load timetable: 404'))
+    expect(result.current.candidates).toEqual([])
+  })
+})
@@ -0,0 +1,55 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import type { MeetingPointResult, StationWithCoords } from '@/types'
+import { useTransferStation } from '../useTransferStation'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '西', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.0 },
+  { id: 2, name: '中央', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.05 },
+  { id: 3, name: '中央', line_name: 'B線', operator: 'テスト鉄道', lat: 35.0, lng: 139.051 },
+  { id: 4, name: '東', line_name: 'B線', operator: 'テスト鉄道', lat: 35.0, lng: 139.2 },
+  { id: 5, name: '東口', line_name: 'A線', operator: 'テスト鉄道', lat: 35.0, lng: 139.12 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+const RESULT: MeetingPointResult = {
+  centroid: { lat: 35.0, lng: 139.1 },
+  geometricMedian: { lat: 35.0, lng: 139.1 },
+  locations: [
+    { id: 'a', label: 'A', latlng: { lat: 35.0, lng: 139.0 } },
+    { id: 'b', label: 'B', latlng: { lat: 35.0, lng: 139.2 } },
+  ],
+}
+
+describe('useTransferStation', () => {
+  it('should stay idle without a result', () => {
+    const { result } = renderHook(() => useTransferStation(null))
+    expect(result.current.station).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+  })
+
+  it('should pick the interchange over a closer single-line station', async () => {
+    const { result } = renderHook(() => useTransferStation(RESULT))
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    expect(result.current.station?.station.name).toBe('中央')
+    expect(result.current.station?.transfers).toEqual([0, 0])
+    expect(result.current.station?.lines).toEqual(['A線', 'B線'])
+  })
+
+  it('should reset when disabled', async () => {
+    const { result, rerender } = renderHook(({ r }) => useTransferStation(r), {
+      initialProps: { r: RESULT as MeetingPointResult | null },
+    })
+    await waitFor(() => expect(result.current.station).not.toBeNull())
+    rerender({ r: null })
+    expect(result.current.station).toBeNull()
+  })
+})
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react'
+import { isJsonAssetAvailable } from '@/lib/staticAssets'
+
+/**
+ * Custom hook to check whether an optional generated asset is deployed, so features that
+ * need it can be disabled instead of failing. Null while the check runs.
+ */
+export function useAssetAvailability(url: string): boolean | null {
+  const [available, setAvailable] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setAvailable(null)
+    isJsonAssetAvailable(url).then((found) => {
+      if (controller.signal.aborted) return
+      setAvailable(found)
+    })
+    return () => controller.abort()
+  }, [url])
+
+  return available
+}
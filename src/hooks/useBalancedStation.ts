@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type { BalancedStationResult, DistanceMetric, MeetingPointResult } from '@/types'
+
+interface UseBalancedStationResult {
+  station: BalancedStationResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseBalancedStationOptions {
+  /** Largest accepted total distance, as a fraction above the best station's (default: 0.2) */
+  cap?: number
+  /** Distance metric */
+  metric?: DistanceMetric
+}
+
+/**
+ * Custom hook to find the station where the participants' distances are most equal, among
+ * those whose total distance stays under a cap. Idle (null station) when `result` is null.
+ */
+export function useBalancedStation(
+  result: MeetingPointResult | null,
+  options?: UseBalancedStationOptions
+): UseBalancedStationResult {
+  const [station, setStation] = useState<BalancedStationResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const cap = options?.cap
+  const metric = options?.metric
+
+  useEffect(() => {
+    if (result === null) {
+      setStation(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'balancedStation',
+        {
+          participants: result.locations.map((l) => l.latlng),
+          options: { weights: locationWeights(result.locations), cap, metric },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setStation(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setStation(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, cap, metric])
+
+  return { station, isLoading, error }
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react'
+import { getStationService } from '@/lib/stationService'
+import type {
+  DistanceMetric,
+  MeetingPointResult,
+  MinimaxStationResult,
+  StationWithCoords,
+} from '@/types'
+
+interface UseFairestStationResult {
+  station: MinimaxStationResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * Custom hook to pick the station whose farthest participant is nearest (discrete minimax)
+ * among the candidates, e.g. the stations around the minimax point. Idle (null station) when
+ * `result` is null or there are no candidates.
+ */
+export function useFairestStation(
+  result: MeetingPointResult | null,
+  candidates: StationWithCoords[],
+  metric?: DistanceMetric
+): UseFairestStationResult {
+  const [station, setStation] = useState<MinimaxStationResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (result === null || candidates.length === 0) {
+      setStation(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'minimaxStation',
+        {
+          participants: result.locations.map((l) => l.latlng),
+          candidates,
+          options: { metric },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setStation(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setStation(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, candidates, metric])
+
+  return { station, isLoading, error }
+}
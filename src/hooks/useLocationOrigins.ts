@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useState } from 'react'
+import { getStationService } from '@/lib/stationService'
+import { stationOriginFromRows } from '@/lib/stations'
+import type { Location, StationWithCoords } from '@/types'
+
+interface UseLocationOriginsResult {
+  /** The locations, with restored origins filled in once their stations are loaded */
+  locations: Location[]
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * Custom hook to resolve station origins restored from a share URL, which carry only
+ * station ids, into their names and lines. Origins picked in the form are already complete
+ * and pass through unchanged; on error the locations are returned as they are.
+ */
+export function useLocationOrigins(locations: Location[]): UseLocationOriginsResult {
+  const [rows, setRows] = useState<StationWithCoords[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Use a primitive key to avoid refetching when unrelated location fields change
+  const pendingKey = locations
+    .flatMap((l) => (l.origin && l.origin.name === '' ? l.origin.stationIds : []))
+    .join(',')
+
+  useEffect(() => {
+    if (pendingKey === '') {
+      setRows([])
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run('stationsById', { ids: pendingKey.split(',').map(Number) }, controller.signal)
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setRows(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setRows([])
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [pendingKey])
+
+  const resolved = useMemo(() => {
+    if (rows.length === 0) return locations
+    const byId = new Map(rows.map((row) => [row.id, row]))
+    return locations.map((location) => {
+      const origin = location.origin
+      if (origin?.name !== '') return location
+      const found = origin.stationIds.flatMap((id) => byId.get(id) ?? [])
+      if (found.length === 0) return location
+      return {
+        ...location,
+        origin: { ...stationOriginFromRows(found), stationIds: origin.stationIds },
+      }
+    })
+  }, [locations, rows])
+
+  return { locations: resolved, isLoading, error }
+}
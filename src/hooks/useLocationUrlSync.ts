@@ -1,15 +1,20 @@
 import { useEffect } from 'react'
-import { serializeLocations } from '@/lib/urlState'
+import { type ShareOptions, serializeShareQuery } from '@/lib/urlState'
 import type { Location } from '@/types'
 
 /**
- * Sync locations to the browser URL using `history.replaceState`.
+ * Sync locations (and share settings such as the objective, meeting time and destination) to the browser URL
+ * using `history.replaceState`.
  * Uses `replaceState` instead of `pushState` to avoid polluting browser history.
  */
-export function useLocationUrlSync(locations: Location[]): void {
+export function useLocationUrlSync(locations: Location[], options?: ShareOptions): void {
+  const objective = options?.objective
+  const meetingTime = options?.meetingTime
+  const destination = options?.destination
+
   useEffect(() => {
-    const query = serializeLocations(locations)
+    const query = serializeShareQuery(locations, { objective, meetingTime, destination })
     const url = query ? `${window.location.pathname}?${query}` : window.location.pathname
     window.history.replaceState(null, '', url)
-  }, [locations])
+  }, [locations, objective, meetingTime, destination])
 }
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { DEFAULT_DESTINATION_WEIGHT, locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type {
+  Destination,
+  DistanceMetric,
+  GeometryMode,
+  Location,
+  MeetingPointResult,
+} from '@/types'
+
+interface UseMeetingPointsResult {
+  result: MeetingPointResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseMeetingPointsOptions {
+  /** Geometry of the centroid and the Weiszfeld update step */
+  mode?: GeometryMode
+  /** Distance metric */
+  metric?: DistanceMetric
+  /** Shared destination the group travels on to, pulling the median toward it */
+  destination?: Destination | null
+}
+
+/**
+ * Custom hook to compute the centroid, geometric median and smallest enclosing circle of the
+ * locations off the main thread. Idle (null result) with fewer than 2 locations; while a new
+ * calculation runs, the previous result stays.
+ */
+export function useMeetingPoints(
+  locations: Location[],
+  options?: UseMeetingPointsOptions
+): UseMeetingPointsResult {
+  const [result, setResult] = useState<MeetingPointResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const mode = options?.mode
+  const metric = options?.metric
+  const destination = options?.destination ?? null
+
+  useEffect(() => {
+    if (locations.length < 2) {
+      setResult(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'meetingPoints',
+        {
+          points: locations.map((l) => l.latlng),
+          options: {
+            weights: locationWeights(locations),
+            mode,
+            metric,
+            // With a shared destination, the median also accounts for the group's onward trip
+            ...(destination && {
+              destination: { point: destination.latlng, weight: DEFAULT_DESTINATION_WEIGHT },
+            }),
+          },
+        },
+        controller.signal
+      )
+      .then((points) => {
+        if (controller.signal.aborted) return
+        setResult({ ...points, locations, ...(destination && { destination }) })
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setResult(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [locations, mode, metric, destination])
+
+  return { result, isLoading, error }
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type { DistanceMetric, MeetingPointResult, NearOptimalShortlist } from '@/types'
+
+interface UseNearOptimalStationsResult {
+  shortlist: NearOptimalShortlist | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseNearOptimalStationsOptions {
+  /** Fraction above the best total distance still accepted (default: 0.1, i.e. +10%) */
+  tolerance?: number
+  /** Distance metric */
+  metric?: DistanceMetric
+}
+
+/**
+ * Custom hook to shortlist every station whose total distance is within a tolerance of the
+ * best station's, with the region where that holds. Idle (null shortlist) when `result` is
+ * null.
+ */
+export function useNearOptimalStations(
+  result: MeetingPointResult | null,
+  options?: UseNearOptimalStationsOptions
+): UseNearOptimalStationsResult {
+  const [shortlist, setShortlist] = useState<NearOptimalShortlist | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const tolerance = options?.tolerance
+  const metric = options?.metric
+
+  useEffect(() => {
+    if (result === null) {
+      setShortlist(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'nearOptimalStations',
+        {
+          participants: result.locations.map((l) => l.latlng),
+          options: { weights: locationWeights(result.locations), tolerance, metric },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setShortlist(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setShortlist(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, tolerance, metric])
+
+  return { shortlist, isLoading, error }
+}
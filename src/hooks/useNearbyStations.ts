@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react'
-import { findNearbyStations, loadStations } from '@/lib/stationData'
-import type { LatLng, NearbyStation } from '@/types'
+import { getStationService } from '@/lib/stationService'
+import type { DistanceMetric, LatLng, NearbyStation } from '@/types'
 
 const DEFAULT_LIMIT = 3
 
@@ -12,11 +12,13 @@ interface UseNearbyStationsResult {
 
 /**
  * Custom hook to find nearby stations for a given coordinate.
- * Computes distances locally from the static station dataset.
+ * Queries the spatial index over the static station dataset using `metric`, through the
+ * station service; moving the point cancels the previous query.
  */
 export function useNearbyStations(
   point: LatLng | null,
-  limit = DEFAULT_LIMIT
+  limit = DEFAULT_LIMIT,
+  metric?: DistanceMetric
 ): UseNearbyStationsResult {
   const [stations, setStations] = useState<NearbyStation[]>([])
   const [isLoading, setIsLoading] = useState(false)
@@ -34,30 +36,29 @@ export function useNearbyStations(
       return
     }
 
-    let cancelled = false
+    const controller = new AbortController()
     setIsLoading(true)
     setError(null)
 
-    loadStations()
-      .then((all) => {
-        if (cancelled) return
-        setStations(findNearbyStations({ lat, lng }, all, limit))
+    getStationService()
+      .run('nearby', { point: { lat, lng }, limit, metric }, controller.signal)
+      .then((nearby) => {
+        if (controller.signal.aborted) return
+        setStations(nearby)
       })
       .catch((err: unknown) => {
-        if (cancelled) return
+        if (controller.signal.aborted) return
         const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
         setError(message)
         setStations([])
       })
       .finally(() => {
-        if (cancelled) return
+        if (controller.signal.aborted) return
         setIsLoading(false)
       })
 
-    return () => {
-      cancelled = true
-    }
-  }, [lat, lng, limit])
+    return () => controller.abort()
+  }, [lat, lng, limit, metric])
 
   return { stations, isLoading, error }
 }
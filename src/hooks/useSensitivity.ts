@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type {
+  DestinationLeg,
+  DistanceMetric,
+  GeometryMode,
+  MeetingPointResult,
+  ObjectiveKind,
+  SensitivityAnalysis,
+} from '@/types'
+
+interface UseSensitivityResult {
+  analysis: SensitivityAnalysis | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseSensitivityOptions {
+  /** Objective of the suggested station */
+  objective?: ObjectiveKind
+  /** Distance metric */
+  metric?: DistanceMetric
+  /** Geometry of the centroid and the median */
+  mode?: GeometryMode
+  /** Per-participant minutes per km, for the time objectives */
+  scales?: number[] | null
+  /** Onward trip the group makes together after meeting */
+  destination?: DestinationLeg | null
+  /**
+   * Each participant's origin line keys, when the suggested station prefers direct rides;
+   * the analysis then searches its stations the same way
+   */
+  originLines?: string[][] | null
+}
+
+/**
+ * Custom hook to analyze how much each participant moves the meeting points: C, M and the
+ * straight-line suggested station (preferring direct rides with `originLines`) recomputed
+ * without each participant and with their weight doubled. Idle (null analysis) when `result` is null; pass null to disable the analysis.
+ */
+export function useSensitivity(
+  result: MeetingPointResult | null,
+  options?: UseSensitivityOptions
+): UseSensitivityResult {
+  const [analysis, setAnalysis] = useState<SensitivityAnalysis | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const objective = options?.objective
+  const metric = options?.metric
+  const mode = options?.mode
+  const scales = options?.scales ?? undefined
+  const destination = options?.destination ?? undefined
+  const originLines = options?.originLines ?? null
+
+  useEffect(() => {
+    if (result === null) {
+      setAnalysis(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    const alternatives = result.locations.some((l) => l.alternatives?.length)
+      ? result.locations.map((l) => (l.alternatives ?? []).map((a) => a.latlng))
+      : undefined
+    getStationService()
+      .run(
+        'sensitivity',
+        {
+          participants: result.locations.map((l) => l.latlng),
+          originLines,
+          options: {
+            weights: locationWeights(result.locations),
+            objective,
+            metric,
+            mode,
+            scales,
+            destination,
+            alternatives,
+          },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setAnalysis(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setAnalysis(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, objective, metric, mode, scales, destination, originLines])
+
+  return { analysis, isLoading, error }
+}
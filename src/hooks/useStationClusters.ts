@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type {
+  ClusterCount,
+  DistanceMetric,
+  GeometryMode,
+  Location,
+  StationClustering,
+} from '@/types'
+
+interface UseStationClustersResult {
+  clustering: StationClustering | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseStationClustersOptions {
+  /** Geometry used for each group's geometric median */
+  mode?: GeometryMode
+  /** Distance metric */
+  metric?: DistanceMetric
+}
+
+/**
+ * Custom hook to split participants into several meeting stations (k-median).
+ * Idle (null clustering) when `count` is 1 or fewer than two locations are given.
+ */
+export function useStationClusters(
+  locations: Location[],
+  count: ClusterCount,
+  options?: UseStationClustersOptions
+): UseStationClustersResult {
+  const [clustering, setClustering] = useState<StationClustering | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const mode = options?.mode
+  const metric = options?.metric
+
+  useEffect(() => {
+    if (count === 1 || locations.length < 2) {
+      setClustering(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'clusters',
+        {
+          points: locations.map((l) => l.latlng),
+          count,
+          options: { weights: locationWeights(locations), mode, metric },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setClustering(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setClustering(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [locations, count, mode, metric])
+
+  return { clustering, isLoading, error }
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react'
-import { loadStations, searchStations } from '@/lib/stationData'
+import { getStationService } from '@/lib/stationService'
 import type { StationWithCoords } from '@/types'
 
 interface UseStationSearchOptions {
@@ -14,7 +14,8 @@ interface UseStationSearchResult {
 
 /**
  * Custom hook for station search with debounce.
- * Searches locally against the static station dataset.
+ * Searches the static station dataset through the station service (off the main thread
+ * when workers are available); a newer query cancels the previous one.
  */
 export function useStationSearch(
   query: string,
@@ -44,29 +45,28 @@ export function useStationSearch(
       return
     }
 
-    let cancelled = false
+    const controller = new AbortController()
     setIsLoading(true)
     setError(null)
 
-    loadStations()
-      .then((all) => {
-        if (cancelled) return
-        setStations(searchStations(debouncedQuery, all))
+    getStationService()
+      .run('search', { query: debouncedQuery }, controller.signal)
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setStations(found)
       })
       .catch((err: unknown) => {
-        if (cancelled) return
+        if (controller.signal.aborted) return
         const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
         setError(message)
         setStations([])
       })
       .finally(() => {
-        if (cancelled) return
+        if (controller.signal.aborted) return
         setIsLoading(false)
       })
 
-    return () => {
-      cancelled = true
-    }
+    return () => controller.abort()
   }, [debouncedQuery])
 
   return { stations, isLoading, error }
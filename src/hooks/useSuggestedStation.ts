@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type {
+  DestinationLeg,
+  DistanceMetric,
+  KMedoidResult,
+  MeetingPointResult,
+  ObjectiveKind,
+} from '@/types'
+
+interface UseSuggestedStationResult {
+  station: KMedoidResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseSuggestedStationOptions {
+  /** Objective minimized by the suggestion */
+  objective?: ObjectiveKind
+  /** Distance metric */
+  metric?: DistanceMetric
+  /**
+   * Each participant's origin line keys (`lineKey`): when given, stations directly reachable by the most
+   * participants are preferred over the plain optimum
+   */
+  originLines?: string[][] | null
+  /** Per-participant minutes per km, for the time objectives */
+  scales?: number[] | null
+  /** Onward trip the group makes together after meeting, added to every station's score */
+  destination?: DestinationLeg | null
+}
+
+/**
+ * Custom hook to find the globally optimal (K-medoid) station over the whole dataset,
+ * searching outward from the geometric median of the calculation result.
+ * With `originLines`, the optimum is taken among the stations most participants reach directly.
+ * Participants with alternative origins are assumed to set off from the one nearest each station.
+ */
+export function useSuggestedStation(
+  result: MeetingPointResult | null,
+  options?: UseSuggestedStationOptions
+): UseSuggestedStationResult {
+  const [station, setStation] = useState<KMedoidResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const objective = options?.objective
+  const metric = options?.metric
+  const originLines = options?.originLines ?? null
+  const scales = options?.scales ?? undefined
+  const destination = options?.destination ?? undefined
+
+  useEffect(() => {
+    if (result === null) {
+      setStation(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    const participants = result.locations.map((l) => l.latlng)
+    // Each station assumes whichever origin of a participant is nearest
+    const alternatives = result.locations.some((l) => l.alternatives?.length)
+      ? result.locations.map((l) => (l.alternatives ?? []).map((a) => a.latlng))
+      : undefined
+    const searchOptions = {
+      weights: locationWeights(result.locations),
+      objective,
+      metric,
+      anchor: result.geometricMedian,
+      scales,
+      destination,
+      alternatives,
+    }
+    const service = getStationService()
+    const search = originLines
+      ? service.run(
+          'directStation',
+          { participants, originLines, options: searchOptions },
+          controller.signal
+        )
+      : service.run('optimalStation', { participants, options: searchOptions }, controller.signal)
+
+    search
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setStation(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setStation(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, objective, metric, originLines, scales, destination])
+
+  return { station, isLoading, error }
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type { TimetableCandidate } from '@/lib/timetable'
+import type { DistanceMetric, MeetingPointResult, ObjectiveKind } from '@/types'
+
+interface UseTimetableStationsResult {
+  candidates: TimetableCandidate[]
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseTimetableStationsOptions {
+  /** Departure time in minutes after midnight; the search stays idle while null */
+  departure?: number | null
+  /** Objective over the scheduled journey minutes */
+  objective?: ObjectiveKind
+  /** Distance metric for the walking legs */
+  metric?: DistanceMetric
+}
+
+/**
+ * Custom hook to rank meeting stations by scheduled journey time from the timetable, with
+ * everyone leaving at `departure`. Idle (no candidates) when `result` or `departure` is null;
+ * pass null to disable the search.
+ */
+export function useTimetableStations(
+  result: MeetingPointResult | null,
+  options?: UseTimetableStationsOptions
+): UseTimetableStationsResult {
+  const [candidates, setCandidates] = useState<TimetableCandidate[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const departure = options?.departure ?? null
+  const objective = options?.objective
+  const metric = options?.metric
+
+  useEffect(() => {
+    if (result === null || departure === null) {
+      setCandidates([])
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'timetableStations',
+        {
+          participants: result.locations.map((l) => l.latlng),
+          options: {
+            departure: departure * 60,
+            weights: locationWeights(result.locations),
+            objective,
+            metric,
+          },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setCandidates(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setCandidates([])
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, departure, objective, metric])
+
+  return { candidates, isLoading, error }
+}
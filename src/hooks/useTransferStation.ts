@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react'
+import { locationWeights } from '@/lib/geo'
+import { getStationService } from '@/lib/stationService'
+import type {
+  DistanceMetric,
+  MeetingPointResult,
+  ObjectiveKind,
+  TransferStationResult,
+} from '@/types'
+
+interface UseTransferStationResult {
+  station: TransferStationResult | null
+  isLoading: boolean
+  error: string | null
+}
+
+interface UseTransferStationOptions {
+  /** Distance objective breaking ties between equal transfer counts */
+  objective?: ObjectiveKind
+  /** Distance metric */
+  metric?: DistanceMetric
+}
+
+/**
+ * Custom hook to find the meeting station needing the fewest changes of trains.
+ * Idle (null station) when `result` is null; pass null to disable the search.
+ */
+export function useTransferStation(
+  result: MeetingPointResult | null,
+  options?: UseTransferStationOptions
+): UseTransferStationResult {
+  const [station, setStation] = useState<TransferStationResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const objective = options?.objective
+  const metric = options?.metric
+
+  useEffect(() => {
+    if (result === null) {
+      setStation(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    getStationService()
+      .run(
+        'transferStation',
+        {
+          participants: result.locations.map((l) => l.latlng),
+          options: { weights: locationWeights(result.locations), objective, metric },
+        },
+        controller.signal
+      )
+      .then((found) => {
+        if (controller.signal.aborted) return
+        setStation(found)
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return
+        const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+        setError(message)
+        setStation(null)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [result, objective, metric])
+
+  return { station, isLoading, error }
+}
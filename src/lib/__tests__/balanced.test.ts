@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import type { LatLng, StationWithCoords } from '@/types'
+import { corridorStations, selectBalancedStation } from '../balanced'
+import { fromECEF, projectToSphere, toECEF } from '../ecef'
+import { buildStationIndex } from '../spatialIndex'
+
+function station(id: number, name: string, lat: number, lng: number): StationWithCoords {
+  return { id, name, line_name: null, operator: null, lat, lng }
+}
+
+// Two participants 0.2° apart; every point on the segment between them is optimal
+const WEST: LatLng = { lat: 35.0, lng: 139.0 }
+const EAST: LatLng = { lat: 35.0, lng: 139.2 }
+
+const INDEX = buildStationIndex([
+  // Optimal, but much closer to the west
+  station(1, '西寄り', 35.0, 139.02),
+  // Equidistant, about 3% above the best total
+  station(2, '中間の北', 35.02, 139.1),
+  // Equidistant, about 58% above it
+  station(3, '遠く', 35.1, 139.1),
+])
+
+describe('selectBalancedStation', () => {
+  it('should pick the equidistant station within the cap for two participants', () => {
+    const balanced = selectBalancedStation([WEST, EAST], INDEX, { cap: 0.1 })
+    expect(balanced?.station.name).toBe('中間の北')
+    expect(balanced?.corridor).toBe(true)
+    expect(balanced?.spread).toBeCloseTo(0, 5)
+    expect(balanced?.distances[0]).toBeCloseTo(balanced?.distances[1] ?? 0, 5)
+    expect(balanced?.excess).toBeGreaterThan(0)
+    expect(balanced?.excess).toBeLessThanOrEqual(0.1)
+  })
+
+  it('should keep to the cap on the total distance', () => {
+    const balanced = selectBalancedStation([WEST, EAST], INDEX, { cap: 0 })
+    expect(balanced?.station.name).toBe('西寄り')
+    expect(balanced?.excess).toBeCloseTo(0, 5)
+  })
+
+  it('should balance the distances of larger groups around the median', () => {
+    const participants = [WEST, { lat: 35.0, lng: 139.1 }, EAST]
+    const index = buildStationIndex([
+      station(1, '中央', 35.0, 139.1),
+      // About 48% above the best total, with a much smaller spread
+      station(2, '北', 35.05, 139.1),
+    ])
+    expect(selectBalancedStation(participants, index, { cap: 0.1 })?.station.name).toBe('中央')
+
+    const balanced = selectBalancedStation(participants, index, { cap: 0.5 })
+    expect(balanced?.station.name).toBe('北')
+    expect(balanced?.corridor).toBe(false)
+    expect(balanced?.distances).toHaveLength(3)
+  })
+
+  it('should return null without participants or stations', () => {
+    expect(selectBalancedStation([], INDEX)).toBeNull()
+    expect(selectBalancedStation([WEST, EAST], buildStationIndex([]))).toBeNull()
+  })
+
+  it('should reject a negative cap', () => {
+    expect(() => selectBalancedStation([WEST, EAST], INDEX, { cap: -0.1 })).toThrow(
+      'Total distance cap must not be negative, got -0.1'
+    )
+  })
+})
+
+describe('corridorStations', () => {
+  it('should find stations along the whole great-circle segment but not beside it', () => {
+    // About 180 km apart, searched 2 km either side
+    const a = { lat: 35.0, lng: 139.0 }
+    const b = { lat: 35.0, lng: 141.0 }
+    const index = buildStationIndex([
+      station(1, '始点', 35.0, 139.0),
+      station(2, '途中', 35.005, 140.3),
+      station(3, '終点', 35.0, 141.0),
+      station(4, '離れた', 35.2, 140.0),
+    ])
+    const found = corridorStations(a, b, 2, index).map((s) => s.name)
+    expect(found.sort()).toEqual(['始点', '終点', '途中'].sort())
+  })
+  it('should leave no gaps in a long, narrow corridor', () => {
+    // About 360 km searched 0.5 km either side, so the samples must be under 1 km apart
+    const a = { lat: 35.0, lng: 139.0 }
+    const b = { lat: 35.0, lng: 143.0 }
+    const start = toECEF(a)
+    const end = toECEF(b)
+    const along = (t: number) =>
+      fromECEF(
+        projectToSphere({
+          x: start.x + t * (end.x - start.x),
+          y: start.y + t * (end.y - start.y),
+          z: start.z + t * (end.z - start.z),
+        })
+      )
+    // Stations on the segment at every 1/37 of the way, out of step with any round sample count
+    const stations = Array.from({ length: 36 }, (_, k) => {
+      const { lat, lng } = along((k + 0.5) / 37)
+      return station(k, `駅${k}`, lat, lng)
+    })
+    expect(corridorStations(a, b, 0.5, buildStationIndex(stations))).toHaveLength(36)
+  })
+})
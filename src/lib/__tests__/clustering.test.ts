@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { LatLng, StationWithCoords } from '@/types'
+import { autoKMedianClusters, kMedianClusters, MAX_CLUSTER_COUNT } from '../clustering'
+import { haversineDistance } from '../haversine'
+import { buildStationIndex } from '../spatialIndex'
+
+function station(id: number, name: string, lat: number, lng: number): StationWithCoords {
+  return { id, name, line_name: null, operator: null, lat, lng }
+}
+
+const STATION_LIST: StationWithCoords[] = [
+  station(1, '東京', 35.6812, 139.7671),
+  station(2, '新宿', 35.6896, 139.7006),
+  station(3, '大阪', 34.7025, 135.4959),
+  station(4, '京都', 34.9858, 135.7588),
+  station(5, '名古屋', 35.1709, 136.8815),
+  station(6, '札幌', 43.0687, 141.3508),
+]
+const STATIONS = buildStationIndex(STATION_LIST)
+
+// Three participants around Tokyo and three around Osaka/Kyoto
+const EAST: LatLng[] = [
+  { lat: 35.69, lng: 139.7 },
+  { lat: 35.68, lng: 139.77 },
+  { lat: 35.66, lng: 139.73 },
+]
+const WEST: LatLng[] = [
+  { lat: 34.7, lng: 135.5 },
+  { lat: 34.98, lng: 135.76 },
+  { lat: 34.69, lng: 135.19 },
+]
+const PARTICIPANTS = [...EAST, ...WEST]
+
+describe('kMedianClusters', () => {
+  it('should split east and west groups into two meeting stations', () => {
+    const result = kMedianClusters(PARTICIPANTS, STATIONS, 2)
+    expect(result?.clusters).toHaveLength(2)
+    const [east, west] = result?.clusters ?? []
+    expect(east.memberIndices).toEqual([0, 1, 2])
+    expect(west.memberIndices).toEqual([3, 4, 5])
+    expect(['東京', '新宿']).toContain(east.station.name)
+    expect(['大阪', '京都']).toContain(west.station.name)
+  })
+
+  it('should report per-cluster and overall weighted totals', () => {
+    const weights = [1, 1, 1, 2, 1, 1]
+    const result = kMedianClusters(PARTICIPANTS, STATIONS, 2, { weights })
+    for (const cluster of result?.clusters ?? []) {
+      const expected = cluster.memberIndices.reduce(
+        (sum, i) => sum + weights[i] * haversineDistance(PARTICIPANTS[i], cluster.station),
+        0
+      )
+      expect(cluster.totalDistance).toBeCloseTo(expected, 9)
+    }
+    const sum = (result?.clusters ?? []).reduce((acc, c) => acc + c.totalDistance, 0)
+    expect(result?.totalDistance).toBeCloseTo(sum, 9)
+  })
+
+  it('should beat a single meeting station on total distance', () => {
+    const one = kMedianClusters(PARTICIPANTS, STATIONS, 1)
+    const two = kMedianClusters(PARTICIPANTS, STATIONS, 2)
+    expect(one?.clusters).toHaveLength(1)
+    expect(two?.totalDistance).toBeLessThan((one?.totalDistance ?? 0) / 5)
+  })
+
+  it('should assign every participant to its nearest meeting station', () => {
+    const result = kMedianClusters(PARTICIPANTS, STATIONS, 3)
+    const clusters = result?.clusters ?? []
+    clusters.forEach((cluster) => {
+      for (const i of cluster.memberIndices) {
+        const own = haversineDistance(PARTICIPANTS[i], cluster.station)
+        for (const other of clusters) {
+          expect(own).toBeLessThanOrEqual(haversineDistance(PARTICIPANTS[i], other.station))
+        }
+      }
+    })
+    const members = clusters.flatMap((c) => c.memberIndices).sort((a, b) => a - b)
+    expect(members).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('should never return more clusters than participants', () => {
+    const result = kMedianClusters(EAST.slice(0, 2), STATIONS, 4)
+    expect(result?.clusters.length).toBeLessThanOrEqual(2)
+  })
+
+  it('should return null for empty participants or stations', () => {
+    expect(kMedianClusters([], STATIONS, 2)).toBeNull()
+    expect(kMedianClusters(PARTICIPANTS, buildStationIndex([]), 2)).toBeNull()
+  })
+
+  it('should throw for a non-positive or fractional count', () => {
+    expect(() => kMedianClusters(PARTICIPANTS, STATIONS, 0)).toThrow()
+    expect(() => kMedianClusters(PARTICIPANTS, STATIONS, 1.5)).toThrow()
+  })
+})
+
+describe('autoKMedianClusters', () => {
+  it('should choose two stations for clearly separated groups', () => {
+    const result = autoKMedianClusters(PARTICIPANTS, STATIONS)
+    expect(result?.clusters).toHaveLength(2)
+  })
+
+  it('should keep a single station for one compact group', () => {
+    const result = autoKMedianClusters(EAST, STATIONS)
+    expect(result?.clusters).toHaveLength(1)
+  })
+
+  it('should stay within the maximum count', () => {
+    const spread: LatLng[] = STATION_LIST.flatMap((s) => [
+      { lat: s.lat + 0.01, lng: s.lng },
+      { lat: s.lat - 0.01, lng: s.lng },
+    ])
+    const result = autoKMedianClusters(spread, STATIONS)
+    expect(result?.clusters.length).toBeLessThanOrEqual(MAX_CLUSTER_COUNT)
+  })
+})
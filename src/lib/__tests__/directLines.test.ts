@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import type { Location, NearbyStation, StationWithCoords } from '@/types'
+import { findDirectConnection, selectDirectStation, sortByDirectReach } from '../directLines'
+import { buildStationIndex } from '../spatialIndex'
+
+// Origins on lines without an operator, keyed like the rows below
+const participant = (label: string, lines?: string[]): Location => ({
+  id: label,
+  label,
+  latlng: { lat: 35.68, lng: 139.76 },
+  ...(lines && {
+    origin: { stationIds: [1], name: label, lines, lineKeys: lines.map((line) => `::${line}`) },
+  }),
+})
+
+const row = (id: number, name: string, line: string, distance: number): NearbyStation => ({
+  id,
+  name,
+  line_name: line,
+  operator: null,
+  lat: 35.69,
+  lng: 139.7,
+  distance_meters: distance,
+})
+
+describe('findDirectConnection', () => {
+  const locations = [
+    participant('A', ['JR山手線', '丸ノ内線']),
+    participant('B', ['京王線']),
+    participant('C'),
+  ]
+
+  it('should list participants sharing a line with the station and the shared lines', () => {
+    expect(findDirectConnection(['::JR山手線', '::京王線', '::小田急線'], locations)).toEqual({
+      participants: [0, 1],
+      lines: ['JR山手線', '京王線'],
+    })
+  })
+
+  it('should not count a namesake line of another operator', () => {
+    const keisei: Location = {
+      ...participant('D'),
+      origin: { stationIds: [1], name: '京成上野', lines: ['本線'], lineKeys: ['京成電鉄::本線'] },
+    }
+    expect(findDirectConnection(['京浜急行電鉄::本線'], [keisei]).participants).toEqual([])
+    expect(findDirectConnection(['京成電鉄::本線'], [keisei])).toEqual({
+      participants: [0],
+      lines: ['本線'],
+    })
+  })
+
+  it('should never count participants without an origin', () => {
+    expect(findDirectConnection(['::JR山手線'], [participant('C')]).participants).toEqual([])
+  })
+})
+
+describe('sortByDirectReach', () => {
+  it('should move stations more participants reach directly to the front, keeping distance order', () => {
+    const rows = [
+      row(1, '代々木', 'JR山手線', 100),
+      row(2, '新宿', 'JR山手線', 200),
+      row(3, '新宿', '京王線', 210),
+      row(4, '南新宿', '小田急線', 300),
+      row(5, '参宮橋', '小田急線', 400),
+    ]
+    const locations = [participant('A', ['JR山手線']), participant('B', ['京王線', '小田急線'])]
+    const sorted = sortByDirectReach(rows, locations)
+    expect(sorted.map((r) => r.id)).toEqual([2, 3, 1, 4, 5])
+  })
+
+  it('should keep the order when nobody has an origin', () => {
+    const rows = [row(1, 'X', 'a', 100), row(2, 'Y', 'b', 200)]
+    expect(sortByDirectReach(rows, [participant('A')])).toEqual(rows)
+  })
+})
+
+describe('selectDirectStation', () => {
+  const stations: StationWithCoords[] = [
+    { id: 1, name: '東京', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.681, lng: 139.767 },
+    { id: 2, name: '神田', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.692, lng: 139.771 },
+    { id: 3, name: '新宿', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.69, lng: 139.7 },
+    { id: 4, name: '新宿', line_name: '京王線', operator: '京王電鉄', lat: 35.69, lng: 139.699 },
+    {
+      id: 5,
+      name: '大手町',
+      line_name: '丸ノ内線',
+      operator: '東京メトロ',
+      lat: 35.686,
+      lng: 139.764,
+    },
+  ]
+  const index = buildStationIndex(stations)
+  const participants = [
+    { lat: 35.687, lng: 139.766 },
+    { lat: 35.652, lng: 139.544 },
+  ]
+
+  it('should pick the nearest station among those most participants reach directly', () => {
+    const result = selectDirectStation(
+      participants,
+      [['JR東日本::JR山手線'], ['京王電鉄::京王線']],
+      index
+    )
+    expect(result?.station.name).toBe('新宿')
+    expect(result?.directCount).toBe(2)
+    expect(result?.candidatesEvaluated).toBe(1)
+  })
+
+  it('should fall to fewer participants when no station serves everyone', () => {
+    const result = selectDirectStation(
+      participants,
+      [['東京メトロ::丸ノ内線'], ['小田急電鉄::小田急線']],
+      index
+    )
+    expect(result?.station.name).toBe('大手町')
+    expect(result?.directCount).toBe(1)
+  })
+
+  it('should not treat lines of the same name by different operators as one', () => {
+    const honsen = buildStationIndex([
+      {
+        id: 1,
+        name: '京成上野',
+        line_name: '本線',
+        operator: '京成電鉄',
+        lat: 35.711,
+        lng: 139.774,
+      },
+      {
+        id: 2,
+        name: '品川',
+        line_name: '本線',
+        operator: '京浜急行電鉄',
+        lat: 35.628,
+        lng: 139.738,
+      },
+      {
+        id: 3,
+        name: '神田',
+        line_name: 'JR山手線',
+        operator: 'JR東日本',
+        lat: 35.692,
+        lng: 139.771,
+      },
+    ])
+    // The Keisei rider reaches only Keisei's 本線; Keikyu's is another line
+    const result = selectDirectStation(
+      [participants[0], { lat: 35.62, lng: 139.73 }],
+      [['京成電鉄::本線'], ['JR東日本::JR山手線']],
+      honsen
+    )
+    expect(result?.directCount).toBe(1)
+    expect(result?.station.name).not.toBe('品川')
+  })
+
+  it('should score the candidates with the destination and alternative origins', () => {
+    // 東京 and 神田 both serve the Yamanote rider; heading on north favours 神田
+    const destination = { point: { lat: 35.9, lng: 139.8 }, weight: 10 }
+    expect(
+      selectDirectStation(participants, [['JR東日本::JR山手線'], []], index, { destination })
+        ?.station.name
+    ).toBe('神田')
+    const result = selectDirectStation(participants, [['JR東日本::JR山手線'], []], index, {
+      alternatives: [[], [{ lat: 35.681, lng: 139.767 }]],
+    })
+    expect(result?.station.name).toBe('東京')
+    expect(result?.assumedOrigins).toEqual([0, 1])
+  })
+
+  it('should return null without known origins', () => {
+    expect(selectDirectStation(participants, [[], []], index)).toBeNull()
+  })
+})
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_DISTANCE_METRIC, getDistanceFunction } from '../distance'
+import { vincentyDistance } from '../geodesic'
+import { haversineDistance } from '../haversine'
+
+describe('getDistanceFunction', () => {
+  it('should default to haversine', () => {
+    expect(DEFAULT_DISTANCE_METRIC).toBe('haversine')
+    expect(getDistanceFunction()).toBe(haversineDistance)
+  })
+
+  it('should resolve each metric to its implementation', () => {
+    expect(getDistanceFunction('haversine')).toBe(haversineDistance)
+    expect(getDistanceFunction('vincenty')).toBe(vincentyDistance)
+  })
+})
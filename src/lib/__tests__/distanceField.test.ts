@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import { haversineDistance } from '@/lib/haversine'
+import type { DistanceGrid } from '@/types'
+import {
+  cellBounds,
+  contourSegments,
+  fieldBounds,
+  intersectBounds,
+  sampleDistanceField,
+} from '../distanceField'
+
+const TOKYO = { lat: 35.6812, lng: 139.7671 }
+const YOKOHAMA = { lat: 35.4657, lng: 139.6225 }
+
+describe('fieldBounds', () => {
+  it('should pad the participants’ bounding box by a quarter of its span', () => {
+    const bounds = fieldBounds([
+      { lat: 35.0, lng: 139.0 },
+      { lat: 36.0, lng: 141.0 },
+    ])
+    expect(bounds.south).toBeCloseTo(34.75)
+    expect(bounds.north).toBeCloseTo(36.25)
+    expect(bounds.west).toBeCloseTo(138.5)
+    expect(bounds.east).toBeCloseTo(141.5)
+  })
+
+  it('should keep a minimum margin around a single point', () => {
+    const bounds = fieldBounds([TOKYO])
+    expect(bounds.north - bounds.south).toBeCloseTo(0.02)
+    expect(bounds.east - bounds.west).toBeCloseTo(0.02)
+  })
+
+  it('should throw for no points', () => {
+    expect(() => fieldBounds([])).toThrow('Cannot compute the field bounds of zero points')
+  })
+})
+
+describe('intersectBounds', () => {
+  it('should return the overlap of two rectangles', () => {
+    expect(
+      intersectBounds(
+        { south: 0, west: 0, north: 2, east: 2 },
+        { south: 1, west: -1, north: 3, east: 1 }
+      )
+    ).toEqual({ south: 1, west: 0, north: 2, east: 1 })
+  })
+
+  it('should return null when they do not overlap', () => {
+    expect(
+      intersectBounds(
+        { south: 0, west: 0, north: 1, east: 1 },
+        { south: 2, west: 0, north: 3, east: 1 }
+      )
+    ).toBeNull()
+  })
+})
+
+describe('sampleDistanceField', () => {
+  const BOUNDS = { south: 35.4, west: 139.5, north: 35.8, east: 139.9 }
+
+  it('should sample the weighted total distance at every node from the south-west', () => {
+    const grid = sampleDistanceField([TOKYO, YOKOHAMA], BOUNDS, {
+      rows: 3,
+      cols: 4,
+      weights: [2, 1],
+    })
+    expect(grid.values).toHaveLength(12)
+    const southWest = { lat: 35.4, lng: 139.5 }
+    expect(grid.values[0]).toBeCloseTo(
+      2 * haversineDistance(southWest, TOKYO) + haversineDistance(southWest, YOKOHAMA)
+    )
+    // Last node of the first row is the south-east corner
+    const southEast = { lat: 35.4, lng: 139.9 }
+    expect(grid.values[3]).toBeCloseTo(
+      2 * haversineDistance(southEast, TOKYO) + haversineDistance(southEast, YOKOHAMA)
+    )
+  })
+
+  it('should space the rows evenly in Mercator y rather than latitude', () => {
+    const bounds = { south: 0, west: 139, north: 60, east: 140 }
+    const grid = sampleDistanceField([{ lat: 0, lng: 139 }], bounds, { rows: 3, cols: 2 })
+    // The middle row sits where the map shows the middle of the span, well north of 30°
+    const y = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360))
+    const middleLat = (360 / Math.PI) * Math.atan(Math.exp((y(0) + y(60)) / 2)) - 90
+    expect(middleLat).toBeGreaterThan(33)
+    expect(grid.values[2]).toBeCloseTo(
+      haversineDistance({ lat: middleLat, lng: 139 }, { lat: 0, lng: 139 })
+    )
+  })
+
+  it('should reject grids smaller than 2×2 and mismatched weights', () => {
+    expect(() => sampleDistanceField([TOKYO], BOUNDS, { rows: 1, cols: 4 })).toThrow(
+      'Grid must be at least 2×2, got 1×4'
+    )
+    expect(() =>
+      sampleDistanceField([TOKYO, YOKOHAMA], BOUNDS, { rows: 2, cols: 2, weights: [1] })
+    ).toThrow('Expected 2 weights, got 1')
+  })
+})
+
+describe('cellBounds', () => {
+  it('should pad the node extent by half a cell', () => {
+    const grid = sampleDistanceField(
+      [TOKYO],
+      { south: -1, west: 139, north: 1, east: 140 },
+      {
+        rows: 3,
+        cols: 3,
+      }
+    )
+    const bounds = cellBounds(grid)
+    expect(bounds.west).toBeCloseTo(138.75)
+    expect(bounds.east).toBeCloseTo(140.25)
+    // Near the equator Mercator y is close to linear, so half a row is about 0.5°
+    expect(bounds.south).toBeCloseTo(-1.5, 2)
+    expect(bounds.north).toBeCloseTo(1.5, 2)
+  })
+
+  it('should pad less latitude to the north, where the map stretches it more', () => {
+    const grid = sampleDistanceField(
+      [TOKYO],
+      { south: 50, west: 0, north: 60, east: 1 },
+      {
+        rows: 2,
+        cols: 2,
+      }
+    )
+    const bounds = cellBounds(grid)
+    expect(bounds.north - 60).toBeLessThan(50 - bounds.south)
+  })
+})
+
+describe('contourSegments', () => {
+  // Distance-like field on a 3×3 grid with the minimum at the centre node
+  const BOWL: DistanceGrid = {
+    bounds: { south: 0, west: 0, north: 2, east: 2 },
+    rows: 3,
+    cols: 3,
+    values: [2, 1, 2, 1, 0, 1, 2, 1, 2],
+  }
+
+  it('should close a ring around the minimum', () => {
+    const segments = contourSegments(BOWL, 0.5)
+    expect(segments).toHaveLength(4)
+    // Every crossing lies halfway between the centre and a side node
+    const points = segments.flat()
+    for (const p of points) {
+      expect(Math.abs(p.lat - 1) + Math.abs(p.lng - 1)).toBeCloseTo(0.5)
+    }
+    // Each endpoint is shared by two segments, so the ring is closed
+    const keys = points.map((p) => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`)
+    for (const key of keys) expect(keys.filter((k) => k === key)).toHaveLength(2)
+  })
+
+  it('should find nothing outside the sampled range', () => {
+    expect(contourSegments(BOWL, 5)).toEqual([])
+    expect(contourSegments(BOWL, -1)).toEqual([])
+  })
+
+  it('should trace a contour of a real distance field around the optimum', () => {
+    const grid = sampleDistanceField([TOKYO, YOKOHAMA], fieldBounds([TOKYO, YOKOHAMA]), {
+      rows: 24,
+      cols: 24,
+    })
+    const optimum = haversineDistance(TOKYO, YOKOHAMA)
+    const level = optimum * 1.1
+    for (const [a, b] of contourSegments(grid, level)) {
+      // Interpolation between nodes is approximate; 1% of the level is ample
+      expect(haversineDistance(a, TOKYO) + haversineDistance(a, YOKOHAMA)).toBeCloseTo(level, 0)
+      expect(haversineDistance(b, TOKYO) + haversineDistance(b, YOKOHAMA)).toBeCloseTo(level, 0)
+    }
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import type { LatLng } from '@/types'
-import { type ECEFCoord, fromECEF, toECEF } from '../ecef'
+import { type ECEFCoord, fromECEF, projectToSphere, toECEF } from '../ecef'
 
 const EARTH_RADIUS_KM = 6371
 
@@ -88,3 +88,16 @@ describe('toECEF/fromECEF round-trip', () => {
     })
   }
 })
+
+describe('projectToSphere', () => {
+  it('should scale a vector to the Earth radius while keeping its direction', () => {
+    const result = projectToSphere({ x: 1, y: 1, z: 0 })
+    const norm = Math.sqrt(result.x ** 2 + result.y ** 2 + result.z ** 2)
+    expect(norm).toBeCloseTo(EARTH_RADIUS_KM, 6)
+    expect(fromECEF(result).lng).toBeCloseTo(45, 6)
+  })
+
+  it('should throw for a zero vector', () => {
+    expect(() => projectToSphere({ x: 0, y: 0, z: 0 })).toThrow()
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { fairnessAt, fairnessMetrics } from '../fairness'
+import { haversineDistance } from '../haversine'
+
+describe('fairnessMetrics', () => {
+  it('should report zero unfairness when everyone travels the same distance', () => {
+    expect(fairnessMetrics([5, 5, 5])).toEqual({
+      total: 15,
+      mean: 5,
+      max: 5,
+      spread: 0,
+      stdDev: 0,
+      gini: 0,
+    })
+  })
+
+  it('should compute the spread, standard deviation and Gini coefficient', () => {
+    const metrics = fairnessMetrics([2, 4, 6])
+    expect(metrics.total).toBe(12)
+    expect(metrics.mean).toBe(4)
+    expect(metrics.max).toBe(6)
+    expect(metrics.spread).toBe(4)
+    expect(metrics.stdDev).toBeCloseTo(Math.sqrt(8 / 3))
+    // Σ|d_i − d_j| over ordered pairs = 2·(2 + 4 + 2) = 16; 16 / (2·9·4) = 2/9
+    expect(metrics.gini).toBeCloseTo(2 / 9)
+  })
+
+  it('should approach 1 when one participant does all the travelling', () => {
+    expect(fairnessMetrics([0, 0, 0, 0, 10]).gini).toBeCloseTo(0.8)
+  })
+
+  it('should count weighted participants several times except in max and spread', () => {
+    const weighted = fairnessMetrics([2, 6], [3, 1])
+    const repeated = fairnessMetrics([2, 2, 2, 6])
+    expect(weighted).toEqual({
+      ...repeated,
+      stdDev: expect.closeTo(repeated.stdDev),
+      gini: expect.closeTo(repeated.gini),
+    })
+  })
+
+  it('should not divide by zero when nobody travels', () => {
+    expect(fairnessMetrics([0, 0]).gini).toBe(0)
+  })
+
+  it('should throw for empty distances or mismatched weights', () => {
+    expect(() => fairnessMetrics([])).toThrow('Cannot compute fairness of empty array')
+    expect(() => fairnessMetrics([1, 2], [1])).toThrow('Expected 2 weights, got 1')
+  })
+})
+
+describe('fairnessAt', () => {
+  it('should measure every participant’s distance to the point', () => {
+    const point = { lat: 35.0, lng: 139.0 }
+    const participants = [
+      { lat: 35.0, lng: 139.1 },
+      { lat: 35.0, lng: 139.3 },
+    ]
+    const metrics = fairnessAt(point, participants)
+    expect(metrics.max).toBeCloseTo(haversineDistance(point, participants[1]))
+    expect(metrics.spread).toBeCloseTo(
+      haversineDistance(point, participants[1]) - haversineDistance(point, participants[0])
+    )
+  })
+})
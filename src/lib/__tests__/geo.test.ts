@@ -1,7 +1,23 @@
 import { describe, expect, it } from 'vitest'
 import type { LatLng, StationWithCoords } from '@/types'
-import { centroid, geometricMedian, selectKMedoidStation } from '../geo'
-import { haversineDistance } from '../haversine'
+import {
+  analyzeSensitivity,
+  assumedLocations,
+  centroid,
+  evaluateObjective,
+  geometricMedian,
+  locationWeights,
+  selectKMedoidStation,
+  selectMinimaxStation,
+  selectOptimalStation,
+  smallestEnclosingCircle,
+  solveDestinationMedian,
+  solveGeometricMedian,
+  totalDistance,
+} from '../geo'
+import { vincentyDistance } from '../geodesic'
+import { EARTH_RADIUS_KM, haversineDistance } from '../haversine'
+import { buildStationIndex } from '../spatialIndex'
 
 // Reference points
 const TOKYO: LatLng = { lat: 35.6762, lng: 139.6503 }
@@ -111,6 +127,77 @@ describe('geometricMedian', () => {
   })
 })
 
+describe('solveGeometricMedian', () => {
+  // Collinear on the equator; the 1D weighted median is the heavy point at lng -1
+  const LINE: LatLng[] = [
+    { lat: 0, lng: 0 },
+    { lat: 0, lng: 3 },
+    { lat: 0, lng: -1 },
+  ]
+  const LINE_WEIGHTS = [1, 1, 3]
+
+  it('should report convergence with the objective at the returned point', () => {
+    const points = [TOKYO, OSAKA, NAGOYA, SAPPORO]
+    const { point, report } = solveGeometricMedian(points)
+    expect(report.converged).toBe(true)
+    expect(report.iterations).toBeGreaterThan(0)
+    expect(report.stepSize).toBeLessThan(1e-7)
+    expect(report.objective).toBeCloseTo(totalDistance(point, points), 10)
+  })
+
+  it('should leave a data point that is not the median', () => {
+    // The weighted centroid starts exactly on (0, 0), whose pull (2) exceeds its weight (1)
+    const { point, report } = solveGeometricMedian(LINE, { weights: LINE_WEIGHTS })
+    expect(point.lng).toBeCloseTo(-1, 6)
+    expect(point.lat).toBeCloseTo(0, 6)
+    expect(report.converged).toBe(true)
+    expect(report.objective).toBeCloseTo(totalDistance(point, LINE, LINE_WEIGHTS), 10)
+  })
+
+  it('should leave a non-optimal data point in spherical mode', () => {
+    const { point } = solveGeometricMedian(LINE, { weights: LINE_WEIGHTS, mode: 'spherical' })
+    expect(point.lng).toBeCloseTo(-1, 6)
+  })
+
+  it('should stop at a data point that satisfies the vertex condition', () => {
+    // The middle point of a symmetric line is optimal: the pulls cancel out
+    const points: LatLng[] = [
+      { lat: 0, lng: -1 },
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 1 },
+    ]
+    const { point, report } = solveGeometricMedian(points)
+    expect(point).toEqual({ lat: 0, lng: 0 })
+    expect(report.converged).toBe(true)
+    expect(report.iterations).toBe(0)
+  })
+
+  it('should return the Fermat vertex of an obtuse triangle', () => {
+    // Angle at the apex exceeds 120°, so the apex itself is the median
+    const apex: LatLng = { lat: 35.0, lng: 137.0 }
+    const points: LatLng[] = [apex, { lat: 35.02, lng: 136.8 }, { lat: 35.02, lng: 137.2 }]
+    const { point, report } = solveGeometricMedian(points)
+    expect(point.lat).toBeCloseTo(apex.lat, 6)
+    expect(point.lng).toBeCloseTo(apex.lng, 6)
+    expect(report.converged).toBe(true)
+  })
+
+  it('should report non-convergence when the iteration limit is hit', () => {
+    const points = [TOKYO, OSAKA, NAGOYA, SAPPORO]
+    const { report } = solveGeometricMedian(points, { maxIterations: 1 })
+    expect(report.converged).toBe(false)
+    expect(report.iterations).toBe(1)
+    expect(report.stepSize).toBeGreaterThan(0)
+  })
+
+  it('should report zero iterations for two points', () => {
+    const { report } = solveGeometricMedian([TOKYO, OSAKA])
+    expect(report.iterations).toBe(0)
+    expect(report.converged).toBe(true)
+    expect(report.objective).toBeCloseTo(haversineDistance(TOKYO, OSAKA), 1)
+  })
+})
+
 describe('centroid with 10 points', () => {
   const TEN_CITIES: LatLng[] = [
     TOKYO,
@@ -417,3 +504,784 @@ describe('selectKMedoidStation', () => {
     expect(result?.station.id).toBe(east.id)
   })
 })
+
+describe('weighted participants', () => {
+  it('centroid should equal the centroid of duplicated points for integer weights', () => {
+    const weighted = centroid([TOKYO, OSAKA], { weights: [3, 1] })
+    const duplicated = centroid([TOKYO, TOKYO, TOKYO, OSAKA])
+    expect(weighted.lat).toBeCloseTo(duplicated.lat, 10)
+    expect(weighted.lng).toBeCloseTo(duplicated.lng, 10)
+  })
+
+  it('geometricMedian should equal the median of duplicated points for integer weights', () => {
+    const weighted = geometricMedian([TOKYO, NAGOYA, SAPPORO, FUKUOKA], {
+      weights: [1, 2, 1, 1],
+    })
+    const duplicated = geometricMedian([TOKYO, NAGOYA, NAGOYA, SAPPORO, FUKUOKA])
+    expect(haversineDistance(weighted, duplicated)).toBeLessThan(0.5)
+  })
+
+  it('geometricMedian should return the heavier point for two weighted points', () => {
+    const result = geometricMedian([TOKYO, OSAKA], { weights: [1, 2] })
+    expect(result).toEqual(OSAKA)
+  })
+
+  it('geometricMedian should move toward a heavily weighted participant', () => {
+    const points = [TOKYO, OSAKA, SAPPORO]
+    const unweighted = geometricMedian(points)
+    const weighted = geometricMedian(points, { weights: [1, 1, 1.8] })
+    expect(haversineDistance(weighted, SAPPORO)).toBeLessThan(
+      haversineDistance(unweighted, SAPPORO)
+    )
+  })
+
+  it('selectKMedoidStation should report the weighted total and favor heavy participants', () => {
+    const west: StationWithCoords = {
+      id: 1,
+      name: 'West',
+      line_name: null,
+      operator: null,
+      lat: 0,
+      lng: 0.1,
+    }
+    const east: StationWithCoords = { ...west, id: 2, name: 'East', lng: 0.9 }
+    const participants: LatLng[] = [
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 1 },
+    ]
+
+    const result = selectKMedoidStation(participants, [west, east], { weights: [1, 4] })
+    expect(result?.station.id).toBe(east.id)
+    const expected =
+      haversineDistance({ lat: 0, lng: 0.9 }, participants[0]) +
+      4 * haversineDistance({ lat: 0, lng: 0.9 }, participants[1])
+    expect(result?.totalDistance).toBeCloseTo(expected, 8)
+  })
+
+  it('totalDistance should multiply each distance by its weight', () => {
+    const plain = totalDistance(NAGOYA, [TOKYO, OSAKA])
+    const weighted = totalDistance(NAGOYA, [TOKYO, OSAKA], [2, 1])
+    expect(weighted - plain).toBeCloseTo(haversineDistance(NAGOYA, TOKYO), 8)
+  })
+
+  it('should throw when weights do not match the number of points', () => {
+    expect(() => centroid([TOKYO, OSAKA], { weights: [1] })).toThrow()
+    expect(() => geometricMedian([TOKYO, OSAKA, NAGOYA], { weights: [1, 1] })).toThrow()
+  })
+
+  it('should throw for non-positive weights', () => {
+    expect(() => centroid([TOKYO, OSAKA], { weights: [1, 0] })).toThrow()
+    expect(() => totalDistance(TOKYO, [OSAKA], [-1])).toThrow()
+  })
+
+  it('locationWeights should default missing weights to 1', () => {
+    expect(
+      locationWeights([
+        { id: 'a', label: 'A', latlng: TOKYO },
+        { id: 'b', label: 'B', latlng: OSAKA, weight: 3 },
+      ])
+    ).toEqual([1, 3])
+  })
+})
+
+describe('spherical mode', () => {
+  const NAHA: LatLng = { lat: 26.2124, lng: 127.6809 }
+  const WAKKANAI: LatLng = { lat: 45.4156, lng: 141.673 }
+  const LONG_BASELINE: LatLng[] = [WAKKANAI, SAPPORO, TOKYO, FUKUOKA, NAHA]
+
+  it('spherical centroid should match planar centroid for a tight cluster', () => {
+    const cluster: LatLng[] = [
+      { lat: 35.68, lng: 139.65 },
+      { lat: 35.67, lng: 139.66 },
+      { lat: 35.69, lng: 139.64 },
+    ]
+    const planar = centroid(cluster)
+    const spherical = centroid(cluster, { mode: 'spherical' })
+    expect(haversineDistance(planar, spherical)).toBeLessThan(0.01)
+  })
+
+  it('spherical centroid of two points should be the great-circle midpoint', () => {
+    const mid = centroid([WAKKANAI, NAHA], { mode: 'spherical' })
+    const toNorth = haversineDistance(mid, WAKKANAI)
+    const toSouth = haversineDistance(mid, NAHA)
+    expect(toNorth).toBeCloseTo(toSouth, 6)
+    expect(toNorth + toSouth).toBeCloseTo(haversineDistance(WAKKANAI, NAHA), 6)
+  })
+
+  it('spherical centroid should differ from planar centroid on a long baseline', () => {
+    const planar = centroid(LONG_BASELINE)
+    const spherical = centroid(LONG_BASELINE, { mode: 'spherical' })
+    expect(haversineDistance(planar, spherical)).toBeGreaterThan(1)
+  })
+
+  it('should handle groups straddling the antimeridian', () => {
+    const east: LatLng = { lat: -17.7, lng: 179.5 }
+    const west: LatLng = { lat: -17.7, lng: -179.5 }
+
+    // Planar averaging lands on the prime meridian, half a world away
+    expect(Math.abs(centroid([east, west]).lng)).toBeLessThan(1)
+
+    const spherical = centroid([east, west], { mode: 'spherical' })
+    expect(Math.abs(spherical.lng)).toBeCloseTo(180, 6)
+    expect(haversineDistance(spherical, east)).toBeLessThan(60)
+
+    const median = geometricMedian([east, west, { lat: -18.1, lng: 179.9 }], {
+      mode: 'spherical',
+    })
+    expect(Math.abs(median.lng)).toBeGreaterThan(179)
+  })
+
+  it('spherical median should not have a larger total distance than the planar median', () => {
+    const planar = geometricMedian(LONG_BASELINE)
+    const spherical = geometricMedian(LONG_BASELINE, { mode: 'spherical' })
+    expect(totalDistance(spherical, LONG_BASELINE)).toBeLessThanOrEqual(
+      totalDistance(planar, LONG_BASELINE) + 1e-6
+    )
+  })
+
+  it('spherical and planar medians should diverge on a long baseline', () => {
+    const planar = geometricMedian(LONG_BASELINE)
+    const spherical = geometricMedian(LONG_BASELINE, { mode: 'spherical' })
+    expect(haversineDistance(planar, spherical)).toBeGreaterThan(0.1)
+  })
+
+  it('should fall back to the planar mean when the points cancel out', () => {
+    const a: LatLng = { lat: 35.0, lng: 139.0 }
+    const antipode: LatLng = { lat: -35.0, lng: -41.0 }
+    expect(centroid([a, antipode], { mode: 'spherical' })).toEqual(centroid([a, antipode]))
+
+    // Four points spread evenly around the equator also sum to zero
+    const ring = [0, 90, 180, -90].map((lng) => ({ lat: 0, lng }))
+    expect(() => centroid(ring, { mode: 'spherical' })).not.toThrow()
+    expect(() => geometricMedian([a, antipode], { mode: 'spherical' })).not.toThrow()
+    expect(() => smallestEnclosingCircle([a, antipode])).not.toThrow()
+  })
+
+  it('should not take a planar midpoint of an antipodal pair as an enclosing circle', () => {
+    const a: LatLng = { lat: 35.0, lng: 139.0 }
+    const antipode: LatLng = { lat: -35.0, lng: -41.0 }
+    // Any center is at least a quarter of the circumference from one of the pair, and the
+    // circumcenter with a third point reaches that; the planar midpoint (0°, 49°) does not
+    const circle = smallestEnclosingCircle([a, antipode, { lat: 10.0, lng: 100.0 }])
+    expect(circle.radius).toBeCloseTo((Math.PI * EARTH_RADIUS_KM) / 2, 6)
+    expect(circle.center).not.toEqual(centroid([a, antipode]))
+  })
+
+  it('spherical median should honor weights', () => {
+    const unweighted = geometricMedian(LONG_BASELINE, { mode: 'spherical' })
+    const weighted = geometricMedian(LONG_BASELINE, {
+      mode: 'spherical',
+      weights: [1, 1, 1, 1, 3],
+    })
+    expect(haversineDistance(weighted, NAHA)).toBeLessThan(haversineDistance(unweighted, NAHA))
+  })
+})
+
+describe('smallestEnclosingCircle', () => {
+  const maxDistance = (center: LatLng, points: LatLng[]) =>
+    Math.max(...points.map((p) => haversineDistance(center, p)))
+
+  it('should return the point itself with zero radius for a single input', () => {
+    const result = smallestEnclosingCircle([TOKYO])
+    expect(result.center).toEqual(TOKYO)
+    expect(result.radius).toBe(0)
+  })
+
+  it('should use the great-circle midpoint for two points', () => {
+    const result = smallestEnclosingCircle([TOKYO, OSAKA])
+    expect(result.radius).toBeCloseTo(haversineDistance(TOKYO, OSAKA) / 2, 6)
+    expect(haversineDistance(result.center, TOKYO)).toBeCloseTo(result.radius, 6)
+  })
+
+  it('should ignore interior points', () => {
+    const withInterior = smallestEnclosingCircle([TOKYO, OSAKA, NAGOYA])
+    const endpointsOnly = smallestEnclosingCircle([TOKYO, OSAKA])
+    expect(withInterior.radius).toBeCloseTo(endpointsOnly.radius, 6)
+  })
+
+  it('should be equidistant from the three defining points of an acute triangle', () => {
+    const points = [SAPPORO, FUKUOKA, SENDAI]
+    const result = smallestEnclosingCircle(points)
+    for (const p of points) {
+      expect(haversineDistance(result.center, p)).toBeLessThanOrEqual(result.radius + 1e-6)
+    }
+    expect(result.radius).toBeLessThan(haversineDistance(SAPPORO, FUKUOKA))
+  })
+
+  it('should enclose every point and report the farthest distance as radius', () => {
+    const points = [TOKYO, OSAKA, NAGOYA, SAPPORO, FUKUOKA, SENDAI, HIROSHIMA]
+    const result = smallestEnclosingCircle(points)
+    expect(maxDistance(result.center, points)).toBeCloseTo(result.radius, 6)
+  })
+
+  it('should have a smaller worst-case distance than the centroid and the median', () => {
+    const points = [TOKYO, YOKOHAMA, KYOTO, KOBE, SAPPORO]
+    const result = smallestEnclosingCircle(points)
+    expect(result.radius).toBeLessThanOrEqual(maxDistance(centroid(points), points))
+    expect(result.radius).toBeLessThanOrEqual(maxDistance(geometricMedian(points), points))
+  })
+
+  it('should not be improved by nudging the center', () => {
+    const points = [TOKYO, OSAKA, SAPPORO, FUKUOKA]
+    const result = smallestEnclosingCircle(points)
+    for (const [dLat, dLng] of [
+      [0.05, 0],
+      [-0.05, 0],
+      [0, 0.05],
+      [0, -0.05],
+    ]) {
+      const nudged = { lat: result.center.lat + dLat, lng: result.center.lng + dLng }
+      expect(maxDistance(nudged, points)).toBeGreaterThanOrEqual(result.radius - 1e-6)
+    }
+  })
+
+  it('should throw for empty input', () => {
+    expect(() => smallestEnclosingCircle([])).toThrow()
+  })
+})
+
+describe('selectMinimaxStation', () => {
+  const near: StationWithCoords = {
+    id: 1,
+    name: 'Near',
+    line_name: null,
+    operator: null,
+    lat: 0,
+    lng: 0.1,
+  }
+  const middle: StationWithCoords = { ...near, id: 2, name: 'Middle', lng: 2 }
+
+  it('should return null for empty inputs', () => {
+    expect(selectMinimaxStation([], [near])).toBeNull()
+    expect(selectMinimaxStation([TOKYO], [])).toBeNull()
+  })
+
+  it('should prefer the station with the smaller worst-case distance', () => {
+    // Three people near lng 0 and one at lng 4: the sum favors Near, minimax favors Middle
+    const participants: LatLng[] = [
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 0.05 },
+      { lat: 0, lng: 0.1 },
+      { lat: 0, lng: 4 },
+    ]
+    expect(selectKMedoidStation(participants, [near, middle])?.station.id).toBe(near.id)
+
+    const result = selectMinimaxStation(participants, [near, middle])
+    expect(result?.station.id).toBe(middle.id)
+    expect(result?.maxDistance).toBeCloseTo(
+      haversineDistance({ lat: 0, lng: 2 }, { lat: 0, lng: 4 }),
+      6
+    )
+  })
+})
+
+describe('evaluateObjective', () => {
+  const DISTANCES = [1, 2, 6]
+
+  it('should default to the plain sum', () => {
+    expect(evaluateObjective(DISTANCES)).toBe(9)
+  })
+
+  it('should compute every objective', () => {
+    expect(evaluateObjective(DISTANCES, { objective: 'sum' })).toBe(9)
+    expect(evaluateObjective(DISTANCES, { objective: 'sumOfSquares' })).toBe(41)
+    expect(evaluateObjective(DISTANCES, { objective: 'max' })).toBe(6)
+    expect(evaluateObjective(DISTANCES, { objective: 'sumPlusMax' })).toBe(15)
+    expect(evaluateObjective(DISTANCES, { objective: 'sumPlusMax', lambda: 0.5 })).toBe(12)
+    // Mean 3, squared deviations 4 + 1 + 9 = 14 over 3 participants
+    expect(evaluateObjective(DISTANCES, { objective: 'stdDev' })).toBeCloseTo(Math.sqrt(14 / 3), 10)
+  })
+
+  it('should apply weights to sums and averages but not to the max', () => {
+    const weights = [2, 1, 1]
+    expect(evaluateObjective(DISTANCES, { weights })).toBe(10)
+    expect(evaluateObjective(DISTANCES, { weights, objective: 'sumOfSquares' })).toBe(42)
+    expect(evaluateObjective(DISTANCES, { weights, objective: 'max' })).toBe(6)
+    // Weighted stdDev equals the stdDev of the duplicated sample [1, 1, 2, 6]
+    expect(evaluateObjective(DISTANCES, { weights, objective: 'stdDev' })).toBeCloseTo(
+      evaluateObjective([1, 1, 2, 6], { objective: 'stdDev' }),
+      10
+    )
+  })
+
+  it('should scale each distance before the time objectives', () => {
+    // Minutes per km: a walker (~16) and two train riders (~2)
+    const scales = [16, 2, 2]
+    expect(evaluateObjective(DISTANCES, { scales, objective: 'totalTime' })).toBe(32)
+    expect(evaluateObjective(DISTANCES, { scales, objective: 'maxTime' })).toBe(16)
+    expect(evaluateObjective(DISTANCES, { objective: 'totalTime' })).toBe(9)
+    expect(evaluateObjective(DISTANCES, { objective: 'maxTime' })).toBe(6)
+  })
+
+  it('should reject scales of the wrong length', () => {
+    expect(() => evaluateObjective(DISTANCES, { scales: [1, 2] })).toThrow('Expected 3 scales')
+  })
+
+  it('should return zero spread for equal distances', () => {
+    expect(evaluateObjective([3, 3, 3], { objective: 'stdDev' })).toBe(0)
+  })
+
+  it('should throw for empty input', () => {
+    expect(() => evaluateObjective([])).toThrow()
+  })
+})
+
+describe('selectKMedoidStation objectives', () => {
+  // Three people near lng 0 and one far east at lng 4
+  const participants: LatLng[] = [
+    { lat: 0, lng: 0 },
+    { lat: 0, lng: 0.05 },
+    { lat: 0, lng: 0.1 },
+    { lat: 0, lng: 4 },
+  ]
+  const station = (id: number, lng: number): StationWithCoords => ({
+    id,
+    name: `S${id}`,
+    line_name: null,
+    operator: null,
+    lat: 0,
+    lng,
+  })
+  const CANDIDATES = [station(1, 0.1), station(2, 1), station(3, 2)]
+
+  it('should report the active objective, its score and the plain total', () => {
+    const result = selectKMedoidStation(participants, CANDIDATES, { objective: 'max' })
+    expect(result?.objective).toBe('max')
+    expect(result?.station.id).toBe(3)
+    const point = { lat: 0, lng: 2 }
+    expect(result?.score).toBeCloseTo(haversineDistance(point, participants[3]), 8)
+    expect(result?.totalDistance).toBeCloseTo(totalDistance(point, participants), 8)
+  })
+
+  it('should default to the sum objective with score equal to the total', () => {
+    const result = selectKMedoidStation(participants, CANDIDATES)
+    expect(result?.objective).toBe('sum')
+    expect(result?.station.id).toBe(1)
+    expect(result?.score).toBe(result?.totalDistance)
+  })
+
+  it('should move the pick toward the outlier as the objective penalizes long trips', () => {
+    const sum = selectKMedoidStation(participants, CANDIDATES, { objective: 'sum' })
+    const squares = selectKMedoidStation(participants, CANDIDATES, { objective: 'sumOfSquares' })
+    expect(sum?.station.id).toBe(1)
+    expect(squares?.station.id).toBe(2)
+  })
+
+  it('should pick the most even station under stdDev', () => {
+    const pair: LatLng[] = [
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 2 },
+    ]
+    const result = selectKMedoidStation(
+      pair,
+      [station(1, 0.2), station(2, 1.05), station(3, 1.5)],
+      {
+        objective: 'stdDev',
+      }
+    )
+    expect(result?.station.id).toBe(2)
+  })
+
+  it('should honor lambda for sumPlusMax', () => {
+    const withoutPenalty = selectKMedoidStation(participants, CANDIDATES, {
+      objective: 'sumPlusMax',
+      lambda: 0,
+    })
+    const withPenalty = selectKMedoidStation(participants, CANDIDATES, {
+      objective: 'sumPlusMax',
+      lambda: 10,
+    })
+    expect(withoutPenalty?.station.id).toBe(1)
+    expect(withPenalty?.station.id).toBe(3)
+  })
+})
+
+describe('distance metric', () => {
+  const points = [TOKYO, SAPPORO, FUKUOKA]
+
+  it('should measure totals with the chosen metric', () => {
+    const expected = points.reduce((sum, p) => sum + vincentyDistance(OSAKA, p), 0)
+    expect(totalDistance(OSAKA, points, undefined, 'vincenty')).toBeCloseTo(expected, 9)
+    expect(totalDistance(OSAKA, points, undefined, 'vincenty')).not.toBeCloseTo(
+      totalDistance(OSAKA, points),
+      0
+    )
+  })
+
+  it('should report the median objective with the chosen metric', () => {
+    const { point, report } = solveGeometricMedian(points, { metric: 'vincenty' })
+    expect(report.converged).toBe(true)
+    expect(report.objective).toBeCloseTo(totalDistance(point, points, undefined, 'vincenty'), 9)
+  })
+
+  it('should keep the ellipsoidal median close to the spherical one', () => {
+    const spherical = geometricMedian(points)
+    const ellipsoidal = geometricMedian(points, { metric: 'vincenty' })
+    expect(haversineDistance(spherical, ellipsoidal)).toBeLessThan(10)
+  })
+
+  it('should score K-medoid candidates with the chosen metric', () => {
+    const station: StationWithCoords = {
+      id: 1,
+      name: '名古屋',
+      line_name: null,
+      operator: null,
+      ...NAGOYA,
+    }
+    const result = selectKMedoidStation(points, [station], { metric: 'vincenty' })
+    expect(result?.totalDistance).toBeCloseTo(
+      totalDistance(NAGOYA, points, undefined, 'vincenty'),
+      9
+    )
+  })
+
+  it('should measure the enclosing circle radius with the chosen metric', () => {
+    const circle = smallestEnclosingCircle(points, { metric: 'vincenty' })
+    const farthest = Math.max(...points.map((p) => vincentyDistance(circle.center, p)))
+    expect(circle.radius).toBeCloseTo(farthest, 9)
+  })
+})
+
+describe('selectOptimalStation', () => {
+  /** Deterministic pseudo-random generator (LCG) so failures are reproducible */
+  function createRandom(seed: number): () => number {
+    let state = seed
+    return () => {
+      state = (state * 1664525 + 1013904223) % 2 ** 32
+      return state / 2 ** 32
+    }
+  }
+
+  const random = createRandom(7)
+  const STATIONS: StationWithCoords[] = Array.from({ length: 800 }, (_, i) => ({
+    id: i + 1,
+    name: `駅${i}`,
+    line_name: null,
+    operator: null,
+    lat: 33 + random() * 6,
+    lng: 130 + random() * 10,
+  }))
+  const INDEX = buildStationIndex(STATIONS)
+  const PARTICIPANTS = [TOKYO, OSAKA, NAGOYA, FUKUOKA, HIROSHIMA]
+  const WEIGHTS = [3, 1, 1, 2, 1]
+
+  for (const objective of ['sum', 'sumOfSquares', 'max', 'sumPlusMax', 'stdDev'] as const) {
+    it(`should match a full scan for the ${objective} objective`, () => {
+      const anchor = geometricMedian(PARTICIPANTS, { weights: WEIGHTS })
+      // Full scan in the same order (ascending distance from the anchor) for equal tie-breaks
+      const fullScan = selectKMedoidStation(
+        PARTICIPANTS,
+        INDEX.withinRadius(anchor, Number.POSITIVE_INFINITY),
+        { weights: WEIGHTS, objective }
+      )
+      const result = selectOptimalStation(PARTICIPANTS, INDEX, {
+        weights: WEIGHTS,
+        objective,
+        anchor,
+      })
+      expect(result?.station.id).toBe(fullScan?.station.id)
+      expect(result?.score).toBeCloseTo(fullScan?.score ?? 0, 9)
+      expect(result?.totalDistance).toBeCloseTo(fullScan?.totalDistance ?? 0, 9)
+    })
+  }
+
+  for (const objective of ['totalTime', 'maxTime'] as const) {
+    it(`should match a full scan for the ${objective} objective with time scales`, () => {
+      const scales = [12, 1.8, 1.8, 4.2, 2.8]
+      const anchor = geometricMedian(PARTICIPANTS, { weights: WEIGHTS })
+      const fullScan = selectKMedoidStation(
+        PARTICIPANTS,
+        INDEX.withinRadius(anchor, Number.POSITIVE_INFINITY),
+        { weights: WEIGHTS, objective, scales }
+      )
+      const result = selectOptimalStation(PARTICIPANTS, INDEX, {
+        weights: WEIGHTS,
+        objective,
+        anchor,
+        scales,
+      })
+      expect(result?.station.id).toBe(fullScan?.station.id)
+      expect(result?.score).toBeCloseTo(fullScan?.score ?? 0, 9)
+    })
+  }
+
+  it('should prune most of a nationwide dataset for a regional group', () => {
+    const kanto: LatLng[] = [TOKYO, YOKOHAMA, { lat: 35.8617, lng: 139.6455 }]
+    for (const objective of ['sum', 'sumOfSquares', 'max', 'sumPlusMax'] as const) {
+      const result = selectOptimalStation(kanto, INDEX, { objective })
+      expect(result?.candidatesEvaluated).toBeGreaterThan(0)
+      expect(result?.candidatesEvaluated).toBeLessThan(STATIONS.length / 10)
+    }
+  })
+
+  it('should evaluate every station for stdDev', () => {
+    const result = selectOptimalStation(PARTICIPANTS, INDEX, { objective: 'stdDev' })
+    expect(result?.candidatesEvaluated).toBe(STATIONS.length)
+  })
+
+  it('should find the optimum beyond the stations nearest to the median', () => {
+    // Two people on the equator: every point between them has the same total distance.
+    // Twenty rows of a multi-line station sit just off the segment near the midpoint,
+    // while a single station on the segment is farther from the midpoint.
+    const pair: LatLng[] = [
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 2 },
+    ]
+    const offSegment: StationWithCoords[] = Array.from({ length: 20 }, (_, i) => ({
+      id: i + 1,
+      name: '乗換駅',
+      line_name: `路線${i}`,
+      operator: null,
+      lat: 0.1,
+      lng: 1,
+    }))
+    const onSegment: StationWithCoords = {
+      id: 99,
+      name: '線上駅',
+      line_name: null,
+      operator: null,
+      lat: 0,
+      lng: 1.2,
+    }
+    const index = buildStationIndex([...offSegment, onSegment])
+    const nearestOnly = selectKMedoidStation(pair, index.nearest({ lat: 0, lng: 1 }, 20))
+    const result = selectOptimalStation(pair, index)
+    expect(nearestOnly?.station.name).toBe('乗換駅')
+    expect(result?.station.id).toBe(99)
+    expect(result?.totalDistance).toBeLessThan(nearestOnly?.totalDistance ?? 0)
+  })
+
+  for (const objective of ['sum', 'max'] as const) {
+    it(`should match a full scan with a destination leg for the ${objective} objective`, () => {
+      const destination = { point: SENDAI, weight: 2 }
+      const anchor = solveDestinationMedian(PARTICIPANTS, destination, { weights: WEIGHTS }).point
+      const fullScan = selectKMedoidStation(
+        PARTICIPANTS,
+        INDEX.withinRadius(anchor, Number.POSITIVE_INFINITY),
+        { weights: WEIGHTS, objective, destination }
+      )
+      const result = selectOptimalStation(PARTICIPANTS, INDEX, {
+        weights: WEIGHTS,
+        objective,
+        destination,
+      })
+      expect(result?.station.id).toBe(fullScan?.station.id)
+      expect(result?.score).toBeCloseTo(fullScan?.score ?? 0, 9)
+    })
+  }
+
+  for (const objective of ['sum', 'sumPlusMax'] as const) {
+    it(`should match a full scan with alternative origins for the ${objective} objective`, () => {
+      const alternatives = [[SENDAI], [], [KOBE, KYOTO], [], [SAPPORO]]
+      const anchor = geometricMedian(PARTICIPANTS, { weights: WEIGHTS })
+      const fullScan = selectKMedoidStation(
+        PARTICIPANTS,
+        INDEX.withinRadius(anchor, Number.POSITIVE_INFINITY),
+        { weights: WEIGHTS, objective, alternatives }
+      )
+      const result = selectOptimalStation(PARTICIPANTS, INDEX, {
+        weights: WEIGHTS,
+        objective,
+        anchor,
+        alternatives,
+      })
+      expect(result?.station.id).toBe(fullScan?.station.id)
+      expect(result?.score).toBeCloseTo(fullScan?.score ?? 0, 9)
+      expect(result?.assumedOrigins).toEqual(fullScan?.assumedOrigins)
+    })
+  }
+
+  it('should return null for empty participants or an empty index', () => {
+    expect(selectOptimalStation([], INDEX)).toBeNull()
+    expect(selectOptimalStation(PARTICIPANTS, buildStationIndex([]))).toBeNull()
+  })
+})
+
+describe('shared destination', () => {
+  const GROUP = [TOKYO, YOKOHAMA, { lat: 35.8617, lng: 139.6455 }]
+  const NARITA: LatLng = { lat: 35.772, lng: 140.3929 }
+
+  it('should pull the geometric median toward the destination', () => {
+    const plain = geometricMedian(GROUP)
+    const { point, report } = solveDestinationMedian(GROUP, { point: NARITA, weight: 1 })
+    expect(haversineDistance(point, NARITA)).toBeLessThan(haversineDistance(plain, NARITA))
+    // The report's objective includes the group's onward trip
+    expect(report.objective).toBeCloseTo(
+      totalDistance(point, GROUP) + haversineDistance(point, NARITA),
+      6
+    )
+  })
+
+  it('should meet at the destination when its weight outweighs everyone', () => {
+    const { point } = solveDestinationMedian(GROUP, { point: NARITA, weight: 3 })
+    expect(haversineDistance(point, NARITA)).toBeLessThan(0.001)
+  })
+
+  it('should throw for empty points', () => {
+    expect(() => solveDestinationMedian([], { point: NARITA, weight: 1 })).toThrow(
+      'Cannot calculate geometric median of empty array'
+    )
+  })
+
+  it('should add the onward trip to station scores but not to totalDistance', () => {
+    const station = (id: number, at: LatLng): StationWithCoords => ({
+      id,
+      name: `駅${id}`,
+      line_name: null,
+      operator: null,
+      ...at,
+    })
+    const candidates = [station(1, TOKYO), station(2, { lat: 35.7, lng: 140.0 })]
+    // A heavy enough onward leg tips the choice to the station on the way
+    const destination = { point: NARITA, weight: 4 }
+    expect(selectKMedoidStation(GROUP, candidates)?.station.id).toBe(1)
+
+    const result = selectKMedoidStation(GROUP, candidates, { destination })
+    expect(result?.station.id).toBe(2)
+    const stationPoint = { lat: 35.7, lng: 140.0 }
+    expect(result?.totalDistance).toBeCloseTo(totalDistance(stationPoint, GROUP), 9)
+    expect(result?.score).toBeCloseTo(
+      totalDistance(stationPoint, GROUP) + 4 * haversineDistance(stationPoint, NARITA),
+      9
+    )
+  })
+})
+
+describe('alternative origins', () => {
+  const station = (id: number, at: LatLng): StationWithCoords => ({
+    id,
+    name: `駅${id}`,
+    line_name: null,
+    operator: null,
+    ...at,
+  })
+  const CANDIDATES = [station(1, NAGOYA), station(2, KYOTO)]
+
+  it('should score each station with every participant’s nearest origin', () => {
+    // Coming from Osaka instead of Tokyo makes Kyoto the better meeting place
+    expect(selectKMedoidStation([TOKYO, KOBE], CANDIDATES)?.station.id).toBe(1)
+    const result = selectKMedoidStation([TOKYO, KOBE], CANDIDATES, {
+      alternatives: [[OSAKA], []],
+    })
+    expect(result?.station.id).toBe(2)
+    expect(result?.assumedOrigins).toEqual([1, 0])
+    expect(result?.totalDistance).toBeCloseTo(
+      haversineDistance(KYOTO, OSAKA) + haversineDistance(KYOTO, KOBE),
+      9
+    )
+  })
+
+  it('should keep the own location when it is nearest', () => {
+    const result = selectKMedoidStation([TOKYO, KOBE], CANDIDATES, {
+      alternatives: [[SAPPORO], []],
+    })
+    expect(result?.assumedOrigins).toEqual([0, 0])
+  })
+
+  it('should omit assumedOrigins without alternatives', () => {
+    expect(selectKMedoidStation([TOKYO, KOBE], CANDIDATES)).not.toHaveProperty('assumedOrigins')
+  })
+
+  it('should move locations to their assumed origins', () => {
+    const locations = [
+      {
+        id: 'a',
+        label: 'A',
+        latlng: TOKYO,
+        alternatives: [{ label: '大阪支社', latlng: OSAKA }],
+      },
+      { id: 'b', label: 'B', latlng: KOBE },
+    ]
+    expect(assumedLocations(locations)).toBe(locations)
+    const moved = assumedLocations(locations, [1, 0])
+    expect(moved.map((l) => l.latlng)).toEqual([OSAKA, KOBE])
+    expect(moved[0].label).toBe('A')
+  })
+
+  it('should throw when alternatives are not aligned with the participants', () => {
+    expect(() =>
+      selectKMedoidStation([TOKYO, KOBE], CANDIDATES, { alternatives: [[OSAKA]] })
+    ).toThrow('Expected 2 alternative lists, got 1')
+  })
+})
+
+describe('analyzeSensitivity', () => {
+  const station = (id: number, name: string, at: LatLng): StationWithCoords => ({
+    id,
+    name,
+    line_name: null,
+    operator: null,
+    ...at,
+  })
+  const INDEX = buildStationIndex([
+    station(1, '名古屋', NAGOYA),
+    station(2, '京都', KYOTO),
+    station(3, '東京', TOKYO),
+    station(4, '大阪', OSAKA),
+  ])
+  const GROUP = [TOKYO, OSAKA, KYOTO]
+
+  it('should report the base points and station', () => {
+    const analysis = analyzeSensitivity(GROUP, INDEX)
+    expect(analysis.centroid).toEqual(centroid(GROUP))
+    expect(analysis.median).toEqual(geometricMedian(GROUP))
+    expect(analysis.station?.name).toBe(selectOptimalStation(GROUP, INDEX)?.station.name)
+    expect(analysis.influences).toHaveLength(3)
+  })
+
+  it('should recompute the points without each participant', () => {
+    const { median, influences } = analyzeSensitivity(GROUP, INDEX)
+    const withoutTokyo = geometricMedian([OSAKA, KYOTO])
+    expect(influences[0].medianWithout).toEqual(withoutTokyo)
+    expect(influences[0].medianShiftWithout).toBeCloseTo(haversineDistance(median, withoutTokyo), 9)
+    // The far-away participant matters most
+    expect(influences[0].centroidShiftWithout).toBeGreaterThan(influences[1].centroidShiftWithout)
+    expect(influences[0].stationWithout?.name).not.toBe('東京')
+  })
+
+  it('should recompute the points with each participant counted twice', () => {
+    const { influences } = analyzeSensitivity(GROUP, INDEX)
+    expect(influences[0].medianDoubled).toEqual(geometricMedian(GROUP, { weights: [2, 1, 1] }))
+    expect(influences[0].medianShiftDoubled).toBeGreaterThan(0)
+  })
+
+  it('should flag when the suggested station changes', () => {
+    // Kyoto wins for the three; counting Tokyo twice pulls the choice east
+    const { station, influences } = analyzeSensitivity(GROUP, INDEX)
+    expect(station?.name).toBe('京都')
+    for (const influence of influences) {
+      expect(influence.stationChangesWithout).toBe(influence.stationWithout?.name !== '京都')
+      expect(influence.stationChangesDoubled).toBe(influence.stationDoubled?.name !== '京都')
+    }
+    expect(influences[0].stationChangesDoubled).toBe(true)
+  })
+
+  it('should drop per-participant options along with the participant', () => {
+    const { influences } = analyzeSensitivity(GROUP, INDEX, {
+      weights: [1, 1, 5],
+      scales: [1, 1, 1],
+      alternatives: [[], [], []],
+    })
+    expect(influences[2].medianWithout).toEqual(geometricMedian([TOKYO, OSAKA]))
+  })
+
+  it('should search each variant with the given station selector', () => {
+    const calls: number[][] = []
+    const { station, influences } = analyzeSensitivity(GROUP, INDEX, {}, (points, indices) => {
+      calls.push(indices)
+      // Always the station of the first participant of the variant
+      return selectOptimalStation(points.slice(0, 1), INDEX)
+    })
+    expect(calls).toHaveLength(7)
+    expect(calls[0]).toEqual([0, 1, 2])
+    expect(calls).toContainEqual([1, 2])
+    expect(station?.name).toBe('東京')
+    expect(influences[0].stationWithout?.name).toBe('大阪')
+  })
+
+  it('should throw for fewer than 2 participants', () => {
+    expect(() => analyzeSensitivity([TOKYO], INDEX)).toThrow(
+      'Sensitivity analysis needs at least 2 participants'
+    )
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import type { LatLng } from '@/types'
+import { vincentyDistance } from '../geodesic'
+import { haversineDistance } from '../haversine'
+
+/** Degrees, minutes and seconds to decimal degrees */
+function dms(deg: number, min: number, sec: number): number {
+  const sign = deg < 0 ? -1 : 1
+  return sign * (Math.abs(deg) + min / 60 + sec / 3600)
+}
+
+// Vincenty's worked example (Geoscience Australia): Flinders Peak → Buninyong
+const FLINDERS_PEAK: LatLng = { lat: dms(-37, 57, 3.7203), lng: dms(144, 25, 29.5244) }
+const BUNINYONG: LatLng = { lat: dms(-37, 39, 10.1561), lng: dms(143, 55, 35.3839) }
+
+const TOKYO: LatLng = { lat: 35.6762, lng: 139.6503 }
+const SAPPORO: LatLng = { lat: 43.0618, lng: 141.3545 }
+
+describe('vincentyDistance', () => {
+  it('should return 0 for the same point', () => {
+    expect(vincentyDistance(TOKYO, TOKYO)).toBe(0)
+  })
+
+  it('should return 0 for the same pole with different longitudes', () => {
+    expect(vincentyDistance({ lat: 90, lng: 0 }, { lat: 90, lng: 120 })).toBeCloseTo(0, 9)
+  })
+
+  it('should match the published Flinders Peak–Buninyong geodesic (54 972.271 m)', () => {
+    expect(vincentyDistance(FLINDERS_PEAK, BUNINYONG) * 1000).toBeCloseTo(54_972.271, 2)
+  })
+
+  it('should match one degree of longitude on the equator (111 319.491 m)', () => {
+    const distance = vincentyDistance({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })
+    expect(distance * 1000).toBeCloseTo(111_319.491, 2)
+  })
+
+  it('should match the WGS84 meridian quadrant (10 001 965.729 m)', () => {
+    const distance = vincentyDistance({ lat: 0, lng: 0 }, { lat: 90, lng: 0 })
+    expect(distance * 1000).toBeCloseTo(10_001_965.729, 2)
+  })
+
+  it('should be symmetric', () => {
+    expect(vincentyDistance(TOKYO, SAPPORO)).toBeCloseTo(vincentyDistance(SAPPORO, TOKYO), 9)
+  })
+
+  it('should differ from the spherical distance by a fraction of a percent', () => {
+    const ellipsoidal = vincentyDistance(TOKYO, SAPPORO)
+    const spherical = haversineDistance(TOKYO, SAPPORO)
+    expect(ellipsoidal).not.toBeCloseTo(spherical, 0)
+    expect(Math.abs(ellipsoidal - spherical) / ellipsoidal).toBeLessThan(0.005)
+  })
+
+  it('should fall back gracefully for exactly antipodal points', () => {
+    // True geodesic: half a meridian, 20 003.931 km
+    const distance = vincentyDistance({ lat: 0, lng: 0 }, { lat: 0, lng: 180 })
+    expect(Math.abs(distance - 20_003.931) / 20_003.931).toBeLessThan(0.001)
+  })
+
+  it('should fall back gracefully for nearly antipodal points', () => {
+    const distance = vincentyDistance({ lat: 0, lng: 0 }, { lat: 0.5, lng: 179.7 })
+    expect(Number.isFinite(distance)).toBe(true)
+    expect(distance).toBeGreaterThan(19_900)
+    expect(distance).toBeLessThan(20_020)
+  })
+})
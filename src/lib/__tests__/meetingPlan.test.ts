@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { Location } from '@/types'
+import { buildShareText, formatClockTime, parseClockTime, planDepartures } from '../meetingPlan'
+
+const location = (label: string): Location => ({
+  id: label,
+  label,
+  latlng: { lat: 35, lng: 139 },
+})
+
+describe('parseClockTime', () => {
+  it('parses HH:MM and H:MM into minutes after midnight', () => {
+    expect(parseClockTime('18:30')).toBe(1110)
+    expect(parseClockTime('9:05')).toBe(545)
+    expect(parseClockTime('00:00')).toBe(0)
+  })
+
+  it('returns null for empty or out-of-range values', () => {
+    expect(parseClockTime('')).toBeNull()
+    expect(parseClockTime('24:00')).toBeNull()
+    expect(parseClockTime('12:60')).toBeNull()
+    expect(parseClockTime('1830')).toBeNull()
+  })
+})
+
+describe('formatClockTime', () => {
+  it('formats minutes after midnight as zero-padded HH:MM', () => {
+    expect(formatClockTime(545)).toBe('09:05')
+    expect(formatClockTime(1110)).toBe('18:30')
+  })
+
+  it('wraps times before midnight into the previous day', () => {
+    expect(formatClockTime(-30)).toBe('前日 23:30')
+  })
+
+  it('roundtrips with parseClockTime', () => {
+    for (const minutes of [0, 59, 600, 1439]) {
+      expect(parseClockTime(formatClockTime(minutes))).toBe(minutes)
+    }
+  })
+})
+
+describe('planDepartures', () => {
+  it('subtracts each travel time, rounded up, from the meeting time', () => {
+    expect(planDepartures(1110, [30.2, 45])).toEqual([
+      { index: 1, travelMinutes: 45, departure: 1065 },
+      { index: 0, travelMinutes: 31, departure: 1079 },
+    ])
+  })
+
+  it('keeps participant order for equal departures', () => {
+    expect(planDepartures(600, [20, 20]).map((d) => d.index)).toEqual([0, 1])
+  })
+
+  it('allows departures on the day before', () => {
+    expect(planDepartures(30, [90])[0].departure).toBe(-60)
+  })
+})
+
+describe('buildShareText', () => {
+  it('lists the meeting, everyone’s departure and the URL', () => {
+    const locations = [location('東京'), location('大宮')]
+    const text = buildShareText('https://example.com/?locations=x', {
+      stationName: '上野',
+      meetingTime: 1110,
+      locations,
+      departures: planDepartures(1110, [10, 25]),
+    })
+    expect(text).toBe(
+      [
+        '【集合】18:30 上野駅',
+        '・大宮: 18:05発（約25分）',
+        '・東京: 18:20発（約10分）',
+        'https://example.com/?locations=x',
+      ].join('\n')
+    )
+  })
+})
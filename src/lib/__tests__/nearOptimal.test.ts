@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import type { LatLng, StationWithCoords } from '@/types'
+import { totalDistance } from '../geo'
+import { haversineDistance } from '../haversine'
+import { nearOptimalRegion, selectNearOptimalStations } from '../nearOptimal'
+import { buildStationIndex } from '../spatialIndex'
+
+function station(
+  id: number,
+  name: string,
+  lat: number,
+  lng: number,
+  line: string | null = null
+): StationWithCoords {
+  return { id, name, line_name: line, operator: null, lat, lng }
+}
+
+// Two participants 0.2° apart; every point on the segment between them is optimal
+const WEST: LatLng = { lat: 35.0, lng: 139.0 }
+const EAST: LatLng = { lat: 35.0, lng: 139.2 }
+const PARTICIPANTS = [WEST, EAST]
+
+const INDEX = buildStationIndex([
+  station(1, '中間', 35.0, 139.1, 'A線'),
+  station(2, '中間', 35.0, 139.1003, 'B線'),
+  // About 3% above the best total
+  station(3, '北寄り', 35.02, 139.1),
+  // About 58% and 100% above it
+  station(4, '遠く', 35.1, 139.1),
+  station(5, '東の先', 35.0, 139.3),
+])
+
+describe('selectNearOptimalStations', () => {
+  it('should shortlist stations within the tolerance, grouped by name and ranked', () => {
+    const shortlist = selectNearOptimalStations(PARTICIPANTS, INDEX, { tolerance: 0.1 })
+    expect(shortlist?.stations.map((s) => s.name)).toEqual(['中間', '北寄り'])
+
+    const [best, second] = shortlist?.stations ?? []
+    expect([...best.lines].sort()).toEqual(['A線', 'B線'])
+    expect(best.excess).toBeCloseTo(0, 5)
+    expect(best.totalDistance).toBeCloseTo(haversineDistance(WEST, EAST), 4)
+    expect(best.spread).toBeLessThan(0.1)
+    expect(best.maxDistance).toBeCloseTo(haversineDistance(WEST, EAST) / 2, 1)
+    expect(second.excess).toBeGreaterThan(0.02)
+    expect(second.excess).toBeLessThan(0.04)
+  })
+
+  it('should keep only the best station at zero tolerance', () => {
+    const shortlist = selectNearOptimalStations(PARTICIPANTS, INDEX, { tolerance: 0 })
+    expect(shortlist?.stations.map((s) => s.name)).toEqual(['中間'])
+  })
+
+  it('should widen the shortlist with the tolerance and honour the limit', () => {
+    const wide = selectNearOptimalStations(PARTICIPANTS, INDEX, { tolerance: 1.5 })
+    expect(wide?.stations.map((s) => s.name)).toEqual(['中間', '北寄り', '遠く', '東の先'])
+    const limited = selectNearOptimalStations(PARTICIPANTS, INDEX, { tolerance: 1.5, limit: 2 })
+    expect(limited?.stations).toHaveLength(2)
+  })
+
+  it('should outline the region at the tolerance level', () => {
+    const shortlist = selectNearOptimalStations(PARTICIPANTS, INDEX, { tolerance: 0.1 })
+    const level = (shortlist?.bestTotal ?? 0) * 1.1
+    expect(shortlist?.region.length).toBeGreaterThan(0)
+    for (const point of shortlist?.region ?? []) {
+      expect(totalDistance(point, PARTICIPANTS)).toBeCloseTo(level, 2)
+    }
+  })
+
+  it('should reject a negative tolerance and return null for an empty index', () => {
+    expect(() => selectNearOptimalStations(PARTICIPANTS, INDEX, { tolerance: -0.1 })).toThrow(
+      'Tolerance must not be negative, got -0.1'
+    )
+    expect(selectNearOptimalStations(PARTICIPANTS, buildStationIndex([]))).toBeNull()
+  })
+})
+
+describe('nearOptimalRegion', () => {
+  it('should return no outline when the center is above the level', () => {
+    expect(nearOptimalRegion(PARTICIPANTS, { lat: 36.0, lng: 139.1 }, 20)).toEqual([])
+  })
+
+  it('should grow with the participants’ weights toward the heavier one', () => {
+    const center = { lat: 35.0, lng: 139.1 }
+    const level = 1.1 * totalDistance(center, PARTICIPANTS, [1, 3])
+    const region = nearOptimalRegion(PARTICIPANTS, center, level, { weights: [1, 3] })
+    // Traced clockwise from north, so east is a quarter of the way round and west three
+    const east = region[region.length / 4]
+    const west = region[(3 * region.length) / 4]
+    expect(haversineDistance(center, east)).toBeGreaterThan(haversineDistance(center, west))
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { createMinHeap } from '../priorityQueue'
+
+describe('createMinHeap', () => {
+  it('should return undefined when empty', () => {
+    const heap = createMinHeap<string>()
+    expect(heap.pop()).toBeUndefined()
+    expect(heap.size).toBe(0)
+  })
+
+  it('should pop items in ascending priority order', () => {
+    const heap = createMinHeap<string>()
+    const priorities = [5, 1, 4, 2, 3, 0, 9, 7]
+    for (const p of priorities) heap.push(`item${p}`, p)
+    expect(heap.size).toBe(priorities.length)
+
+    const popped: number[] = []
+    for (let entry = heap.pop(); entry; entry = heap.pop()) popped.push(entry.priority)
+    expect(popped).toEqual([...priorities].sort((a, b) => a - b))
+  })
+
+  it('should keep duplicate priorities', () => {
+    const heap = createMinHeap<number>()
+    heap.push(1, 2)
+    heap.push(2, 2)
+    heap.push(3, 1)
+    expect(heap.pop()).toEqual({ item: 3, priority: 1 })
+    expect([heap.pop()?.item, heap.pop()?.item].sort()).toEqual([1, 2])
+  })
+})
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { RailNetwork } from '@/types'
+import {
+  buildRailGraph,
+  loadRailGraph,
+  loadRailNetwork,
+  resetRailNetworkCache,
+} from '../railNetwork'
+
+const NETWORK: RailNetwork = {
+  tracks: [
+    [1, 2, 1300],
+    [2, 3, 1800],
+  ],
+  transfers: [[2, 4, 150]],
+}
+
+function respondWith(body: unknown) {
+  return vi.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(body) } as Response))
+}
+
+describe('loadRailNetwork', () => {
+  afterEach(() => {
+    resetRailNetworkCache()
+    vi.restoreAllMocks()
+  })
+
+  it('fetches and returns the network', async () => {
+    const fetchMock = respondWith(NETWORK)
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(loadRailNetwork()).resolves.toEqual(NETWORK)
+    expect(fetchMock).toHaveBeenCalledWith('/rail-network.json')
+  })
+
+  it('memoizes the result across calls', async () => {
+    const fetchMock = respondWith(NETWORK)
+    vi.stubGlobal('fetch', fetchMock)
+
+    await loadRailNetwork()
+    await loadRailNetwork()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('throws and resets cache on a failed response', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve({ ok: false, status: 404 } as Response))
+    )
+    await expect(loadRailNetwork()).rejects.toThrow('Failed to load rail network: 404')
+
+    vi.stubGlobal('fetch', respondWith(NETWORK))
+    await expect(loadRailNetwork()).resolves.toEqual(NETWORK)
+  })
+
+  it('rejects data that is not a rail network', async () => {
+    vi.stubGlobal('fetch', respondWith({ tracks: [[1, 2]], transfers: [] }))
+    await expect(loadRailNetwork()).rejects.toThrow('Invalid rail network data')
+
+    resetRailNetworkCache()
+    vi.stubGlobal('fetch', respondWith(null))
+    await expect(loadRailNetwork()).rejects.toThrow('Invalid rail network data')
+  })
+})
+
+describe('buildRailGraph', () => {
+  it('should link both directions of every track and transfer', () => {
+    const { adjacency } = buildRailGraph(NETWORK)
+    expect(adjacency.get(2)).toEqual([
+      { to: 1, meters: 1300 },
+      { to: 3, meters: 1800 },
+      { to: 4, meters: 150 },
+    ])
+    expect(adjacency.get(4)).toEqual([{ to: 2, meters: 150 }])
+    expect(adjacency.has(5)).toBe(false)
+  })
+})
+
+describe('loadRailGraph', () => {
+  afterEach(() => {
+    resetRailNetworkCache()
+    vi.restoreAllMocks()
+  })
+
+  it('builds the graph once from the loaded network', async () => {
+    const fetchMock = respondWith(NETWORK)
+    vi.stubGlobal('fetch', fetchMock)
+
+    const first = await loadRailGraph()
+    const second = await loadRailGraph()
+    expect(first).toBe(second)
+    expect(first.adjacency.get(1)).toEqual([{ to: 2, meters: 1300 }])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries after a failed load', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve({ ok: false, status: 404 } as Response))
+    )
+    await expect(loadRailGraph()).rejects.toThrow('Failed to load rail network: 404')
+
+    vi.stubGlobal('fetch', respondWith(NETWORK))
+    await expect(loadRailGraph()).resolves.toHaveProperty('adjacency')
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import type { StationWithCoords } from '@/types'
+import { buildRailGraph } from '../railNetwork'
+import { selectNetworkStation, shortestRailDistances } from '../railRouting'
+import { buildStationIndex } from '../spatialIndex'
+
+const station = (id: number, name: string, lat: number, lng: number): StationWithCoords => ({
+  id,
+  name,
+  line_name: '本線',
+  operator: 'テスト鉄道',
+  lat,
+  lng,
+})
+
+// A bay between 西岸 and 東岸: the straight line crosses water, the rails go around via 湾奥.
+// 岬 sits right in the middle of the bay but only has a long spur from 西岸.
+const STATIONS: StationWithCoords[] = [
+  station(1, '西岸', 35.0, 139.0),
+  station(2, '湾奥', 35.1, 139.1),
+  station(3, '東岸', 35.0, 139.2),
+  station(4, '岬', 35.0, 139.1),
+  station(5, '東岸', 35.0005, 139.2005),
+]
+
+const GRAPH = buildRailGraph({
+  tracks: [
+    [1, 2, 14000],
+    [2, 3, 14000],
+    [1, 4, 50000],
+  ],
+  transfers: [[3, 5, 100]],
+})
+
+const INDEX = buildStationIndex(STATIONS)
+
+describe('shortestRailDistances', () => {
+  it('should find shortest distances from a single source', () => {
+    const reached = shortestRailDistances(GRAPH, [{ station: 1, meters: 0 }])
+    expect(reached.get(2)?.meters).toBe(14000)
+    expect(reached.get(3)?.meters).toBe(28000)
+    expect(reached.get(5)?.meters).toBe(28100)
+    expect(reached.get(4)?.meters).toBe(50000)
+  })
+
+  it('should start each source at its own initial cost and remember where paths began', () => {
+    const reached = shortestRailDistances(GRAPH, [
+      { station: 1, meters: 500 },
+      { station: 3, meters: 2000 },
+    ])
+    expect(reached.get(2)).toEqual({ meters: 14500, source: 1 })
+    expect(reached.get(5)).toEqual({ meters: 2100, source: 3 })
+  })
+
+  it('should reach isolated sources at their initial cost only', () => {
+    const reached = shortestRailDistances(GRAPH, [{ station: 99, meters: 300 }])
+    expect([...reached]).toEqual([[99, { meters: 300, source: 99 }]])
+  })
+})
+
+describe('selectNetworkStation', () => {
+  const WEST = { lat: 35.0, lng: 139.0 }
+  const EAST = { lat: 35.0, lng: 139.2 }
+  const NORTH = { lat: 35.1, lng: 139.1 }
+
+  it('should return null without participants', () => {
+    expect(selectNetworkStation([], GRAPH, INDEX)).toBeNull()
+  })
+
+  it('should avoid a station that is close in a straight line but far by rail', () => {
+    const result = selectNetworkStation([WEST, EAST, NORTH], GRAPH, INDEX, { objective: 'max' })
+    expect(result?.station.name).toBe('湾奥')
+    expect(result?.score).toBeCloseTo(14, 3)
+  })
+
+  it('should report each participant journey as walk + ride', () => {
+    // 0.005° north of 西岸 is about 556 m away
+    const nearWest = { lat: 35.005, lng: 139.0 }
+    const result = selectNetworkStation([nearWest, EAST, NORTH], GRAPH, INDEX)
+    expect(result?.station.name).toBe('湾奥')
+
+    const [west, east, north] = result?.journeys ?? []
+    expect(west.accessStation.name).toBe('西岸')
+    expect(west.walkDistance).toBeCloseTo(0.556, 2)
+    expect(west.railDistance).toBeCloseTo(14, 6)
+    expect(west.totalDistance).toBeCloseTo(west.walkDistance + 14, 6)
+    expect(east.accessStation.id).toBe(3)
+    expect(north.totalDistance).toBeCloseTo(0, 6)
+    expect(result?.totalDistance).toBeCloseTo(west.totalDistance + east.totalDistance, 6)
+    expect(west.accessStation).not.toHaveProperty('distance_meters')
+  })
+
+  it('should weight participants', () => {
+    const result = selectNetworkStation([WEST, EAST], GRAPH, INDEX, { weights: [3, 1] })
+    expect(result?.station.name).toBe('西岸')
+    expect(result?.totalDistance).toBeCloseTo(28, 3)
+  })
+
+  it('should count the stations every participant can reach', () => {
+    const result = selectNetworkStation([WEST, EAST], GRAPH, INDEX)
+    expect(result?.candidatesEvaluated).toBe(STATIONS.length)
+  })
+})
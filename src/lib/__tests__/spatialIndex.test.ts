@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import type { DistanceMetric, LatLng, StationWithCoords } from '@/types'
+import { getDistanceFunction } from '../distance'
+import { buildStationIndex } from '../spatialIndex'
+import { findNearbyStations } from '../stationData'
+
+/** Deterministic pseudo-random generator (LCG) so failures are reproducible */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32
+    return state / 2 ** 32
+  }
+}
+
+const random = createRandom(42)
+
+/** Random point inside a bounding box roughly covering Japan */
+function randomPoint(): LatLng {
+  return { lat: 24 + random() * 22, lng: 123 + random() * 23 }
+}
+
+// Synthetic dataset: scattered stations plus a dense cluster and duplicated coordinates
+const STATIONS: StationWithCoords[] = [
+  ...Array.from({ length: 1500 }, (_, i) => ({ ...randomPoint(), i })),
+  ...Array.from({ length: 300 }, (_, i) => ({
+    lat: 35.68 + (random() - 0.5) * 0.05,
+    lng: 139.76 + (random() - 0.5) * 0.05,
+    i: 1500 + i,
+  })),
+  { lat: 35.6812, lng: 139.7671, i: 1800 },
+  { lat: 35.6812, lng: 139.7671, i: 1801 },
+].map(({ lat, lng, i }) => ({
+  id: i + 1,
+  name: `駅${i}`,
+  line_name: null,
+  operator: null,
+  lat,
+  lng,
+}))
+
+const QUERIES: LatLng[] = [
+  ...Array.from({ length: 40 }, randomPoint),
+  { lat: 35.6812, lng: 139.7671 },
+  { lat: 35.68, lng: 139.76 },
+  // Far outside the dataset
+  { lat: -33.87, lng: 151.21 },
+]
+
+const METRICS: DistanceMetric[] = ['haversine', 'vincenty']
+
+describe('buildStationIndex', () => {
+  const index = buildStationIndex(STATIONS)
+
+  describe('nearest', () => {
+    for (const metric of METRICS) {
+      it(`should match the brute-force scan exactly (${metric})`, () => {
+        for (const query of QUERIES) {
+          for (const k of [1, 3, 20]) {
+            expect(index.nearest(query, k, metric)).toEqual(
+              findNearbyStations(query, STATIONS, k, metric)
+            )
+          }
+        }
+      })
+    }
+
+    it('should keep dataset order for stations at the same coordinates', () => {
+      const [first, second] = index.nearest({ lat: 35.6812, lng: 139.7671 }, 2)
+      expect(first.id).toBe(1801)
+      expect(second.id).toBe(1802)
+    })
+
+    it('should return every station when k exceeds the dataset', () => {
+      const small = buildStationIndex(STATIONS.slice(0, 5))
+      const result = small.nearest({ lat: 35, lng: 135 }, 10)
+      expect(result).toEqual(findNearbyStations({ lat: 35, lng: 135 }, STATIONS.slice(0, 5), 10))
+    })
+
+    it('should return nothing for an empty index or k = 0', () => {
+      expect(buildStationIndex([]).nearest({ lat: 35, lng: 135 }, 3)).toEqual([])
+      expect(index.nearest({ lat: 35, lng: 135 }, 0)).toEqual([])
+    })
+  })
+
+  describe('withinRadius', () => {
+    for (const metric of METRICS) {
+      it(`should match the filtered brute-force scan exactly (${metric})`, () => {
+        const distance = getDistanceFunction(metric)
+        for (const query of QUERIES) {
+          for (const radiusKm of [0.5, 5, 150]) {
+            const expected = findNearbyStations(query, STATIONS, STATIONS.length, metric).filter(
+              (s) => distance(query, s) <= radiusKm
+            )
+            expect(index.withinRadius(query, radiusKm, metric)).toEqual(expected)
+          }
+        }
+      })
+    }
+
+    it('should include stations exactly at the query point for a zero radius', () => {
+      const result = index.withinRadius({ lat: 35.6812, lng: 139.7671 }, 0)
+      expect(result.map((s) => s.id)).toEqual([1801, 1802])
+    })
+
+    it('should return nothing for a negative radius', () => {
+      expect(index.withinRadius({ lat: 35, lng: 135 }, -1)).toEqual([])
+    })
+  })
+
+  it('should expose the stations in dataset order', () => {
+    expect(index.stations).toBe(STATIONS)
+  })
+})
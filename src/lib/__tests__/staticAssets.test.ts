@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { isJsonAssetAvailable, resetAssetProbes } from '../staticAssets'
+
+function respondWith(status: number, contentType: string) {
+  return vi.fn(() =>
+    Promise.resolve(new Response(null, { status, headers: { 'content-type': contentType } }))
+  )
+}
+
+describe('isJsonAssetAvailable', () => {
+  beforeEach(() => resetAssetProbes())
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('should report a deployed JSON asset, asking for the headers only', async () => {
+    const fetchMock = respondWith(200, 'application/json')
+    vi.stubGlobal('fetch', fetchMock)
+    expect(await isJsonAssetAvailable('/rail-network.json')).toBe(true)
+    expect(fetchMock).toHaveBeenCalledWith('/rail-network.json', { method: 'HEAD' })
+  })
+
+  it('should treat the HTML fallback page as missing', async () => {
+    vi.stubGlobal('fetch', respondWith(200, 'text/html; charset=utf-8'))
+    expect(await isJsonAssetAvailable('/rail-network.json')).toBe(false)
+  })
+
+  it('should treat error statuses and network failures as missing', async () => {
+    vi.stubGlobal('fetch', respondWith(404, 'application/json'))
+    expect(await isJsonAssetAvailable('/a.json')).toBe(false)
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.reject(new TypeError('Failed to fetch')))
+    )
+    expect(await isJsonAssetAvailable('/b.json')).toBe(false)
+  })
+
+  it('should probe each URL once', async () => {
+    const fetchMock = respondWith(200, 'application/json')
+    vi.stubGlobal('fetch', fetchMock)
+    await Promise.all([isJsonAssetAvailable('/a.json'), isJsonAssetAvailable('/a.json')])
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
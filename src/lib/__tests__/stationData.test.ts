@@ -1,6 +1,13 @@
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import type { StationWithCoords } from '@/types'
-import { findNearbyStations, loadStations, resetStationCache, searchStations } from '../stationData'
+import { vincentyDistance } from '../geodesic'
+import {
+  findNearbyStations,
+  loadStationIndex,
+  loadStations,
+  resetStationCache,
+  searchStations,
+} from '../stationData'
 
 const STATIONS: StationWithCoords[] = [
   { id: 1, name: '東京', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6812, lng: 139.7671 },
@@ -69,6 +76,15 @@ describe('findNearbyStations', () => {
     const result = findNearbyStations({ lat: 35.6812, lng: 139.7671 }, STATIONS, 99)
     expect(result).toHaveLength(STATIONS.length)
   })
+
+  it('measures distances with the requested metric', () => {
+    const point = { lat: 35.6812, lng: 139.7671 }
+    const [, shinjuku] = findNearbyStations(point, STATIONS, 4, 'vincenty')
+    expect(shinjuku.distance_meters).toBeCloseTo(
+      vincentyDistance(point, { lat: shinjuku.lat, lng: shinjuku.lng }) * 1000,
+      6
+    )
+  })
 })
 
 describe('loadStations', () => {
@@ -113,3 +129,39 @@ describe('loadStations', () => {
     await expect(loadStations()).resolves.toEqual(STATIONS)
   })
 })
+
+describe('loadStationIndex', () => {
+  afterEach(() => {
+    resetStationCache()
+    vi.restoreAllMocks()
+  })
+
+  it('builds the index once from the loaded dataset', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve({ ok: true, json: () => Promise.resolve(STATIONS) } as Response)
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const first = await loadStationIndex()
+    const second = await loadStationIndex()
+    expect(second).toBe(first)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(first.nearest({ lat: 35.6812, lng: 139.7671 }, 2)).toEqual(
+      findNearbyStations({ lat: 35.6812, lng: 139.7671 }, STATIONS, 2)
+    )
+  })
+
+  it('retries after a failed load', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve({ ok: false, status: 500 } as Response))
+    )
+    await expect(loadStationIndex()).rejects.toThrow('Failed to load station data: 500')
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(STATIONS) } as Response))
+    )
+    await expect(loadStationIndex()).resolves.toHaveProperty('stations', STATIONS)
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from 'vitest'
+import { buildStationIndex } from '@/lib/spatialIndex'
+import { loadStationIndex, loadStations } from '@/lib/stationData'
+import type { StationWithCoords } from '@/types'
+import {
+  createInlineStationService,
+  createWorkerStationService,
+  type StationWorkerLike,
+} from '../stationService'
+import {
+  createStationTaskHost,
+  runStationTask,
+  type StationTaskType,
+  type StationWorkerRequest,
+  type StationWorkerResponse,
+} from '../stationTasks'
+
+const TEST_STATIONS: StationWithCoords[] = [
+  { id: 1, name: '東京', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6812, lng: 139.7671 },
+  { id: 2, name: '新宿', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6896, lng: 139.7006 },
+  { id: 3, name: '新橋', line_name: 'JR山手線', operator: 'JR東日本', lat: 35.6663, lng: 139.7583 },
+]
+
+vi.mock('@/lib/stationData', async (importActual) => {
+  const actual = await importActual<typeof import('@/lib/stationData')>()
+  return {
+    ...actual,
+    loadStations: vi.fn(() => Promise.resolve(TEST_STATIONS)),
+    loadStationIndex: vi.fn(() => Promise.resolve(buildStationIndex(TEST_STATIONS))),
+  }
+})
+
+/**
+ * In-memory stand-in for a Web Worker: messages go through the real task host,
+ * asynchronously in both directions like `postMessage`.
+ */
+function createFakeWorker() {
+  const received: StationWorkerRequest[] = []
+  const posted: StationWorkerResponse[] = []
+  const worker: StationWorkerLike = {
+    onmessage: null,
+    onerror: null,
+    postMessage(message) {
+      received.push(message)
+      setTimeout(() => handle(message), 0)
+    },
+    terminate: vi.fn(),
+  }
+  const handle = createStationTaskHost((response) => {
+    posted.push(response)
+    setTimeout(() => worker.onmessage?.({ data: response } as MessageEvent<StationWorkerResponse>))
+  })
+  return { worker, received, posted }
+}
+
+describe('runStationTask', () => {
+  it('should search station names', async () => {
+    const found = await runStationTask('search', { query: '新' })
+    expect(found.map((s) => s.name)).toEqual(['新宿', '新橋'])
+  })
+
+  it('should find the nearest stations through the spatial index', async () => {
+    const nearby = await runStationTask('nearby', { point: { lat: 35.68, lng: 139.767 }, limit: 2 })
+    expect(nearby.map((s) => s.name)).toEqual(['東京', '新橋'])
+  })
+
+  it('should reject an already aborted request', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await expect(runStationTask('stations', {}, controller.signal)).rejects.toThrow()
+  })
+
+  it('should reject unknown task types', async () => {
+    await expect(runStationTask('teleport' as StationTaskType, {} as never)).rejects.toThrow(
+      'Unknown station task: teleport'
+    )
+  })
+})
+
+describe('createStationTaskHost', () => {
+  it('should not start the computation of a task cancelled while queued', async () => {
+    const index = buildStationIndex(TEST_STATIONS)
+    const nearest = vi.spyOn(index, 'nearest')
+    vi.mocked(loadStationIndex).mockResolvedValueOnce(index)
+    const posted: StationWorkerResponse[] = []
+    const handle = createStationTaskHost((response) => posted.push(response))
+
+    handle({ kind: 'run', id: 1, type: 'nearby', params: { point: TEST_STATIONS[0], limit: 1 } })
+    // The cancel is a separate message, delivered after the dataset promise settles
+    setTimeout(() => handle({ kind: 'cancel', id: 1 }), 0)
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(nearest).not.toHaveBeenCalled()
+    expect(posted).toEqual([])
+  })
+})
+
+describe('createInlineStationService', () => {
+  it('should run tasks on the calling thread', async () => {
+    const service = createInlineStationService()
+    const points = await service.run('meetingPoints', {
+      points: [
+        { lat: 35, lng: 139 },
+        { lat: 36, lng: 140 },
+      ],
+    })
+    expect(points.geometricMedian.lat).toBeCloseTo(35.5, 5)
+    expect(points.centroid).toEqual({ lat: 35.5, lng: 139.5 })
+  })
+})
+
+describe('createWorkerStationService', () => {
+  it('should resolve results posted by the worker', async () => {
+    const { worker } = createFakeWorker()
+    const service = createWorkerStationService(worker)
+    const suggestion = await service.run('minimaxStation', {
+      participants: [
+        { lat: 35.69, lng: 139.7 },
+        { lat: 35.69, lng: 139.71 },
+      ],
+      candidates: TEST_STATIONS,
+    })
+    expect(suggestion?.station.name).toBe('新宿')
+  })
+
+  it('should keep concurrent requests apart', async () => {
+    const { worker } = createFakeWorker()
+    const service = createWorkerStationService(worker)
+    const [tokyo, shinjuku] = await Promise.all([
+      service.run('search', { query: '東京' }),
+      service.run('search', { query: '新宿' }),
+    ])
+    expect(tokyo.map((s) => s.id)).toEqual([1])
+    expect(shinjuku.map((s) => s.id)).toEqual([2])
+  })
+
+  it('should surface task failures as errors', async () => {
+    const { worker } = createFakeWorker()
+    const service = createWorkerStationService(worker)
+    await expect(
+      service.run('clusters', { points: [{ lat: 35, lng: 139 }], count: 0 })
+    ).rejects.toThrow('Cluster count must be a positive integer, got 0')
+  })
+
+  it('should cancel a stale request in the worker', async () => {
+    const { worker, received, posted } = createFakeWorker()
+    const service = createWorkerStationService(worker)
+    const controller = new AbortController()
+    // A slow dataset load keeps the task in flight when the cancel message arrives
+    vi.mocked(loadStations).mockReturnValueOnce(
+      new Promise((resolve) => setTimeout(() => resolve(TEST_STATIONS), 5))
+    )
+
+    const stale = service.run('search', { query: '東京' }, controller.signal)
+    controller.abort()
+
+    await expect(stale).rejects.toThrow()
+    expect(received.map((m) => m.kind)).toEqual(['run', 'cancel'])
+    // Give the host time to run; the cancelled task must not post a result
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(posted).toEqual([])
+  })
+
+  it('should not post anything for a request aborted up front', async () => {
+    const { worker, received } = createFakeWorker()
+    const service = createWorkerStationService(worker)
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(service.run('stations', {}, controller.signal)).rejects.toThrow()
+    expect(received).toEqual([])
+  })
+
+  it('should reject pending requests when the worker crashes', async () => {
+    const worker: StationWorkerLike = {
+      onmessage: null,
+      onerror: null,
+      postMessage: vi.fn(),
+      terminate: vi.fn(),
+    }
+    const service = createWorkerStationService(worker)
+    const request = service.run('stations', {})
+    worker.onerror?.({ message: 'boom' } as ErrorEvent)
+    await expect(request).rejects.toThrow('boom')
+  })
+
+  it('should terminate the worker and reject pending requests on dispose', async () => {
+    const { worker } = createFakeWorker()
+    const service = createWorkerStationService(worker)
+    const request = service.run('stations', {})
+    service.dispose()
+    await expect(request).rejects.toThrow('Station service was disposed')
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+})
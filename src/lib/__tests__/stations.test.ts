@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
-import type { NearbyStation } from '@/types'
-import { groupStationsByName } from '../stations'
+import type { NearbyStation, StationWithCoords } from '@/types'
+import { groupStationsByName, stationOriginFor, stationOriginFromRows } from '../stations'
 
 /** Build a NearbyStation with sensible defaults */
 function makeStation(overrides: Partial<NearbyStation>): NearbyStation {
@@ -39,6 +39,7 @@ describe('groupStationsByName', () => {
       lng: 139.7016,
       distance_meters: 120,
       lines: ['JR山手線'],
+      lineKeys: ['Op::JR山手線'],
     })
   })
 
@@ -137,3 +138,55 @@ describe('groupStationsByName', () => {
     expect(result[1].lines).toEqual([])
   })
 })
+
+describe('stationOriginFor', () => {
+  const row = (id: number, name: string, line: string | null, lat: number): StationWithCoords => ({
+    id,
+    name,
+    line_name: line,
+    operator: null,
+    lat,
+    lng: 139.0,
+  })
+
+  it('should gather the lines of the same station from the candidates', () => {
+    const picked = row(2, '新宿', '京王線', 35.69)
+    const candidates = [
+      row(1, '新宿', 'JR山手線', 35.691),
+      picked,
+      row(3, '新宿三丁目', '丸ノ内線', 35.69),
+    ]
+    expect(stationOriginFor(picked, candidates)).toEqual({
+      stationIds: [2, 1],
+      name: '新宿',
+      lines: ['京王線', 'JR山手線'],
+      lineKeys: ['::京王線', '::JR山手線'],
+    })
+  })
+
+  it('should leave distant namesakes out', () => {
+    const picked = row(1, '府中', '京王線', 35.67)
+    expect(stationOriginFor(picked, [picked, row(2, '府中', '福塩線', 34.57)]).stationIds).toEqual([
+      1,
+    ])
+  })
+
+  it('should skip missing and duplicate line names', () => {
+    const origin = stationOriginFromRows([
+      row(1, 'X', null, 35),
+      row(2, 'X', 'A', 35),
+      row(3, 'X', 'A', 35),
+    ])
+    expect(origin.lines).toEqual(['A'])
+    expect(origin.lineKeys).toEqual(['::A'])
+  })
+
+  it('should keep the keys of namesake lines run by different operators apart', () => {
+    const origin = stationOriginFromRows([
+      { ...row(1, 'X', '本線', 35), operator: '京成電鉄' },
+      { ...row(2, 'X', '本線', 35), operator: '京浜急行電鉄' },
+    ])
+    expect(origin.lines).toEqual(['本線'])
+    expect(origin.lineKeys).toEqual(['京成電鉄::本線', '京浜急行電鉄::本線'])
+  })
+})
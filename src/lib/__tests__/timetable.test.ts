@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { StationWithCoords, Timetable } from '@/types'
+import { buildStationIndex } from '../spatialIndex'
+import {
+  buildTimetableGraph,
+  earliestArrivals,
+  loadTimetable,
+  loadTimetableGraph,
+  rankTimetableStations,
+  resetTimetableCache,
+} from '../timetable'
+
+const station = (id: number, name: string, lat: number, lng: number): StationWithCoords => ({
+  id,
+  name,
+  line_name: id === 4 || id === 5 ? '支線' : '本線',
+  operator: 'テスト鉄道',
+  lat,
+  lng,
+})
+
+// 本線 runs 西→中央→東 with an express from 中央 to 東; 支線 runs between 北 and the
+// other 中央 platform, a 3-minute walk away
+const STATIONS: StationWithCoords[] = [
+  station(1, '西', 35.0, 139.0),
+  station(2, '中央', 35.0, 139.1),
+  station(3, '東', 35.0, 139.2),
+  station(4, '中央', 35.0005, 139.1005),
+  station(5, '北', 35.1, 139.1),
+]
+
+const time = (h: number, m: number) => h * 3600 + m * 60
+
+const TIMETABLE: Timetable = {
+  connections: [
+    [5, 4, time(8, 5), time(8, 18), 5],
+    [1, 2, time(8, 0), time(8, 10), 0],
+    [2, 3, time(8, 11), time(8, 20), 0],
+    [2, 3, time(8, 11), time(8, 15), 4],
+    [4, 5, time(8, 12), time(8, 25), 2],
+    [1, 2, time(8, 30), time(8, 40), 1],
+    [2, 3, time(8, 41), time(8, 50), 1],
+    [4, 5, time(8, 42), time(8, 55), 3],
+  ].sort((a, b) => a[2] - b[2]) as Timetable['connections'],
+  transfers: [
+    [2, 2, 120],
+    [2, 4, 180],
+    [4, 2, 180],
+  ],
+}
+
+const GRAPH = buildTimetableGraph(TIMETABLE)
+const INDEX = buildStationIndex(STATIONS)
+
+function respondWith(body: unknown) {
+  return vi.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(body) } as Response))
+}
+
+describe('loadTimetable', () => {
+  afterEach(() => {
+    resetTimetableCache()
+    vi.restoreAllMocks()
+  })
+
+  it('fetches and returns the timetable', async () => {
+    const fetchMock = respondWith(TIMETABLE)
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(loadTimetable()).resolves.toEqual(TIMETABLE)
+    expect(fetchMock).toHaveBeenCalledWith('/timetable.json')
+  })
+
+  it('memoizes the timetable and its graph across calls', async () => {
+    const fetchMock = respondWith(TIMETABLE)
+    vi.stubGlobal('fetch', fetchMock)
+
+    const graph = await loadTimetableGraph()
+    expect(await loadTimetableGraph()).toBe(graph)
+    await loadTimetable()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('throws and resets cache on a failed response', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve({ ok: false, status: 404 } as Response))
+    )
+    await expect(loadTimetable()).rejects.toThrow('Failed to load timetable: 404')
+
+    vi.stubGlobal('fetch', respondWith(TIMETABLE))
+    await expect(loadTimetable()).resolves.toEqual(TIMETABLE)
+  })
+
+  it('rejects data that is not a timetable', async () => {
+    vi.stubGlobal('fetch', respondWith({ connections: [[1, 2, 0, 60]], transfers: [] }))
+    await expect(loadTimetable()).rejects.toThrow('Invalid timetable data')
+  })
+})
+
+describe('buildTimetableGraph', () => {
+  it('splits transfers into footpaths and change times', () => {
+    expect(GRAPH.changeSeconds).toEqual(new Map([[2, 120]]))
+    expect(GRAPH.footpaths.get(2)).toEqual([{ to: 4, seconds: 180 }])
+    expect(GRAPH.footpaths.get(4)).toEqual([{ to: 2, seconds: 180 }])
+  })
+})
+
+describe('earliestArrivals', () => {
+  it('rides trips onward and walks to nearby stations', () => {
+    const arrivals = earliestArrivals(GRAPH, [{ station: 1, time: time(8, 0) }])
+    expect(arrivals.get(1)).toBe(time(8, 0))
+    expect(arrivals.get(2)).toBe(time(8, 10))
+    expect(arrivals.get(4)).toBe(time(8, 13))
+    // The 8:12 支線 train leaves before the walk is over, so the 8:42 is the first one
+    expect(arrivals.get(5)).toBe(time(8, 55))
+  })
+
+  it('needs the change time to board another train, but not to stay on board', () => {
+    const arrivals = earliestArrivals(GRAPH, [{ station: 1, time: time(8, 0) }])
+    // The 8:11 express leaves within the 2-minute change time at 中央
+    expect(arrivals.get(3)).toBe(time(8, 20))
+
+    const noChangeTime = buildTimetableGraph({ ...TIMETABLE, transfers: [] })
+    expect(earliestArrivals(noChangeTime, [{ station: 1, time: time(8, 0) }]).get(3)).toBe(
+      time(8, 15)
+    )
+  })
+
+  it('boards at a source without a change time', () => {
+    const arrivals = earliestArrivals(GRAPH, [{ station: 2, time: time(8, 11) }])
+    expect(arrivals.get(3)).toBe(time(8, 15))
+  })
+
+  it('only reaches the sources after the last departure', () => {
+    const arrivals = earliestArrivals(GRAPH, [{ station: 1, time: time(9, 0) }])
+    expect([...arrivals.keys()]).toEqual([1])
+  })
+})
+
+describe('rankTimetableStations', () => {
+  const participants = [STATIONS[0], STATIONS[4]]
+
+  it('ranks stations everyone can reach by total journey time', () => {
+    const ranked = rankTimetableStations(participants, GRAPH, INDEX, { departure: time(8, 0) })
+    // 西 is skipped: nothing runs from 北 to it
+    expect(ranked.map((c) => c.station.name)).toEqual(['中央', '北', '東'])
+    // Both 中央 platforms are one candidate, reached by whichever is earlier
+    expect(ranked[0].station.id).toBe(2)
+    expect(ranked[0].minutes).toEqual([10, 18])
+    expect(ranked[0].score).toBe(28)
+    expect(ranked[2].minutes).toEqual([20, 50])
+  })
+
+  it('ranks by the longest journey with the maxTime objective', () => {
+    const ranked = rankTimetableStations(participants, GRAPH, INDEX, {
+      departure: time(8, 0),
+      objective: 'maxTime',
+    })
+    expect(ranked.map((c) => [c.station.name, c.score])).toEqual([
+      ['中央', 18],
+      ['東', 50],
+      ['北', 55],
+    ])
+  })
+
+  it('counts the walk to the boarding station', () => {
+    const nearWest = { lat: 35.0, lng: 139.005 }
+    const [best] = rankTimetableStations([nearWest], GRAPH, INDEX, { departure: time(7, 50) })
+    expect(best.station.name).toBe('西')
+    expect(best.minutes[0]).toBeGreaterThan(5)
+  })
+
+  it('returns at most `limit` candidates', () => {
+    expect(
+      rankTimetableStations(participants, GRAPH, INDEX, { departure: time(8, 0), limit: 1 })
+    ).toHaveLength(1)
+  })
+
+  it('returns an empty ranking without participants', () => {
+    expect(rankTimetableStations([], GRAPH, INDEX, { departure: time(8, 0) })).toEqual([])
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { StationWithCoords } from '@/types'
+import { buildStationIndex } from '../spatialIndex'
+import { buildLineGraph, selectTransferStation, transfersFromLines } from '../transfers'
+
+let nextId = 1
+const station = (
+  name: string,
+  line: string,
+  operator: string,
+  lat: number,
+  lng: number
+): StationWithCoords => ({ id: nextId++, name, line_name: line, operator, lat, lng })
+
+const STATIONS: StationWithCoords[] = [
+  station('東京', '山手線', '東日本旅客鉄道', 35.6812, 139.7671),
+  station('神田', '山手線', '東日本旅客鉄道', 35.6918, 139.7709),
+  station('新宿', '山手線', '東日本旅客鉄道', 35.6896, 139.7006),
+  station('東京', '丸ノ内線', '東京地下鉄', 35.6813, 139.766),
+  station('新宿三丁目', '丸ノ内線', '東京地下鉄', 35.6905, 139.7049),
+  station('新宿', '丸ノ内線', '東京地下鉄', 35.6909, 139.7003),
+  station('新宿', '京王線', '京王電鉄', 35.6902, 139.6993),
+  station('調布', '京王線', '京王電鉄', 35.652, 139.544),
+  station('府中', '京王線', '京王電鉄', 35.672, 139.48),
+  // Namesake far away on another operator's "本線": not an interchange with 京王線
+  station('府中', '本線', '西日本旅客鉄道', 34.57, 133.24),
+  station('新市', '本線', '西日本旅客鉄道', 34.56, 133.27),
+]
+
+const lineOf = (graph: ReturnType<typeof buildLineGraph>, name: string) => graph.lines.indexOf(name)
+
+describe('buildLineGraph', () => {
+  const graph = buildLineGraph(STATIONS)
+
+  it('should create one node per line', () => {
+    expect(graph.lines).toEqual(['山手線', '丸ノ内線', '京王線', '本線'])
+  })
+
+  it('should merge nearby same-name rows into one station', () => {
+    expect(graph.groupOf.get(1)).toBe(graph.groupOf.get(4))
+    const shinjuku = graph.groups[graph.groupOf.get(3) as number]
+    expect(shinjuku.lines).toHaveLength(3)
+  })
+
+  it('should keep distant namesakes apart', () => {
+    expect(graph.groupOf.get(9)).not.toBe(graph.groupOf.get(10))
+  })
+
+  it('should connect lines that share a station', () => {
+    const yamanote = lineOf(graph, '山手線')
+    expect(graph.adjacency[yamanote].map((l) => graph.lines[l]).sort()).toEqual(
+      ['丸ノ内線', '京王線'].sort()
+    )
+    expect(graph.adjacency[lineOf(graph, '本線')]).toEqual([])
+  })
+})
+
+describe('transfersFromLines', () => {
+  const graph = buildLineGraph(STATIONS)
+
+  it('should count changes of trains by BFS', () => {
+    const counts = transfersFromLines(graph, [lineOf(graph, '京王線')])
+    expect(counts).toEqual([1, 1, 0, Number.POSITIVE_INFINITY])
+  })
+
+  it('should start from every given line', () => {
+    const counts = transfersFromLines(graph, [lineOf(graph, '京王線'), lineOf(graph, '本線')])
+    expect(counts[lineOf(graph, '本線')]).toBe(0)
+  })
+})
+
+describe('selectTransferStation', () => {
+  const index = buildStationIndex(STATIONS)
+  const NEAR_CHOFU = { lat: 35.653, lng: 139.545 }
+  const NEAR_KANDA = { lat: 35.692, lng: 139.771 }
+  const NEAR_TOKYO = { lat: 35.681, lng: 139.767 }
+
+  it('should return null without participants', () => {
+    expect(selectTransferStation([], index)).toBeNull()
+  })
+
+  it('should prefer a station everyone reaches without changing trains', () => {
+    const result = selectTransferStation([NEAR_CHOFU, NEAR_KANDA], index)
+    expect(result?.station.name).toBe('新宿')
+    expect(result?.transfers).toEqual([0, 0])
+    expect(result?.lines.sort()).toEqual(['丸ノ内線', '京王線', '山手線'].sort())
+    expect(result?.origins.map((o) => o.name)).toEqual(['調布', '神田'])
+  })
+
+  it('should break ties on transfers by distance', () => {
+    const result = selectTransferStation([NEAR_KANDA, NEAR_KANDA, NEAR_TOKYO], index)
+    expect(result?.station.name).toBe('神田')
+    expect(result?.transfers).toEqual([0, 0, 0])
+  })
+
+  it('should skip stations someone cannot reach by rail', () => {
+    const result = selectTransferStation([NEAR_CHOFU, NEAR_KANDA], index)
+    // The 本線 stations are unreachable from both participants
+    expect(result?.candidatesEvaluated).toBe(6)
+  })
+
+  it('should return null when nobody shares a network', () => {
+    const result = selectTransferStation([NEAR_CHOFU, { lat: 34.57, lng: 133.25 }], index)
+    expect(result).toBeNull()
+  })
+
+  it('should report the distance tie-breaker under the chosen objective', () => {
+    const result = selectTransferStation([NEAR_CHOFU, NEAR_KANDA], index, { objective: 'max' })
+    expect(result?.objective).toBe('max')
+    expect(result?.score).toBeGreaterThan(0)
+    expect(result?.totalDistance).toBeGreaterThanOrEqual(result?.score ?? 0)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import type { Location } from '@/types'
+import { haversineDistance } from '../haversine'
+import {
+  DEFAULT_TRAVEL_PROFILES,
+  isTimeObjective,
+  locationTimeScales,
+  minutesPerKm,
+  travelTimes,
+} from '../travelTime'
+
+const TOKYO: Location = { id: 'a', label: '東京', latlng: { lat: 35.6812, lng: 139.7671 } }
+const SHINJUKU: Location = {
+  id: 'b',
+  label: '新宿',
+  latlng: { lat: 35.6896, lng: 139.7006 },
+  mode: 'walk',
+}
+
+describe('minutesPerKm', () => {
+  it('should turn speed and circuity into minutes per straight-line km', () => {
+    expect(minutesPerKm({ speedKmh: 60, circuity: 1 })).toBe(1)
+    expect(minutesPerKm({ speedKmh: 30, circuity: 1.5 })).toBe(3)
+  })
+})
+
+describe('locationTimeScales', () => {
+  it('should use each location mode and default to the train', () => {
+    expect(locationTimeScales([TOKYO, SHINJUKU], DEFAULT_TRAVEL_PROFILES)).toEqual([
+      minutesPerKm(DEFAULT_TRAVEL_PROFILES.train),
+      minutesPerKm(DEFAULT_TRAVEL_PROFILES.walk),
+    ])
+  })
+})
+
+describe('travelTimes', () => {
+  const point = { lat: 35.685, lng: 139.73 }
+
+  it('should estimate minutes from each location to the point', () => {
+    const [byTrain, onFoot] = travelTimes(point, [TOKYO, SHINJUKU])
+    const trainKm = haversineDistance(point, TOKYO.latlng)
+    expect(byTrain).toBeCloseTo((trainKm * 1.2 * 60) / 40, 10)
+    const walkKm = haversineDistance(point, SHINJUKU.latlng)
+    expect(onFoot).toBeCloseTo((walkKm * 1.3 * 60) / 4.8, 10)
+  })
+
+  it('should follow custom profiles', () => {
+    const profiles = { ...DEFAULT_TRAVEL_PROFILES, walk: { speedKmh: 6, circuity: 1 } }
+    const [, onFoot] = travelTimes(point, [TOKYO, SHINJUKU], { profiles })
+    expect(onFoot).toBeCloseTo(haversineDistance(point, SHINJUKU.latlng) * 10, 10)
+  })
+})
+
+describe('isTimeObjective', () => {
+  it('should flag only the time objectives', () => {
+    expect(isTimeObjective('totalTime')).toBe(true)
+    expect(isTimeObjective('maxTime')).toBe(true)
+    expect(isTimeObjective('max')).toBe(false)
+  })
+})
@@ -2,9 +2,16 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 import type { Location } from '@/types'
 import {
   buildShareUrl,
+  deserializeDestination,
   deserializeLocations,
+  deserializeMeetingTime,
+  deserializeObjective,
+  getInitialDestinationFromUrl,
   getInitialLocationsFromUrl,
+  getInitialMeetingTimeFromUrl,
+  getInitialObjectiveFromUrl,
   serializeLocations,
+  serializeShareQuery,
 } from '../urlState'
 
 const TOKYO: Location = { id: 'tokyo', label: '東京', latlng: { lat: 35.6812, lng: 139.7671 } }
@@ -184,6 +191,225 @@ describe('serializeLocations / deserializeLocations roundtrip', () => {
   })
 })
 
+describe('weights', () => {
+  it('should omit the weights param when every weight is the default', () => {
+    expect(serializeLocations([TOKYO, { ...OSAKA, weight: 1 }])).not.toContain('weights=')
+  })
+
+  it('should serialize index-aligned weights when any weight differs', () => {
+    const result = serializeLocations([{ ...TOKYO, weight: 3 }, OSAKA])
+    expect(result).toMatch(/&weights=3,1$/)
+  })
+
+  it('should roundtrip weights', () => {
+    const original: Location[] = [{ ...TOKYO, weight: 3 }, OSAKA, { ...TOKYO, weight: 0.5 }]
+    const restored = deserializeLocations(`?${serializeLocations(original)}`)
+    expect(restored.map((l) => l.weight)).toEqual([3, undefined, 0.5])
+  })
+
+  it('should keep weights aligned with raw entries when an entry is skipped', () => {
+    const search = `?locations=a,35,139|bad|b,34,135&weights=2,9,4`
+    const result = deserializeLocations(search)
+    expect(result.map((l) => [l.label, l.weight])).toEqual([
+      ['a', 2],
+      ['b', 4],
+    ])
+  })
+
+  it('should ignore invalid weights', () => {
+    const search = '?locations=a,35,139|b,34,135&weights=-1,abc'
+    const result = deserializeLocations(search)
+    expect(result).toHaveLength(2)
+    expect(result.every((l) => l.weight === undefined)).toBe(true)
+  })
+})
+
+describe('origins', () => {
+  const TOKYO_STATION: Location = {
+    ...TOKYO,
+    origin: {
+      stationIds: [101, 102],
+      name: '東京',
+      lines: ['JR山手線', '丸ノ内線'],
+      lineKeys: ['JR東日本::JR山手線', '東京メトロ::丸ノ内線'],
+    },
+  }
+
+  it('should omit the origins param when no location has an origin', () => {
+    expect(serializeLocations([TOKYO, OSAKA])).not.toContain('origins=')
+  })
+
+  it('should serialize index-aligned station ids only', () => {
+    const result = serializeLocations([OSAKA, TOKYO_STATION])
+    expect(result).toMatch(/&origins=,101\.102$/)
+  })
+
+  it('should restore station ids with the name and lines left to resolve', () => {
+    const restored = deserializeLocations(`?${serializeLocations([TOKYO_STATION, OSAKA])}`)
+    expect(restored[0].origin).toEqual({
+      stationIds: [101, 102],
+      name: '',
+      lines: [],
+      lineKeys: [],
+    })
+    expect(restored[1]).not.toHaveProperty('origin')
+  })
+
+  it('should keep origins aligned with raw entries and skip invalid ones', () => {
+    const search = '?locations=a,35,139|bad|b,34,135|c,33,134&origins=7,8,9.x,10'
+    const result = deserializeLocations(search)
+    expect(result.map((l) => l.origin?.stationIds)).toEqual([[7], undefined, [10]])
+  })
+})
+
+describe('travel modes', () => {
+  it('should omit the modes param when no location has a mode', () => {
+    expect(serializeLocations([TOKYO, OSAKA])).not.toContain('modes=')
+  })
+
+  it('should roundtrip modes as one-letter codes', () => {
+    const query = serializeLocations([{ ...TOKYO, mode: 'walk' }, OSAKA, { ...OSAKA, mode: 'car' }])
+    expect(query).toMatch(/&modes=w,,c$/)
+    const restored = deserializeLocations(`?${query}`)
+    expect(restored.map((l) => l.mode)).toEqual(['walk', undefined, 'car'])
+  })
+
+  it('should ignore unknown mode codes', () => {
+    const result = deserializeLocations('?locations=a,35,139|b,34,135&modes=x,b')
+    expect(result.map((l) => l.mode)).toEqual([undefined, 'bicycle'])
+  })
+})
+
+describe('alternative origins', () => {
+  const OFFICE = { label: '職場: 本社, 8F', latlng: { lat: 35.6581, lng: 139.7017 } }
+
+  it('should omit the alts param when no location has alternatives', () => {
+    expect(serializeLocations([TOKYO, OSAKA])).not.toContain('alts=')
+  })
+
+  it('should roundtrip alternatives with the index of their location', () => {
+    const home = { label: '実家', latlng: { lat: 35.6, lng: 139.6 } }
+    const query = serializeLocations([TOKYO, { ...OSAKA, alternatives: [OFFICE, home] }])
+    expect(query).toContain(`&alts=1:${encodeURIComponent(OFFICE.label)},35.6581,139.7017%7C1:`)
+    const restored = deserializeLocations(`?${query}`)
+    expect(restored[0].alternatives).toBeUndefined()
+    expect(restored[1].alternatives).toEqual([OFFICE, home])
+  })
+
+  it('should drop a repeated alternative of the same location', () => {
+    const result = deserializeLocations(
+      '?locations=a,35,139|b,34,135&alts=1:c,35.5,139.5|1:c,35.5,139.5|0:c,35.5,139.5'
+    )
+    const office = { label: 'c', latlng: { lat: 35.5, lng: 139.5 } }
+    expect(result[0].alternatives).toEqual([office])
+    expect(result[1].alternatives).toEqual([office])
+  })
+
+  it('should skip alternatives without a valid index or point', () => {
+    const result = deserializeLocations(
+      '?locations=a,35,139|b,34,135&alts=x:c,35,139|1:d,95,139|:e,35,139|1:f,35.5,139.5'
+    )
+    expect(result[0].alternatives).toBeUndefined()
+    expect(result[1].alternatives).toEqual([{ label: 'f', latlng: { lat: 35.5, lng: 139.5 } }])
+  })
+})
+
+describe('objective', () => {
+  it('should omit the default objective', () => {
+    expect(serializeShareQuery([TOKYO], { objective: 'sum' })).toBe(serializeLocations([TOKYO]))
+    expect(serializeShareQuery([TOKYO])).toBe(serializeLocations([TOKYO]))
+  })
+
+  it('should append a non-default objective after the locations', () => {
+    const result = serializeShareQuery([TOKYO], { objective: 'max' })
+    expect(result).toBe(`${serializeLocations([TOKYO])}&objective=max`)
+  })
+
+  it('should serialize the objective even without locations', () => {
+    expect(serializeShareQuery([], { objective: 'stdDev' })).toBe('objective=stdDev')
+  })
+
+  it('should roundtrip every objective', () => {
+    const objectives = [
+      'sum',
+      'sumOfSquares',
+      'max',
+      'sumPlusMax',
+      'stdDev',
+      'totalTime',
+      'maxTime',
+    ] as const
+    for (const objective of objectives) {
+      expect(deserializeObjective(`?${serializeShareQuery([TOKYO], { objective })}`)).toBe(
+        objective
+      )
+    }
+  })
+
+  it('should fall back to sum for missing or unknown objectives', () => {
+    expect(deserializeObjective('')).toBe('sum')
+    expect(deserializeObjective('?objective=median')).toBe('sum')
+  })
+
+  it('should not interfere with location parsing', () => {
+    const restored = deserializeLocations(`?${serializeShareQuery([TOKYO], { objective: 'max' })}`)
+    expect(restored).toHaveLength(1)
+    expect(restored[0].label).toBe('東京')
+  })
+})
+
+describe('meeting time', () => {
+  it('should omit a missing meeting time', () => {
+    expect(serializeShareQuery([TOKYO], { meetingTime: null })).toBe(serializeLocations([TOKYO]))
+  })
+
+  it('should append the meeting time as HH:MM after the objective', () => {
+    const result = serializeShareQuery([TOKYO], { objective: 'max', meetingTime: 545 })
+    expect(result).toBe(`${serializeLocations([TOKYO])}&objective=max&meet=09:05`)
+  })
+
+  it('should roundtrip the meeting time', () => {
+    expect(deserializeMeetingTime(`?${serializeShareQuery([TOKYO], { meetingTime: 1110 })}`)).toBe(
+      1110
+    )
+  })
+
+  it('should return null for missing or malformed meeting times', () => {
+    expect(deserializeMeetingTime('')).toBeNull()
+    expect(deserializeMeetingTime('?meet=25:00')).toBeNull()
+    expect(deserializeMeetingTime('?meet=evening')).toBeNull()
+  })
+})
+
+describe('destination', () => {
+  const NARITA = { label: '成田空港, 第1ターミナル', latlng: { lat: 35.76432, lng: 140.38639 } }
+
+  it('should append the destination after the meeting time', () => {
+    const result = serializeShareQuery([TOKYO], { meetingTime: 545, destination: NARITA })
+    expect(result).toBe(
+      `${serializeLocations([TOKYO])}&meet=09:05&dest=${encodeURIComponent(NARITA.label)},35.7643,140.3864`
+    )
+  })
+
+  it('should roundtrip a label containing commas', () => {
+    const restored = deserializeDestination(
+      `?${serializeShareQuery([TOKYO], { destination: NARITA })}`
+    )
+    expect(restored).toEqual({ label: NARITA.label, latlng: { lat: 35.7643, lng: 140.3864 } })
+  })
+
+  it('should omit a missing destination', () => {
+    expect(serializeShareQuery([TOKYO], { destination: null })).toBe(serializeLocations([TOKYO]))
+  })
+
+  it('should return null for missing or invalid destinations', () => {
+    expect(deserializeDestination('')).toBeNull()
+    expect(deserializeDestination('?dest=35.7,140.3')).toBeNull()
+    expect(deserializeDestination('?dest=空港,north,140.3')).toBeNull()
+    expect(deserializeDestination('?dest=空港,95,140.3')).toBeNull()
+  })
+})
+
 describe('getInitialLocationsFromUrl', () => {
   const originalLocation = window.location
 
@@ -214,6 +440,69 @@ describe('getInitialLocationsFromUrl', () => {
   })
 })
 
+describe('getInitialObjectiveFromUrl', () => {
+  const originalLocation = window.location
+
+  afterEach(() => {
+    Object.defineProperty(window, 'location', {
+      writable: true,
+      value: originalLocation,
+    })
+  })
+
+  it('should parse the objective from window.location.search', () => {
+    Object.defineProperty(window, 'location', {
+      writable: true,
+      value: { ...originalLocation, search: '?objective=sumOfSquares' },
+    })
+    expect(getInitialObjectiveFromUrl()).toBe('sumOfSquares')
+  })
+})
+
+describe('getInitialMeetingTimeFromUrl', () => {
+  const originalLocation = window.location
+
+  afterEach(() => {
+    Object.defineProperty(window, 'location', {
+      writable: true,
+      value: originalLocation,
+    })
+  })
+
+  it('should parse the meeting time from window.location.search', () => {
+    Object.defineProperty(window, 'location', {
+      writable: true,
+      value: { ...originalLocation, search: '?meet=18:30' },
+    })
+    expect(getInitialMeetingTimeFromUrl()).toBe(1110)
+  })
+})
+
+describe('getInitialDestinationFromUrl', () => {
+  const originalLocation = window.location
+
+  afterEach(() => {
+    Object.defineProperty(window, 'location', {
+      writable: true,
+      value: originalLocation,
+    })
+  })
+
+  it('should parse the destination from window.location.search', () => {
+    Object.defineProperty(window, 'location', {
+      writable: true,
+      value: {
+        ...originalLocation,
+        search: `?dest=${encodeURIComponent('箱根')},35.2324,139.1069`,
+      },
+    })
+    expect(getInitialDestinationFromUrl()).toEqual({
+      label: '箱根',
+      latlng: { lat: 35.2324, lng: 139.1069 },
+    })
+  })
+})
+
 describe('buildShareUrl', () => {
   it('should return base URL for empty locations', () => {
     const result = buildShareUrl([])
@@ -226,6 +515,11 @@ describe('buildShareUrl', () => {
     expect(result).toContain(encodeURIComponent('東京'))
   })
 
+  it('should include a non-default objective', () => {
+    const result = buildShareUrl([TOKYO], { objective: 'max' })
+    expect(result).toContain('&objective=max')
+  })
+
   it('should start with the current origin', () => {
     const result = buildShareUrl([TOKYO])
     expect(result.startsWith(window.location.origin)).toBe(true)
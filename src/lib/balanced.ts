@@ -0,0 +1,132 @@
+import type { BalancedStationResult, DistanceMetric, LatLng, StationWithCoords } from '@/types'
+import { getDistanceFunction } from './distance'
+import { fromECEF, projectToSphere, toECEF } from './ecef'
+import { fairnessMetrics } from './fairness'
+import { geometricMedian, selectOptimalStation, totalDistance } from './geo'
+import { haversineDistance } from './haversine'
+import type { StationIndex } from './spatialIndex'
+
+/** Default cap on the total distance: up to 20% above the best station's */
+export const DEFAULT_BALANCED_TOTAL_CAP = 0.2
+
+/** Narrowest corridor searched between two participants (half-width, km) */
+const CORRIDOR_MIN_HALF_WIDTH_KM = 0.5
+
+/**
+ * Radius of the circle searched around each sample, relative to the corridor half-width.
+ * Samples are at most one half-width apart, so circles of √1.25 ≈ 1.12 half-widths cover
+ * the corridor between them.
+ */
+const CORRIDOR_SAMPLE_RADIUS = 1.12
+
+interface BalancedStationOptions {
+  /** Largest accepted total distance, as a fraction above the best station's (default: 0.2) */
+  cap?: number
+  /** Per-participant weights aligned with `participants` (default: 1 for every participant) */
+  weights?: number[]
+  /** Distance metric (default: 'haversine') */
+  metric?: DistanceMetric
+}
+
+/**
+ * Stations within `halfWidthKm` of the great-circle segment from `a` to `b` (and possibly a
+ * little beyond), found by searching circles around points sampled along the segment.
+ */
+export function corridorStations(
+  a: LatLng,
+  b: LatLng,
+  halfWidthKm: number,
+  index: StationIndex,
+  metric?: DistanceMetric
+): StationWithCoords[] {
+  // As many samples as the length needs, however narrow the corridor: fewer would leave gaps
+  const samples = Math.max(2, Math.ceil(haversineDistance(a, b) / halfWidthKm) + 1)
+  const start = toECEF(a)
+  const end = toECEF(b)
+  const found = new Map<number, StationWithCoords>()
+  for (let k = 0; k < samples; k++) {
+    const t = k / (samples - 1)
+    const point = fromECEF(
+      projectToSphere({
+        x: start.x + t * (end.x - start.x),
+        y: start.y + t * (end.y - start.y),
+        z: start.z + t * (end.z - start.z),
+      })
+    )
+    for (const station of index.withinRadius(point, halfWidthKm * CORRIDOR_SAMPLE_RADIUS, metric)) {
+      if (!found.has(station.id)) found.set(station.id, station)
+    }
+  }
+  return [...found.values()]
+}
+
+/**
+ * Select the station minimizing the largest difference between two participants'
+ * distances (max d_i − min d_i), among the stations whose weighted total distance is at most
+ * `cap` above the best station's; ties go to the smaller total.
+ *
+ * For two participants the stations under the cap lie in an ellipse with them as foci, so
+ * only the great-circle corridor between them (as wide as the ellipse's semi-minor axis) is
+ * searched. Larger groups search the circle around the geometric median M that the triangle
+ * inequality allows: total(x) ≥ W·d(x, M) − total(M).
+ * Returns null when participants or the index is empty.
+ */
+export function selectBalancedStation(
+  participants: LatLng[],
+  index: StationIndex,
+  options?: BalancedStationOptions
+): BalancedStationResult | null {
+  const cap = options?.cap ?? DEFAULT_BALANCED_TOTAL_CAP
+  if (cap < 0) throw new Error(`Total distance cap must not be negative, got ${cap}`)
+  const { weights, metric } = options ?? {}
+
+  const best = selectOptimalStation(participants, index, { weights, metric })
+  if (!best) return null
+  const level = best.totalDistance * (1 + cap)
+  const distance = getDistanceFunction(metric)
+
+  const corridor = participants.length === 2
+  let candidates: StationWithCoords[]
+  if (corridor) {
+    // w1·d1 + w2·d2 ≤ level bounds d1 + d2 by level / min(w); the ellipse with that sum
+    // has semi-minor axis √((sum/2)² − (D/2)²)
+    const [a, b] = participants
+    const sum = level / Math.min(...(weights ?? [1, 1]))
+    const halfWidth = Math.sqrt(Math.max((sum / 2) ** 2 - (distance(a, b) / 2) ** 2, 0))
+    candidates = corridorStations(
+      a,
+      b,
+      Math.max(halfWidth, CORRIDOR_MIN_HALF_WIDTH_KM),
+      index,
+      metric
+    )
+  } else {
+    const median = geometricMedian(participants, { weights, metric })
+    const medianTotal = totalDistance(median, participants, weights, metric)
+    const weightSum = weights?.reduce((acc, w) => acc + w, 0) ?? participants.length
+    candidates = index.withinRadius(median, (level + medianTotal) / weightSum, metric)
+  }
+
+  let balanced: BalancedStationResult | null = null
+  for (const station of candidates) {
+    const distances = participants.map((p) => distance(station, p))
+    const { total, spread } = fairnessMetrics(distances, weights)
+    if (total > level) continue
+    if (
+      balanced === null ||
+      spread < balanced.spread ||
+      (spread === balanced.spread && total < balanced.totalDistance)
+    ) {
+      balanced = {
+        station,
+        distances,
+        spread,
+        totalDistance: total,
+        excess: best.totalDistance > 0 ? total / best.totalDistance - 1 : 0,
+        cap,
+        corridor,
+      }
+    }
+  }
+  return balanced
+}
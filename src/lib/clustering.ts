@@ -0,0 +1,192 @@
+import type {
+  DistanceMetric,
+  GeometryMode,
+  LatLng,
+  ParticipantCluster,
+  StationClustering,
+  StationWithCoords,
+} from '@/types'
+import { type DistanceFunction, getDistanceFunction } from './distance'
+import { geometricMedian, selectKMedoidStation } from './geo'
+import type { StationIndex } from './spatialIndex'
+
+/** Largest number of meeting stations offered in the UI */
+export const MAX_CLUSTER_COUNT = 4
+
+/**
+ * Minimum drop in total distance, as a fraction of the single-station total, that
+ * justifies one more meeting station when the count is chosen automatically (elbow rule).
+ */
+export const AUTO_CLUSTER_MIN_GAIN = 0.1
+
+/** Display colors for clusters, shared by the map markers and the result blocks */
+export const CLUSTER_COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea'] as const
+
+/** Nearby stations around each group's median considered as its meeting station */
+const CANDIDATE_STATION_LIMIT = 20
+
+/** Safety cap on assignment/update rounds; k-median usually settles in a few */
+const MAX_ROUNDS = 50
+
+interface ClusteringOptions {
+  /** Per-participant weights aligned with `points` (default: 1 for every participant) */
+  weights?: number[]
+  /** Geometry used for each group's geometric median (default: 'planar') */
+  mode?: GeometryMode
+  /** Distance metric (default: 'haversine') */
+  metric?: DistanceMetric
+}
+
+/**
+ * Best meeting station for one group: the K-medoid among the stations nearest to the
+ * group's geometric median.
+ */
+function bestStationFor(
+  points: LatLng[],
+  weights: number[],
+  index: StationIndex,
+  options: ClusteringOptions | undefined
+): StationWithCoords | null {
+  const median = geometricMedian(points, { weights, mode: options?.mode, metric: options?.metric })
+  const candidates = index.nearest(median, CANDIDATE_STATION_LIMIT, options?.metric)
+  return (
+    selectKMedoidStation(points, candidates, { weights, metric: options?.metric })?.station ?? null
+  )
+}
+
+/** Index of the center nearest to `point` (earlier centers win ties) */
+function nearestIndex(point: LatLng, centers: LatLng[], distance: DistanceFunction): number {
+  let best = 0
+  let bestDistance = Number.POSITIVE_INFINITY
+  centers.forEach((center, i) => {
+    const d = distance(point, center)
+    if (d < bestDistance) {
+      best = i
+      bestDistance = d
+    }
+  })
+  return best
+}
+
+/**
+ * Split participants into k groups, each meeting at its own station, minimizing the
+ * weighted total distance (k-median with stations as medians).
+ *
+ * Seeds with farthest-first traversal from the overall geometric median, then alternates
+ * between assigning every participant to the nearest meeting station and re-picking each
+ * group's station until the assignment stops changing. This is a local search: with the
+ * ten participants the app allows it reliably finds the natural split (e.g. east vs west).
+ * Groups that end up empty are dropped, so fewer than k clusters may be returned.
+ * Clusters are ordered by their first member. Returns null when points or the index is empty.
+ * @throws Error if k is not a positive integer
+ */
+export function kMedianClusters(
+  points: LatLng[],
+  index: StationIndex,
+  k: number,
+  options?: ClusteringOptions
+): StationClustering | null {
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`Cluster count must be a positive integer, got ${k}`)
+  }
+  if (points.length === 0 || index.stations.length === 0) {
+    return null
+  }
+
+  const weights = options?.weights ?? points.map(() => 1)
+  const distance = getDistanceFunction(options?.metric)
+  const count = Math.min(k, points.length)
+
+  // Farthest-first seeding: start from the participant farthest from the overall median
+  const median = geometricMedian(points, { weights, mode: options?.mode, metric: options?.metric })
+  const seeds: LatLng[] = []
+  let next = 0
+  let farthest = -1
+  points.forEach((p, i) => {
+    const d = distance(median, p)
+    if (d > farthest) {
+      farthest = d
+      next = i
+    }
+  })
+  seeds.push(points[next])
+  while (seeds.length < count) {
+    let bestGap = -1
+    points.forEach((p, i) => {
+      const gap = Math.min(...seeds.map((s) => distance(s, p)))
+      if (gap > bestGap) {
+        bestGap = gap
+        next = i
+      }
+    })
+    seeds.push(points[next])
+  }
+
+  let assignment = points.map((p) => nearestIndex(p, seeds, distance))
+  let groupStations: (StationWithCoords | null)[] = []
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    groupStations = seeds.map((_, g) => {
+      const members = assignment.flatMap((a, i) => (a === g ? [i] : []))
+      if (members.length === 0) return null
+      return bestStationFor(
+        members.map((i) => points[i]),
+        members.map((i) => weights[i]),
+        index,
+        options
+      )
+    })
+    // Empty groups keep no station and receive no further members
+    const active = groupStations.flatMap((s, g) =>
+      s ? [{ g, point: { lat: s.lat, lng: s.lng } }] : []
+    )
+    const activePoints = active.map((a) => a.point)
+    const reassigned = points.map((p) => active[nearestIndex(p, activePoints, distance)].g)
+    const stable = reassigned.every((a, i) => a === assignment[i])
+    assignment = reassigned
+    if (stable) break
+  }
+
+  const clusters: ParticipantCluster[] = []
+  groupStations.forEach((station, g) => {
+    const memberIndices = assignment.flatMap((a, i) => (a === g ? [i] : []))
+    if (!station || memberIndices.length === 0) return
+    const clusterTotal = memberIndices.reduce(
+      (sum, i) => sum + weights[i] * distance(points[i], station),
+      0
+    )
+    clusters.push({ station, memberIndices, totalDistance: clusterTotal })
+  })
+  clusters.sort((a, b) => a.memberIndices[0] - b.memberIndices[0])
+
+  return {
+    clusters,
+    totalDistance: clusters.reduce((sum, c) => sum + c.totalDistance, 0),
+  }
+}
+
+/**
+ * Cluster with the number of meeting stations chosen automatically: starting from one,
+ * add a station only while it cuts the total distance by at least `AUTO_CLUSTER_MIN_GAIN`
+ * of the single-station total.
+ * At most `MAX_CLUSTER_COUNT` stations and at least two participants per station on average.
+ * Returns null when points or the index is empty.
+ */
+export function autoKMedianClusters(
+  points: LatLng[],
+  index: StationIndex,
+  options?: ClusteringOptions
+): StationClustering | null {
+  const maxCount = Math.max(1, Math.min(MAX_CLUSTER_COUNT, Math.floor(points.length / 2)))
+  const single = kMedianClusters(points, index, 1, options)
+  if (single === null) return null
+
+  const minGain = single.totalDistance * AUTO_CLUSTER_MIN_GAIN
+  let best = single
+  for (let k = 2; k <= maxCount; k++) {
+    const candidate = kMedianClusters(points, index, k, options)
+    if (candidate === null || best.totalDistance - candidate.totalDistance < minGain) break
+    best = candidate
+  }
+  return best
+}
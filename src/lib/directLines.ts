@@ -0,0 +1,110 @@
+import type {
+  DestinationLeg,
+  DirectStationResult,
+  DistanceMetric,
+  LatLng,
+  Location,
+  NearbyStation,
+  ObjectiveKind,
+  StationWithCoords,
+} from '@/types'
+import { selectKMedoidStation } from './geo'
+import type { StationIndex } from './spatialIndex'
+import { groupStationsByName } from './stations'
+import { lineGraphFor, lineNameOfKey } from './transfers'
+
+/** Participants who can reach a station on a single line */
+export interface DirectConnection {
+  /** Indices into the locations of participants whose origin shares a line with the station */
+  participants: number[]
+  /** Names of the shared lines, in first-seen order */
+  lines: string[]
+}
+
+/**
+ * Find the participants who can ride to a station without changing trains: those whose
+ * origin station shares a line with `stationLineKeys` (e.g. a `GroupedStation`'s line keys).
+ * Lines are compared by operator and name, so another operator's 本線 does not count.
+ * Locations without an origin (coordinates entered by hand) never count as direct.
+ */
+export function findDirectConnection(
+  stationLineKeys: string[],
+  locations: Location[]
+): DirectConnection {
+  const participants: number[] = []
+  const lines: string[] = []
+  locations.forEach((location, i) => {
+    const shared = location.origin?.lineKeys.filter((key) => stationLineKeys.includes(key)) ?? []
+    if (shared.length === 0) return
+    participants.push(i)
+    for (const line of shared.map(lineNameOfKey)) {
+      if (!lines.includes(line)) lines.push(line)
+    }
+  })
+  return { participants, lines }
+}
+
+/**
+ * Reorder nearby rows so that stations directly reachable by more participants come first.
+ * The sort is stable, so stations with equal counts keep their distance order; grouping the
+ * result by name therefore ranks the groups the same way.
+ */
+export function sortByDirectReach(rows: NearbyStation[], locations: Location[]): NearbyStation[] {
+  const counts = new Map(
+    groupStationsByName(rows).map((group) => [
+      group.name,
+      findDirectConnection(group.lineKeys, locations).participants.length,
+    ])
+  )
+  return [...rows].sort((a, b) => (counts.get(b.name) ?? 0) - (counts.get(a.name) ?? 0))
+}
+
+interface DirectStationOptions {
+  /** Per-participant weights (default: 1 for every participant) */
+  weights?: number[]
+  /** Objective used among the stations reachable by the most participants (default: 'sum') */
+  objective?: ObjectiveKind
+  /** λ for the `sumPlusMax` objective (default: 1) */
+  lambda?: number
+  /** Distance metric (default: 'haversine') */
+  metric?: DistanceMetric
+  /** Per-participant minutes per km, for the time objectives */
+  scales?: number[]
+  /** Onward trip the group makes together after meeting, added to every station's score */
+  destination?: DestinationLeg
+  /** Other origins each participant may set off from, aligned with `participants` */
+  alternatives?: LatLng[][]
+}
+
+/**
+ * Select the station directly reachable by the most participants, then the best one among
+ * those by the distance objective. `originLines` holds the keys (`lineKey`) of each
+ * participant's origin lines (empty when unknown), aligned with `participants`.
+ * Returns null when nobody's origin is known or no station shares a line with any of them.
+ */
+export function selectDirectStation(
+  participants: LatLng[],
+  originLines: string[][],
+  index: StationIndex,
+  options?: DirectStationOptions
+): DirectStationResult | null {
+  if (participants.length === 0 || originLines.every((lines) => lines.length === 0)) return null
+
+  const graph = lineGraphFor(index.stations)
+  let directCount = 0
+  let candidates: StationWithCoords[] = []
+  for (const group of graph.groups) {
+    const keys = group.lines.map((l) => graph.keys[l])
+    const count = originLines.filter((own) => own.some((key) => keys.includes(key))).length
+    if (count === 0 || count < directCount) continue
+    if (count > directCount) {
+      directCount = count
+      candidates = []
+    }
+    candidates.push(group.station)
+  }
+  if (directCount === 0) return null
+
+  const best = selectKMedoidStation(participants, candidates, options)
+  return best && { ...best, directCount }
+}
@@ -0,0 +1,19 @@
+import type { DistanceMetric, LatLng } from '@/types'
+import { vincentyDistance } from './geodesic'
+import { haversineDistance } from './haversine'
+
+/** Distance between two geographic coordinates in kilometers */
+export type DistanceFunction = (a: LatLng, b: LatLng) => number
+
+/** Default metric: the spherical model is cheaper and accurate enough for ranking */
+export const DEFAULT_DISTANCE_METRIC: DistanceMetric = 'haversine'
+
+const DISTANCE_FUNCTIONS: Record<DistanceMetric, DistanceFunction> = {
+  haversine: haversineDistance,
+  vincenty: vincentyDistance,
+}
+
+/** Resolve the distance function for a metric (default: haversine). */
+export function getDistanceFunction(metric?: DistanceMetric): DistanceFunction {
+  return DISTANCE_FUNCTIONS[metric ?? DEFAULT_DISTANCE_METRIC]
+}
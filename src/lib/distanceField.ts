@@ -0,0 +1,184 @@
+import type { DistanceGrid, GeoBounds, LatLng } from '@/types'
+import { haversineDistance } from './haversine'
+
+/** Contour levels drawn around the optimum, as fractions above the optimal total distance */
+export const CONTOUR_LEVELS = [0.05, 0.1, 0.2] as const
+
+/** Margin added around the participants' bounding box, as a fraction of its span */
+const FIELD_PADDING = 0.25
+
+/** Smallest margin (degrees, about 1 km) so that a tight group still gets a visible field */
+const MIN_FIELD_PADDING_DEG = 0.01
+
+/** Latitude where Web Mercator (and so the map) ends */
+const MAX_MERCATOR_LAT = 85.0511287798
+
+interface DistanceFieldOptions {
+  /** Nodes along the latitude axis (≥ 2), evenly spaced in Web Mercator y */
+  rows: number
+  /** Nodes along the longitude axis (≥ 2) */
+  cols: number
+  /** Per-participant weights aligned with `points` (default: 1 for every participant) */
+  weights?: number[]
+}
+
+/**
+ * Area worth drawing the total-distance field over: the bounding box of the participants'
+ * convex hull, padded so the contours around the optimum close inside it.
+ */
+export function fieldBounds(points: LatLng[]): GeoBounds {
+  if (points.length === 0) throw new Error('Cannot compute the field bounds of zero points')
+
+  const lats = points.map((p) => p.lat)
+  const lngs = points.map((p) => p.lng)
+  const south = Math.min(...lats)
+  const north = Math.max(...lats)
+  const west = Math.min(...lngs)
+  const east = Math.max(...lngs)
+  const latPad = Math.max((north - south) * FIELD_PADDING, MIN_FIELD_PADDING_DEG)
+  const lngPad = Math.max((east - west) * FIELD_PADDING, MIN_FIELD_PADDING_DEG)
+  return {
+    south: Math.max(south - latPad, -MAX_MERCATOR_LAT),
+    west: west - lngPad,
+    north: Math.min(north + latPad, MAX_MERCATOR_LAT),
+    east: east + lngPad,
+  }
+}
+
+/** Overlap of two rectangles (null when they do not overlap) */
+export function intersectBounds(a: GeoBounds, b: GeoBounds): GeoBounds | null {
+  const bounds = {
+    south: Math.max(a.south, b.south),
+    west: Math.max(a.west, b.west),
+    north: Math.min(a.north, b.north),
+    east: Math.min(a.east, b.east),
+  }
+  return bounds.south < bounds.north && bounds.west < bounds.east ? bounds : null
+}
+
+/** Web Mercator y of a latitude, unscaled: ln tan(π/4 + φ/2) */
+function mercatorY(lat: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360))
+}
+
+/** Latitude of a Web Mercator y (inverse of `mercatorY`) */
+function latFromMercatorY(y: number): number {
+  return (360 / Math.PI) * Math.atan(Math.exp(y)) - 90
+}
+
+/**
+ * Position of grid node (r, c). Rows are evenly spaced in Mercator y rather than latitude so
+ * that they line up with the pixel rows of an image stretched over the map.
+ */
+function nodeAt(grid: DistanceGrid, r: number, c: number): LatLng {
+  const { south, west, north, east } = grid.bounds
+  const southY = mercatorY(south)
+  const northY = mercatorY(north)
+  return {
+    lat: latFromMercatorY(southY + (r * (northY - southY)) / (grid.rows - 1)),
+    lng: west + (c * (east - west)) / (grid.cols - 1),
+  }
+}
+
+/**
+ * Area covered when every node is drawn as the cell centred on it: the node extent padded by
+ * half a cell on each side (in Mercator y for latitude). Bounds for an image of the grid.
+ */
+export function cellBounds(grid: DistanceGrid): GeoBounds {
+  const { south, west, north, east } = grid.bounds
+  const southY = mercatorY(south)
+  const northY = mercatorY(north)
+  const halfRow = (northY - southY) / (grid.rows - 1) / 2
+  const halfCol = (east - west) / (grid.cols - 1) / 2
+  return {
+    south: latFromMercatorY(southY - halfRow),
+    west: west - halfCol,
+    north: latFromMercatorY(northY + halfRow),
+    east: east + halfCol,
+  }
+}
+
+/**
+ * Sample Σ w_i·haversine(node, p_i) on a `rows` × `cols` grid spanning `bounds`, with rows
+ * evenly spaced in Mercator y.
+ */
+export function sampleDistanceField(
+  points: LatLng[],
+  bounds: GeoBounds,
+  options: DistanceFieldOptions
+): DistanceGrid {
+  const { rows, cols } = options
+  if (rows < 2 || cols < 2) throw new Error(`Grid must be at least 2×2, got ${rows}×${cols}`)
+  const weights = options.weights ?? points.map(() => 1)
+  if (weights.length !== points.length) {
+    throw new Error(`Expected ${points.length} weights, got ${weights.length}`)
+  }
+
+  const grid: DistanceGrid = { bounds, rows, cols, values: [] }
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const node = nodeAt(grid, r, c)
+      let total = 0
+      for (let i = 0; i < points.length; i++) {
+        total += weights[i] * haversineDistance(node, points[i])
+      }
+      grid.values.push(total)
+    }
+  }
+  return grid
+}
+
+/**
+ * Contour of the sampled field at `level` by marching squares, as unordered line segments.
+ * Saddle cells are resolved by the average of their corners.
+ */
+export function contourSegments(grid: DistanceGrid, level: number): [LatLng, LatLng][] {
+  const { rows, cols, values } = grid
+  const segments: [LatLng, LatLng][] = []
+  const valueAt = (r: number, c: number) => values[r * cols + c]
+
+  // Point on the edge between two nodes where the field crosses `level`
+  function crossing(r0: number, c0: number, r1: number, c1: number): LatLng {
+    const v0 = valueAt(r0, c0)
+    const v1 = valueAt(r1, c1)
+    const t = (level - v0) / (v1 - v0)
+    const a = nodeAt(grid, r0, c0)
+    const b = nodeAt(grid, r1, c1)
+    return { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) }
+  }
+
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < cols - 1; c++) {
+      // Corners counter-clockwise from the south-west; each edge runs from corner k to k+1
+      const corners: [number, number][] = [
+        [r, c],
+        [r, c + 1],
+        [r + 1, c + 1],
+        [r + 1, c],
+      ]
+      const below = corners.map(([cr, cc]) => valueAt(cr, cc) < level)
+      const crossings: LatLng[] = []
+      for (let k = 0; k < 4; k++) {
+        if (below[k] === below[(k + 1) % 4]) continue
+        const [r0, c0] = corners[k]
+        const [r1, c1] = corners[(k + 1) % 4]
+        crossings.push(crossing(r0, c0, r1, c1))
+      }
+
+      if (crossings.length === 2) {
+        segments.push([crossings[0], crossings[1]])
+      } else if (crossings.length === 4) {
+        // Saddle: the centre decides whether the south-west corner joins the north-east one
+        const center = corners.reduce((acc, [cr, cc]) => acc + valueAt(cr, cc), 0) / 4
+        if (center < level === below[0]) {
+          // Cut off the south-east and north-west corners
+          segments.push([crossings[0], crossings[1]], [crossings[2], crossings[3]])
+        } else {
+          // Cut off the south-west and north-east corners
+          segments.push([crossings[3], crossings[0]], [crossings[1], crossings[2]])
+        }
+      }
+    }
+  }
+  return segments
+}
@@ -47,3 +47,17 @@ export function fromECEF(coord: ECEFCoord): LatLng {
 
   return { lat, lng }
 }
+
+/**
+ * Scale an ECEF vector back onto the sphere surface (radius 6371 km).
+ * Used after averaging points in 3D, where the mean lies inside the sphere.
+ * @throws Error if the vector is (numerically) zero, e.g. for antipodal inputs
+ */
+export function projectToSphere(coord: ECEFCoord): ECEFCoord {
+  const norm = Math.sqrt(coord.x * coord.x + coord.y * coord.y + coord.z * coord.z)
+  if (norm < 1e-9) {
+    throw new Error('Cannot project a zero vector onto the sphere')
+  }
+  const scale = EARTH_RADIUS_KM / norm
+  return { x: coord.x * scale, y: coord.y * scale, z: coord.z * scale }
+}
@@ -0,0 +1,54 @@
+import type { DistanceMetric, FairnessMetrics, LatLng } from '@/types'
+import { getDistanceFunction } from './distance'
+import { evaluateObjective } from './geo'
+
+/**
+ * Fairness indicators of per-participant travel distances (km).
+ * Weights count a participant several times in the total, mean, standard deviation and
+ * Gini coefficient; `max` and `spread` ignore them, as in `evaluateObjective`.
+ * @throws Error if distances array is empty, or weights do not match it
+ */
+export function fairnessMetrics(distances: number[], weights?: number[]): FairnessMetrics {
+  if (distances.length === 0) {
+    throw new Error('Cannot compute fairness of empty array')
+  }
+  const resolved = weights ?? distances.map(() => 1)
+  if (resolved.length !== distances.length) {
+    throw new Error(`Expected ${distances.length} weights, got ${resolved.length}`)
+  }
+
+  const total = evaluateObjective(distances, { weights: resolved })
+  const weightSum = resolved.reduce((acc, w) => acc + w, 0)
+  const mean = total / weightSum
+  const max = Math.max(...distances)
+
+  // Gini = Σ_i Σ_j w_i·w_j·|d_i − d_j| / (2·W²·mean)
+  let pairwise = 0
+  for (let i = 0; i < distances.length; i++) {
+    for (let j = 0; j < distances.length; j++) {
+      pairwise += resolved[i] * resolved[j] * Math.abs(distances[i] - distances[j])
+    }
+  }
+
+  return {
+    total,
+    mean,
+    max,
+    spread: max - Math.min(...distances),
+    stdDev: evaluateObjective(distances, { weights: resolved, objective: 'stdDev' }),
+    gini: mean > 0 ? pairwise / (2 * weightSum * weightSum * mean) : 0,
+  }
+}
+
+/** Fairness indicators of every participant travelling to `point` */
+export function fairnessAt(
+  point: LatLng,
+  participants: LatLng[],
+  options?: { weights?: number[]; metric?: DistanceMetric }
+): FairnessMetrics {
+  const distance = getDistanceFunction(options?.metric)
+  return fairnessMetrics(
+    participants.map((p) => distance(point, p)),
+    options?.weights
+  )
+}
@@ -1,25 +1,155 @@
-import type { KMedoidResult, LatLng, StationWithCoords } from '@/types'
-import { haversineDistance } from './haversine'
+import type {
+  AlternativeOrigin,
+  DestinationLeg,
+  DistanceMetric,
+  EnclosingCircle,
+  GeometricMedianSolution,
+  GeometryMode,
+  KMedoidResult,
+  LatLng,
+  Location,
+  MeetingPoints,
+  MinimaxStationResult,
+  ObjectiveKind,
+  ParticipantInfluence,
+  SensitivityAnalysis,
+  StationWithCoords,
+} from '@/types'
+import { type DistanceFunction, getDistanceFunction } from './distance'
+import { type ECEFCoord, fromECEF, projectToSphere, toECEF } from './ecef'
+import type { StationIndex } from './spatialIndex'
 
 /**
- * Calculate the centroid (arithmetic mean) of geographic coordinates.
- * Simple average of latitudes and longitudes.
- * @throws Error if points array is empty
+ * Resolve per-point weights, defaulting every point to 1.
+ * @throws Error if the weights array length does not match or contains a non-positive value
  */
-export function centroid(points: LatLng[]): LatLng {
-  if (points.length === 0) {
-    throw new Error('Cannot calculate centroid of empty array')
+function resolveWeights(count: number, weights: number[] | undefined): number[] {
+  if (weights === undefined) {
+    return new Array<number>(count).fill(1)
+  }
+  if (weights.length !== count) {
+    throw new Error(`Expected ${count} weights, got ${weights.length}`)
   }
+  for (const w of weights) {
+    if (!Number.isFinite(w) || w <= 0) {
+      throw new Error(`Weights must be positive finite numbers, got ${w}`)
+    }
+  }
+  return weights
+}
 
-  const sum = points.reduce((acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }), {
-    lat: 0,
-    lng: 0,
+/** Optimization weights for each location (a missing `weight` counts as 1). */
+export function locationWeights(locations: Location[]): number[] {
+  return locations.map((l) => l.weight ?? 1)
+}
+
+/**
+ * Locations moved to the origin each participant was assumed to set off from
+ * (`KMedoidResult.assumedOrigins`); unchanged when no origins were assumed.
+ */
+export function assumedLocations(locations: Location[], assumedOrigins?: number[]): Location[] {
+  if (!assumedOrigins) return locations
+  return locations.map((location, i) => {
+    const alternative = location.alternatives?.[assumedOrigins[i] - 1]
+    return alternative ? { ...location, latlng: alternative.latlng } : location
+  })
+}
+
+/** Whether two alternative origins have the same label and coordinates */
+export function isSameOrigin(a: AlternativeOrigin, b: AlternativeOrigin): boolean {
+  return a.label === b.label && a.latlng.lat === b.latlng.lat && a.latlng.lng === b.latlng.lng
+}
+
+/** Weighted mean of latitudes and longitudes (planar centroid). */
+function planarMean(points: LatLng[], weights: number[]): LatLng {
+  let weightSum = 0
+  let latSum = 0
+  let lngSum = 0
+  points.forEach((p, i) => {
+    weightSum += weights[i]
+    latSum += weights[i] * p.lat
+    lngSum += weights[i] * p.lng
   })
 
   return {
-    lat: sum.lat / points.length,
-    lng: sum.lng / points.length,
+    lat: latSum / weightSum,
+    lng: lngSum / weightSum,
+  }
+}
+
+/** Length of the mean ECEF vector below which the points count as cancelling out (km) */
+const SPHERICAL_MEAN_MIN_NORM = 1e-6
+
+/**
+ * Weighted mean of ECEF vectors projected back onto the sphere (spherical centroid).
+ * When the vectors cancel out (e.g. antipodal or symmetric points) no direction is
+ * preferred, so the planar mean is returned instead.
+ */
+function sphericalMean(points: LatLng[], weights: number[]): LatLng {
+  const sum: ECEFCoord = { x: 0, y: 0, z: 0 }
+  let weightSum = 0
+  points.forEach((p, i) => {
+    const v = toECEF(p)
+    sum.x += weights[i] * v.x
+    sum.y += weights[i] * v.y
+    sum.z += weights[i] * v.z
+    weightSum += weights[i]
+  })
+  const norm = Math.sqrt(sum.x * sum.x + sum.y * sum.y + sum.z * sum.z)
+  if (norm / weightSum < SPHERICAL_MEAN_MIN_NORM) {
+    return planarMean(points, weights)
+  }
+  return fromECEF(projectToSphere(sum))
+}
+
+/** Whether two points are antipodal, so that no midpoint is defined between them */
+function isAntipodal(a: LatLng, b: LatLng): boolean {
+  const u = toECEF(a)
+  const v = toECEF(b)
+  return Math.hypot(u.x + v.x, u.y + v.y, u.z + v.z) / 2 < SPHERICAL_MEAN_MIN_NORM
+}
+
+interface CentroidOptions {
+  /** Per-point weights aligned with `points` (default: 1 for every point) */
+  weights?: number[]
+  /** Averaging geometry (default: 'planar') */
+  mode?: GeometryMode
+}
+
+/**
+ * Calculate the centroid (weighted arithmetic mean) of geographic coordinates.
+ * - `planar` (default): simple average of latitudes and longitudes
+ * - `spherical`: average of ECEF vectors projected back onto the sphere, which stays
+ *   correct for long baselines and across the antimeridian; falls back to the planar
+ *   average when the points cancel out (e.g. two antipodes)
+ * @throws Error if points array is empty
+ */
+export function centroid(points: LatLng[], options?: CentroidOptions): LatLng {
+  if (points.length === 0) {
+    throw new Error('Cannot calculate centroid of empty array')
   }
+
+  const weights = resolveWeights(points.length, options?.weights)
+
+  return options?.mode === 'spherical'
+    ? sphericalMean(points, weights)
+    : planarMean(points, weights)
+}
+
+/**
+ * Weighted sum of distances from `point` to every entry of `points` (km), measured
+ * with `metric` (default: haversine).
+ * This is the objective minimized by the geometric median and the K-medoid station.
+ */
+export function totalDistance(
+  point: LatLng,
+  points: LatLng[],
+  weights?: number[],
+  metric?: DistanceMetric
+): number {
+  const resolved = resolveWeights(points.length, weights)
+  const distance = getDistanceFunction(metric)
+  return points.reduce((sum, p, i) => sum + resolved[i] * distance(point, p), 0)
 }
 
 const DEFAULT_MAX_ITERATIONS = 1000
@@ -30,93 +160,683 @@ interface WeiszfeldOptions {
   maxIterations?: number
   /** Convergence threshold in km (default: 1e-7) */
   epsilon?: number
+  /** Per-point weights aligned with `points` (default: 1 for every point) */
+  weights?: number[]
+  /** Geometry of the Weiszfeld update step (default: 'planar') */
+  mode?: GeometryMode
+  /** Distance metric being minimized (default: 'haversine') */
+  metric?: DistanceMetric
 }
 
 /**
- * Calculate the geometric median (Weiszfeld point) of geographic coordinates.
- * Minimizes the sum of distances from all input points.
- * Uses the iterative Weiszfeld algorithm.
+ * Unit vector (east, north) of the initial great-circle bearing from `from` toward `to`.
+ * Its negation is the gradient of the haversine distance with respect to `from`.
+ */
+function bearingDirection(from: LatLng, to: LatLng): { east: number; north: number } {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const phi1 = toRad(from.lat)
+  const phi2 = toRad(to.lat)
+  const dLambda = toRad(to.lng - from.lng)
+  const east = Math.sin(dLambda) * Math.cos(phi2)
+  const north =
+    Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda)
+  const norm = Math.hypot(east, north)
+  return norm === 0 ? { east: 0, north: 0 } : { east: east / norm, north: north / norm }
+}
+
+/**
+ * Calculate the geometric median (Weiszfeld point) of geographic coordinates together
+ * with a report on how the iteration went.
+ * Minimizes the weighted sum of distances from all input points.
+ *
+ * Uses the modified Weiszfeld algorithm (Vardi & Zhang, 2000). When the estimate lands
+ * on a data point, Kuhn's test compares that point's weight with the pull of all the
+ * others (the norm of the sum of their weighted unit directions): if the pull does not
+ * exceed the weight, the data point is the median; otherwise the step toward the plain
+ * Weiszfeld target is shortened by the ratio weight / pull (Ostresh's step), leaving the
+ * vertex instead of stalling there. In `spherical` mode each update averages ECEF vectors
+ * and projects the result back onto the sphere. With the `vincenty` metric the ellipsoidal
+ * distances drive the weights while directions stay spherical, which is ample for the
+ * vertex test since the two differ by a fraction of a percent.
  * @throws Error if points array is empty
  */
-export function geometricMedian(points: LatLng[], options?: WeiszfeldOptions): LatLng {
+export function solveGeometricMedian(
+  points: LatLng[],
+  options?: WeiszfeldOptions
+): GeometricMedianSolution {
   if (points.length === 0) {
     throw new Error('Cannot calculate geometric median of empty array')
   }
 
+  const weights = resolveWeights(points.length, options?.weights)
+  const mode = options?.mode ?? 'planar'
+  const metric = options?.metric
+  const distance = getDistanceFunction(metric)
+  const solution = (point: LatLng, iterations: number, stepSize: number, converged: boolean) => ({
+    point,
+    report: {
+      iterations,
+      stepSize,
+      converged,
+      objective: totalDistance(point, points, weights, metric),
+    },
+  })
+
   if (points.length <= 2) {
-    // For 1-2 points, the geometric median equals the centroid
-    return centroid(points)
+    // For two points the whole segment is optimal when weights are equal (use the
+    // midpoint); otherwise the heavier endpoint wins outright.
+    if (points.length === 2 && weights[0] !== weights[1]) {
+      return solution({ ...points[weights[0] > weights[1] ? 0 : 1] }, 0, 0, true)
+    }
+    return solution(centroid(points, { mode }), 0, 0, true)
   }
 
   const maxIterations = options?.maxIterations ?? DEFAULT_MAX_ITERATIONS
   const epsilon = options?.epsilon ?? DEFAULT_EPSILON
 
-  // Start from the centroid as initial estimate
-  let estimate = centroid(points)
+  // Start from the weighted centroid as initial estimate
+  let estimate = centroid(points, { weights, mode })
+  let stepSize = 0
 
-  for (let i = 0; i < maxIterations; i++) {
-    let weightSum = 0
-    let latSum = 0
-    let lngSum = 0
+  for (let i = 0; i <= maxIterations; i++) {
+    // Points the estimate coincides with act as a single vertex of combined weight
+    let vertex: LatLng | null = null
+    let vertexWeight = 0
+    const others: LatLng[] = []
+    const stepWeights: number[] = []
+    let pullEast = 0
+    let pullNorth = 0
 
-    for (const point of points) {
-      const dist = haversineDistance(estimate, point)
-
-      // Avoid division by zero when estimate coincides with a data point
+    for (const [index, point] of points.entries()) {
+      const dist = distance(estimate, point)
       if (dist < epsilon) {
-        return { ...point }
+        vertex = point
+        vertexWeight += weights[index]
+        continue
       }
+      others.push(point)
+      stepWeights.push(weights[index] / dist)
+      const direction = bearingDirection(estimate, point)
+      pullEast += weights[index] * direction.east
+      pullNorth += weights[index] * direction.north
+    }
 
-      const weight = 1 / dist
-      weightSum += weight
-      latSum += weight * point.lat
-      lngSum += weight * point.lng
+    // Kuhn's optimality condition for a vertex (also covers all points coinciding)
+    const pull = Math.hypot(pullEast, pullNorth)
+    if (vertex !== null && pull <= vertexWeight) {
+      return solution({ ...vertex }, i, stepSize, true)
     }
 
-    const next: LatLng = {
-      lat: latSum / weightSum,
-      lng: lngSum / weightSum,
+    if (i === maxIterations) break
+
+    // Weiszfeld step: centroid of the other points weighted by w_i / d_i, shortened
+    // by weight / pull when sitting on a vertex
+    const target = centroid(others, { weights: stepWeights, mode })
+    const stay = vertex === null ? 0 : vertexWeight / pull
+    const next =
+      stay > 0 ? centroid([target, estimate], { weights: [1 - stay, stay], mode }) : target
+
+    stepSize = distance(estimate, next)
+    estimate = next
+
+    if (stepSize < epsilon) {
+      return solution(next, i + 1, stepSize, true)
     }
+  }
+
+  return solution(estimate, maxIterations, stepSize, false)
+}
+
+/**
+ * Calculate the geometric median (Weiszfeld point) of geographic coordinates.
+ * Shorthand for `solveGeometricMedian(...).point` when the solver report is not needed.
+ * @throws Error if points array is empty
+ */
+export function geometricMedian(points: LatLng[], options?: WeiszfeldOptions): LatLng {
+  return solveGeometricMedian(points, options).point
+}
+
+/**
+ * Default weight of the onward trip to a shared destination: the group rides it together,
+ * so it counts once, like a single participant
+ */
+export const DEFAULT_DESTINATION_WEIGHT = 1
+
+/**
+ * Solve the meeting point for a group heading on to a shared destination together:
+ * minimizes Σ w_i·d(x, p_i) + w_D·d(x, D), each participant's trip to the meeting point plus
+ * the group's trip onward. This is the generalized Weiszfeld problem with the destination
+ * as one more anchor of weight w_D, so the report's objective includes the onward leg.
+ * A leg weight of at least the participants' total weight puts the optimum at the
+ * destination itself.
+ * @throws Error if points array is empty
+ */
+export function solveDestinationMedian(
+  points: LatLng[],
+  leg: DestinationLeg,
+  options?: WeiszfeldOptions
+): GeometricMedianSolution {
+  if (points.length === 0) {
+    throw new Error('Cannot calculate geometric median of empty array')
+  }
+  const weights = resolveWeights(points.length, options?.weights)
+  return solveGeometricMedian([...points, leg.point], {
+    ...options,
+    weights: [...weights, leg.weight],
+  })
+}
+
+/** Default λ for the `sumPlusMax` objective (one extra "worst trip" on top of the total) */
+export const DEFAULT_OBJECTIVE_LAMBDA = 1
 
-    // Check convergence
-    if (haversineDistance(estimate, next) < epsilon) {
-      return next
+interface ObjectiveOptions {
+  /** Per-participant weights aligned with the distances (default: 1 for every participant) */
+  weights?: number[]
+  /** Objective to evaluate (default: 'sum') */
+  objective?: ObjectiveKind
+  /** λ for the `sumPlusMax` objective (default: 1) */
+  lambda?: number
+  /**
+   * Per-participant factors applied to each distance first, e.g. minutes per km for the
+   * time objectives (default: 1, which leaves `totalTime`/`maxTime` equal to `sum`/`max`)
+   */
+  scales?: number[]
+}
+
+/**
+ * Evaluate an objective over per-participant distances (km).
+ * Weights scale each participant's contribution to sums and averages; `max` ignores
+ * them because the worst-off participant travels the same distance regardless of weight.
+ * @throws Error if distances array is empty, or scales do not match it
+ */
+export function evaluateObjective(rawDistances: number[], options?: ObjectiveOptions): number {
+  if (rawDistances.length === 0) {
+    throw new Error('Cannot evaluate objective of empty array')
+  }
+
+  const weights = resolveWeights(rawDistances.length, options?.weights)
+  const scales = options?.scales
+  if (scales && scales.length !== rawDistances.length) {
+    throw new Error(`Expected ${rawDistances.length} scales, got ${scales.length}`)
+  }
+  const distances = scales ? rawDistances.map((d, i) => d * scales[i]) : rawDistances
+  const sum = distances.reduce((acc, d, i) => acc + weights[i] * d, 0)
+  const max = Math.max(...distances)
+
+  switch (options?.objective ?? 'sum') {
+    case 'sum':
+    case 'totalTime':
+      return sum
+    case 'sumOfSquares':
+      return distances.reduce((acc, d, i) => acc + weights[i] * d * d, 0)
+    case 'max':
+    case 'maxTime':
+      return max
+    case 'sumPlusMax':
+      return sum + (options?.lambda ?? DEFAULT_OBJECTIVE_LAMBDA) * max
+    case 'stdDev': {
+      const weightSum = weights.reduce((acc, w) => acc + w, 0)
+      const mean = sum / weightSum
+      const variance = distances.reduce((acc, d, i) => acc + weights[i] * (d - mean) ** 2, 0)
+      return Math.sqrt(variance / weightSum)
     }
+  }
+}
 
-    estimate = next
+interface StationSelectionOptions extends ObjectiveOptions {
+  /** Distance metric for participant–station distances (default: 'haversine') */
+  metric?: DistanceMetric
+  /**
+   * Onward trip the group makes together after meeting; `weight · d(station, point)` is
+   * added to every station's score (`totalDistance` stays the participants' own)
+   */
+  destination?: DestinationLeg
+  /**
+   * Other origins each participant may set off from instead (e.g. home or the office),
+   * aligned with the participants. Each station is scored with every participant's
+   * nearest origin, and the result reports which one was assumed.
+   */
+  alternatives?: LatLng[][]
+}
+
+/**
+ * Each participant's own point followed by their alternative origins.
+ * @throws Error if the alternatives are not aligned with the participants
+ */
+function originsOf(participants: LatLng[], alternatives: LatLng[][] | undefined): LatLng[][] {
+  if (alternatives === undefined) return participants.map((p) => [p])
+  if (alternatives.length !== participants.length) {
+    throw new Error(`Expected ${participants.length} alternative lists, got ${alternatives.length}`)
   }
+  return participants.map((p, i) => [p, ...alternatives[i]])
+}
 
-  return estimate
+/**
+ * Distance from a point to each participant's nearest origin, with the index of the origin
+ * taken (0: the participant's own point, k: their k-th alternative; ties keep the earlier).
+ */
+function nearestOrigins(
+  point: LatLng,
+  origins: LatLng[][],
+  distance: DistanceFunction
+): { distances: number[]; choices: number[] } {
+  const distances: number[] = []
+  const choices: number[] = []
+  for (const own of origins) {
+    let nearest = 0
+    let nearestDistance = distance(point, own[0])
+    for (let k = 1; k < own.length; k++) {
+      const d = distance(point, own[k])
+      if (d < nearestDistance) {
+        nearest = k
+        nearestDistance = d
+      }
+    }
+    distances.push(nearestDistance)
+    choices.push(nearest)
+  }
+  return { distances, choices }
 }
 
 /**
- * Select the station from candidates that minimizes the sum of distances
- * to all participants (discrete K-medoid).
+ * Select the station from candidates that minimizes the objective (default: the
+ * weighted sum of distances) over all participants (discrete K-medoid).
  * Returns null when participants or candidates is empty.
  * On ties, the candidate appearing earlier in the array wins (typically
  * the one closest to the Median when candidates come from find_nearby_stations).
  */
 export function selectKMedoidStation(
   participants: LatLng[],
-  candidates: StationWithCoords[]
+  candidates: StationWithCoords[],
+  options?: StationSelectionOptions
 ): KMedoidResult | null {
   if (participants.length === 0 || candidates.length === 0) {
     return null
   }
 
+  const weights = resolveWeights(participants.length, options?.weights)
+  const objective = options?.objective ?? 'sum'
+  const distance = getDistanceFunction(options?.metric)
+  const leg = options?.destination
+  const origins = originsOf(participants, options?.alternatives)
   let best: KMedoidResult | null = null
 
   for (const candidate of candidates) {
     const candidatePoint: LatLng = { lat: candidate.lat, lng: candidate.lng }
-    let totalDistance = 0
-    for (const participant of participants) {
-      totalDistance += haversineDistance(candidatePoint, participant)
-    }
+    const { distances, choices } = nearestOrigins(candidatePoint, origins, distance)
+    const score =
+      evaluateObjective(distances, {
+        weights,
+        objective,
+        lambda: options?.lambda,
+        scales: options?.scales,
+      }) + (leg ? leg.weight * distance(candidatePoint, leg.point) : 0)
 
-    if (best === null || totalDistance < best.totalDistance) {
-      best = { station: candidate, totalDistance }
+    if (best === null || score < best.score) {
+      const candidateTotal = evaluateObjective(distances, { weights })
+      best = {
+        station: candidate,
+        totalDistance: candidateTotal,
+        score,
+        objective,
+        candidatesEvaluated: candidates.length,
+        ...(options?.alternatives && { assumedOrigins: choices }),
+      }
     }
   }
 
   return best
 }
+
+/** Stations nearest to the anchor evaluated up front to seed the pruning bound */
+const OPTIMAL_SEARCH_SEED_COUNT = 20
+
+/** Slack (km) on the lower bound so floating-point error never prunes a tie */
+const PRUNING_TOLERANCE_KM = 1e-9
+
+interface OptimalStationOptions extends StationSelectionOptions {
+  /**
+   * Center of the search (default: the weighted geometric median of the participants, pulled
+   * toward the destination when one is set)
+   */
+  anchor?: LatLng
+}
+
+/**
+ * Select the station from the whole dataset that minimizes the objective — an exact
+ * (globally optimal) K-medoid, unlike `selectKMedoidStation` over a fixed candidate list.
+ *
+ * Pruning uses the triangle inequality around an anchor a: for a station at distance r
+ * from a, each participant distance satisfies d_i ≥ |r − D_i| with D_i = dist(a, p_i).
+ * Every objective except `stdDev` is non-decreasing in each d_i, so g(r) = objective of
+ * |r − D_i| is a lower bound on the station's score. g increases once r passes every D_i
+ * (with alternative origins, every origin's), so once a seed station scores `best`, only
+ * stations within the radius where g reaches `best` can win;
+ * those are fetched from the spatial index and fully evaluated only when g(r) < best.
+ * `stdDev` has no such bound and every station is evaluated.
+ *
+ * On ties, the station closer to the anchor wins. Returns null when participants or the
+ * index is empty.
+ */
+export function selectOptimalStation(
+  participants: LatLng[],
+  index: StationIndex,
+  options?: OptimalStationOptions
+): KMedoidResult | null {
+  if (participants.length === 0 || index.stations.length === 0) {
+    return null
+  }
+
+  const weights = resolveWeights(participants.length, options?.weights)
+  const objective = options?.objective ?? 'sum'
+  const objectiveOptions = { weights, objective, lambda: options?.lambda, scales: options?.scales }
+  const metric = options?.metric
+  const distance = getDistanceFunction(metric)
+  const leg = options?.destination
+  const anchor =
+    options?.anchor ??
+    (leg
+      ? solveDestinationMedian(participants, leg, { weights, metric }).point
+      : geometricMedian(participants, { weights, metric }))
+
+  const origins = originsOf(participants, options?.alternatives)
+
+  let evaluated = 0
+  const scoreStation = (station: StationWithCoords): KMedoidResult => {
+    evaluated++
+    const point: LatLng = { lat: station.lat, lng: station.lng }
+    const { distances, choices } = nearestOrigins(point, origins, distance)
+    return {
+      station,
+      totalDistance: evaluateObjective(distances, { weights }),
+      score:
+        evaluateObjective(distances, objectiveOptions) +
+        (leg ? leg.weight * distance(point, leg.point) : 0),
+      objective,
+      candidatesEvaluated: 0,
+      ...(options?.alternatives && { assumedOrigins: choices }),
+    }
+  }
+  const better = (current: KMedoidResult | null, candidate: KMedoidResult) =>
+    current === null || candidate.score < current.score ? candidate : current
+
+  let best: KMedoidResult | null = null
+
+  if (objective === 'stdDev') {
+    for (const station of index.withinRadius(anchor, Number.POSITIVE_INFINITY, metric)) {
+      best = better(best, scoreStation(station))
+    }
+  } else {
+    // With alternative origins a participant's distance is the nearest one's, so its
+    // bound is the smallest |r − D| over their origins
+    const anchorDistances = origins.map((own) => own.map((p) => distance(anchor, p)))
+    // The onward leg obeys the same triangle inequality, so it joins the bound
+    const legDistance = leg ? distance(anchor, leg.point) : 0
+    const lowerBound = (r: number) =>
+      evaluateObjective(
+        anchorDistances.map((own) => Math.min(...own.map((d) => Math.abs(r - d)))),
+        objectiveOptions
+      ) + (leg ? leg.weight * Math.abs(r - legDistance) : 0)
+
+    const seeds = index.nearest(anchor, OPTIMAL_SEARCH_SEED_COUNT, metric)
+    for (const station of seeds) best = better(best, scoreStation(station))
+    const seedScore = best?.score ?? Number.POSITIVE_INFINITY
+
+    // g increases beyond the farthest origin: find the radius where it reaches the
+    // seed score; no station farther from the anchor can beat it
+    let lo = Math.max(...anchorDistances.flat(), legDistance)
+    let hi = Math.max(lo, 1)
+    while (lowerBound(hi) < seedScore) hi *= 2
+    if (lowerBound(lo) >= seedScore) hi = lo
+    while (hi - lo > PRUNING_TOLERANCE_KM && (hi - lo) / hi > 1e-12) {
+      const mid = (lo + hi) / 2
+      if (lowerBound(mid) < seedScore) lo = mid
+      else hi = mid
+    }
+
+    // Seeds are the first entries of the ascending radius query; skip re-evaluating them
+    const ring = index.withinRadius(anchor, hi + PRUNING_TOLERANCE_KM, metric)
+    for (const station of ring.slice(seeds.length)) {
+      const bound = lowerBound(station.distance_meters / 1000)
+      if (best === null || bound < best.score + PRUNING_TOLERANCE_KM) {
+        best = better(best, scoreStation(station))
+      }
+    }
+  }
+
+  return best && { ...best, candidatesEvaluated: evaluated }
+}
+
+/** Radius improvement (km) below which candidate circles are considered equal */
+const ENCLOSING_TOLERANCE_KM = 1e-9
+
+function cross(a: ECEFCoord, b: ECEFCoord): ECEFCoord {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x }
+}
+
+function subtract(a: ECEFCoord, b: ECEFCoord): ECEFCoord {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z }
+}
+
+function dot(a: ECEFCoord, b: ECEFCoord): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z
+}
+
+/**
+ * Circumcenter of three points on the sphere: the point equidistant from all three,
+ * on the same side as the points. Returns null for (nearly) collinear triples.
+ */
+function sphericalCircumcenter(a: LatLng, b: LatLng, c: LatLng): LatLng | null {
+  const va = toECEF(a)
+  const normal = cross(subtract(toECEF(b), va), subtract(toECEF(c), va))
+  try {
+    const center = projectToSphere(normal)
+    const sameSide = dot(center, va) >= 0
+    return fromECEF(sameSide ? center : { x: -center.x, y: -center.y, z: -center.z })
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Calculate the smallest circle on the sphere enclosing all points (spherical 1-center).
+ * Its center minimizes the maximum great-circle distance to any point.
+ *
+ * The optimal circle is determined by two points (diametral) or three points
+ * (circumscribed), so every pair midpoint and triple circumcenter is tried and the
+ * candidate with the smallest farthest-point distance wins. That is O(n^4), which is
+ * instant for the handful of participants this app allows. Weights do not affect the
+ * result: the worst-off person travels the same distance regardless of headcount.
+ * Candidates are constructed on the sphere; `metric` only measures the radius.
+ * @throws Error if points array is empty
+ */
+export function smallestEnclosingCircle(
+  points: LatLng[],
+  options?: { metric?: DistanceMetric }
+): EnclosingCircle {
+  if (points.length === 0) {
+    throw new Error('Cannot calculate enclosing circle of empty array')
+  }
+
+  const distance = getDistanceFunction(options?.metric)
+  const maxDistanceFrom = (center: LatLng) =>
+    points.reduce((max, p) => Math.max(max, distance(center, p)), 0)
+
+  if (points.length === 1) {
+    return { center: { ...points[0] }, radius: 0 }
+  }
+
+  // Candidate centers: midpoints of every pair and circumcenters of every triple
+  const candidates: LatLng[] = []
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      // An antipodal pair has no midpoint (the spherical mean would fall back to the planar one)
+      if (!isAntipodal(points[i], points[j])) {
+        candidates.push(centroid([points[i], points[j]], { mode: 'spherical' }))
+      }
+      for (let k = j + 1; k < points.length; k++) {
+        const center = sphericalCircumcenter(points[i], points[j], points[k])
+        if (center) candidates.push(center)
+      }
+    }
+  }
+
+  let best: EnclosingCircle | null = null
+  for (const center of candidates) {
+    const radius = maxDistanceFrom(center)
+    if (best === null || radius < best.radius - ENCLOSING_TOLERANCE_KM) {
+      best = { center, radius }
+    }
+  }
+
+  if (best !== null) return best
+
+  // Points not contained in any hemisphere: fall back to the spherical centroid
+  const fallback = centroid(points, { mode: 'spherical' })
+  return { center: fallback, radius: maxDistanceFrom(fallback) }
+}
+
+/**
+ * Select the station from candidates that minimizes the maximum distance to any
+ * participant (discrete minimax). Returns null when participants or candidates is empty.
+ * On ties, the candidate appearing earlier in the array wins.
+ */
+export function selectMinimaxStation(
+  participants: LatLng[],
+  candidates: StationWithCoords[],
+  options?: { metric?: DistanceMetric }
+): MinimaxStationResult | null {
+  const best = selectKMedoidStation(participants, candidates, {
+    objective: 'max',
+    metric: options?.metric,
+  })
+  return best && { station: best.station, maxDistance: best.score }
+}
+
+interface MeetingPointsOptions {
+  /** Per-point weights aligned with `points` (default: 1 for every point) */
+  weights?: number[]
+  /** Geometry of the centroid and the Weiszfeld update step (default: 'planar') */
+  mode?: GeometryMode
+  /** Distance metric (default: 'haversine') */
+  metric?: DistanceMetric
+  /** Onward trip to a shared destination, pulling the median as in `solveDestinationMedian` */
+  destination?: DestinationLeg
+}
+
+/**
+ * Centroid, geometric median (with its solver report) and smallest enclosing circle of the
+ * participants: everything the result card and the map start from.
+ * @throws Error if points array is empty
+ */
+export function solveMeetingPoints(
+  points: LatLng[],
+  options?: MeetingPointsOptions
+): MeetingPoints {
+  const { weights, mode, metric, destination } = options ?? {}
+  const solverOptions = { weights, mode, metric }
+  const median = destination
+    ? solveDestinationMedian(points, destination, solverOptions)
+    : solveGeometricMedian(points, solverOptions)
+  return {
+    centroid: centroid(points, { weights, mode }),
+    geometricMedian: median.point,
+    medianReport: median.report,
+    minimaxCircle: smallestEnclosingCircle(points, { metric }),
+  }
+}
+
+interface SensitivityOptions extends StationSelectionOptions {
+  /** Geometry of the centroid and the Weiszfeld update step (default: 'planar') */
+  mode?: GeometryMode
+}
+
+/**
+ * Station search run for each variant of the group: `indices` are the variant's participants
+ * in the full list, so that per-participant data outside the options can follow them.
+ */
+type StationSelector = (
+  participants: LatLng[],
+  indices: number[],
+  options: OptimalStationOptions
+) => KMedoidResult | null
+
+/**
+ * Leave-one-out and doubled-weight sensitivity of the meeting points: recompute the
+ * centroid, the geometric median and the optimal station with each participant removed,
+ * then with each participant's weight doubled, and report how far the points move and
+ * whether the station changes. Per-participant options (weights, scales, alternatives)
+ * are dropped or doubled along with the participant; a destination keeps pulling the
+ * median as in `solveDestinationMedian`.
+ *
+ * The station of each variant comes from `selectStation` (default: `selectOptimalStation`),
+ * which should be the search behind the suggested station so that the base station is it.
+ *
+ * Runs 2n + 1 optimal station searches, so it belongs off the main thread.
+ * @throws Error if there are fewer than 2 participants
+ */
+export function analyzeSensitivity(
+  participants: LatLng[],
+  index: StationIndex,
+  options?: SensitivityOptions,
+  selectStation: StationSelector = (points, _, variant) =>
+    selectOptimalStation(points, index, variant)
+): SensitivityAnalysis {
+  if (participants.length < 2) {
+    throw new Error('Sensitivity analysis needs at least 2 participants')
+  }
+
+  const weights = resolveWeights(participants.length, options?.weights)
+  const { scales, alternatives, destination, mode, metric } = options ?? {}
+  const distance = getDistanceFunction(metric)
+
+  const solve = (indices: number[], variantWeights: number[]) => {
+    const points = indices.map((i) => participants[i])
+    const medianOptions = { weights: variantWeights, mode, metric }
+    const median = destination
+      ? solveDestinationMedian(points, destination, medianOptions).point
+      : geometricMedian(points, medianOptions)
+    const best = selectStation(points, indices, {
+      ...options,
+      weights: variantWeights,
+      scales: scales && indices.map((i) => scales[i]),
+      alternatives: alternatives && indices.map((i) => alternatives[i]),
+      anchor: median,
+    })
+    return {
+      centroid: centroid(points, { weights: variantWeights, mode }),
+      median,
+      station: best?.station ?? null,
+    }
+  }
+
+  const everyone = participants.map((_, i) => i)
+  const base = solve(everyone, weights)
+  // Same-name rows on other lines are the same place to meet
+  const changes = (station: StationWithCoords | null) => station?.name !== base.station?.name
+
+  const influences = everyone.map((i): ParticipantInfluence => {
+    const without = solve(
+      everyone.filter((j) => j !== i),
+      weights.filter((_, j) => j !== i)
+    )
+    const doubled = solve(
+      everyone,
+      weights.map((w, j) => (j === i ? w * 2 : w))
+    )
+    return {
+      medianWithout: without.median,
+      medianDoubled: doubled.median,
+      centroidShiftWithout: distance(base.centroid, without.centroid),
+      centroidShiftDoubled: distance(base.centroid, doubled.centroid),
+      medianShiftWithout: distance(base.median, without.median),
+      medianShiftDoubled: distance(base.median, doubled.median),
+      stationWithout: without.station,
+      stationDoubled: doubled.station,
+      stationChangesWithout: changes(without.station),
+      stationChangesDoubled: changes(doubled.station),
+    }
+  })
+
+  return { centroid: base.centroid, median: base.median, station: base.station, influences }
+}
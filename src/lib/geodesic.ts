@@ -0,0 +1,93 @@
+import type { LatLng } from '@/types'
+import { EARTH_RADIUS_KM, haversineDistance } from './haversine'
+
+/** WGS84 semi-major axis in kilometers */
+const WGS84_A = 6378.137
+/** WGS84 flattening */
+const WGS84_F = 1 / 298.257223563
+/** WGS84 semi-minor axis in kilometers */
+const WGS84_B = WGS84_A * (1 - WGS84_F)
+
+/** Convergence threshold on λ (radians, ~0.06 mm on the ground) */
+const LAMBDA_TOLERANCE = 1e-12
+const MAX_ITERATIONS = 200
+
+/** Convert degrees to radians */
+function toRad(deg: number): number {
+  return (deg * Math.PI) / 180
+}
+
+/**
+ * Solve Vincenty's inverse problem on the WGS84 ellipsoid.
+ * @returns Distance in kilometers, or null when the iteration fails to converge
+ *   (nearly antipodal points)
+ */
+function vincentyInverse(a: LatLng, b: LatLng): number | null {
+  const L = toRad(b.lng - a.lng)
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRad(a.lat)))
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRad(b.lat)))
+  const sinU1 = Math.sin(U1)
+  const cosU1 = Math.cos(U1)
+  const sinU2 = Math.sin(U2)
+  const cosU2 = Math.cos(U2)
+
+  let lambda = L
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const sinLambda = Math.sin(lambda)
+    const cosLambda = Math.cos(lambda)
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    )
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda
+    if (sinSigma === 0) {
+      // σ = 0: coincident points; σ = π: exactly antipodal, which Vincenty cannot solve
+      return cosSigma > 0 ? 0 : null
+    }
+    const sigma = Math.atan2(sinSigma, cosSigma)
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma
+    const cosSqAlpha = 1 - sinAlpha * sinAlpha
+    // On the equator cos²α = 0 and the term vanishes
+    const cos2SigmaM = cosSqAlpha === 0 ? 0 : cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha))
+    const previous = lambda
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)))
+
+    if (Math.abs(lambda) > Math.PI) return null
+
+    if (Math.abs(lambda - previous) < LAMBDA_TOLERANCE) {
+      const uSq = (cosSqAlpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)))
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)))
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+              (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)))
+      return WGS84_B * A * (sigma - deltaSigma)
+    }
+  }
+  return null
+}
+
+/** Radius (km) of the sphere used when Vincenty's iteration does not converge */
+const FALLBACK_RADIUS_KM = (2 * WGS84_A + WGS84_B) / 3
+
+/**
+ * Calculate the geodesic distance between two points on the WGS84 ellipsoid using
+ * Vincenty's inverse formula (accurate to well under a millimeter).
+ * For nearly antipodal points, where Vincenty's iteration fails to converge, falls back
+ * to the great-circle distance on a sphere with the WGS84 mean radius (error < 0.1%).
+ * @returns Distance in kilometers
+ */
+export function vincentyDistance(a: LatLng, b: LatLng): number {
+  const distance = vincentyInverse(a, b)
+  if (distance !== null) return distance
+  return (haversineDistance(a, b) / EARTH_RADIUS_KM) * FALLBACK_RADIUS_KM
+}
@@ -1,6 +1,7 @@
 import type { LatLng } from '@/types'
 
-const EARTH_RADIUS_KM = 6371
+/** Mean Earth radius (km) of the spherical model */
+export const EARTH_RADIUS_KM = 6371
 
 /** Convert degrees to radians */
 function toRad(deg: number): number {
@@ -0,0 +1,74 @@
+import type { Location } from '@/types'
+
+/** Minutes in a day, for wrapping clock times */
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Parse a clock time ("H:MM" or "HH:MM", as from `<input type="time">`) into minutes after
+ * midnight. Returns null for anything else, including times past 23:59.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):([0-5]\d)$/)
+  if (!match) return null
+  const hours = Number(match[1])
+  if (hours > 23) return null
+  return hours * 60 + Number(match[2])
+}
+
+/**
+ * Format minutes after midnight as "HH:MM". Times before midnight of the meeting day
+ * (negative minutes) wrap around and are prefixed with 前日.
+ */
+export function formatClockTime(minutes: number): string {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  const clock = `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`
+  return minutes < 0 ? `前日 ${clock}` : clock
+}
+
+/** When one participant has to leave to arrive on time */
+export interface PlannedDeparture {
+  /** Index of the participant */
+  index: number
+  /** Estimated travel minutes, rounded up */
+  travelMinutes: number
+  /** Departure in minutes after midnight of the meeting day (negative for the day before) */
+  departure: number
+}
+
+/**
+ * Work back from the meeting time: everyone leaves their estimated travel time earlier,
+ * rounded up to whole minutes so nobody is late by rounding. Earliest departure first;
+ * ties keep participant order.
+ */
+export function planDepartures(meetingTime: number, travelMinutes: number[]): PlannedDeparture[] {
+  return travelMinutes
+    .map((minutes, index) => {
+      const rounded = Math.ceil(minutes)
+      return { index, travelMinutes: rounded, departure: meetingTime - rounded }
+    })
+    .sort((a, b) => a.departure - b.departure || a.index - b.index)
+}
+
+/**
+ * Text copied for the group chat: the meeting station and time, everyone's departure
+ * (earliest first) and the share URL.
+ */
+export function buildShareText(
+  url: string,
+  plan: {
+    stationName: string
+    meetingTime: number
+    locations: Location[]
+    departures: PlannedDeparture[]
+  }
+): string {
+  const lines = [
+    `【集合】${formatClockTime(plan.meetingTime)} ${plan.stationName}駅`,
+    ...plan.departures.map(
+      (d) =>
+        `・${plan.locations[d.index].label}: ${formatClockTime(d.departure)}発（約${d.travelMinutes}分）`
+    ),
+    url,
+  ]
+  return lines.join('\n')
+}
@@ -0,0 +1,142 @@
+import type {
+  DistanceMetric,
+  LatLng,
+  NearbyStation,
+  NearOptimalShortlist,
+  NearOptimalStation,
+} from '@/types'
+import { getDistanceFunction } from './distance'
+import { fairnessMetrics } from './fairness'
+import { geometricMedian, selectOptimalStation, totalDistance } from './geo'
+import { EARTH_RADIUS_KM } from './haversine'
+import type { StationIndex } from './spatialIndex'
+import { groupStationsByName } from './stations'
+
+/** Default tolerance of the shortlist: stations up to 10% above the best total distance */
+export const DEFAULT_NEAR_OPTIMAL_TOLERANCE = 0.1
+
+/** Default cap on the number of shortlisted stations (by name) */
+const DEFAULT_SHORTLIST_LIMIT = 30
+
+/** Number of rays traced from the median to outline the near-optimal region */
+const REGION_DIRECTIONS = 72
+
+/** Bisection steps along each ray (the radius is bracketed to ~1e-6 of its bound) */
+const REGION_BISECTION_STEPS = 20
+
+/** Kilometres per degree of latitude on the spherical model */
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180
+
+interface NearOptimalOptions {
+  /** Fraction above the best total distance still accepted (default: 0.1, i.e. +10%) */
+  tolerance?: number
+  /** Per-participant weights aligned with `participants` (default: 1 for every participant) */
+  weights?: number[]
+  /** Distance metric (default: 'haversine') */
+  metric?: DistanceMetric
+  /** Largest number of stations returned (default: 30) */
+  limit?: number
+}
+
+/** Point `km` from `origin` along `bearing` (radians clockwise from north), on a local plane */
+function offsetPoint(origin: LatLng, bearing: number, km: number): LatLng {
+  return {
+    lat: origin.lat + (km * Math.cos(bearing)) / KM_PER_DEGREE,
+    lng:
+      origin.lng +
+      (km * Math.sin(bearing)) / (KM_PER_DEGREE * Math.cos((origin.lat * Math.PI) / 180)),
+  }
+}
+
+/**
+ * Outline of the region where the weighted total distance stays at or below `level`, traced
+ * by bisecting along rays from `center`. The total distance is convex, so the region is
+ * star-shaped around any point inside it. Empty when `center` itself is above `level`.
+ */
+export function nearOptimalRegion(
+  participants: LatLng[],
+  center: LatLng,
+  level: number,
+  options?: Pick<NearOptimalOptions, 'weights' | 'metric'>
+): LatLng[] {
+  const total = (p: LatLng) => totalDistance(p, participants, options?.weights, options?.metric)
+  const centerTotal = total(center)
+  if (centerTotal > level) return []
+
+  // Triangle inequality: total(x) ≥ W·d(x, center) − total(center), so the region lies
+  // within (level + total(center)) / W of the center
+  const weightSum = options?.weights?.reduce((a, b) => a + b, 0) ?? participants.length
+  const maxRadius = (level + centerTotal) / weightSum
+
+  const outline: LatLng[] = []
+  for (let k = 0; k < REGION_DIRECTIONS; k++) {
+    const bearing = (2 * Math.PI * k) / REGION_DIRECTIONS
+    let inside = 0
+    let outside = maxRadius
+    for (let step = 0; step < REGION_BISECTION_STEPS; step++) {
+      const mid = (inside + outside) / 2
+      if (total(offsetPoint(center, bearing, mid)) <= level) inside = mid
+      else outside = mid
+    }
+    outline.push(offsetPoint(center, bearing, inside))
+  }
+  return outline
+}
+
+/**
+ * Shortlist every station whose weighted total distance is within `tolerance` of the best
+ * station's, grouped by name (keeping each name's best row) and ranked by total distance.
+ * Candidates come from the spatial index around the geometric median M, within the radius
+ * the triangle inequality allows: total(x) ≥ W·d(x, M) − total(M).
+ * Returns null when participants or the index is empty.
+ */
+export function selectNearOptimalStations(
+  participants: LatLng[],
+  index: StationIndex,
+  options?: NearOptimalOptions
+): NearOptimalShortlist | null {
+  const tolerance = options?.tolerance ?? DEFAULT_NEAR_OPTIMAL_TOLERANCE
+  if (tolerance < 0) throw new Error(`Tolerance must not be negative, got ${tolerance}`)
+  const { weights, metric } = options ?? {}
+
+  const best = selectOptimalStation(participants, index, { weights, metric })
+  if (!best) return null
+
+  const median = geometricMedian(participants, { weights, metric })
+  const medianTotal = totalDistance(median, participants, weights, metric)
+  const level = best.totalDistance * (1 + tolerance)
+  const weightSum = weights?.reduce((a, b) => a + b, 0) ?? participants.length
+  const distance = getDistanceFunction(metric)
+
+  // Keep the rows within tolerance, with their total (m) where grouping keeps the minimum
+  const rows: NearbyStation[] = []
+  for (const station of index.withinRadius(median, (level + medianTotal) / weightSum, metric)) {
+    const stationTotal = totalDistance(station, participants, weights, metric)
+    if (stationTotal <= level) rows.push({ ...station, distance_meters: stationTotal * 1000 })
+  }
+  rows.sort((a, b) => a.distance_meters - b.distance_meters)
+
+  const stations: NearOptimalStation[] = groupStationsByName(rows)
+    .slice(0, options?.limit ?? DEFAULT_SHORTLIST_LIMIT)
+    .map((group) => {
+      const { max, spread } = fairnessMetrics(participants.map((p) => distance(group, p)))
+      const stationTotal = group.distance_meters / 1000
+      return {
+        name: group.name,
+        lat: group.lat,
+        lng: group.lng,
+        lines: group.lines,
+        totalDistance: stationTotal,
+        maxDistance: max,
+        spread,
+        excess: best.totalDistance > 0 ? stationTotal / best.totalDistance - 1 : 0,
+      }
+    })
+
+  return {
+    tolerance,
+    bestTotal: best.totalDistance,
+    stations,
+    region: nearOptimalRegion(participants, median, level, { weights, metric }),
+  }
+}
@@ -0,0 +1,52 @@
+/** Binary min-heap keyed by a numeric priority (used by the shortest-path searches) */
+export interface MinHeap<T> {
+  readonly size: number
+  push(item: T, priority: number): void
+  /** Remove and return the entry with the smallest priority, or undefined when empty */
+  pop(): { item: T; priority: number } | undefined
+}
+
+/** Create an empty min-heap. Items with equal priority come out in no particular order. */
+export function createMinHeap<T>(): MinHeap<T> {
+  const items: { item: T; priority: number }[] = []
+
+  function swap(a: number, b: number) {
+    ;[items[a], items[b]] = [items[b], items[a]]
+  }
+
+  return {
+    get size() {
+      return items.length
+    },
+    push(item, priority) {
+      items.push({ item, priority })
+      let i = items.length - 1
+      while (i > 0) {
+        const parent = (i - 1) >> 1
+        if (items[parent].priority <= items[i].priority) break
+        swap(parent, i)
+        i = parent
+      }
+    },
+    pop() {
+      const top = items[0]
+      const last = items.pop()
+      if (top === undefined || last === undefined || items.length === 0) return top
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left
+        if (right < items.length && items[right].priority < items[smallest].priority) {
+          smallest = right
+        }
+        if (smallest === i) break
+        swap(smallest, i)
+        i = smallest
+      }
+      return top
+    },
+  }
+}
@@ -0,0 +1,92 @@
+import type { RailNetwork } from '@/types'
+
+/** Public path of the generated static rail network */
+export const RAIL_NETWORK_URL = '/rail-network.json'
+
+/** Module-level cache so the network is fetched at most once per session */
+let cache: Promise<RailNetwork> | null = null
+
+function isEdgeList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (edge) => Array.isArray(edge) && edge.length === 3 && edge.every((n) => typeof n === 'number')
+    )
+  )
+}
+
+/**
+ * Load the rail network from the static asset.
+ * The result is memoized; concurrent callers share a single fetch.
+ * @throws Error if the asset is missing or not a rail network (e.g. an HTML fallback page)
+ */
+export function loadRailNetwork(): Promise<RailNetwork> {
+  if (cache === null) {
+    cache = fetch(RAIL_NETWORK_URL)
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load rail network: ${res.status}`)
+        }
+        return res.json() as Promise<unknown>
+      })
+      .then((raw) => {
+        const network = raw as Partial<RailNetwork> | null
+        if (!network || !isEdgeList(network.tracks) || !isEdgeList(network.transfers)) {
+          throw new Error('Invalid rail network data')
+        }
+        return network as RailNetwork
+      })
+      .catch((err: unknown) => {
+        // Reset cache so a later call can retry after a transient failure
+        cache = null
+        throw err
+      })
+  }
+  return cache
+}
+
+/** Undirected rail network as adjacency lists keyed by station id */
+export interface RailGraph {
+  /** Neighbors of each station with the edge length in meters (tracks and transfers alike) */
+  adjacency: Map<number, { to: number; meters: number }[]>
+}
+
+/** Build adjacency lists from the asset's edge lists */
+export function buildRailGraph(network: RailNetwork): RailGraph {
+  const adjacency = new Map<number, { to: number; meters: number }[]>()
+  function link(from: number, to: number, meters: number) {
+    const neighbors = adjacency.get(from)
+    if (neighbors) {
+      neighbors.push({ to, meters })
+    } else {
+      adjacency.set(from, [{ to, meters }])
+    }
+  }
+  for (const [a, b, meters] of [...network.tracks, ...network.transfers]) {
+    link(a, b, meters)
+    link(b, a, meters)
+  }
+  return { adjacency }
+}
+
+/** Module-level cache of the graph, built once per loaded network */
+let graphCache: Promise<RailGraph> | null = null
+
+/** Load the rail network and build its graph, shared by every caller. */
+export function loadRailGraph(): Promise<RailGraph> {
+  if (graphCache === null) {
+    graphCache = loadRailNetwork()
+      .then(buildRailGraph)
+      .catch((err: unknown) => {
+        graphCache = null
+        throw err
+      })
+  }
+  return graphCache
+}
+
+/** Reset the in-memory caches (test helper). */
+export function resetRailNetworkCache(): void {
+  cache = null
+  graphCache = null
+}
@@ -0,0 +1,159 @@
+import type {
+  DistanceMetric,
+  LatLng,
+  NearbyStation,
+  NetworkStationResult,
+  ObjectiveKind,
+  RailJourney,
+} from '@/types'
+import { evaluateObjective } from './geo'
+import { createMinHeap } from './priorityQueue'
+import type { RailGraph } from './railNetwork'
+import type { StationIndex } from './spatialIndex'
+
+/**
+ * Stations near each participant used as boarding candidates. More than one, because the
+ * nearest station is not always the best one to board at (e.g. a different line nearby).
+ */
+export const ACCESS_STATION_COUNT = 3
+
+/**
+ * Boarding candidates other than the nearest station must be within this walk (km).
+ * Walking is measured in a straight line, so without a cap a long "walk" across a bay
+ * would undercut the rail route this mode is meant to follow.
+ */
+export const ACCESS_WALK_LIMIT_KM = 2
+
+/** A station a shortest-path search starts from, with the cost already spent reaching it */
+export interface RailSource {
+  station: number
+  meters: number
+}
+
+/** Shortest distance to a station and the source the path started from */
+export interface RailReach {
+  meters: number
+  source: number
+}
+
+/**
+ * Multi-source Dijkstra over the rail graph: shortest distance from any source to every
+ * reachable station, where each source starts at its own initial cost (its walking leg).
+ * Sources absent from the graph are still reachable at their initial cost.
+ */
+export function shortestRailDistances(
+  graph: RailGraph,
+  sources: RailSource[]
+): Map<number, RailReach> {
+  const reached = new Map<number, RailReach>()
+  const heap = createMinHeap<{ station: number; source: number }>()
+  for (const { station, meters } of sources) {
+    const known = reached.get(station)
+    if (known && known.meters <= meters) continue
+    reached.set(station, { meters, source: station })
+    heap.push({ station, source: station }, meters)
+  }
+
+  for (let entry = heap.pop(); entry; entry = heap.pop()) {
+    const { item, priority } = entry
+    if (priority > (reached.get(item.station)?.meters ?? Number.POSITIVE_INFINITY)) continue
+    for (const { to, meters } of graph.adjacency.get(item.station) ?? []) {
+      const next = priority + meters
+      if (next < (reached.get(to)?.meters ?? Number.POSITIVE_INFINITY)) {
+        reached.set(to, { meters: next, source: item.source })
+        heap.push({ station: to, source: item.source }, next)
+      }
+    }
+  }
+  return reached
+}
+
+interface NetworkStationOptions {
+  /** Per-participant weights (default: 1 for every participant) */
+  weights?: number[]
+  /** Objective to minimize (default: 'sum') */
+  objective?: ObjectiveKind
+  /** Metric for the walking legs (default: 'haversine') */
+  metric?: DistanceMetric
+}
+
+/**
+ * Select the meeting station by rail network distance: each participant walks to one of
+ * their `ACCESS_STATION_COUNT` nearest stations (the nearest one, or any within
+ * `ACCESS_WALK_LIMIT_KM`) and rides the shortest path from there.
+ * Runs one multi-source Dijkstra per participant and evaluates the objective at every
+ * station all participants can reach. Ties keep the station that comes first in the dataset.
+ * Returns null when there are no participants or no station is reachable by everyone.
+ */
+export function selectNetworkStation(
+  participants: LatLng[],
+  graph: RailGraph,
+  index: StationIndex,
+  options?: NetworkStationOptions
+): NetworkStationResult | null {
+  if (participants.length === 0 || index.stations.length === 0) return null
+
+  const weights = options?.weights ?? participants.map(() => 1)
+  const objective = options?.objective ?? 'sum'
+
+  const accessByParticipant = participants.map((p) => {
+    const nearby = index.nearest(p, ACCESS_STATION_COUNT, options?.metric)
+    const usable = nearby.filter(
+      (s, i) => i === 0 || s.distance_meters <= ACCESS_WALK_LIMIT_KM * 1000
+    )
+    return new Map(usable.map((s) => [s.id, s]))
+  })
+  const reaches = accessByParticipant.map((access) =>
+    shortestRailDistances(
+      graph,
+      [...access.values()].map((s) => ({ station: s.id, meters: s.distance_meters }))
+    )
+  )
+
+  /** Each participant's distance to the station in km, or null if someone cannot reach it */
+  function distancesTo(stationId: number): number[] | null {
+    const distances: number[] = []
+    for (const reach of reaches) {
+      const r = reach.get(stationId)
+      if (!r) return null
+      distances.push(r.meters / 1000)
+    }
+    return distances
+  }
+
+  let best: { position: number; score: number; distances: number[] } | null = null
+  let evaluated = 0
+  for (let position = 0; position < index.stations.length; position++) {
+    const distances = distancesTo(index.stations[position].id)
+    if (distances === null) continue
+    evaluated++
+    const score = evaluateObjective(distances, { weights, objective })
+    if (best === null || score < best.score) best = { position, score, distances }
+  }
+  if (best === null) return null
+
+  const { position, score, distances } = best
+  const station = index.stations[position]
+  const journeys: RailJourney[] = reaches.map((reach, i) => {
+    const r = reach.get(station.id) as RailReach
+    const { distance_meters, ...accessStation } = accessByParticipant[i].get(
+      r.source
+    ) as NearbyStation
+    const walkDistance = distance_meters / 1000
+    return {
+      accessStation,
+      walkDistance,
+      railDistance: distances[i] - walkDistance,
+      totalDistance: distances[i],
+    }
+  })
+
+  return {
+    station,
+    totalDistance: distances.reduce((sum, d, i) => sum + weights[i] * d, 0),
+    score,
+    objective,
+    candidatesEvaluated: evaluated,
+    journeys,
+  }
+}
@@ -0,0 +1,157 @@
+import type { DistanceMetric, LatLng, NearbyStation, StationWithCoords } from '@/types'
+import { getDistanceFunction } from './distance'
+import { type ECEFCoord, toECEF } from './ecef'
+import { EARTH_RADIUS_KM } from './haversine'
+
+/**
+ * Lower bound on (metric distance / haversine distance) used to widen the spherical search
+ * so no station is missed. WGS84 geodesics differ from the 6371 km sphere by under 0.6%.
+ */
+const METRIC_SLACK: Record<DistanceMetric, number> = {
+  haversine: 1 - 1e-9,
+  vincenty: 0.99,
+}
+
+/** Absolute slack (km) absorbing floating-point error between chord and arc distances */
+const CHORD_TOLERANCE_KM = 1e-9
+
+const AXES = ['x', 'y', 'z'] as const
+
+/** Spatial index over the station dataset answering nearest-neighbor and radius queries */
+export interface StationIndex {
+  /** Stations in their original dataset order */
+  stations: StationWithCoords[]
+  /**
+   * The `k` stations nearest to `point`, sorted by ascending distance (ties keep dataset
+   * order). Identical to a full scan + stable sort.
+   */
+  nearest(point: LatLng, k: number, metric?: DistanceMetric): NearbyStation[]
+  /** Every station within `radiusKm` of `point`, sorted like `nearest` */
+  withinRadius(point: LatLng, radiusKm: number, metric?: DistanceMetric): NearbyStation[]
+}
+
+/** Straight-line (chord) length through the sphere for a great-circle distance in km */
+function chordForArc(km: number): number {
+  if (km >= Math.PI * EARTH_RADIUS_KM) return 2 * EARTH_RADIUS_KM
+  return 2 * EARTH_RADIUS_KM * Math.sin(km / (2 * EARTH_RADIUS_KM))
+}
+
+function squaredChord(a: ECEFCoord, b: ECEFCoord): number {
+  return (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2
+}
+
+/**
+ * Build a KD-tree over the stations' ECEF coordinates (on the 6371 km sphere).
+ * Chord length grows monotonically with great-circle distance, so Euclidean pruning in 3D
+ * is exact for haversine; other metrics are handled by widening the search with
+ * `METRIC_SLACK` and re-ranking the candidates by the requested metric.
+ *
+ * The tree is implicit: `order` holds station indices such that every range [lo, hi)
+ * has its splitting station at the midpoint, split on axis `depth % 3`.
+ */
+export function buildStationIndex(stations: StationWithCoords[]): StationIndex {
+  const coords = stations.map((s) => toECEF({ lat: s.lat, lng: s.lng }))
+  const order = stations.map((_, i) => i)
+
+  function build(lo: number, hi: number, depth: number) {
+    if (hi - lo <= 1) return
+    const axis = AXES[depth % 3]
+    const sorted = order.slice(lo, hi).sort((a, b) => coords[a][axis] - coords[b][axis])
+    for (let i = 0; i < sorted.length; i++) order[lo + i] = sorted[i]
+    const mid = (lo + hi) >> 1
+    build(lo, mid, depth + 1)
+    build(mid + 1, hi, depth + 1)
+  }
+  build(0, stations.length, 0)
+
+  /** Station indices whose chord distance from `target` is at most sqrt(maxSquared) */
+  function collectWithin(target: ECEFCoord, maxSquared: number): number[] {
+    const found: number[] = []
+    function visit(lo: number, hi: number, depth: number) {
+      if (lo >= hi) return
+      const mid = (lo + hi) >> 1
+      const index = order[mid]
+      if (squaredChord(coords[index], target) <= maxSquared) found.push(index)
+      const axis = AXES[depth % 3]
+      const diff = target[axis] - coords[index][axis]
+      const [nearLo, nearHi, farLo, farHi] =
+        diff < 0 ? [lo, mid, mid + 1, hi] : [mid + 1, hi, lo, mid]
+      visit(nearLo, nearHi, depth + 1)
+      if (diff * diff <= maxSquared) visit(farLo, farHi, depth + 1)
+    }
+    visit(0, stations.length, 0)
+    return found
+  }
+
+  /** Indices of the k stations nearest to `target` by chord distance */
+  function nearestByChord(target: ECEFCoord, k: number): number[] {
+    // Best k found so far, ascending by squared chord distance
+    const best: { index: number; d: number }[] = []
+    function visit(lo: number, hi: number, depth: number) {
+      if (lo >= hi) return
+      const mid = (lo + hi) >> 1
+      const index = order[mid]
+      const d = squaredChord(coords[index], target)
+      if (best.length < k || d < best[best.length - 1].d) {
+        let pos = best.length
+        while (pos > 0 && best[pos - 1].d > d) pos--
+        best.splice(pos, 0, { index, d })
+        if (best.length > k) best.pop()
+      }
+      const axis = AXES[depth % 3]
+      const diff = target[axis] - coords[index][axis]
+      const [nearLo, nearHi, farLo, farHi] =
+        diff < 0 ? [lo, mid, mid + 1, hi] : [mid + 1, hi, lo, mid]
+      visit(nearLo, nearHi, depth + 1)
+      if (best.length < k || diff * diff <= best[best.length - 1].d) {
+        visit(farLo, farHi, depth + 1)
+      }
+    }
+    visit(0, stations.length, 0)
+    return best.map((b) => b.index)
+  }
+
+  /** Measure candidates with the metric and sort them like a stable full-scan sort */
+  function rank(point: LatLng, candidates: number[], metric?: DistanceMetric) {
+    const distance = getDistanceFunction(metric)
+    return candidates
+      .map((index) => ({
+        index,
+        km: distance(point, { lat: stations[index].lat, lng: stations[index].lng }),
+      }))
+      .sort((a, b) => a.km - b.km || a.index - b.index)
+  }
+
+  function toNearby(ranked: { index: number; km: number }[]): NearbyStation[] {
+    return ranked.map(({ index, km }) => ({ ...stations[index], distance_meters: km * 1000 }))
+  }
+
+  /** Stations whose haversine distance could be within `metricKm` under `metric` */
+  function candidatesWithin(target: ECEFCoord, metricKm: number, metric?: DistanceMetric) {
+    const chord = chordForArc(metricKm / METRIC_SLACK[metric ?? 'haversine']) + CHORD_TOLERANCE_KM
+    return collectWithin(target, chord * chord)
+  }
+
+  function withinRadius(point: LatLng, radiusKm: number, metric?: DistanceMetric) {
+    if (stations.length === 0 || radiusKm < 0) return []
+    const candidates = candidatesWithin(toECEF(point), radiusKm, metric)
+    return toNearby(rank(point, candidates, metric).filter((c) => c.km <= radiusKm))
+  }
+
+  function nearest(point: LatLng, k: number, metric?: DistanceMetric) {
+    if (stations.length === 0 || k <= 0) return []
+    const target = toECEF(point)
+    // The k chord-nearest stations bound the k-th smallest metric distance from above,
+    // so every station that could rank within the top k lies inside that bound
+    const distance = getDistanceFunction(metric)
+    const bound = nearestByChord(target, k).reduce(
+      (max, index) =>
+        Math.max(max, distance(point, { lat: stations[index].lat, lng: stations[index].lng })),
+      0
+    )
+    const candidates = candidatesWithin(target, bound, metric)
+    return toNearby(rank(point, candidates, metric).slice(0, k))
+  }
+
+  return { stations, nearest, withinRadius }
+}
@@ -0,0 +1,24 @@
+/** Probe result of each asset URL, memoized so every URL is checked at most once per session */
+const probes = new Map<string, Promise<boolean>>()
+
+/**
+ * Whether an optional generated JSON asset (e.g. the rail network) is deployed.
+ * Only the headers are requested. A missing file comes back as the SPA's HTML fallback page
+ * with status 200 on both the dev server and Pages, so the content type is checked too.
+ * Network errors count as unavailable.
+ */
+export function isJsonAssetAvailable(url: string): Promise<boolean> {
+  let probe = probes.get(url)
+  if (probe === undefined) {
+    probe = fetch(url, { method: 'HEAD' })
+      .then((res) => res.ok && (res.headers.get('content-type') ?? '').includes('json'))
+      .catch(() => false)
+    probes.set(url, probe)
+  }
+  return probe
+}
+
+/** Reset the memoized probes (test helper). */
+export function resetAssetProbes(): void {
+  probes.clear()
+}
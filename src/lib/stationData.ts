@@ -1,5 +1,6 @@
-import { haversineDistance } from '@/lib/haversine'
-import type { LatLng, NearbyStation, StationWithCoords } from '@/types'
+import { getDistanceFunction } from '@/lib/distance'
+import { buildStationIndex, type StationIndex } from '@/lib/spatialIndex'
+import type { DistanceMetric, LatLng, NearbyStation, StationWithCoords } from '@/types'
 
 /** Public path of the generated static station dataset */
 const STATIONS_URL = '/stations.json'
@@ -32,9 +33,29 @@ export function loadStations(): Promise<StationWithCoords[]> {
   return cache
 }
 
-/** Reset the in-memory cache (test helper). */
+/** Module-level cache of the spatial index, built once per loaded dataset */
+let indexCache: Promise<StationIndex> | null = null
+
+/**
+ * Load the station dataset and build its spatial index.
+ * The index is built once when `loadStations` resolves and shared by every caller.
+ */
+export function loadStationIndex(): Promise<StationIndex> {
+  if (indexCache === null) {
+    indexCache = loadStations()
+      .then(buildStationIndex)
+      .catch((err: unknown) => {
+        indexCache = null
+        throw err
+      })
+  }
+  return indexCache
+}
+
+/** Reset the in-memory caches (test helper). */
 export function resetStationCache(): void {
   cache = null
+  indexCache = null
 }
 
 /** Default cap on search results so broad queries don't render thousands of rows */
@@ -64,17 +85,21 @@ export function searchStations(
 
 /**
  * Find the nearest stations to a point, sorted by ascending distance.
- * Replaces the previous PostGIS `find_nearby_stations` RPC using haversine.
+ * Replaces the previous PostGIS `find_nearby_stations` RPC; distances are measured
+ * with `metric` (default: haversine).
+ * This is the brute-force full scan; prefer `StationIndex.nearest` for repeated queries.
  */
 export function findNearbyStations(
   point: LatLng,
   stations: StationWithCoords[],
-  limit: number
+  limit: number,
+  metric?: DistanceMetric
 ): NearbyStation[] {
+  const distance = getDistanceFunction(metric)
   return stations
     .map((station) => ({
       ...station,
-      distance_meters: haversineDistance(point, { lat: station.lat, lng: station.lng }) * 1000,
+      distance_meters: distance(point, { lat: station.lat, lng: station.lng }) * 1000,
     }))
     .sort((a, b) => a.distance_meters - b.distance_meters)
     .slice(0, limit)
@@ -0,0 +1,137 @@
+import {
+  runStationTask,
+  type StationTaskParams,
+  type StationTaskResult,
+  type StationTaskType,
+  type StationWorkerRequest,
+  type StationWorkerResponse,
+} from './stationTasks'
+
+/**
+ * Async front door for station loading, search and meeting-point optimization.
+ * Aborting `signal` cancels a stale request: its promise rejects with the signal's reason
+ * and the worker skips the work if it has not started yet.
+ */
+export interface StationService {
+  run<K extends StationTaskType>(
+    type: K,
+    params: StationTaskParams<K>,
+    signal?: AbortSignal
+  ): Promise<StationTaskResult<K>>
+  /** Stop the worker (if any) and reject every pending request */
+  dispose(): void
+}
+
+/** The parts of `Worker` the service relies on (lets tests pass an in-memory stand-in) */
+export interface StationWorkerLike {
+  postMessage(message: StationWorkerRequest): void
+  onmessage: ((event: MessageEvent<StationWorkerResponse>) => void) | null
+  onerror: ((event: ErrorEvent) => void) | null
+  terminate(): void
+}
+
+/**
+ * Service that runs every task on the calling thread.
+ * Used where Web Workers are unavailable (tests, very old browsers); results are identical.
+ */
+export function createInlineStationService(): StationService {
+  return {
+    run: (type, params, signal) => runStationTask(type, params, signal),
+    dispose: () => {},
+  }
+}
+
+/** Service that forwards tasks to a worker running `createStationTaskHost` */
+export function createWorkerStationService(worker: StationWorkerLike): StationService {
+  interface Pending {
+    resolve: (result: unknown) => void
+    reject: (reason: unknown) => void
+  }
+  const pending = new Map<number, Pending>()
+  let nextId = 1
+
+  worker.onmessage = (event) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+    pending.delete(response.id)
+    if (response.ok) {
+      request.resolve(response.result)
+    } else {
+      request.reject(new Error(response.error))
+    }
+  }
+
+  worker.onerror = (event) => {
+    const error = new Error(event.message || 'Station worker failed')
+    for (const request of pending.values()) request.reject(error)
+    pending.clear()
+  }
+
+  return {
+    run<K extends StationTaskType>(
+      type: K,
+      params: StationTaskParams<K>,
+      signal?: AbortSignal
+    ): Promise<StationTaskResult<K>> {
+      if (signal?.aborted) return Promise.reject(signal.reason)
+
+      const id = nextId++
+      return new Promise<StationTaskResult<K>>((resolve, reject) => {
+        const onAbort = () => {
+          if (!pending.delete(id)) return
+          worker.postMessage({ kind: 'cancel', id })
+          reject(signal?.reason)
+        }
+        pending.set(id, {
+          resolve: (result) => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve(result as StationTaskResult<K>)
+          },
+          reject: (reason) => {
+            signal?.removeEventListener('abort', onAbort)
+            reject(reason)
+          },
+        })
+        signal?.addEventListener('abort', onAbort, { once: true })
+        worker.postMessage({ kind: 'run', id, type, params })
+      })
+    },
+    dispose() {
+      worker.terminate()
+      const error = new Error('Station service was disposed')
+      for (const request of pending.values()) request.reject(error)
+      pending.clear()
+    },
+  }
+}
+
+/** Lazily created service shared by every hook */
+let service: StationService | null = null
+
+/**
+ * Get the shared station service: a Web Worker when the browser supports module workers,
+ * otherwise the inline fallback.
+ */
+export function getStationService(): StationService {
+  if (service === null) {
+    service = typeof Worker === 'undefined' ? createInlineStationService() : spawnWorkerService()
+  }
+  return service
+}
+
+function spawnWorkerService(): StationService {
+  try {
+    const worker = new Worker(new URL('./stationWorker.ts', import.meta.url), { type: 'module' })
+    return createWorkerStationService(worker as StationWorkerLike)
+  } catch {
+    // e.g. a CSP that forbids workers: do the work on the main thread instead
+    return createInlineStationService()
+  }
+}
+
+/** Replace the shared service, disposing the previous one; `null` resets to the default (test helper). */
+export function setStationService(next: StationService | null): void {
+  service?.dispose()
+  service = next
+}
@@ -0,0 +1,291 @@
+import type {
+  BalancedStationResult,
+  ClusterCount,
+  DirectStationResult,
+  DistanceMetric,
+  KMedoidResult,
+  LatLng,
+  MeetingPoints,
+  MinimaxStationResult,
+  NearbyStation,
+  NearOptimalShortlist,
+  NetworkStationResult,
+  SensitivityAnalysis,
+  StationClustering,
+  StationWithCoords,
+  TransferStationResult,
+} from '@/types'
+import { selectBalancedStation } from './balanced'
+import { autoKMedianClusters, kMedianClusters } from './clustering'
+import { selectDirectStation } from './directLines'
+import {
+  analyzeSensitivity,
+  selectMinimaxStation,
+  selectOptimalStation,
+  solveMeetingPoints,
+} from './geo'
+import { selectNearOptimalStations } from './nearOptimal'
+import { loadRailGraph } from './railNetwork'
+import { selectNetworkStation } from './railRouting'
+import { loadStationIndex, loadStations, searchStations } from './stationData'
+import { loadTimetableGraph, rankTimetableStations, type TimetableCandidate } from './timetable'
+import { selectTransferStation } from './transfers'
+
+/**
+ * Station and optimization work that may run off the main thread.
+ * Each entry pairs the structured-clone-safe parameters with the result type,
+ * so the worker protocol and both service implementations stay in sync.
+ */
+export interface StationTaskMap {
+  /** The full station dataset (`loadStations`) */
+  stations: { params: Record<string, never>; result: StationWithCoords[] }
+  /** Dataset rows with the given ids, in dataset order (unknown ids are skipped) */
+  stationsById: { params: { ids: number[] }; result: StationWithCoords[] }
+  /** Station name search (`searchStations`) */
+  search: { params: { query: string; limit?: number }; result: StationWithCoords[] }
+  /** Stations nearest to a point, via the spatial index */
+  nearby: {
+    params: { point: LatLng; limit: number; metric?: DistanceMetric }
+    result: NearbyStation[]
+  }
+  /** Centroid, geometric median and smallest enclosing circle of the participants */
+  meetingPoints: {
+    params: { points: LatLng[]; options?: Parameters<typeof solveMeetingPoints>[1] }
+    result: MeetingPoints
+  }
+  /** Station among the given candidates with the smallest largest distance (minimax) */
+  minimaxStation: {
+    params: {
+      participants: LatLng[]
+      candidates: StationWithCoords[]
+      options?: Parameters<typeof selectMinimaxStation>[2]
+    }
+    result: MinimaxStationResult | null
+  }
+  /** K-medoid station over the whole dataset */
+  optimalStation: {
+    params: { participants: LatLng[]; options?: Parameters<typeof selectOptimalStation>[2] }
+    result: KMedoidResult | null
+  }
+  /**
+   * Station directly reachable by the most participants; the plain optimal station when
+   * nobody can ride anywhere directly (e.g. no origin stations are known)
+   */
+  directStation: {
+    params: {
+      participants: LatLng[]
+      originLines: string[][]
+      options?: Parameters<typeof selectOptimalStation>[2]
+    }
+    result: DirectStationResult | KMedoidResult | null
+  }
+  /** K-medoid station by rail network distance (needs the rail network asset) */
+  networkStation: {
+    params: { participants: LatLng[]; options?: Parameters<typeof selectNetworkStation>[3] }
+    result: NetworkStationResult | null
+  }
+  /** Stations ranked by scheduled journey time (needs the timetable asset) */
+  timetableStations: {
+    params: { participants: LatLng[]; options: Parameters<typeof rankTimetableStations>[3] }
+    result: TimetableCandidate[]
+  }
+  /** Station needing the fewest changes of trains */
+  transferStation: {
+    params: { participants: LatLng[]; options?: Parameters<typeof selectTransferStation>[2] }
+    result: TransferStationResult | null
+  }
+  /** Leave-one-out and doubled-weight sensitivity of the meeting points */
+  sensitivity: {
+    params: {
+      participants: LatLng[]
+      /** Each participant's origin line keys, when the suggestion prefers direct rides */
+      originLines?: string[][] | null
+      options?: Parameters<typeof analyzeSensitivity>[2]
+    }
+    result: SensitivityAnalysis
+  }
+  /** Every station within a tolerance of the best total distance */
+  nearOptimalStations: {
+    params: {
+      participants: LatLng[]
+      options?: Parameters<typeof selectNearOptimalStations>[2]
+    }
+    result: NearOptimalShortlist | null
+  }
+  /** Station with the most equal distances under a cap on the total distance */
+  balancedStation: {
+    params: {
+      participants: LatLng[]
+      options?: Parameters<typeof selectBalancedStation>[2]
+    }
+    result: BalancedStationResult | null
+  }
+  /** Participants split into several meeting stations */
+  clusters: {
+    params: {
+      points: LatLng[]
+      count: ClusterCount
+      options?: Parameters<typeof kMedianClusters>[3]
+    }
+    result: StationClustering | null
+  }
+}
+
+export type StationTaskType = keyof StationTaskMap
+export type StationTaskParams<K extends StationTaskType> = StationTaskMap[K]['params']
+export type StationTaskResult<K extends StationTaskType> = StationTaskMap[K]['result']
+
+/** Message sent from the page to the worker */
+export type StationWorkerRequest =
+  | { kind: 'run'; id: number; type: StationTaskType; params: unknown }
+  | { kind: 'cancel'; id: number }
+
+/** Message sent from the worker back to the page */
+export type StationWorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string }
+
+type StationTaskHandler<K extends StationTaskType> = (
+  params: StationTaskParams<K>,
+  signal?: AbortSignal
+) => Promise<StationTaskResult<K>>
+
+/**
+ * Bail out if the request went stale before its computation starts. Yields to the event loop
+ * first: a worker busy with the previous task only receives the cancel messages queued behind
+ * it between macrotasks. Once the synchronous computation has started, it runs to completion.
+ */
+async function throwIfStale(signal?: AbortSignal) {
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  signal?.throwIfAborted()
+}
+
+/** Load the spatial index, then bail out if the request went stale meanwhile */
+async function loadIndexFor(signal?: AbortSignal) {
+  const index = await loadStationIndex()
+  await throwIfStale(signal)
+  return index
+}
+
+const HANDLERS: { [K in StationTaskType]: StationTaskHandler<K> } = {
+  stations: () => loadStations(),
+  stationsById: async ({ ids }, signal) => {
+    const stations = await loadStations()
+    signal?.throwIfAborted()
+    const wanted = new Set(ids)
+    return stations.filter((station) => wanted.has(station.id))
+  },
+  search: async ({ query, limit }, signal) => {
+    const stations = await loadStations()
+    signal?.throwIfAborted()
+    return searchStations(query, stations, limit)
+  },
+  nearby: async ({ point, limit, metric }, signal) =>
+    (await loadIndexFor(signal)).nearest(point, limit, metric),
+  meetingPoints: async ({ points, options }) => solveMeetingPoints(points, options),
+  minimaxStation: async ({ participants, candidates, options }) =>
+    selectMinimaxStation(participants, candidates, options),
+  optimalStation: async ({ participants, options }, signal) =>
+    selectOptimalStation(participants, await loadIndexFor(signal), options),
+  directStation: async ({ participants, originLines, options }, signal) => {
+    const index = await loadIndexFor(signal)
+    return (
+      selectDirectStation(participants, originLines, index, options) ??
+      selectOptimalStation(participants, index, options)
+    )
+  },
+  networkStation: async ({ participants, options }, signal) => {
+    const [index, graph] = await Promise.all([loadStationIndex(), loadRailGraph()])
+    await throwIfStale(signal)
+    return selectNetworkStation(participants, graph, index, options)
+  },
+  timetableStations: async ({ participants, options }, signal) => {
+    const [index, graph] = await Promise.all([loadStationIndex(), loadTimetableGraph()])
+    await throwIfStale(signal)
+    return rankTimetableStations(participants, graph, index, options)
+  },
+  transferStation: async ({ participants, options }, signal) =>
+    selectTransferStation(participants, await loadIndexFor(signal), options),
+  sensitivity: async ({ participants, originLines, options }, signal) => {
+    const index = await loadIndexFor(signal)
+    // With origin lines, every variant's station is searched like `directStation` searches ★
+    return analyzeSensitivity(
+      participants,
+      index,
+      options,
+      originLines
+        ? (points, indices, variant) =>
+            selectDirectStation(
+              points,
+              indices.map((i) => originLines[i]),
+              index,
+              variant
+            ) ?? selectOptimalStation(points, index, variant)
+        : undefined
+    )
+  },
+  nearOptimalStations: async ({ participants, options }, signal) =>
+    selectNearOptimalStations(participants, await loadIndexFor(signal), options),
+  balancedStation: async ({ participants, options }, signal) =>
+    selectBalancedStation(participants, await loadIndexFor(signal), options),
+  clusters: async ({ points, count, options }, signal) => {
+    const index = await loadIndexFor(signal)
+    return count === 'auto'
+      ? autoKMedianClusters(points, index, options)
+      : kMedianClusters(points, index, count, options)
+  },
+}
+
+/**
+ * Run a station task on the current thread.
+ * Rejects with the signal's reason if `signal` is aborted before the work starts
+ * or while the dataset is loading. A task cannot be cancelled once its computation has
+ * started (e.g. the 2n + 1 searches of `sensitivity`); it runs to completion and its
+ * result is dropped.
+ */
+export async function runStationTask<K extends StationTaskType>(
+  type: K,
+  params: StationTaskParams<K>,
+  signal?: AbortSignal
+): Promise<StationTaskResult<K>> {
+  signal?.throwIfAborted()
+  const handler = HANDLERS[type] as StationTaskHandler<K> | undefined
+  if (!handler) {
+    throw new Error(`Unknown station task: ${type}`)
+  }
+  return handler(params, signal)
+}
+
+/**
+ * Create the worker-side message handler: runs requested tasks and posts their results,
+ * dropping requests that the page cancelled before they finished.
+ */
+export function createStationTaskHost(
+  post: (response: StationWorkerResponse) => void
+): (request: StationWorkerRequest) => void {
+  const inFlight = new Map<number, AbortController>()
+
+  return (request) => {
+    if (request.kind === 'cancel') {
+      inFlight.get(request.id)?.abort()
+      inFlight.delete(request.id)
+      return
+    }
+
+    const { id, type, params } = request
+    const controller = new AbortController()
+    inFlight.set(id, controller)
+    runStationTask(type, params as StationTaskParams<typeof type>, controller.signal)
+      .then(
+        (result) => {
+          if (!controller.signal.aborted) post({ id, ok: true, result })
+        },
+        (err: unknown) => {
+          if (controller.signal.aborted) return
+          const message = err instanceof Error ? err.message : '不明なエラーが発生しました'
+          post({ id, ok: false, error: message })
+        }
+      )
+      .finally(() => inFlight.delete(id))
+  }
+}
@@ -0,0 +1,16 @@
+import {
+  createStationTaskHost,
+  type StationWorkerRequest,
+  type StationWorkerResponse,
+} from './stationTasks'
+
+/** The subset of DedicatedWorkerGlobalScope this worker uses (the app compiles against DOM types) */
+interface StationWorkerScope {
+  onmessage: ((event: MessageEvent<StationWorkerRequest>) => void) | null
+  postMessage(message: StationWorkerResponse): void
+}
+
+const scope = self as unknown as StationWorkerScope
+const handle = createStationTaskHost((response) => scope.postMessage(response))
+
+scope.onmessage = (event) => handle(event.data)
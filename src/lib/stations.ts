@@ -1,4 +1,6 @@
-import type { NearbyStation } from '@/types'
+import type { NearbyStation, StationOrigin, StationWithCoords } from '@/types'
+import { haversineDistance } from './haversine'
+import { INTERCHANGE_RADIUS_KM, lineKey } from './transfers'
 
 /** A station group keyed by name, with representative coords and aggregated line names. */
 export interface GroupedStation {
@@ -12,6 +14,8 @@ export interface GroupedStation {
   distance_meters: number
   /** Unique, ordered list of line names across rows in the group */
   lines: string[]
+  /** Unique, ordered keys (`lineKey`) of the named lines across rows in the group */
+  lineKeys: string[]
 }
 
 /**
@@ -22,7 +26,7 @@ export interface GroupedStation {
 export function groupStationsByName(stations: NearbyStation[]): GroupedStation[] {
   const groups = new Map<
     string,
-    { lat: number; lng: number; distance_meters: number; lines: string[] }
+    { lat: number; lng: number; distance_meters: number; lines: string[]; lineKeys: string[] }
   >()
   for (const s of stations) {
     const existing = groups.get(s.name)
@@ -35,14 +39,50 @@ export function groupStationsByName(stations: NearbyStation[]): GroupedStation[]
       if (s.line_name && !existing.lines.includes(s.line_name)) {
         existing.lines.push(s.line_name)
       }
+      if (s.line_name && !existing.lineKeys.includes(lineKey(s))) {
+        existing.lineKeys.push(lineKey(s))
+      }
     } else {
       groups.set(s.name, {
         lat: s.lat,
         lng: s.lng,
         distance_meters: s.distance_meters,
         lines: s.line_name ? [s.line_name] : [],
+        lineKeys: s.line_name ? [lineKey(s)] : [],
       })
     }
   }
   return Array.from(groups, ([name, data]) => ({ name, ...data }))
 }
+
+/**
+ * Build the origin reference for rows of one station: their ids, the name of the first row
+ * and the deduplicated line names and keys (first-seen order).
+ */
+export function stationOriginFromRows(rows: StationWithCoords[]): StationOrigin {
+  const lines: string[] = []
+  const lineKeys: string[] = []
+  for (const row of rows) {
+    if (!row.line_name) continue
+    if (!lines.includes(row.line_name)) lines.push(row.line_name)
+    if (!lineKeys.includes(lineKey(row))) lineKeys.push(lineKey(row))
+  }
+  return { stationIds: rows.map((row) => row.id), name: rows[0]?.name ?? '', lines, lineKeys }
+}
+
+/**
+ * Origin reference for a picked station, gathering the rows of the same station
+ * (same name within `INTERCHANGE_RADIUS_KM`) from `candidates` so every line serving it counts.
+ */
+export function stationOriginFor(
+  station: StationWithCoords,
+  candidates: StationWithCoords[]
+): StationOrigin {
+  const siblings = candidates.filter(
+    (row) =>
+      row.id !== station.id &&
+      row.name === station.name &&
+      haversineDistance(row, station) <= INTERCHANGE_RADIUS_KM
+  )
+  return stationOriginFromRows([station, ...siblings])
+}
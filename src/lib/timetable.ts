@@ -0,0 +1,260 @@
+import type {
+  DistanceMetric,
+  LatLng,
+  ObjectiveKind,
+  StationWithCoords,
+  Timetable,
+  TimetableConnection,
+} from '@/types'
+import { evaluateObjective } from './geo'
+import { ACCESS_STATION_COUNT, ACCESS_WALK_LIMIT_KM } from './railRouting'
+import type { StationIndex } from './spatialIndex'
+import { lineGraphFor } from './transfers'
+import { DEFAULT_TRAVEL_PROFILES, minutesPerKm } from './travelTime'
+
+/** Public path of the generated static timetable */
+export const TIMETABLE_URL = '/timetable.json'
+
+/** Number of candidate stations `rankTimetableStations` returns by default */
+export const TIMETABLE_RANKING_LIMIT = 10
+
+/** Module-level cache so the timetable is fetched at most once per session */
+let cache: Promise<Timetable> | null = null
+
+function isTupleList(value: unknown, length: number): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (tuple) =>
+        Array.isArray(tuple) && tuple.length === length && tuple.every((n) => typeof n === 'number')
+    )
+  )
+}
+
+/**
+ * Load the timetable from the static asset.
+ * The result is memoized; concurrent callers share a single fetch.
+ * @throws Error if the asset is missing or not a timetable (e.g. an HTML fallback page)
+ */
+export function loadTimetable(): Promise<Timetable> {
+  if (cache === null) {
+    cache = fetch(TIMETABLE_URL)
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load timetable: ${res.status}`)
+        }
+        return res.json() as Promise<unknown>
+      })
+      .then((raw) => {
+        const timetable = raw as Partial<Timetable> | null
+        if (
+          !timetable ||
+          !isTupleList(timetable.connections, 5) ||
+          !isTupleList(timetable.transfers, 3)
+        ) {
+          throw new Error('Invalid timetable data')
+        }
+        return timetable as Timetable
+      })
+      .catch((err: unknown) => {
+        // Reset cache so a later call can retry after a transient failure
+        cache = null
+        throw err
+      })
+  }
+  return cache
+}
+
+/** The timetable prepared for connection scans */
+export interface TimetableGraph {
+  /** Every connection, sorted by departure time */
+  connections: TimetableConnection[]
+  /** Walking transfers leaving each station, with their duration in seconds */
+  footpaths: Map<number, { to: number; seconds: number }[]>
+  /** Minimum time to change trains at a station in seconds (absent means 0) */
+  changeSeconds: Map<number, number>
+}
+
+/** Split the asset's transfers into footpaths and per-station change times */
+export function buildTimetableGraph(timetable: Timetable): TimetableGraph {
+  const footpaths = new Map<number, { to: number; seconds: number }[]>()
+  const changeSeconds = new Map<number, number>()
+  for (const [from, to, seconds] of timetable.transfers) {
+    if (from === to) {
+      changeSeconds.set(from, seconds)
+      continue
+    }
+    const leaving = footpaths.get(from)
+    if (leaving) {
+      leaving.push({ to, seconds })
+    } else {
+      footpaths.set(from, [{ to, seconds }])
+    }
+  }
+  return { connections: timetable.connections, footpaths, changeSeconds }
+}
+
+/** Module-level cache of the graph, built once per loaded timetable */
+let graphCache: Promise<TimetableGraph> | null = null
+
+/** Load the timetable and build its graph, shared by every caller. */
+export function loadTimetableGraph(): Promise<TimetableGraph> {
+  if (graphCache === null) {
+    graphCache = loadTimetable()
+      .then(buildTimetableGraph)
+      .catch((err: unknown) => {
+        graphCache = null
+        throw err
+      })
+  }
+  return graphCache
+}
+
+/** Reset the in-memory caches (test helper). */
+export function resetTimetableCache(): void {
+  cache = null
+  graphCache = null
+}
+
+/** A station a connection scan starts from, with the time the traveler is ready to board */
+export interface TimetableSource {
+  station: number
+  /** Seconds after midnight */
+  time: number
+}
+
+/** Index of the first connection departing at or after `time` (binary search) */
+function firstDepartingAt(connections: TimetableConnection[], time: number): number {
+  let low = 0
+  let high = connections.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (connections[mid][2] < time) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * Connection Scan Algorithm: earliest arrival (seconds after midnight) at every station
+ * reachable from any source. Staying on a train is free; boarding another one at a station
+ * reached by train needs that station's change time, and one footpath may follow each
+ * arrival. Sources are reachable at their own time.
+ */
+export function earliestArrivals(
+  graph: TimetableGraph,
+  sources: TimetableSource[]
+): Map<number, number> {
+  const arrival = new Map<number, number>()
+  // Earliest time a train can be boarded at each station
+  const ready = new Map<number, number>()
+  function reach(station: number, time: number, boardable: number) {
+    if (time < (arrival.get(station) ?? Number.POSITIVE_INFINITY)) arrival.set(station, time)
+    if (boardable < (ready.get(station) ?? Number.POSITIVE_INFINITY)) ready.set(station, boardable)
+  }
+  function walkFrom(station: number, time: number) {
+    for (const { to, seconds } of graph.footpaths.get(station) ?? []) {
+      reach(to, time + seconds, time + seconds)
+    }
+  }
+
+  for (const { station, time } of sources) reach(station, time, time)
+  for (const { station, time } of sources) walkFrom(station, time)
+  if (sources.length === 0) return arrival
+
+  const boarded = new Set<number>()
+  const start = Math.min(...sources.map((s) => s.time))
+  for (let i = firstDepartingAt(graph.connections, start); i < graph.connections.length; i++) {
+    const [from, to, departure, arrivalTime, trip] = graph.connections[i]
+    if (!boarded.has(trip)) {
+      if ((ready.get(from) ?? Number.POSITIVE_INFINITY) > departure) continue
+      boarded.add(trip)
+    }
+    if (arrivalTime >= (arrival.get(to) ?? Number.POSITIVE_INFINITY)) continue
+    reach(to, arrivalTime, arrivalTime + (graph.changeSeconds.get(to) ?? 0))
+    walkFrom(to, arrivalTime)
+  }
+  return arrival
+}
+
+/** A candidate meeting station with everyone's scheduled journey time */
+export interface TimetableCandidate {
+  station: StationWithCoords
+  /** Door-to-station minutes (walk, wait and ride), aligned with the participants */
+  minutes: number[]
+  /** Value of the objective over `minutes` */
+  score: number
+}
+
+interface TimetableRankingOptions {
+  /** Departure time in seconds after midnight */
+  departure: number
+  /** Per-participant weights (default: 1 for every participant) */
+  weights?: number[]
+  /** Objective over the journey minutes (default: 'totalTime') */
+  objective?: ObjectiveKind
+  /** Metric for the walking legs (default: 'haversine') */
+  metric?: DistanceMetric
+  /** Number of candidates to return (default: `TIMETABLE_RANKING_LIMIT`) */
+  limit?: number
+}
+
+/**
+ * Rank meeting stations by scheduled journey time: everyone leaves at `departure`, walks to
+ * one of their `ACCESS_STATION_COUNT` nearest stations (the nearest one, or any within
+ * `ACCESS_WALK_LIMIT_KM`) and takes the earliest trains from there. Same-name rows of one
+ * station count as one candidate, reached by the earliest of them.
+ * Candidates someone cannot reach are skipped; ties keep dataset order.
+ */
+export function rankTimetableStations(
+  participants: LatLng[],
+  graph: TimetableGraph,
+  index: StationIndex,
+  options: TimetableRankingOptions
+): TimetableCandidate[] {
+  if (participants.length === 0 || index.stations.length === 0) return []
+
+  const { departure } = options
+  const weights = options.weights ?? participants.map(() => 1)
+  const objective = options.objective ?? 'totalTime'
+  const walkSecondsPerKm = minutesPerKm(DEFAULT_TRAVEL_PROFILES.walk) * 60
+  const lineGraph = lineGraphFor(index.stations)
+
+  const groupArrivals = participants.map((p) => {
+    const nearby = index.nearest(p, ACCESS_STATION_COUNT, options.metric)
+    const sources = nearby
+      .filter((s, i) => i === 0 || s.distance_meters <= ACCESS_WALK_LIMIT_KM * 1000)
+      .map((s) => ({
+        station: s.id,
+        time: departure + (s.distance_meters / 1000) * walkSecondsPerKm,
+      }))
+    const byGroup = new Map<number, number>()
+    for (const [station, time] of earliestArrivals(graph, sources)) {
+      const group = lineGraph.groupOf.get(station)
+      if (group === undefined) continue
+      if (time < (byGroup.get(group) ?? Number.POSITIVE_INFINITY)) byGroup.set(group, time)
+    }
+    return byGroup
+  })
+
+  const candidates: (TimetableCandidate & { group: number })[] = []
+  for (const group of groupArrivals[0].keys()) {
+    const times = groupArrivals.map((byGroup) => byGroup.get(group))
+    if (times.some((t) => t === undefined)) continue
+    const minutes = (times as number[]).map((t) => (t - departure) / 60)
+    candidates.push({
+      group,
+      station: lineGraph.groups[group].station,
+      minutes,
+      score: evaluateObjective(minutes, { weights, objective }),
+    })
+  }
+
+  return candidates
+    .sort((a, b) => a.score - b.score || a.group - b.group)
+    .slice(0, options.limit ?? TIMETABLE_RANKING_LIMIT)
+    .map(({ group: _group, ...candidate }) => candidate)
+}
@@ -0,0 +1,213 @@
+import type {
+  DistanceMetric,
+  LatLng,
+  ObjectiveKind,
+  StationWithCoords,
+  TransferStationResult,
+} from '@/types'
+import { getDistanceFunction } from './distance'
+import { evaluateObjective } from './geo'
+import { haversineDistance } from './haversine'
+import type { StationIndex } from './spatialIndex'
+
+/**
+ * Same-name rows closer than this (km) are one station you can change trains at.
+ * Keeps unrelated namesakes (e.g. 府中 in Tokyo and in Hiroshima) apart.
+ */
+export const INTERCHANGE_RADIUS_KM = 1
+
+/** Rows of the dataset that form one physical station, with the lines serving it */
+export interface StationGroup {
+  /** Representative row (the first one in dataset order) */
+  station: StationWithCoords
+  /** Ids into `LineGraph.lines` */
+  lines: number[]
+}
+
+/**
+ * Lines as nodes, connected when they share a station. BFS over this graph counts
+ * changes of trains between any two lines.
+ */
+export interface LineGraph {
+  /** Display name of each line */
+  lines: string[]
+  /** Key of each line (`lineKey`), telling apart namesakes run by different operators */
+  keys: string[]
+  /** Lines reachable without leaving the station, per line */
+  adjacency: number[][]
+  /** Physical stations, in order of their first row */
+  groups: StationGroup[]
+  /** Group index of every station id */
+  groupOf: Map<number, number>
+}
+
+/** Lines are identified by operator and name: many operators run a "本線" */
+export function lineKey(station: StationWithCoords): string {
+  return `${station.operator ?? ''}::${station.line_name ?? `#${station.id}`}`
+}
+
+/** Line name of a `lineKey` of a named line */
+export function lineNameOfKey(key: string): string {
+  return key.slice(key.indexOf('::') + 2)
+}
+
+/** Build the line graph from the station rows (one row per station and line) */
+export function buildLineGraph(stations: StationWithCoords[]): LineGraph {
+  const lineIds = new Map<string, number>()
+  const lines: string[] = []
+  const keys: string[] = []
+  const adjacencySets: Set<number>[] = []
+  const groups: StationGroup[] = []
+  const groupOf = new Map<number, number>()
+  const groupsByName = new Map<string, number[]>()
+
+  for (const station of stations) {
+    const key = lineKey(station)
+    let line = lineIds.get(key)
+    if (line === undefined) {
+      line = lines.length
+      lineIds.set(key, line)
+      lines.push(station.line_name ?? station.name)
+      keys.push(key)
+      adjacencySets.push(new Set())
+    }
+
+    const sameName = groupsByName.get(station.name) ?? []
+    let group = sameName.find(
+      (g) => haversineDistance(groups[g].station, station) <= INTERCHANGE_RADIUS_KM
+    )
+    if (group === undefined) {
+      group = groups.length
+      groups.push({ station, lines: [] })
+      groupsByName.set(station.name, [...sameName, group])
+    }
+    groupOf.set(station.id, group)
+
+    const served = groups[group].lines
+    if (!served.includes(line)) {
+      for (const other of served) {
+        adjacencySets[line].add(other)
+        adjacencySets[other].add(line)
+      }
+      served.push(line)
+    }
+  }
+
+  return { lines, keys, adjacency: adjacencySets.map((set) => [...set]), groups, groupOf }
+}
+
+/**
+ * Changes of trains needed to reach every line from any of `start` (BFS).
+ * Starting lines are 0; unreachable lines are Infinity.
+ */
+export function transfersFromLines(graph: LineGraph, start: number[]): number[] {
+  const counts = graph.lines.map(() => Number.POSITIVE_INFINITY)
+  let frontier = [...new Set(start)]
+  for (const line of frontier) counts[line] = 0
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: number[] = []
+    for (const line of frontier) {
+      for (const neighbor of graph.adjacency[line]) {
+        if (counts[neighbor] !== Number.POSITIVE_INFINITY) continue
+        counts[neighbor] = depth
+        next.push(neighbor)
+      }
+    }
+    frontier = next
+  }
+  return counts
+}
+
+/** Line graphs already built, per dataset */
+const graphCache = new WeakMap<StationWithCoords[], LineGraph>()
+
+/** The line graph of a dataset, built on first use and cached */
+export function lineGraphFor(stations: StationWithCoords[]): LineGraph {
+  let graph = graphCache.get(stations)
+  if (!graph) {
+    graph = buildLineGraph(stations)
+    graphCache.set(stations, graph)
+  }
+  return graph
+}
+
+interface TransferStationOptions {
+  /** Per-participant weights (default: 1 for every participant) */
+  weights?: number[]
+  /**
+   * Distance objective used as the tie-breaker (default: 'sum'). With 'max' or 'maxTime',
+   * the largest number of transfers is ranked first; otherwise the (weighted) total is.
+   */
+  objective?: ObjectiveKind
+  /** Distance metric (default: 'haversine') */
+  metric?: DistanceMetric
+}
+
+/**
+ * Select the station needing the fewest changes of trains: each participant boards at their
+ * nearest station, and the transfers to every other station come from a BFS over the line
+ * graph. Candidates are ranked by total (or maximum) transfers, then the other of the two,
+ * then the distance objective. Stations someone cannot reach by rail are skipped.
+ * Returns null when there are no participants or no station is reachable by everyone.
+ */
+export function selectTransferStation(
+  participants: LatLng[],
+  index: StationIndex,
+  options?: TransferStationOptions
+): TransferStationResult | null {
+  if (participants.length === 0 || index.stations.length === 0) return null
+
+  const graph = lineGraphFor(index.stations)
+  const weights = options?.weights ?? participants.map(() => 1)
+  const objective = options?.objective ?? 'sum'
+  const distance = getDistanceFunction(options?.metric)
+
+  const origins = participants.map((p) => {
+    const [nearest] = index.nearest(p, 1, options?.metric)
+    const { distance_meters: _distance, ...station } = nearest
+    return station
+  })
+  const lineTransfers = origins.map((origin) =>
+    transfersFromLines(graph, graph.groups[graph.groupOf.get(origin.id) as number].lines)
+  )
+
+  // Ranking key compared lexicographically; smaller is better
+  let best: { key: number[]; group: number; transfers: number[]; distances: number[] } | null = null
+  let evaluated = 0
+  for (let group = 0; group < graph.groups.length; group++) {
+    const { station, lines } = graph.groups[group]
+    const transfers = lineTransfers.map((counts) => Math.min(...lines.map((l) => counts[l])))
+    if (transfers.some((t) => t === Number.POSITIVE_INFINITY)) continue
+    evaluated++
+
+    const total = transfers.reduce((sum, t, i) => sum + weights[i] * t, 0)
+    const max = Math.max(...transfers)
+    const distances = participants.map((p) => distance(p, station))
+    const score = evaluateObjective(distances, { weights, objective })
+    const key =
+      objective === 'max' || objective === 'maxTime' ? [max, total, score] : [total, max, score]
+    if (best === null || isLexicographicallySmaller(key, best.key)) {
+      best = { key, group, transfers, distances }
+    }
+  }
+  if (best === null) return null
+
+  const { station, lines } = graph.groups[best.group]
+  return {
+    station,
+    totalDistance: best.distances.reduce((sum, d, i) => sum + weights[i] * d, 0),
+    score: best.key[2],
+    objective,
+    candidatesEvaluated: evaluated,
+    lines: lines.map((l) => graph.lines[l]),
+    transfers: best.transfers,
+    origins,
+  }
+}
+
+function isLexicographicallySmaller(a: number[], b: number[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i]
+  }
+  return false
+}
@@ -0,0 +1,68 @@
+import type {
+  DistanceMetric,
+  LatLng,
+  Location,
+  ObjectiveKind,
+  TravelMode,
+  TravelProfile,
+  TravelProfiles,
+} from '@/types'
+import { getDistanceFunction } from './distance'
+
+/** Travel mode assumed for locations that do not specify one */
+export const DEFAULT_TRAVEL_MODE: TravelMode = 'train'
+
+/**
+ * Default speed models. Speeds are door-to-door averages including stops and signals;
+ * circuity turns straight-line distance into route length.
+ */
+export const DEFAULT_TRAVEL_PROFILES: TravelProfiles = {
+  walk: { speedKmh: 4.8, circuity: 1.3 },
+  bicycle: { speedKmh: 15, circuity: 1.3 },
+  car: { speedKmh: 30, circuity: 1.4 },
+  train: { speedKmh: 40, circuity: 1.2 },
+}
+
+/** Display labels of the travel modes, in menu order */
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  train: '電車',
+  walk: '徒歩',
+  bicycle: '自転車',
+  car: '車',
+}
+
+/** Whether the objective is measured in travel minutes rather than km */
+export function isTimeObjective(objective: ObjectiveKind): boolean {
+  return objective === 'totalTime' || objective === 'maxTime'
+}
+
+/** Minutes needed per straight-line km with the given profile */
+export function minutesPerKm(profile: TravelProfile): number {
+  return (profile.circuity / profile.speedKmh) * 60
+}
+
+/**
+ * Minutes per straight-line km for each location, by its travel mode.
+ * Used as the per-participant `scales` of the time objectives.
+ */
+export function locationTimeScales(locations: Location[], profiles: TravelProfiles): number[] {
+  return locations.map((loc) => minutesPerKm(profiles[loc.mode ?? DEFAULT_TRAVEL_MODE]))
+}
+
+interface TravelTimeOptions {
+  /** Speed models (default: `DEFAULT_TRAVEL_PROFILES`) */
+  profiles?: TravelProfiles
+  /** Distance metric for the straight-line distances (default: 'haversine') */
+  metric?: DistanceMetric
+}
+
+/** Estimated travel minutes from each location to `point`, aligned with `locations` */
+export function travelTimes(
+  point: LatLng,
+  locations: Location[],
+  options?: TravelTimeOptions
+): number[] {
+  const distance = getDistanceFunction(options?.metric)
+  const scales = locationTimeScales(locations, options?.profiles ?? DEFAULT_TRAVEL_PROFILES)
+  return locations.map((loc, i) => distance(point, loc.latlng) * scales[i])
+}
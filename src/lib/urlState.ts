@@ -1,4 +1,13 @@
-import type { Location } from '@/types'
+import type {
+  AlternativeOrigin,
+  Destination,
+  LatLng,
+  Location,
+  ObjectiveKind,
+  TravelMode,
+} from '@/types'
+import { isSameOrigin } from './geo'
+import { formatClockTime, parseClockTime } from './meetingPlan'
 
 /** Maximum number of locations to encode in URL */
 const MAX_URL_LOCATIONS = 10
@@ -6,60 +15,240 @@ const MAX_URL_LOCATIONS = 10
 /** Decimal precision for coordinates (~11m accuracy) */
 const COORD_PRECISION = 4
 
+/** Objective used when the URL does not specify one */
+export const DEFAULT_OBJECTIVE: ObjectiveKind = 'sum'
+
+const OBJECTIVE_KINDS: readonly ObjectiveKind[] = [
+  'sum',
+  'sumOfSquares',
+  'max',
+  'sumPlusMax',
+  'stdDev',
+  'totalTime',
+  'maxTime',
+]
+
+/** One-letter codes of the travel modes in the `modes` parameter */
+const TRAVEL_MODE_CODES: Record<TravelMode, string> = {
+  walk: 'w',
+  bicycle: 'b',
+  car: 'c',
+  train: 't',
+}
+
+/** Non-location settings persisted in the share URL alongside `locations` */
+export interface ShareOptions {
+  /** Objective for the suggested station (omitted from the URL when default) */
+  objective?: ObjectiveKind
+  /** Meeting time in minutes after midnight (omitted from the URL when null or absent) */
+  meetingTime?: number | null
+  /** Shared destination after meeting (omitted from the URL when null or absent) */
+  destination?: Destination | null
+}
+
+/** Format a labeled point as `label,lat,lng` with a percent-encoded label */
+function formatLabeledPoint(label: string, latlng: LatLng): string {
+  return `${encodeURIComponent(label)},${latlng.lat.toFixed(COORD_PRECISION)},${latlng.lng.toFixed(COORD_PRECISION)}`
+}
+
+/**
+ * Parse a decoded `label,lat,lng` entry. Coordinates are always the last two parts, so the
+ * label may contain commas. Returns null for a missing label or invalid coordinates.
+ */
+function parseLabeledPoint(entry: string): { label: string; latlng: LatLng } | null {
+  const parts = entry.split(',')
+  if (parts.length < 3) return null
+  const lng = Number(parts[parts.length - 1])
+  const lat = Number(parts[parts.length - 2])
+  const label = parts.slice(0, -2).join(',')
+  if (!label || Number.isNaN(lat) || Number.isNaN(lng)) return null
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null
+  return { label, latlng: { lat, lng } }
+}
+
 /**
  * Serialize locations into a URL search string.
  * Format: `locations=label1,lat1,lng1%7Clabel2,lat2,lng2`
  * Each label is percent-encoded; coordinates are rounded to 4 decimal places.
  * The delimiter `|` is encoded as `%7C` so that URL-rewriting services
  * (e.g. Slack) do not alter the structure.
+ *
+ * Weights travel in a separate, index-aligned `weights=3,1,1` parameter that is
+ * only emitted when at least one location has a non-default weight. That keeps old links
+ * and plain one-person pins unchanged, and leaves the coordinates as the last two parts of
+ * every entry, which is what lets labels contain commas.
+ *
+ * Station origins likewise travel in an index-aligned `origins=101.102,,205` parameter:
+ * only the station ids (joined by `.`), empty for hand-entered locations. Names and
+ * lines are looked up from the dataset again when the link is opened.
+ *
+ * Travel modes travel in an index-aligned `modes=t,w,c` parameter of one-letter codes,
+ * only emitted when at least one location has a mode set.
+ *
+ * Alternative origins travel in `alts=0:label,lat,lng%7C2:label,lat,lng`, one entry per
+ * alternative prefixed with the index of its location.
  */
 export function serializeLocations(locations: Location[]): string {
   if (locations.length === 0) return ''
   const capped = locations.slice(0, MAX_URL_LOCATIONS)
-  const encoded = capped
-    .map(
-      (loc) =>
-        `${encodeURIComponent(loc.label)},${loc.latlng.lat.toFixed(COORD_PRECISION)},${loc.latlng.lng.toFixed(COORD_PRECISION)}`
-    )
-    .join('%7C')
-  return `locations=${encoded}`
+  const encoded = capped.map((loc) => formatLabeledPoint(loc.label, loc.latlng)).join('%7C')
+  const hasWeights = capped.some((loc) => (loc.weight ?? 1) !== 1)
+  const weights = hasWeights ? `&weights=${capped.map((loc) => loc.weight ?? 1).join(',')}` : ''
+  const hasOrigins = capped.some((loc) => loc.origin)
+  const origins = hasOrigins
+    ? `&origins=${capped.map((loc) => loc.origin?.stationIds.join('.') ?? '').join(',')}`
+    : ''
+  const hasModes = capped.some((loc) => loc.mode)
+  const modes = hasModes
+    ? `&modes=${capped.map((loc) => (loc.mode ? TRAVEL_MODE_CODES[loc.mode] : '')).join(',')}`
+    : ''
+  const alternatives = capped.flatMap((loc, index) =>
+    (loc.alternatives ?? []).map((alt) => `${index}:${formatLabeledPoint(alt.label, alt.latlng)}`)
+  )
+  const alts = alternatives.length > 0 ? `&alts=${alternatives.join('%7C')}` : ''
+  return `locations=${encoded}${weights}${origins}${modes}${alts}`
+}
+
+/** Parse the index-aligned `weights` parameter; invalid slots are returned as undefined. */
+function parseWeights(raw: string | null): (number | undefined)[] {
+  if (!raw) return []
+  return raw.split(',').map((part) => {
+    const value = Number(part)
+    return part !== '' && Number.isFinite(value) && value > 0 ? value : undefined
+  })
+}
+
+/**
+ * Parse the index-aligned `origins` parameter into station ids per slot.
+ * Slots that are empty or not a list of integer ids are returned as undefined.
+ */
+function parseOrigins(raw: string | null): (number[] | undefined)[] {
+  if (!raw) return []
+  return raw.split(',').map((part) => {
+    if (part === '') return undefined
+    const ids = part.split('.').map(Number)
+    return ids.every((id) => Number.isInteger(id) && id >= 0) ? ids : undefined
+  })
+}
+
+/** Parse the index-aligned `modes` parameter; unknown codes are returned as undefined. */
+function parseModes(raw: string | null): (TravelMode | undefined)[] {
+  if (!raw) return []
+  const modes = Object.keys(TRAVEL_MODE_CODES) as TravelMode[]
+  return raw.split(',').map((code) => modes.find((mode) => TRAVEL_MODE_CODES[mode] === code))
+}
+
+/**
+ * Parse the `alts` parameter into alternative origins per location index.
+ * Entries without a valid index or point are skipped, as are repeats of an origin.
+ */
+function parseAlternatives(raw: string | null): Map<number, AlternativeOrigin[]> {
+  const byIndex = new Map<number, AlternativeOrigin[]>()
+  if (!raw) return byIndex
+  for (const entry of raw.split('|')) {
+    const separator = entry.indexOf(':')
+    const index = Number(entry.slice(0, separator))
+    const point = separator > 0 ? parseLabeledPoint(entry.slice(separator + 1)) : null
+    if (!point || !Number.isInteger(index) || index < 0) continue
+    const existing = byIndex.get(index) ?? []
+    if (existing.some((alternative) => isSameOrigin(alternative, point))) continue
+    byIndex.set(index, [...existing, point])
+  }
+  return byIndex
 }
 
 /**
  * Deserialize a URL search string into locations.
  * Uses URLSearchParams which automatically decodes percent-encoded values,
  * ensuring that `%7C` (encoded `|`) is correctly decoded before splitting.
- * Invalid entries (missing fields, non-numeric coords, out-of-range) are silently skipped.
+ * Invalid entries (missing fields, non-numeric coords, out-of-range) are silently skipped,
+ * as are invalid weights (the location falls back to the default weight) and invalid
+ * origins, modes or alternatives (the location is kept without them). Restored origins
+ * carry only the station ids.
  */
 export function deserializeLocations(search: string): Location[] {
-  const raw = new URLSearchParams(search).get('locations')
+  const params = new URLSearchParams(search)
+  const raw = params.get('locations')
   if (!raw) return []
 
   const entries = raw.split('|')
+  const weights = parseWeights(params.get('weights'))
+  const origins = parseOrigins(params.get('origins'))
+  const modes = parseModes(params.get('modes'))
+  const alternatives = parseAlternatives(params.get('alts'))
   const locations: Location[] = []
 
-  for (const entry of entries) {
+  for (const [index, entry] of entries.entries()) {
     if (locations.length >= MAX_URL_LOCATIONS) break
 
-    const parts = entry.split(',')
-    if (parts.length < 3) continue
+    // URLSearchParams already decoded percent-encoded sequences in the label
+    const point = parseLabeledPoint(entry)
+    if (!point) continue
 
-    // Coordinates are always the last two parts (never percent-encoded)
-    const lng = Number(parts[parts.length - 1])
-    const lat = Number(parts[parts.length - 2])
-    // Label is everything before the last two parts.
-    // URLSearchParams already decoded percent-encoded sequences.
-    const label = parts.slice(0, -2).join(',')
-
-    if (!label || Number.isNaN(lat) || Number.isNaN(lng)) continue
-    if (lat < -90 || lat > 90 || lng < -180 || lng > 180) continue
-
-    locations.push({ id: crypto.randomUUID(), label, latlng: { lat, lng } })
+    // Per-location params are aligned with the raw entries, so skipped entries do not shift them
+    const weight = weights[index]
+    const stationIds = origins[index]
+    const mode = modes[index]
+    const alts = alternatives.get(index)
+    locations.push({
+      id: crypto.randomUUID(),
+      ...point,
+      ...(weight !== undefined && weight !== 1 && { weight }),
+      ...(stationIds && { origin: { stationIds, name: '', lines: [], lineKeys: [] } }),
+      ...(mode && { mode }),
+      ...(alts && { alternatives: alts }),
+    })
   }
 
   return locations
 }
 
+/**
+ * Deserialize the `objective` param; unknown or missing values fall back to the default.
+ */
+export function deserializeObjective(search: string): ObjectiveKind {
+  const raw = new URLSearchParams(search).get('objective')
+  return OBJECTIVE_KINDS.find((kind) => kind === raw) ?? DEFAULT_OBJECTIVE
+}
+
+/**
+ * Deserialize the `meet` param ("HH:MM") into minutes after midnight;
+ * missing or malformed values are null.
+ */
+export function deserializeMeetingTime(search: string): number | null {
+  const raw = new URLSearchParams(search).get('meet')
+  return raw === null ? null : parseClockTime(raw)
+}
+
+/**
+ * Deserialize the `dest` param ("label,lat,lng", like one `locations` entry);
+ * missing or invalid values are null.
+ */
+export function deserializeDestination(search: string): Destination | null {
+  const raw = new URLSearchParams(search).get('dest')
+  return raw ? parseLabeledPoint(raw) : null
+}
+
+/**
+ * Serialize the complete share state (locations plus settings) into a URL search string.
+ * Default settings are omitted so that plain links stay as short as before.
+ */
+export function serializeShareQuery(locations: Location[], options?: ShareOptions): string {
+  const parts = [serializeLocations(locations)]
+  const objective = options?.objective ?? DEFAULT_OBJECTIVE
+  if (objective !== DEFAULT_OBJECTIVE) {
+    parts.push(`objective=${objective}`)
+  }
+  if (options?.meetingTime != null) {
+    parts.push(`meet=${formatClockTime(options.meetingTime)}`)
+  }
+  const destination = options?.destination
+  if (destination) {
+    parts.push(`dest=${formatLabeledPoint(destination.label, destination.latlng)}`)
+  }
+  return parts.filter(Boolean).join('&')
+}
+
 /**
  * Restore locations from the current page URL.
  * Intended as a lazy initializer for `useState`.
@@ -70,11 +259,38 @@ export function getInitialLocationsFromUrl(): Location[] {
 }
 
 /**
- * Build a complete shareable URL for the given locations.
+ * Restore the objective from the current page URL.
+ * Intended as a lazy initializer for `useState`.
+ */
+export function getInitialObjectiveFromUrl(): ObjectiveKind {
+  if (typeof window === 'undefined') return DEFAULT_OBJECTIVE
+  return deserializeObjective(window.location.search)
+}
+
+/**
+ * Restore the meeting time from the current page URL.
+ * Intended as a lazy initializer for `useState`.
+ */
+export function getInitialMeetingTimeFromUrl(): number | null {
+  if (typeof window === 'undefined') return null
+  return deserializeMeetingTime(window.location.search)
+}
+
+/**
+ * Restore the shared destination from the current page URL.
+ * Intended as a lazy initializer for `useState`.
+ */
+export function getInitialDestinationFromUrl(): Destination | null {
+  if (typeof window === 'undefined') return null
+  return deserializeDestination(window.location.search)
+}
+
+/**
+ * Build a complete shareable URL for the given locations and settings.
  */
-export function buildShareUrl(locations: Location[]): string {
+export function buildShareUrl(locations: Location[], options?: ShareOptions): string {
   if (typeof window === 'undefined') return ''
   const base = `${window.location.origin}${window.location.pathname}`
-  const query = serializeLocations(locations)
+  const query = serializeShareQuery(locations, options)
   return query ? `${base}?${query}` : base
 }
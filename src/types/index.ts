@@ -6,6 +6,35 @@ export interface LatLng {
   lng: number
 }
 
+/**
+ * Geometry used when averaging coordinates:
+ * - `planar`: treat latitude/longitude as flat x/y coordinates
+ * - `spherical`: average unit vectors in 3D (ECEF) space and project back onto the sphere
+ */
+export type GeometryMode = 'planar' | 'spherical'
+
+/**
+ * Earth model used when measuring distances:
+ * - `haversine`: great-circle distance on a 6371 km sphere
+ * - `vincenty`: geodesic distance on the WGS84 ellipsoid
+ */
+export type DistanceMetric = 'haversine' | 'vincenty'
+
+/** The station a location was picked from, so line-aware features know where people board */
+export interface StationOrigin {
+  /** Ids of the station's rows in the dataset (one per line serving it) */
+  stationIds: number[]
+  /** Station name (empty until resolved when restored from a URL) */
+  name: string
+  /** Lines serving the station, in dataset order (empty until resolved) */
+  lines: string[]
+  /**
+   * Keys of those lines (`lineKey`: operator and name), which tell apart the many operators'
+   * 本線; empty until resolved
+   */
+  lineKeys: string[]
+}
+
 /** A labeled location with coordinates */
 export interface Location {
   /** Unique identifier (assigned at creation, not persisted to URL) */
@@ -14,6 +43,26 @@ export interface Location {
   label: string
   /** Geographic coordinates */
   latlng: LatLng
+  /**
+   * Relative weight in the optimization, e.g. the number of people this pin stands for
+   * (default: 1 when omitted)
+   */
+  weight?: number
+  /** Station the location was picked from (omitted for coordinates entered by hand) */
+  origin?: StationOrigin
+  /** How this participant travels (default: 'train' when omitted) */
+  mode?: TravelMode
+  /**
+   * Other places this participant may set off from instead, e.g. the office besides home.
+   * Station suggestions assume whichever origin is nearest to each station.
+   */
+  alternatives?: AlternativeOrigin[]
+}
+
+/** Another place a participant may set off from */
+export interface AlternativeOrigin {
+  label: string
+  latlng: LatLng
 }
 
 /** Station with latitude/longitude coordinates */
@@ -26,18 +75,336 @@ export interface StationWithCoords {
   lng: number
 }
 
+/**
+ * Rail network edge as stored in the static asset: [from station id, to station id, meters].
+ * Edges are undirected.
+ */
+export type RailNetworkEdge = [number, number, number]
+
+/**
+ * Static rail network (`/rail-network.json`) generated from N02 railroad sections.
+ * Nodes are `StationWithCoords.id` values, i.e. one node per station and line.
+ */
+export interface RailNetwork {
+  /** Adjacent stations on the same line, with the track length between them */
+  tracks: RailNetworkEdge[]
+  /** Same-name stations on different lines (changing trains), with the walking distance */
+  transfers: RailNetworkEdge[]
+}
+
+/**
+ * One scheduled hop between consecutive stops of a trip:
+ * [from station id, to station id, departure, arrival, trip index]. Times are seconds after
+ * midnight of the service day and may exceed 24:00, as in GTFS.
+ */
+export type TimetableConnection = [number, number, number, number, number]
+
+/** Walking transfer between two stations: [from station id, to station id, seconds] */
+export type TimetableTransfer = [number, number, number]
+
+/**
+ * Static timetable (`/timetable.json`) generated from a GTFS / GTFS-JP feed.
+ * Stops are mapped to `StationWithCoords.id` values, so regenerate it with the station dataset.
+ */
+export interface Timetable {
+  /** Every connection, sorted by departure time */
+  connections: TimetableConnection[]
+  /**
+   * Walking transfers between stations. An entry from a station to itself is the minimum
+   * time needed to change trains there.
+   */
+  transfers: TimetableTransfer[]
+}
+
 /** A station with its distance from a reference point */
 export interface NearbyStation extends StationWithCoords {
   /** Distance from the reference point in meters */
   distance_meters: number
 }
 
+/**
+ * Objective minimized when recommending a station, over per-participant distances d_i
+ * with weights w_i:
+ * - `sum`: Σ w_i·d_i (total travel)
+ * - `sumOfSquares`: Σ w_i·d_i² (penalizes long trips more than short ones)
+ * - `max`: max d_i (worst-off participant)
+ * - `sumPlusMax`: Σ w_i·d_i + λ·max d_i (total travel with a fairness penalty)
+ * - `stdDev`: weighted standard deviation of d_i (equal trips for everyone)
+ * - `totalTime`: Σ w_i·t_i with estimated travel minutes t_i (total time)
+ * - `maxTime`: max t_i (the longest trip in minutes)
+ */
+export type ObjectiveKind =
+  | 'sum'
+  | 'sumOfSquares'
+  | 'max'
+  | 'sumPlusMax'
+  | 'stdDev'
+  | 'totalTime'
+  | 'maxTime'
+
+/** How a participant travels to the meeting point */
+export type TravelMode = 'walk' | 'bicycle' | 'car' | 'train'
+
+/** Speed model of one travel mode */
+export interface TravelProfile {
+  /** Average speed along the actual route (km/h) */
+  speedKmh: number
+  /** Route length per straight-line km (≥ 1; roads and tracks are not straight) */
+  circuity: number
+}
+
+/** Speed model of every travel mode */
+export type TravelProfiles = Record<TravelMode, TravelProfile>
+
 /** Result of K-medoid selection over candidate stations */
 export interface KMedoidResult {
-  /** Station minimizing the sum of distances to all participants */
+  /** Station minimizing the active objective */
+  station: StationWithCoords
+  /** Weighted sum of distances from all participants (km) */
+  totalDistance: number
+  /** Value of the active objective at this station (km, or km² for `sumOfSquares`) */
+  score: number
+  /** Objective the station was selected under */
+  objective: ObjectiveKind
+  /** Number of candidate stations whose objective was fully evaluated */
+  candidatesEvaluated: number
+  /**
+   * Origin each participant was assumed to set off from, aligned with the participants
+   * (0: their own location, k: their k-th alternative). Only set when alternatives were given.
+   */
+  assumedOrigins?: number[]
+}
+
+/**
+ * How the suggested station is picked: by straight-line distance, by rail network distance,
+ * or by the fewest changes of trains (distance breaks ties)
+ */
+export type DistanceBasis = 'straight' | 'rail' | 'transfers'
+
+/** One participant's trip to a station over the rail network */
+export interface RailJourney {
+  /** Station the participant walks to and boards at */
+  accessStation: StationWithCoords
+  /** Walking distance from the participant to `accessStation` (km) */
+  walkDistance: number
+  /** Shortest distance along the tracks, transfers included (km) */
+  railDistance: number
+  /** walkDistance + railDistance (km) */
+  totalDistance: number
+}
+
+/**
+ * K-medoid station selected by rail network distance instead of straight-line distance.
+ * `totalDistance` and `score` are computed from the journeys' total distances.
+ */
+export interface NetworkStationResult extends KMedoidResult {
+  /** Each participant's journey, aligned with the participants */
+  journeys: RailJourney[]
+}
+
+/**
+ * K-medoid station ranked by the number of changes of trains first, distance second.
+ * `score` and `totalDistance` are the straight-line distance figures used as the tie-breaker.
+ */
+export interface TransferStationResult extends KMedoidResult {
+  /** Line names serving the station */
+  lines: string[]
+  /** Changes of trains each participant needs (0 = direct), aligned with the participants */
+  transfers: number[]
+  /** Station each participant is assumed to board at (their nearest), aligned likewise */
+  origins: StationWithCoords[]
+}
+
+/**
+ * K-medoid station among those directly reachable (sharing a line with the origin station)
+ * by the most participants.
+ */
+export interface DirectStationResult extends KMedoidResult {
+  /** Number of participants who can ride there without changing trains */
+  directCount: number
+}
+
+/** Smallest circle on the sphere enclosing every participant (minimax / 1-center) */
+export interface EnclosingCircle {
+  /** Point minimizing the maximum distance to any participant */
+  center: LatLng
+  /** Distance from the center to the farthest participant (km) */
+  radius: number
+}
+
+/** Result of minimax selection over candidate stations */
+export interface MinimaxStationResult {
+  /** Station minimizing the maximum distance to any participant */
+  station: StationWithCoords
+  /** Distance from the station to the farthest participant (km) */
+  maxDistance: number
+}
+
+/** A group of participants sharing one meeting station */
+export interface ParticipantCluster {
+  /** Meeting station for this group */
+  station: StationWithCoords
+  /** Indices of the member participants in the input order */
+  memberIndices: number[]
+  /** Weighted sum of member distances to the station (km) */
+  totalDistance: number
+}
+
+/** Participants split into several groups, each with its own meeting station */
+export interface StationClustering {
+  clusters: ParticipantCluster[]
+  /** Weighted sum of every participant's distance to their group's station (km) */
+  totalDistance: number
+}
+
+/** Number of meeting stations to split into: a fixed count, or chosen automatically */
+export type ClusterCount = number | 'auto'
+
+/** Diagnostics of the iterative geometric median solver */
+export interface SolverReport {
+  /** Number of Weiszfeld updates performed */
+  iterations: number
+  /** Distance moved by the last update (km) */
+  stepSize: number
+  /** Whether the solver met its tolerance (false: stopped at the iteration limit) */
+  converged: boolean
+  /** Weighted sum of distances at the returned point (km) */
+  objective: number
+}
+
+/** Geometric median together with its solver report */
+export interface GeometricMedianSolution {
+  point: LatLng
+  report: SolverReport
+}
+
+/** How the meeting points respond to one participant dropping out or counting double */
+export interface ParticipantInfluence {
+  /** Geometric median without this participant */
+  medianWithout: LatLng
+  /** Geometric median with this participant's weight doubled */
+  medianDoubled: LatLng
+  /** Distance the centroid moves without the participant (km) */
+  centroidShiftWithout: number
+  /** Distance the centroid moves with the participant's weight doubled (km) */
+  centroidShiftDoubled: number
+  /** Distance the geometric median moves without the participant (km) */
+  medianShiftWithout: number
+  /** Distance the geometric median moves with the participant's weight doubled (km) */
+  medianShiftDoubled: number
+  /** Suggested station without the participant (null when none is found) */
+  stationWithout: StationWithCoords | null
+  /** Suggested station with the participant's weight doubled (null when none is found) */
+  stationDoubled: StationWithCoords | null
+  /** Whether the suggested station (by name) differs without the participant */
+  stationChangesWithout: boolean
+  /** Whether the suggested station (by name) differs with the participant's weight doubled */
+  stationChangesDoubled: boolean
+}
+
+/** Leave-one-out and doubled-weight analysis of the meeting points */
+export interface SensitivityAnalysis {
+  /** Centroid with everyone at their own weight */
+  centroid: LatLng
+  /** Geometric median with everyone at their own weight */
+  median: LatLng
+  /** Suggested station with everyone at their own weight */
+  station: StationWithCoords | null
+  /** Each participant's influence, aligned with the participants */
+  influences: ParticipantInfluence[]
+}
+
+/**
+ * Station where the participants' distances are most equal (the largest |d_i − d_j| is
+ * smallest) among those whose total distance stays under a cap above the best station's
+ */
+export interface BalancedStationResult {
   station: StationWithCoords
-  /** Sum of haversine distances from all participants (km) */
+  /** Each participant's distance to the station (km), aligned with the participants */
+  distances: number[]
+  /** Largest difference between two participants' distances (km) */
+  spread: number
+  /** Weighted sum of distances from all participants (km) */
   totalDistance: number
+  /** How much longer the total is than the best station's, as a fraction */
+  excess: number
+  /** Cap on `excess` the station was selected under */
+  cap: number
+  /** Whether the search ran along the great-circle corridor between two participants */
+  corridor: boolean
+}
+
+/** How evenly the travel distances to one meeting point are shared among participants */
+export interface FairnessMetrics {
+  /** Weighted sum of the distances (km) */
+  total: number
+  /** Weighted mean distance (km) */
+  mean: number
+  /** Longest individual distance (km) */
+  max: number
+  /** Longest minus shortest individual distance (km) */
+  spread: number
+  /** Weighted standard deviation of the distances (km) */
+  stdDev: number
+  /**
+   * Weighted Gini coefficient of the distances: 0 when everyone travels the same distance,
+   * approaching 1 when one participant does all the travelling
+   */
+  gini: number
+}
+
+/** A station (grouped by name) whose total distance is close to the best station's */
+export interface NearOptimalStation {
+  name: string
+  /** Coordinates of the group's best row */
+  lat: number
+  lng: number
+  /** Line names across the group's rows */
+  lines: string[]
+  /** Weighted sum of distances from all participants (km) */
+  totalDistance: number
+  /** Distance to the farthest participant (km) */
+  maxDistance: number
+  /** Farthest minus nearest participant distance (km) */
+  spread: number
+  /** How much longer the total is than the best station's, as a fraction (0: the best) */
+  excess: number
+}
+
+/** Every station within a tolerance of the best total distance, and the region they lie in */
+export interface NearOptimalShortlist {
+  /** Tolerance the shortlist was built with, as a fraction above the best total */
+  tolerance: number
+  /** Best station total distance (km) */
+  bestTotal: number
+  /** Stations ranked by total distance */
+  stations: NearOptimalStation[]
+  /**
+   * Outline of the region where the total distance stays within the tolerance of the best
+   * station's (empty when it could not be traced)
+   */
+  region: LatLng[]
+}
+
+/** Latitude/longitude rectangle (degrees) */
+export interface GeoBounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+/**
+ * Weighted total distance from every participant, sampled on a grid that is regular on the
+ * map. Node (r, c) lies at the latitude whose Web Mercator y is
+ * `y(south) + r·(y(north) − y(south))/(rows − 1)` and at longitude `west + c·(east − west)/(cols − 1)`.
+ */
+export interface DistanceGrid {
+  bounds: GeoBounds
+  rows: number
+  cols: number
+  /** Total distance at each node (km), row-major from the south-west corner */
+  values: number[]
 }
 
 /** Request to focus the map on a specific point; seq invalidates the effect for repeated clicks */
@@ -46,12 +413,37 @@ export interface MapFocusRequest {
   seq: number
 }
 
+/** Where the group heads together after meeting (a venue, an airport, a hot spring…) */
+export interface Destination {
+  label: string
+  latlng: LatLng
+}
+
+/**
+ * The group's onward trip from the meeting point to a shared destination, added to the
+ * objective as `weight · d(meeting point, destination)`
+ */
+export interface DestinationLeg {
+  point: LatLng
+  /** Multiplier on the onward distance (1: the group travels it together, counted once) */
+  weight: number
+}
+
+/** Meeting points computed for a set of participants, without the inputs themselves */
+export type MeetingPoints = Omit<MeetingPointResult, 'locations' | 'destination'>
+
 /** Result of meeting point calculation */
 export interface MeetingPointResult {
   /** Centroid (arithmetic mean) of all locations */
   centroid: LatLng
   /** Geometric median (Weiszfeld point) of all locations */
   geometricMedian: LatLng
+  /** Diagnostics of the Weiszfeld iteration that produced `geometricMedian` */
+  medianReport?: SolverReport
+  /** Smallest enclosing circle; its center is the "fairest" (minimax) point */
+  minimaxCircle?: EnclosingCircle
   /** Input locations used for the calculation */
   locations: Location[]
+  /** Shared destination `geometricMedian` was solved toward (absent when none is set) */
+  destination?: Destination
 }